@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "../interfaces/IEpicStarterMerkleDistributor.sol";
+
+/**
+ * @title EpicStarterMerkleDistributor
+ * @dev Merkle airdrop distributor for EpicStarter (EPCS)
+ * @author EpicChain Labs
+ *
+ * Features:
+ * - Sorted-pair Merkle proofs built by utils/merkle.ts
+ * - One claim per account, sent to the account itself
+ * - Claim deadline after which the owner sweeps unclaimed tokens
+ * - Reentrancy protection
+ */
+contract EpicStarterMerkleDistributor is Ownable, ReentrancyGuard, IEpicStarterMerkleDistributor {
+    using SafeERC20 for IERC20;
+
+    // State variables
+    IERC20 private immutable _token;
+    bytes32 private immutable _merkleRoot;
+    uint64 private immutable _claimDeadline;
+
+    uint256 private _totalClaimed;
+
+    // Mapping from account to claimed flag
+    mapping(address => bool) private _claimed;
+
+    /**
+     * @dev Constructor sets the distributed token, the Merkle root and the claim deadline
+     * @param token_ The EPCS token address
+     * @param merkleRoot_ The Merkle root of the distribution
+     * @param claimDeadline_ The timestamp after which claims are closed
+     * @param initialOwner The address that will own the distributor
+     */
+    constructor(address token_, bytes32 merkleRoot_, uint64 claimDeadline_, address initialOwner) {
+        if (token_ == address(0)) revert AirdropInvalidAddress();
+        if (initialOwner == address(0)) revert AirdropInvalidAddress();
+        if (merkleRoot_ == bytes32(0)) revert AirdropInvalidRoot();
+        if (claimDeadline_ <= block.timestamp) revert AirdropInvalidDeadline();
+
+        _token = IERC20(token_);
+        _merkleRoot = merkleRoot_;
+        _claimDeadline = claimDeadline_;
+        _transferOwnership(initialOwner);
+    }
+
+    /**
+     * @dev Claims the airdrop of an account
+     * @param account The account in the Merkle tree
+     * @param amount The amount in the Merkle tree
+     * @param merkleProof Sibling hashes from the leaf to the root
+     */
+    function claim(
+        address account,
+        uint256 amount,
+        bytes32[] calldata merkleProof
+    ) external override nonReentrant {
+        if (block.timestamp > _claimDeadline) revert AirdropExpired();
+        if (_claimed[account]) revert AirdropAlreadyClaimed();
+
+        bytes32 leaf = keccak256(abi.encodePacked(account, amount));
+        if (!MerkleProof.verifyCalldata(merkleProof, _merkleRoot, leaf)) revert AirdropInvalidProof();
+
+        _claimed[account] = true;
+        _totalClaimed += amount;
+
+        _token.safeTransfer(account, amount);
+
+        emit Claimed(account, amount);
+    }
+
+    /**
+     * @dev Sends all unclaimed tokens to `to` once the claim deadline has passed
+     * @param to The address to send the tokens to
+     */
+    function sweep(address to) external onlyOwner nonReentrant {
+        if (block.timestamp <= _claimDeadline) revert AirdropNotExpired();
+        if (to == address(0)) revert AirdropInvalidAddress();
+
+        uint256 amount = _token.balanceOf(address(this));
+        if (amount == 0) revert AirdropNothingToSweep();
+
+        _token.safeTransfer(to, amount);
+
+        emit Swept(to, amount);
+    }
+
+    /**
+     * @dev Returns the EPCS token being distributed
+     */
+    function token() external view override returns (address) {
+        return address(_token);
+    }
+
+    /**
+     * @dev Returns the Merkle root of the distribution
+     */
+    function merkleRoot() external view override returns (bytes32) {
+        return _merkleRoot;
+    }
+
+    /**
+     * @dev Returns the timestamp after which claims are closed
+     */
+    function claimDeadline() external view override returns (uint64) {
+        return _claimDeadline;
+    }
+
+    /**
+     * @dev Returns true if an account has claimed
+     * @param account The account to check
+     */
+    function isClaimed(address account) external view override returns (bool) {
+        return _claimed[account];
+    }
+
+    /**
+     * @dev Returns the total amount claimed
+     */
+    function totalClaimed() external view returns (uint256) {
+        return _totalClaimed;
+    }
+}
@@ -32,7 +32,8 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
      * @dev Burns a specific amount of tokens from the caller's account
      * @param amount The amount of tokens to burn
      */
-    function burn(uint256 amount) external override nonReentrant {
+    function burn(uint256 amount) external virtual override nonReentrant {
+        _checkBurnAllowed();
         if (amount == 0) revert BurnZeroAmount();
 
         address account = _msgSender();
@@ -54,7 +55,8 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
      * @param account The account to burn tokens from
      * @param amount The amount of tokens to burn
      */
-    function burnFrom(address account, uint256 amount) external override nonReentrant {
+    function burnFrom(address account, uint256 amount) external virtual override nonReentrant {
+        _checkBurnAllowed();
         if (account == address(0)) revert BurnFromZeroAddress();
         if (amount == 0) revert BurnZeroAmount();
 
@@ -80,7 +82,7 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
      * @dev Returns the total amount of tokens burned
      * @return The total burned token amount
      */
-    function totalBurned() external view override returns (uint256) {
+    function totalBurned() public view virtual override returns (uint256) {
         return _totalBurned;
     }
 
@@ -88,7 +90,7 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
      * @dev Returns the maximum total supply before any burns
      * @return The maximum supply amount
      */
-    function maxSupply() external view override returns (uint256) {
+    function maxSupply() external view virtual override returns (uint256) {
         return _maxSupply;
     }
 
@@ -96,7 +98,7 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
      * @dev Returns the current circulating supply (total supply - burned tokens)
      * @return The circulating supply amount
      */
-    function circulatingSupply() external view override returns (uint256) {
+    function circulatingSupply() public view virtual override returns (uint256) {
         return totalSupply();
     }
 
@@ -113,11 +115,16 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
      * @dev Returns the burn rate (percentage of total supply burned)
      * @return The burn rate as a percentage (multiplied by 100)
      */
-    function burnRate() external view returns (uint256) {
+    function burnRate() public view returns (uint256) {
         if (_maxSupply == 0) return 0;
         return (_totalBurned * 10000) / _maxSupply; // Returns percentage * 100
     }
 
+    /**
+     * @dev Hook checked before holder burns (burn, burnFrom); admin burns skip it
+     */
+    function _checkBurnAllowed() internal view virtual {}
+
     /**
      * @dev Internal function to handle burning logic
      * @param account The account to burn from
@@ -132,20 +139,62 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
     }
 
     /**
-     * @dev Emergency burn function - only owner can call
+     * @dev Burns a transfer fee; it counts in totalBurned but not in the payer's burnedBalanceOf
+     * @param account The account paying the fee
+     * @param amount The amount to burn
+     */
+    function _burnFee(address account, uint256 amount) internal {
+        _burn(account, amount);
+        _totalBurned += amount;
+    }
+
+    /**
+     * @dev Restricts emergencyBurn and batchBurn to accounts allowed by _checkAdminBurner
+     */
+    modifier onlyAdminBurner() {
+        _checkAdminBurner();
+        _;
+    }
+
+    /**
+     * @dev Reverts unless the caller may burn from other accounts; the owner by default
+     */
+    function _checkAdminBurner() internal view virtual {
+        _checkOwner();
+    }
+
+    /**
+     * @dev Hook called before every admin burn with the amount about to be burned
+     * @param burner The account performing the burn
+     * @param amount The amount to burn
+     */
+    function _beforeAdminBurn(address burner, uint256 amount) internal virtual {}
+
+    /**
+     * @dev Burns from an account on behalf of an admin burner and emits the admin burn events
+     */
+    function _adminBurn(address account, uint256 amount) private {
+        address burner = _msgSender();
+        _beforeAdminBurn(burner, amount);
+        _burnTokens(account, amount);
+
+        emit Burn(account, amount);
+        emit AdminBurn(burner, account, amount);
+    }
+
+    /**
+     * @dev Emergency burn function - only admin burners can call
      * @param account The account to burn from
      * @param amount The amount to burn
      */
-    function emergencyBurn(address account, uint256 amount) external onlyOwner nonReentrant {
+    function emergencyBurn(address account, uint256 amount) external onlyAdminBurner nonReentrant {
         if (account == address(0)) revert BurnFromZeroAddress();
         if (amount == 0) revert BurnZeroAmount();
 
         uint256 accountBalance = balanceOf(account);
         if (accountBalance < amount) revert BurnExceedsBalance();
 
-        _burnTokens(account, amount);
-
-        emit Burn(account, amount);
+        _adminBurn(account, amount);
     }
 
     /**
@@ -153,7 +202,10 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
      * @param accounts Array of accounts to burn from
      * @param amounts Array of amounts to burn
      */
-    function batchBurn(address[] calldata accounts, uint256[] calldata amounts) external onlyOwner nonReentrant {
+    function batchBurn(
+        address[] calldata accounts,
+        uint256[] calldata amounts
+    ) external onlyAdminBurner nonReentrant {
         if (accounts.length != amounts.length) revert("Arrays length mismatch");
 
         for (uint256 i = 0; i < accounts.length; i++) {
@@ -162,8 +214,7 @@ abstract contract BurnableExtension is ERC20, Ownable, ReentrancyGuard, IBurnabl
 
             uint256 accountBalance = balanceOf(accounts[i]);
             if (accountBalance >= amounts[i]) {
-                _burnTokens(accounts[i], amounts[i]);
-                emit Burn(accounts[i], amounts[i]);
+                _adminBurn(accounts[i], amounts[i]);
             }
         }
     }
@@ -10,24 +10,39 @@ import "../interfaces/IPausable.sol";
  * @title PausableExtension
  * @dev Extension contract that adds pausing functionality to ERC20 tokens
  * @author EpicChain Labs
+ *
+ * Every pause is kept as a PauseRecord (initiator, reason code, start, end, optional auto-expiry).
+ * The contract is paused while the latest record is open and not expired, so a pause with an
+ * expiry ends without an unpause transaction; its end is then reported as the expiry time.
+ *
+ * Each PauseScope can also be paused on its own. The global pause halts the scopes that move
+ * balances between accounts (transfer, transferFrom, batchTransfer); approvals, burns and
+ * emergency withdrawals keep working unless their own scope is paused.
+ *
+ * Allowlisted accounts (e.g. presale, vesting and distribution contracts) keep sending during
+ * the global pause; sending to them is still paused, and paused scopes still apply to them.
  */
 abstract contract PausableExtension is ERC20, Ownable, ReentrancyGuard, IPausable {
 
-    // State variables
-    bool private _paused;
-
-    // Mapping to track pause timestamps
-    mapping(uint256 => uint256) private _pauseHistory;
+    // Pause records, oldest first
+    mapping(uint256 => PauseRecord) private _pauseRecords;
     uint256 private _pauseCount;
 
-    // Emergency pause flag
-    bool private _emergencyPaused;
+    // Bit i set while PauseScope(i) is paused on its own
+    uint256 private _pausedScopes;
+
+    // Accounts that can send while the token is paused; they receive only from other allowlisted accounts
+    mapping(address => bool) private _pauseAllowlist;
+
+    // Scopes the global pause halts
+    uint256 private constant GLOBAL_PAUSE_SCOPES =
+        (1 << uint8(PauseScope.Transfer)) | (1 << uint8(PauseScope.TransferFrom)) | (1 << uint8(PauseScope.BatchTransfer));
 
     /**
      * @dev Modifier to make a function callable only when the contract is not paused
      */
     modifier whenNotPaused() {
-        if (_paused) revert TokenPaused();
+        if (_isPaused()) revert TokenPaused();
         _;
     }
 
@@ -35,75 +50,132 @@ abstract contract PausableExtension is ERC20, Ownable, ReentrancyGuard, IPausabl
      * @dev Modifier to make a function callable only when the contract is paused
      */
     modifier whenPaused() {
-        if (!_paused) revert TokenNotPaused();
+        if (!_isPaused()) revert TokenNotPaused();
         _;
     }
 
-    /**
-     * @dev Constructor initializes the contract as not paused
-     */
-    constructor() {
-        _paused = false;
-    }
-
     /**
      * @dev Returns true if the contract is paused, and false otherwise
      * @return True if paused, false otherwise
      */
-    function paused() public view override returns (bool) {
-        return _paused || _emergencyPaused;
+    function paused() public view virtual override returns (bool) {
+        return _isPaused();
     }
 
     /**
-     * @dev Triggers stopped state
+     * @dev Opens a pause record
      * Requirements:
      * - The contract must not be paused
-     * - Only owner can pause
+     * @param reason Reason code stored with the record
+     * @param duration Seconds after which transfers resume on their own, zero for no expiry
      */
-    function pause() external override onlyOwner {
-        if (_paused) revert TokenAlreadyPaused();
+    function _pause(bytes32 reason, uint64 duration) internal virtual {
+        if (_isPaused()) revert TokenAlreadyPaused();
 
-        _paused = true;
-        _pauseHistory[_pauseCount] = block.timestamp;
-        _pauseCount++;
+        uint64 expiresAt = duration == 0 ? 0 : uint64(block.timestamp) + duration;
+        _openPauseRecord(reason, expiresAt, false);
 
         emit Paused(_msgSender());
     }
 
     /**
-     * @dev Returns to normal state
+     * @dev Closes the open pause record
      * Requirements:
      * - The contract must be paused
-     * - Only owner can unpause
      */
-    function unpause() external override onlyOwner {
-        if (!_paused) revert TokenNotPaused();
+    function _unpause() internal virtual {
+        if (!_isPaused()) revert TokenNotPaused();
 
-        _paused = false;
-        _emergencyPaused = false; // Clear emergency pause as well
+        _pauseRecords[_pauseCount - 1].endedAt = uint64(block.timestamp);
 
         emit Unpaused(_msgSender());
     }
 
     /**
-     * @dev Emergency pause function - can be called by owner even if already paused
+     * @dev Emergency pause - works even if already paused, in which case the open record
+     * becomes an emergency pause and loses its auto-expiry
+     * @param reason Reason code stored when a new record is opened
      */
-    function emergencyPause() external onlyOwner {
-        _emergencyPaused = true;
-        if (!_paused) {
-            _paused = true;
-            _pauseHistory[_pauseCount] = block.timestamp;
-            _pauseCount++;
+    function _emergencyPause(bytes32 reason) internal virtual {
+        if (_isPaused()) {
+            PauseRecord storage record = _pauseRecords[_pauseCount - 1];
+            record.emergency = true;
+            record.expiresAt = 0;
+        } else {
+            _openPauseRecord(reason, 0, true);
         }
 
         emit Paused(_msgSender());
     }
 
+    /**
+     * @dev Pauses or resumes a single scope, independently of the global pause
+     * @param scope The scope to update
+     * @param scopePaused True to pause the scope, false to resume it
+     */
+    function _setScopePaused(PauseScope scope, bool scopePaused) internal virtual {
+        uint256 bit = 1 << uint8(scope);
+        if (((_pausedScopes & bit) != 0) == scopePaused) {
+            if (scopePaused) revert TokenAlreadyPaused();
+            revert TokenNotPaused();
+        }
+
+        _pausedScopes = scopePaused ? _pausedScopes | bit : _pausedScopes & ~bit;
+
+        emit PauseScopeUpdated(scope, scopePaused, _msgSender());
+    }
+
+    /**
+     * @dev Adds an account to or removes it from the pause allowlist
+     * @param account The account to update
+     * @param allowed True to let the account transfer while paused
+     */
+    function _setPauseAllowlist(address account, bool allowed) internal virtual {
+        _pauseAllowlist[account] = allowed;
+        emit PauseAllowlistUpdated(account, allowed);
+    }
+
+    /**
+     * @dev Reverts if the scope is paused on its own; the global pause is enforced in _beforeTokenTransfer
+     */
+    function _requireScopeNotPaused(PauseScope scope) internal view {
+        if ((_pausedScopes & (1 << uint8(scope))) != 0) revert TokenScopePaused(scope);
+    }
+
+    /**
+     * @dev Appends a record, first closing a previous one that ended by expiring
+     */
+    function _openPauseRecord(bytes32 reason, uint64 expiresAt, bool emergency) private {
+        if (_pauseCount > 0) {
+            PauseRecord storage previous = _pauseRecords[_pauseCount - 1];
+            if (previous.endedAt == 0) previous.endedAt = previous.expiresAt;
+        }
+
+        _pauseRecords[_pauseCount++] = PauseRecord({
+            initiator: _msgSender(),
+            reason: reason,
+            startedAt: uint64(block.timestamp),
+            endedAt: 0,
+            expiresAt: expiresAt,
+            emergency: emergency
+        });
+    }
+
+    /**
+     * @dev True while the latest record is open and has not expired
+     */
+    function _isPaused() internal view returns (bool) {
+        if (_pauseCount == 0) return false;
+
+        PauseRecord storage record = _pauseRecords[_pauseCount - 1];
+        return record.endedAt == 0 && (record.expiresAt == 0 || block.timestamp < record.expiresAt);
+    }
+
     /**
      * @dev Returns the number of times the contract has been paused
      * @return The pause count
      */
-    function getPauseCount() external view returns (uint256) {
+    function getPauseCount() public view returns (uint256) {
         return _pauseCount;
     }
 
@@ -114,15 +186,29 @@ abstract contract PausableExtension is ERC20, Ownable, ReentrancyGuard, IPausabl
      */
     function getPauseTimestamp(uint256 index) external view returns (uint256) {
         require(index < _pauseCount, "Invalid pause index");
-        return _pauseHistory[index];
+        return _pauseRecords[index].startedAt;
+    }
+
+    /**
+     * @dev Returns a pause record; an expired pause reports its expiry as the end time
+     * @param index The index of the pause record
+     * @return record The pause record
+     */
+    function getPauseRecord(uint256 index) external view returns (PauseRecord memory record) {
+        require(index < _pauseCount, "Invalid pause index");
+
+        record = _pauseRecords[index];
+        if (record.endedAt == 0 && record.expiresAt != 0 && block.timestamp >= record.expiresAt) {
+            record.endedAt = record.expiresAt;
+        }
     }
 
     /**
      * @dev Returns true if the contract is in emergency pause mode
      * @return True if emergency paused, false otherwise
      */
-    function isEmergencyPaused() external view returns (bool) {
-        return _emergencyPaused;
+    function isEmergencyPaused() public view returns (bool) {
+        return _isPaused() && _pauseRecords[_pauseCount - 1].emergency;
     }
 
     /**
@@ -130,7 +216,7 @@ abstract contract PausableExtension is ERC20, Ownable, ReentrancyGuard, IPausabl
      * This should be called by _beforeTokenTransfer
      */
     function _checkPauseState() internal view {
-        if (_paused || _emergencyPaused) revert TokenPaused();
+        if (_isPaused()) revert TokenPaused();
     }
 
     /**
@@ -145,42 +231,108 @@ abstract contract PausableExtension is ERC20, Ownable, ReentrancyGuard, IPausabl
 
         // Allow minting even when paused (from == address(0))
         // Allow burning even when paused (to == address(0))
-        if (from != address(0) && to != address(0)) {
+        // Allow transfers from an allowlisted account even when paused
+        if (from != address(0) && to != address(0) && !_pauseAllowlist[from]) {
             _checkPauseState();
         }
     }
 
+    /**
+     * @dev Transfers unless the Transfer scope is paused
+     */
+    function transfer(address to, uint256 amount) public virtual override returns (bool) {
+        _requireScopeNotPaused(PauseScope.Transfer);
+        return super.transfer(to, amount);
+    }
+
+    /**
+     * @dev Transfers on behalf of `from` unless the TransferFrom scope is paused
+     */
+    function transferFrom(address from, address to, uint256 amount) public virtual override returns (bool) {
+        _requireScopeNotPaused(PauseScope.TransferFrom);
+        return super.transferFrom(from, to, amount);
+    }
+
+    /**
+     * @dev Approves unless the Approve scope is paused
+     */
+    function approve(address spender, uint256 amount) public virtual override returns (bool) {
+        _requireScopeNotPaused(PauseScope.Approve);
+        return super.approve(spender, amount);
+    }
+
+    /**
+     * @dev Increases an allowance unless the Approve scope is paused
+     */
+    function increaseAllowance(address spender, uint256 addedValue) public virtual override returns (bool) {
+        _requireScopeNotPaused(PauseScope.Approve);
+        return super.increaseAllowance(spender, addedValue);
+    }
+
+    /**
+     * @dev Decreases an allowance unless the Approve scope is paused
+     */
+    function decreaseAllowance(address spender, uint256 subtractedValue) public virtual override returns (bool) {
+        _requireScopeNotPaused(PauseScope.Approve);
+        return super.decreaseAllowance(spender, subtractedValue);
+    }
+
+    /**
+     * @dev Returns true if the scope is halted, either on its own or by the global pause
+     * @param scope The scope to check
+     */
+    function isScopePaused(PauseScope scope) public view returns (bool) {
+        uint256 bit = 1 << uint8(scope);
+        return (_pausedScopes & bit) != 0 || ((GLOBAL_PAUSE_SCOPES & bit) != 0 && _isPaused());
+    }
+
+    /**
+     * @dev Returns the scope matrix, indexed by PauseScope
+     * @return scopePaused Whether each scope is paused on its own
+     * @return halted Whether each scope is currently halted, including by the global pause
+     */
+    function getPauseScopeMatrix() external view returns (bool[] memory scopePaused, bool[] memory halted) {
+        uint256 count = uint256(type(PauseScope).max) + 1;
+        scopePaused = new bool[](count);
+        halted = new bool[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            scopePaused[i] = (_pausedScopes & (1 << i)) != 0;
+            halted[i] = isScopePaused(PauseScope(i));
+        }
+    }
+
     /**
      * @dev Batch pause check for multiple operations
-     * @param operations Array of operation types (0=transfer, 1=mint, 2=burn)
+     * @param operations Array of scopes to check
      * @return Array of booleans indicating if each operation is allowed
      */
-    function checkBatchOperations(uint8[] calldata operations) external view returns (bool[] memory) {
+    function checkBatchOperations(PauseScope[] calldata operations) external view returns (bool[] memory) {
         bool[] memory results = new bool[](operations.length);
-        bool isPaused = paused();
 
         for (uint256 i = 0; i < operations.length; i++) {
-            if (operations[i] == 0) { // transfer
-                results[i] = !isPaused;
-            } else if (operations[i] == 1) { // mint
-                results[i] = true; // minting allowed even when paused
-            } else if (operations[i] == 2) { // burn
-                results[i] = true; // burning allowed even when paused
-            } else {
-                results[i] = false; // unknown operation
-            }
+            results[i] = !isScopePaused(operations[i]);
         }
 
         return results;
     }
 
     /**
-     * @dev Function to check if a specific address can perform transfers
+     * @dev Function to check if a specific address can send tokens
+     * @param account The address to check
+     * @return True if the address can send, false otherwise
+     */
+    function canTransfer(address account) public view virtual returns (bool) {
+        if (account == address(0) || (_pausedScopes & (1 << uint8(PauseScope.Transfer))) != 0) return false;
+        return !_isPaused() || _pauseAllowlist[account];
+    }
+
+    /**
+     * @dev Returns true if the account can send while the token is paused
      * @param account The address to check
-     * @return True if the address can transfer, false otherwise
      */
-    function canTransfer(address account) external view returns (bool) {
-        return !paused() && account != address(0);
+    function isPauseAllowlisted(address account) external view returns (bool) {
+        return _pauseAllowlist[account];
     }
 
     /**
@@ -189,30 +341,23 @@ abstract contract PausableExtension is ERC20, Ownable, ReentrancyGuard, IPausabl
      * @return isEmergency Current emergency pause state
      * @return pauseCount Total number of pauses
      * @return lastPauseTime Timestamp of the last pause
+     * @return resumesAt When the current pause expires, zero if it has no expiry or nothing is paused
      */
     function getPauseInfo() external view returns (
         bool isPaused,
         bool isEmergency,
         uint256 pauseCount,
-        uint256 lastPauseTime
+        uint256 lastPauseTime,
+        uint256 resumesAt
     ) {
-        isPaused = _paused;
-        isEmergency = _emergencyPaused;
+        isPaused = _isPaused();
         pauseCount = _pauseCount;
-        lastPauseTime = _pauseCount > 0 ? _pauseHistory[_pauseCount - 1] : 0;
-    }
-
-    /**
-     * @dev Implementation of IPausable.whenNotPaused for external use
-     */
-    function whenNotPaused() external view override {
-        if (_paused || _emergencyPaused) revert TokenPaused();
-    }
 
-    /**
-     * @dev Implementation of IPausable.whenPaused for external use
-     */
-    function whenPaused() external view override {
-        if (!_paused && !_emergencyPaused) revert TokenNotPaused();
+        if (_pauseCount > 0) {
+            PauseRecord storage record = _pauseRecords[_pauseCount - 1];
+            isEmergency = isPaused && record.emergency;
+            lastPauseTime = record.startedAt;
+            resumesAt = isPaused ? record.expiresAt : 0;
+        }
     }
 }
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/governance/TimelockController.sol";
+import "../interfaces/IEpicStarterTimelock.sol";
+
+/**
+ * @title EpicStarterTimelock
+ * @dev Timelock controller holding the administrative roles of the EpicStarter (EPCS) token
+ * @author EpicChain Labs
+ *
+ * Features:
+ * - Sensitive token operations (withdrawals, admin burns, role grants, ownership moves) wait out a public delay
+ * - Minimum delay that can never drop below MINIMUM_DELAY, even through updateDelay
+ * - Guardian that can cancel pending operations but cannot schedule or execute them
+ * - Self-administered: proposer, executor and guardian changes go through the timelock itself
+ */
+contract EpicStarterTimelock is TimelockController, IEpicStarterTimelock {
+    // Constants
+    uint256 public constant override MINIMUM_DELAY = 1 days;
+
+    /**
+     * @dev Constructor sets the delay, the proposers and executors and the guardian
+     * @param minDelay Initial minimum delay in seconds, at least MINIMUM_DELAY
+     * @param proposers Accounts that can schedule operations (they can also cancel them)
+     * @param executors Accounts that can execute ready operations
+     * @param guardian Account that can only cancel pending operations
+     */
+    constructor(
+        uint256 minDelay,
+        address[] memory proposers,
+        address[] memory executors,
+        address guardian
+    ) TimelockController(minDelay, proposers, executors, address(0)) {
+        if (minDelay < MINIMUM_DELAY) revert TimelockDelayTooShort(minDelay, MINIMUM_DELAY);
+        if (guardian == address(0)) revert TimelockInvalidAddress();
+
+        _grantRole(CANCELLER_ROLE, guardian);
+        emit GuardianAdded(guardian);
+    }
+
+    /**
+     * @dev Returns the minimum delay, never less than MINIMUM_DELAY so a scheduled
+     * updateDelay cannot take the timelock out of the picture
+     */
+    function getMinDelay() public view override returns (uint256) {
+        uint256 delay = super.getMinDelay();
+        return delay < MINIMUM_DELAY ? MINIMUM_DELAY : delay;
+    }
+
+    /**
+     * @dev Returns true if the account can cancel without being a proposer
+     */
+    function isGuardian(address account) external view override returns (bool) {
+        return hasRole(CANCELLER_ROLE, account) && !hasRole(PROPOSER_ROLE, account);
+    }
+}
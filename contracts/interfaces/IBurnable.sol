@@ -11,6 +11,7 @@ interface IBurnable {
     // Events
     event Burn(address indexed from, uint256 value);
     event BurnFrom(address indexed from, address indexed burner, uint256 value);
+    event AdminBurn(address indexed burner, address indexed from, uint256 value);
 
     // Errors
     error BurnExceedsBalance();
@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IEpicStarterMerkleDistributor
+ * @dev Interface for the EpicStarter (EPCS) Merkle airdrop distributor
+ * @author EpicChain Labs
+ */
+interface IEpicStarterMerkleDistributor {
+
+    // Events
+    event Claimed(address indexed account, uint256 amount);
+    event Swept(address indexed to, uint256 amount);
+
+    // Errors
+    error AirdropInvalidAddress();
+    error AirdropInvalidRoot();
+    error AirdropInvalidDeadline();
+    error AirdropInvalidProof();
+    error AirdropAlreadyClaimed();
+    error AirdropExpired();
+    error AirdropNotExpired();
+    error AirdropNothingToSweep();
+
+    /**
+     * @dev Claims the airdrop of an account
+     * Tokens are always sent to `account`, so anyone can submit a claim on its behalf
+     * @param account The account in the Merkle tree
+     * @param amount The amount in the Merkle tree
+     * @param merkleProof Sibling hashes from the leaf to the root
+     *
+     * Requirements:
+     * - the claim deadline must not have passed
+     * - the account must not have claimed yet
+     * - the proof must be valid for keccak256(abi.encodePacked(account, amount))
+     *
+     * Emits a {Claimed} event.
+     */
+    function claim(address account, uint256 amount, bytes32[] calldata merkleProof) external;
+
+    /**
+     * @dev Returns the EPCS token being distributed
+     */
+    function token() external view returns (address);
+
+    /**
+     * @dev Returns the Merkle root of the distribution
+     */
+    function merkleRoot() external view returns (bytes32);
+
+    /**
+     * @dev Returns the timestamp after which claims are closed
+     */
+    function claimDeadline() external view returns (uint64);
+
+    /**
+     * @dev Returns true if an account has claimed
+     * @param account The account to check
+     */
+    function isClaimed(address account) external view returns (bool);
+}
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IEpicStarterPresale
+ * @dev Interface for the EpicStarter (EPCS) tiered presale
+ * @author EpicChain Labs
+ */
+interface IEpicStarterPresale {
+
+    // Round lifecycle
+    enum RoundStatus {
+        Pending,
+        Open,
+        Closed
+    }
+
+    // Round configuration and accounting
+    struct Round {
+        uint256 price;              // BNB (wei) per 1 EPCS (1e18 units)
+        uint256 hardCap;            // Maximum BNB raised in the round
+        uint256 minContribution;    // Minimum cumulative BNB per wallet
+        uint256 maxContribution;    // Maximum cumulative BNB per wallet
+        uint64 startTime;
+        uint64 endTime;
+        uint256 raised;
+        uint256 tokensSold;
+        RoundStatus status;
+    }
+
+    // Events
+    event RoundAdded(uint256 indexed roundId, uint256 price, uint256 hardCap, uint64 startTime, uint64 endTime);
+    event RoundOpened(uint256 indexed roundId);
+    event RoundClosed(uint256 indexed roundId, uint256 raised, uint256 tokensSold);
+    event TokensPurchased(uint256 indexed roundId, address indexed buyer, uint256 bnbAmount, uint256 tokenAmount);
+    event ProceedsWithdrawn(address indexed to, uint256 amount);
+    event UnsoldTokensWithdrawn(address indexed to, uint256 amount);
+    event EscrowUpdated(address indexed escrow);
+
+    // Errors
+    error PresaleInvalidAddress();
+    error PresaleInvalidAmount();
+    error PresaleInvalidRound();
+    error PresaleInvalidRoundConfig();
+    error PresaleRoundNotPending();
+    error PresaleRoundNotOpen();
+    error PresaleRoundAlreadyOpen();
+    error PresaleRoundNotActive();
+    error PresaleHardCapExceeded();
+    error PresaleBelowMinContribution();
+    error PresaleAboveMaxContribution();
+    error PresaleInsufficientTokens();
+    error PresaleTransferFailed();
+    error PresaleEscrowLocked();
+
+    /**
+     * @dev Buys EPCS in the currently open round with the attached BNB
+     *
+     * Requirements:
+     * - a round must be open and within its time window
+     * - the purchase must respect the round hard cap and wallet limits
+     *
+     * Emits a {TokensPurchased} event.
+     */
+    function buy() external payable;
+
+    /**
+     * @dev Returns the EPCS token sold by the presale
+     */
+    function token() external view returns (address);
+
+    /**
+     * @dev Returns the escrow purchases are routed through, or zero if tokens are delivered directly
+     */
+    function escrow() external view returns (address);
+
+    /**
+     * @dev Returns the number of configured rounds
+     */
+    function roundCount() external view returns (uint256);
+
+    /**
+     * @dev Returns the configuration and accounting of a round
+     * @param roundId The round to query
+     */
+    function getRound(uint256 roundId) external view returns (Round memory);
+
+    /**
+     * @dev Returns the currently open round, if any
+     * @return isOpen True if a round is open
+     * @return roundId The open round id (only meaningful when isOpen is true)
+     */
+    function activeRound() external view returns (bool isOpen, uint256 roundId);
+
+    /**
+     * @dev Returns the amount of EPCS a BNB amount buys in a round
+     * @param roundId The round to price against
+     * @param bnbAmount The BNB amount in wei
+     */
+    function tokensForBNB(uint256 roundId, uint256 bnbAmount) external view returns (uint256);
+}
@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IEpicStarterSaleEscrow
+ * @dev Interface for the EpicStarter (EPCS) presale escrow with soft cap refunds and TGE claims
+ * @author EpicChain Labs
+ */
+interface IEpicStarterSaleEscrow {
+
+    // Escrow lifecycle
+    enum EscrowStatus {
+        Active,     // Accepting deposits from the sale
+        Succeeded,  // Soft cap reached, tokens claimable after TGE
+        Failed      // Soft cap missed, contributions refundable
+    }
+
+    // Events
+    event Deposited(address indexed buyer, uint256 bnbAmount, uint256 tokenAmount);
+    event Finalized(EscrowStatus status, uint256 totalDeposited);
+    event TGETimeSet(uint64 tgeTime);
+    event Claimed(address indexed buyer, uint256 tokenAmount);
+    event Refunded(address indexed buyer, uint256 bnbAmount, uint256 tokenAmount);
+    event ProceedsWithdrawn(address indexed to, uint256 amount);
+    event UnsoldTokensReleased(address indexed to, uint256 amount);
+    event EmergencyWithdraw(address indexed token, address indexed to, uint256 amount);
+
+    // Errors
+    error EscrowInvalidAddress();
+    error EscrowInvalidAmount();
+    error EscrowInvalidTime();
+    error EscrowUnauthorizedSale();
+    error EscrowNotActive();
+    error EscrowNotSucceeded();
+    error EscrowNotFailed();
+    error EscrowSaleActive();
+    error EscrowSaleEnded();
+    error EscrowTGENotReached();
+    error EscrowTGEStarted();
+    error EscrowNothingToClaim();
+    error EscrowNothingToRefund();
+    error EscrowInsufficientTokens();
+    error EscrowTransferFailed();
+
+    /**
+     * @dev Records a purchase made through the sale and escrows its BNB
+     * The sale must transfer `tokenAmount` EPCS to the escrow before calling
+     * @param buyer The purchasing account
+     * @param tokenAmount The EPCS bought
+     *
+     * Requirements:
+     * - caller must be the sale bound to the escrow
+     * - escrow must be active and the sale end not reached
+     *
+     * Emits a {Deposited} event.
+     */
+    function deposit(address buyer, uint256 tokenAmount) external payable;
+
+    /**
+     * @dev Claims the caller's EPCS once the sale succeeded and TGE has passed
+     *
+     * Emits a {Claimed} event.
+     */
+    function claim() external;
+
+    /**
+     * @dev Refunds the caller's BNB once the sale failed to reach the soft cap
+     *
+     * Emits a {Refunded} event.
+     */
+    function refund() external;
+
+    /**
+     * @dev Returns the current escrow status
+     */
+    function status() external view returns (EscrowStatus);
+
+    /**
+     * @dev Returns the timestamp after which escrowed tokens become claimable
+     */
+    function tgeTime() external view returns (uint64);
+
+    /**
+     * @dev Returns the BNB an account deposited and has not been refunded
+     * @param account The contributor
+     */
+    function contributionOf(address account) external view returns (uint256);
+
+    /**
+     * @dev Returns the EPCS allocated to an account and not yet claimed
+     * @param account The contributor
+     */
+    function allocationOf(address account) external view returns (uint256);
+}
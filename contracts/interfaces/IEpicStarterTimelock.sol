@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IEpicStarterTimelock
+ * @dev Interface for the timelock that administers the EpicStarter (EPCS) token
+ * @author EpicChain Labs
+ */
+interface IEpicStarterTimelock {
+
+    // Events
+    event GuardianAdded(address indexed guardian);
+
+    // Errors
+    error TimelockDelayTooShort(uint256 delay, uint256 minimum);
+    error TimelockInvalidAddress();
+
+    /**
+     * @dev Returns the floor below which the minimum delay can never go
+     */
+    function MINIMUM_DELAY() external view returns (uint256);
+
+    /**
+     * @dev Returns true if the account can cancel pending operations without being able to schedule them
+     * @param account The account to check
+     */
+    function isGuardian(address account) external view returns (bool);
+}
@@ -1,22 +1,46 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/access/IAccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/access/IAccessControlEnumerable.sol";
+import "./IPausable.sol";
 
 /**
  * @title IEpicStarterToken
  * @dev Interface for EpicStarter Token (EPCS) with extended functionality
  * @author EpicChain Labs
  */
-interface IEpicStarterToken is IERC20, IAccessControl {
+interface IEpicStarterToken is IERC20Metadata, IAccessControlEnumerable {
 
     // Events
     event TokensBurned(address indexed from, uint256 amount);
+    event TokensBurnedForSwap(uint256 indexed nonce, address indexed from, uint256 amount, string destination);
     event TokensPaused(address indexed account);
     event TokensUnpaused(address indexed account);
     event EmergencyWithdraw(address indexed token, address indexed to, uint256 amount);
-    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferCancelled(address indexed owner, address indexed pendingOwner);
+    event OwnershipRenounced(address indexed previousOwner, bytes32[] remainingRoles);
+    event BurnQuotaSet(address indexed burner, uint256 quota);
+    event BurnQuotaPeriodSet(uint256 period);
+    event GuardianSetUpdated(uint256 indexed guardianSetId, address[] guardians, uint256 threshold);
+    event GuardianPaused(uint256 indexed nonce, address indexed relayer, address[] signers);
+    event LimitsUpdated(uint16 maxTxBps, uint16 maxWalletBps);
+    event LimitExemptionUpdated(address indexed account, bool exempt);
+    event MaxTxExemptionUpdated(address indexed account, bool exempt);
+    event LimitsLifted();
+    event TradingStartUpdated(uint64 startBlock, uint64 startTime, uint32 cooldownBlocks);
+    event LaunchExemptionUpdated(address indexed account, bool exempt);
+    event FeeUpdated(uint16 feeBps, uint16 burnShareBps, address indexed treasury);
+    event FeeExemptionUpdated(address indexed account, bool exempt);
+    event TransferFeeCharged(address indexed from, address indexed to, uint256 burned, uint256 toTreasury);
+    event FreezeUpdated(
+        address indexed account,
+        bool sendFrozen,
+        bool receiveFrozen,
+        bytes32 indexed reason,
+        address indexed operator
+    );
 
     // Errors
     error TokenTransferPaused();
@@ -25,23 +49,27 @@ interface IEpicStarterToken is IERC20, IAccessControl {
     error TokenZeroAddress();
     error TokenZeroAmount();
     error TokenNotOwner();
-    error TokenAlreadyPaused();
-    error TokenNotPaused();
-
-    /**
-     * @dev Returns the name of the token
-     */
-    function name() external view returns (string memory);
-
-    /**
-     * @dev Returns the symbol of the token
-     */
-    function symbol() external view returns (string memory);
-
-    /**
-     * @dev Returns the number of decimals used to get its user representation
-     */
-    function decimals() external view returns (uint8);
+    error TokenInvalidDestination();
+    error TokenNotPendingOwner();
+    error TokenNoPendingOwner();
+    error TokenInvalidRole(bytes32 role);
+    error TokenBurnQuotaExceeded(address burner, uint256 remaining);
+    error TokenInvalidPeriod();
+    error TokenInvalidGuardianSet();
+    error TokenGuardianPauseExpired();
+    error TokenInvalidGuardianNonce(uint256 expected);
+    error TokenInvalidGuardianSignature(address signer);
+    error TokenGuardianThresholdNotMet(uint256 signatures, uint256 threshold);
+    error TokenAccountFrozen(address account);
+    error TokenInvalidLimit();
+    error TokenLimitsLifted();
+    error TokenMaxTxExceeded(uint256 amount, uint256 maxTx);
+    error TokenMaxWalletExceeded(address account, uint256 maxWallet);
+    error TokenInvalidTradingStart();
+    error TokenTradingStarted();
+    error TokenTradingNotStarted();
+    error TokenCooldownActive(address account);
+    error TokenInvalidFee();
 
     /**
      * @dev Returns the owner of the contract
@@ -66,6 +94,53 @@ interface IEpicStarterToken is IERC20, IAccessControl {
      */
     function burnFrom(address account, uint256 amount) external;
 
+    /**
+     * @dev Burns tokens from the caller's account to receive the swapped asset on the EpicChain network
+     * @param amount The amount of tokens to burn
+     * @param destination The receiving address on the EpicChain network
+     * @return nonce The swap nonce identifying this burn
+     */
+    function burnForSwap(uint256 amount, string calldata destination) external returns (uint256 nonce);
+
+    /**
+     * @dev Returns the nonce the next swap burn will get (equal to the number of swap burns so far)
+     */
+    function swapNonce() external view returns (uint256);
+
+    /**
+     * @dev Sets how much a BURNER_ROLE account may burn from others per quota period
+     * Zero blocks the account from admin burns, type(uint256).max removes the limit
+     * @param burner The burner to configure
+     * @param quota The amount per period
+     */
+    function setBurnQuota(address burner, uint256 quota) external;
+
+    /**
+     * @dev Sets the length of the quota period in seconds
+     * @param period The new period length, cannot be zero
+     */
+    function setBurnQuotaPeriod(uint256 period) external;
+
+    /**
+     * @dev Returns the length of the quota period in seconds
+     */
+    function burnQuotaPeriod() external view returns (uint256);
+
+    /**
+     * @dev Returns a burner's quota and what is left of it in the current period
+     * @param burner The burner to check
+     * @return quota The amount per period
+     * @return used The amount burned in the current period
+     * @return remaining The amount that can still be burned in the current period
+     * @return resetsAt Timestamp at which the next period starts
+     */
+    function burnQuotaOf(address burner) external view returns (
+        uint256 quota,
+        uint256 used,
+        uint256 remaining,
+        uint256 resetsAt
+    );
+
     /**
      * @dev Pauses all token transfers
      * Can only be called by the owner
@@ -79,16 +154,200 @@ interface IEpicStarterToken is IERC20, IAccessControl {
     function unpause() external;
 
     /**
-     * @dev Transfers ownership of the contract to a new account
+     * @dev Pauses all token transfers with a reason code and an optional auto-expiry
+     * @param reason Reason code stored in the pause record
+     * @param duration Seconds after which transfers resume on their own, zero for no expiry
+     */
+    function pauseWithReason(bytes32 reason, uint64 duration) external;
+
+    /**
+     * @dev Pauses or resumes a single operation scope; the global pause is unaffected
+     * @param scope The scope to update
+     * @param scopePaused True to pause the scope, false to resume it
+     */
+    function setScopePaused(IPausable.PauseScope scope, bool scopePaused) external;
+
+    /**
+     * @dev Allows or stops an account sending tokens while the token is paused
+     * @param account The account to update, not the zero address
+     * @param allowed True to allowlist the account, false to remove it
+     */
+    function setPauseAllowlist(address account, bool allowed) external;
+
+    /**
+     * @dev Freezes or unfreezes the sends and receives of an account
+     * Can only be called by FREEZER_ROLE accounts
+     * @param account The account to update, not the zero address
+     * @param freezeSend True to block tokens leaving the account
+     * @param freezeReceive True to block tokens reaching the account
+     * @param reason Reason code emitted with FreezeUpdated
+     */
+    function setFrozen(address account, bool freezeSend, bool freezeReceive, bytes32 reason) external;
+
+    /**
+     * @dev Returns whether the sends and the receives of an account are frozen
+     */
+    function getFreezeState(address account) external view returns (bool sendFrozen, bool receiveFrozen);
+
+    /**
+     * @dev Sets the max transaction and max wallet limits in basis points of the total supply, zero for no limit
+     * Can only be called by the owner while the limits have not been lifted
+     */
+    function setLimits(uint16 maxTxBps, uint16 maxWalletBps) external;
+
+    /**
+     * @dev Exempts an account from the max wallet limit or removes its exemption
+     * Can only be called by the owner
+     */
+    function setLimitExempt(address account, bool exempt) external;
+
+    /**
+     * @dev Exempts an account from the max transaction limit or removes its exemption
+     * Can only be called by the owner
+     */
+    function setMaxTxExempt(address account, bool exempt) external;
+
+    /**
+     * @dev Lifts the limits permanently
+     * Can only be called by the owner
+     */
+    function liftLimits() external;
+
+    /**
+     * @dev Returns the limits in basis points and token amounts, and whether they were lifted
+     */
+    function getLimits() external view returns (
+        uint16 maxTxBps,
+        uint16 maxWalletBps,
+        uint256 maxTxAmount,
+        uint256 maxWalletAmount,
+        bool lifted
+    );
+
+    /**
+     * @dev Returns true if the account is exempt from the max wallet limit (the owner always is)
+     */
+    function isLimitExempt(address account) external view returns (bool);
+
+    /**
+     * @dev Returns true if the account is exempt from the max transaction limit (the owner always is)
+     */
+    function isMaxTxExempt(address account) external view returns (bool);
+
+    /**
+     * @dev Sets the trading start block and time and the cooldown length in blocks after the launch block
+     * Can only be called by the owner until a configured start is reached
+     */
+    function setTradingStart(uint64 startBlock, uint64 startTime, uint32 cooldownBlocks) external;
+
+    /**
+     * @dev Lets an account send before trading opens or removes its exemption
+     * Can only be called by the owner
+     */
+    function setLaunchExempt(address account, bool exempt) external;
+
+    /**
+     * @dev Returns the trading start, the cooldown length, whether trading is open and the block the
+     * first transfer went through with trading open (zero until then)
+     */
+    function getLaunchConfig() external view returns (
+        uint64 startBlock,
+        uint64 startTime,
+        uint32 cooldownBlocks,
+        bool tradingEnabled,
+        uint64 launchBlock
+    );
+
+    /**
+     * @dev Returns true if trading is open
+     */
+    function isTradingEnabled() external view returns (bool);
+
+    /**
+     * @dev Returns true if the account can send before trading opens (the owner always can)
+     */
+    function isLaunchExempt(address account) external view returns (bool);
+
+    /**
+     * @dev Sets the transfer fee and the share of it that is burned, the rest going to the treasury
+     * Can only be called by the owner
+     */
+    function setFee(uint16 feeBps, uint16 burnShareBps, address treasury) external;
+
+    /**
+     * @dev Exempts an account from the transfer fee or removes its exemption
+     * Can only be called by the owner
+     */
+    function setFeeExempt(address account, bool exempt) external;
+
+    /**
+     * @dev Returns true if transfers from or to the account are free of the fee (the owner always is)
+     */
+    function isFeeExempt(address account) external view returns (bool);
+
+    /**
+     * @dev Replaces the guardian set and the number of signatures a guardian pause needs
+     * @param guardians The new guardians, without duplicates
+     * @param threshold Between 1 and the number of guardians
+     */
+    function setGuardians(address[] calldata guardians, uint256 threshold) external;
+
+    /**
+     * @dev Pauses the token with M-of-N guardian EIP-712 signatures; callable by any relayer
+     * @param nonce The current guardian pause nonce
+     * @param deadline Timestamp after which the signatures expire
+     * @param signatures Guardian signatures ordered by ascending signer address
+     */
+    function guardianPause(uint256 nonce, uint256 deadline, bytes[] calldata signatures) external;
+
+    /**
+     * @dev Returns the guardians, the signature threshold and the id of the current set
+     */
+    function getGuardians() external view returns (
+        address[] memory guardians,
+        uint256 threshold,
+        uint256 guardianSetId
+    );
+
+    /**
+     * @dev Returns the nonce the next guardian pause has to sign
+     */
+    function guardianPauseNonce() external view returns (uint256);
+
+    /**
+     * @dev Returns the account proposed as the next owner, or the zero address
+     */
+    function pendingOwner() external view returns (address);
+
+    /**
+     * @dev Proposes a new owner; ownership and the admin roles move when it accepts
+     * Replaces any pending proposal
      * @param newOwner The address of the new owner
      */
     function transferOwnership(address newOwner) external;
 
     /**
-     * @dev Renounces ownership of the contract
+     * @dev Accepts a pending ownership transfer
+     * Can only be called by the pending owner
+     */
+    function acceptOwnership() external;
+
+    /**
+     * @dev Withdraws the pending ownership proposal
+     */
+    function cancelOwnershipTransfer() external;
+
+    /**
+     * @dev Renounces ownership of the contract together with every owner role
      */
     function renounceOwnership() external;
 
+    /**
+     * @dev Renounces ownership of the contract but keeps the listed owner roles on the caller
+     * @param retainedRoles Roles among DEFAULT_ADMIN_ROLE, PAUSER_ROLE, BURNER_ROLE, EMERGENCY_ROLE and FREEZER_ROLE to keep
+     */
+    function renounceOwnershipRetainingRoles(bytes32[] calldata retainedRoles) external;
+
     /**
      * @dev Emergency function to withdraw any ERC20 token from the contract
      * @param token The address of the token to withdraw
@@ -111,31 +370,4 @@ interface IEpicStarterToken is IERC20, IAccessControl {
      * @dev Returns the total amount of tokens burned
      */
     function totalBurned() external view returns (uint256);
-
-    /**
-     * @dev Checks if an account has a specific role
-     * @param role The role to check
-     * @param account The account to check
-     */
-    function hasRole(bytes32 role, address account) external view returns (bool);
-
-    /**
-     * @dev Grants a role to an account
-     * @param role The role to grant
-     * @param account The account to grant the role to
-     */
-    function grantRole(bytes32 role, address account) external;
-
-    /**
-     * @dev Revokes a role from an account
-     * @param role The role to revoke
-     * @param account The account to revoke the role from
-     */
-    function revokeRole(bytes32 role, address account) external;
-
-    /**
-     * @dev Returns the admin role for a given role
-     * @param role The role to get the admin for
-     */
-    function getRoleAdmin(bytes32 role) external view returns (bytes32);
 }
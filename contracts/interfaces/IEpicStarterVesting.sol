@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IEpicStarterVesting
+ * @dev Interface for EpicStarter (EPCS) vesting schedules
+ * @author EpicChain Labs
+ */
+interface IEpicStarterVesting {
+
+    // How a schedule unlocks
+    enum ScheduleKind {
+        Linear,         // Nothing before the cliff, then linear until start + duration
+        MonthlyTable    // Basis points unlocked at start + i months for each table entry i
+    }
+
+    // Vesting schedule
+    struct Schedule {
+        address beneficiary;
+        ScheduleKind kind;
+        bool revocable;
+        bool revoked;
+        uint64 start;
+        uint64 cliff;       // Seconds after start before anything vests (linear only)
+        uint64 duration;    // Seconds from start until fully vested
+        uint256 totalAmount;
+        uint256 released;
+    }
+
+    // Events
+    event ScheduleCreated(
+        uint256 indexed scheduleId,
+        address indexed beneficiary,
+        ScheduleKind kind,
+        uint256 amount,
+        bool revocable
+    );
+    event TokensReleased(uint256 indexed scheduleId, address indexed beneficiary, uint256 amount);
+    event ScheduleRevoked(
+        uint256 indexed scheduleId,
+        address indexed beneficiary,
+        uint256 vestedAmount,
+        uint256 unvestedAmount
+    );
+    event UnallocatedWithdrawn(address indexed to, uint256 amount);
+
+    // Errors
+    error VestingInvalidAddress();
+    error VestingInvalidAmount();
+    error VestingInvalidSchedule();
+    error VestingInvalidUnlockTable();
+    error VestingUnknownSchedule();
+    error VestingNotRevocable();
+    error VestingAlreadyRevoked();
+    error VestingNothingToRelease();
+    error VestingInsufficientTokens();
+
+    /**
+     * @dev Releases the vested, unreleased tokens of a schedule to its beneficiary
+     * @param scheduleId The schedule to release
+     *
+     * Emits a {TokensReleased} event.
+     */
+    function release(uint256 scheduleId) external;
+
+    /**
+     * @dev Returns the EPCS token being vested
+     */
+    function token() external view returns (address);
+
+    /**
+     * @dev Returns the number of schedules created
+     */
+    function scheduleCount() external view returns (uint256);
+
+    /**
+     * @dev Returns a schedule
+     * @param scheduleId The schedule to query
+     */
+    function getSchedule(uint256 scheduleId) external view returns (Schedule memory);
+
+    /**
+     * @dev Returns the schedule ids of a beneficiary
+     * @param beneficiary The beneficiary to query
+     */
+    function schedulesOf(address beneficiary) external view returns (uint256[] memory);
+
+    /**
+     * @dev Returns the amount vested by a schedule at a timestamp
+     * @param scheduleId The schedule to query
+     * @param timestamp The timestamp to evaluate
+     */
+    function vestedAmount(uint256 scheduleId, uint64 timestamp) external view returns (uint256);
+
+    /**
+     * @dev Returns the amount a schedule can release now
+     * @param scheduleId The schedule to query
+     */
+    function releasableAmount(uint256 scheduleId) external view returns (uint256);
+}
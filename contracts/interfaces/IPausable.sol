@@ -8,15 +8,38 @@ pragma solidity ^0.8.19;
  */
 interface IPausable {
 
+    // Operations that can be paused on their own
+    enum PauseScope {
+        Transfer,           // transfer
+        TransferFrom,       // transferFrom
+        Approve,            // approve, increaseAllowance, decreaseAllowance, permit
+        Burn,               // burn, burnFrom, burnForSwap
+        BatchTransfer,      // batchTransfer
+        EmergencyWithdraw   // emergencyWithdraw, emergencyWithdrawBNB
+    }
+
+    // One pause, from the pause to the unpause or expiry
+    struct PauseRecord {
+        address initiator;
+        bytes32 reason;     // Reason code chosen by the initiator
+        uint64 startedAt;
+        uint64 endedAt;     // Zero while the pause is open
+        uint64 expiresAt;   // Zero when only an unpause ends the pause
+        bool emergency;
+    }
+
     // Events
     event Paused(address account);
     event Unpaused(address account);
+    event PauseScopeUpdated(PauseScope indexed scope, bool paused, address indexed account);
+    event PauseAllowlistUpdated(address indexed account, bool allowed);
 
     // Errors
     error TokenPaused();
     error TokenNotPaused();
     error TokenAlreadyPaused();
     error TokenPauseNotAuthorized();
+    error TokenScopePaused(PauseScope scope);
 
     /**
      * @dev Returns true if the contract is paused, and false otherwise
@@ -45,16 +68,4 @@ interface IPausable {
      * Emits an {Unpaused} event.
      */
     function unpause() external;
-
-    /**
-     * @dev Modifier to make a function callable only when the contract is not paused
-     * This is used internally by the contract implementation
-     */
-    function whenNotPaused() external view;
-
-    /**
-     * @dev Modifier to make a function callable only when the contract is paused
-     * This is used internally by the contract implementation
-     */
-    function whenPaused() external view;
 }
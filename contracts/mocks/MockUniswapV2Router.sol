@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/**
+ * @title MockUniswapV2Pair
+ * @dev Token/BNB pool holding the reserves of a MockUniswapV2Router pair
+ * @author EpicChain Labs
+ */
+contract MockUniswapV2Pair {
+    address public immutable router;
+    address public immutable token;
+
+    constructor(address token_) {
+        router = msg.sender;
+        token = token_;
+    }
+
+    /**
+     * @dev Pays tokens out of the pool; the transfer is sent by the pair like a real swap
+     */
+    function transferTokens(address to, uint256 amount) external {
+        require(msg.sender == router, "MockPair: FORBIDDEN");
+        require(IERC20(token).transfer(to, amount), "MockPair: TRANSFER_FAILED");
+    }
+
+    receive() external payable {}
+}
+
+/**
+ * @title MockUniswapV2Router
+ * @dev Local stand-in for a PancakeSwap/Uniswap V2 router and its factory, used to test the launch sequence
+ * @author EpicChain Labs
+ *
+ * Features:
+ * - factory(), WETH(), getPair() and createPair() with the V2 signatures; the router is its own factory
+ * - addLiquidityETH moving the tokens from the caller into the pair
+ * - swapExactETHForTokens pricing against the pair reserves (constant product, no fee)
+ */
+contract MockUniswapV2Router {
+    address public immutable WETH;
+
+    mapping(address => mapping(address => address)) public getPair;
+
+    event PairCreated(address indexed token0, address indexed token1, address pair);
+
+    constructor(address weth) {
+        WETH = weth;
+    }
+
+    /**
+     * @dev The router doubles as the factory
+     */
+    function factory() external view returns (address) {
+        return address(this);
+    }
+
+    /**
+     * @dev Creates the pool of a token with WETH
+     */
+    function createPair(address tokenA, address tokenB) public returns (address pair) {
+        require(tokenA != tokenB && (tokenA == WETH || tokenB == WETH), "MockRouter: INVALID_PAIR");
+        require(getPair[tokenA][tokenB] == address(0), "MockRouter: PAIR_EXISTS");
+
+        pair = address(new MockUniswapV2Pair(tokenA == WETH ? tokenB : tokenA));
+        getPair[tokenA][tokenB] = pair;
+        getPair[tokenB][tokenA] = pair;
+
+        emit PairCreated(tokenA, tokenB, pair);
+    }
+
+    /**
+     * @dev Adds the desired token amount and the BNB sent to the pool, creating it if needed
+     */
+    function addLiquidityETH(
+        address token,
+        uint256 amountTokenDesired,
+        uint256 amountTokenMin,
+        uint256 amountETHMin,
+        address,
+        uint256 deadline
+    ) external payable returns (uint256 amountToken, uint256 amountETH, uint256 liquidity) {
+        require(deadline >= block.timestamp, "MockRouter: EXPIRED");
+        require(amountTokenDesired >= amountTokenMin && msg.value >= amountETHMin, "MockRouter: INSUFFICIENT_AMOUNT");
+
+        address pair = getPair[token][WETH];
+        if (pair == address(0)) pair = createPair(token, WETH);
+
+        require(IERC20(token).transferFrom(msg.sender, pair, amountTokenDesired), "MockRouter: TRANSFER_FAILED");
+        (bool sent, ) = payable(pair).call{value: msg.value}("");
+        require(sent, "MockRouter: ETH_TRANSFER_FAILED");
+
+        return (amountTokenDesired, msg.value, msg.value);
+    }
+
+    /**
+     * @dev Buys tokens with the BNB sent along path [WETH, token]
+     */
+    function swapExactETHForTokens(
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external payable returns (uint256[] memory amounts) {
+        require(deadline >= block.timestamp, "MockRouter: EXPIRED");
+        require(path.length == 2 && path[0] == WETH, "MockRouter: INVALID_PATH");
+
+        address pair = getPair[path[1]][WETH];
+        require(pair != address(0), "MockRouter: NO_PAIR");
+
+        uint256 tokenReserve = IERC20(path[1]).balanceOf(pair);
+        uint256 amountOut = (msg.value * tokenReserve) / (pair.balance + msg.value);
+        require(amountOut >= amountOutMin, "MockRouter: INSUFFICIENT_OUTPUT_AMOUNT");
+
+        (bool sent, ) = payable(pair).call{value: msg.value}("");
+        require(sent, "MockRouter: ETH_TRANSFER_FAILED");
+        MockUniswapV2Pair(payable(pair)).transferTokens(to, amountOut);
+
+        amounts = new uint256[](2);
+        amounts[0] = msg.value;
+        amounts[1] = amountOut;
+    }
+}
@@ -0,0 +1,318 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IEpicStarterPresale.sol";
+import "../interfaces/IEpicStarterSaleEscrow.sol";
+
+/**
+ * @title EpicStarterPresale
+ * @dev Tiered BNB presale for EpicStarter (EPCS)
+ * @author EpicChain Labs
+ *
+ * Features:
+ * - Configurable rounds with price, hard cap and time window
+ * - Per-wallet minimum and maximum contribution per round
+ * - Manual opening and closing of rounds by the owner
+ * - Funded from the token owner's balance before a round opens
+ * - Optional escrow holding BNB and tokens until the sale settles
+ * - Reentrancy protection
+ */
+contract EpicStarterPresale is Ownable, ReentrancyGuard, IEpicStarterPresale {
+    using SafeERC20 for IERC20;
+
+    // Constants
+    uint256 private constant PRICE_PRECISION = 1e18;
+
+    // State variables
+    IERC20 private immutable _token;
+    address private _escrow;
+    Round[] private _rounds;
+
+    bool private _hasOpenRound;
+    uint256 private _openRoundId;
+
+    uint256 private _totalRaised;
+    uint256 private _totalSold;
+
+    // Mapping from round id to contributor to contributed BNB
+    mapping(uint256 => mapping(address => uint256)) private _contributions;
+
+    // Mapping from buyer to total purchased EPCS across rounds
+    mapping(address => uint256) private _purchased;
+
+    /**
+     * @dev Constructor sets the sold token and the presale owner
+     * @param token_ The EPCS token address
+     * @param initialOwner The address that will own the presale
+     */
+    constructor(address token_, address initialOwner) {
+        if (token_ == address(0)) revert PresaleInvalidAddress();
+        if (initialOwner == address(0)) revert PresaleInvalidAddress();
+
+        _token = IERC20(token_);
+        _transferOwnership(initialOwner);
+    }
+
+    /**
+     * @dev Routes purchases through an escrow instead of delivering tokens directly
+     * Can only be changed before the first sale
+     * @param escrow_ The escrow address, or zero to deliver tokens directly
+     */
+    function setEscrow(address escrow_) external onlyOwner {
+        if (_totalSold != 0) revert PresaleEscrowLocked();
+
+        _escrow = escrow_;
+
+        emit EscrowUpdated(escrow_);
+    }
+
+    /**
+     * @dev Adds a new pending round
+     * @param price BNB (wei) per 1 EPCS
+     * @param hardCap Maximum BNB raised in the round
+     * @param minContribution Minimum cumulative BNB per wallet
+     * @param maxContribution Maximum cumulative BNB per wallet
+     * @param startTime Round start timestamp
+     * @param endTime Round end timestamp
+     * @return roundId The id of the new round
+     */
+    function addRound(
+        uint256 price,
+        uint256 hardCap,
+        uint256 minContribution,
+        uint256 maxContribution,
+        uint64 startTime,
+        uint64 endTime
+    ) external onlyOwner returns (uint256 roundId) {
+        if (price == 0 || hardCap == 0) revert PresaleInvalidRoundConfig();
+        if (maxContribution == 0 || minContribution > maxContribution) revert PresaleInvalidRoundConfig();
+        if (endTime <= startTime || endTime <= block.timestamp) revert PresaleInvalidRoundConfig();
+
+        roundId = _rounds.length;
+        _rounds.push(Round({
+            price: price,
+            hardCap: hardCap,
+            minContribution: minContribution,
+            maxContribution: maxContribution,
+            startTime: startTime,
+            endTime: endTime,
+            raised: 0,
+            tokensSold: 0,
+            status: RoundStatus.Pending
+        }));
+
+        emit RoundAdded(roundId, price, hardCap, startTime, endTime);
+    }
+
+    /**
+     * @dev Opens a pending round for purchases
+     * The presale must hold enough EPCS to cover the full hard cap of the round
+     * @param roundId The round to open
+     */
+    function openRound(uint256 roundId) external onlyOwner {
+        Round storage round = _getRound(roundId);
+
+        if (round.status != RoundStatus.Pending) revert PresaleRoundNotPending();
+        if (_hasOpenRound) revert PresaleRoundAlreadyOpen();
+        if (availableTokens() < _tokensFor(round.price, round.hardCap)) revert PresaleInsufficientTokens();
+
+        round.status = RoundStatus.Open;
+        _hasOpenRound = true;
+        _openRoundId = roundId;
+
+        emit RoundOpened(roundId);
+    }
+
+    /**
+     * @dev Closes an open round; closed rounds cannot be reopened
+     * @param roundId The round to close
+     */
+    function closeRound(uint256 roundId) external onlyOwner {
+        Round storage round = _getRound(roundId);
+
+        if (round.status != RoundStatus.Open) revert PresaleRoundNotOpen();
+
+        round.status = RoundStatus.Closed;
+        _hasOpenRound = false;
+
+        emit RoundClosed(roundId, round.raised, round.tokensSold);
+    }
+
+    /**
+     * @dev Buys EPCS in the currently open round with the attached BNB
+     * When an escrow is set, the BNB and tokens are deposited there for the buyer
+     */
+    function buy() external payable override nonReentrant {
+        if (!_hasOpenRound) revert PresaleRoundNotActive();
+
+        uint256 roundId = _openRoundId;
+        Round storage round = _rounds[roundId];
+
+        if (block.timestamp < round.startTime || block.timestamp > round.endTime) revert PresaleRoundNotActive();
+        if (msg.value == 0) revert PresaleInvalidAmount();
+        if (round.raised + msg.value > round.hardCap) revert PresaleHardCapExceeded();
+
+        address buyer = _msgSender();
+        uint256 contribution = _contributions[roundId][buyer] + msg.value;
+
+        if (contribution < round.minContribution) revert PresaleBelowMinContribution();
+        if (contribution > round.maxContribution) revert PresaleAboveMaxContribution();
+
+        uint256 tokenAmount = _tokensFor(round.price, msg.value);
+        if (tokenAmount == 0) revert PresaleInvalidAmount();
+
+        _contributions[roundId][buyer] = contribution;
+        _purchased[buyer] += tokenAmount;
+        round.raised += msg.value;
+        round.tokensSold += tokenAmount;
+        _totalRaised += msg.value;
+        _totalSold += tokenAmount;
+
+        if (_escrow != address(0)) {
+            _token.safeTransfer(_escrow, tokenAmount);
+            IEpicStarterSaleEscrow(_escrow).deposit{value: msg.value}(buyer, tokenAmount);
+        } else {
+            _token.safeTransfer(buyer, tokenAmount);
+        }
+
+        emit TokensPurchased(roundId, buyer, msg.value, tokenAmount);
+    }
+
+    /**
+     * @dev Withdraws raised BNB
+     * @param to The address to send BNB to
+     * @param amount The amount of BNB to withdraw
+     */
+    function withdrawProceeds(address payable to, uint256 amount) external onlyOwner nonReentrant {
+        if (to == address(0)) revert PresaleInvalidAddress();
+        if (amount == 0 || amount > address(this).balance) revert PresaleInvalidAmount();
+
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) revert PresaleTransferFailed();
+
+        emit ProceedsWithdrawn(to, amount);
+    }
+
+    /**
+     * @dev Withdraws unsold EPCS while no round is open
+     * @param to The address to send the tokens to
+     * @param amount The amount of tokens to withdraw
+     */
+    function withdrawUnsoldTokens(address to, uint256 amount) external onlyOwner nonReentrant {
+        if (to == address(0)) revert PresaleInvalidAddress();
+        if (_hasOpenRound) revert PresaleRoundAlreadyOpen();
+        if (amount == 0 || amount > availableTokens()) revert PresaleInvalidAmount();
+
+        _token.safeTransfer(to, amount);
+
+        emit UnsoldTokensWithdrawn(to, amount);
+    }
+
+    /**
+     * @dev Returns the EPCS token sold by the presale
+     */
+    function token() external view override returns (address) {
+        return address(_token);
+    }
+
+    /**
+     * @dev Returns the escrow purchases are routed through, or zero if tokens are delivered directly
+     */
+    function escrow() external view override returns (address) {
+        return _escrow;
+    }
+
+    /**
+     * @dev Returns the number of configured rounds
+     */
+    function roundCount() external view override returns (uint256) {
+        return _rounds.length;
+    }
+
+    /**
+     * @dev Returns the configuration and accounting of a round
+     * @param roundId The round to query
+     */
+    function getRound(uint256 roundId) external view override returns (Round memory) {
+        if (roundId >= _rounds.length) revert PresaleInvalidRound();
+        return _rounds[roundId];
+    }
+
+    /**
+     * @dev Returns the currently open round, if any
+     */
+    function activeRound() external view override returns (bool isOpen, uint256 roundId) {
+        isOpen = _hasOpenRound;
+        roundId = _openRoundId;
+    }
+
+    /**
+     * @dev Returns the amount of EPCS a BNB amount buys in a round
+     * @param roundId The round to price against
+     * @param bnbAmount The BNB amount in wei
+     */
+    function tokensForBNB(uint256 roundId, uint256 bnbAmount) external view override returns (uint256) {
+        if (roundId >= _rounds.length) revert PresaleInvalidRound();
+        return _tokensFor(_rounds[roundId].price, bnbAmount);
+    }
+
+    /**
+     * @dev Returns the BNB contributed by an account in a round
+     * @param roundId The round to query
+     * @param account The contributor
+     */
+    function contributionOf(uint256 roundId, address account) external view returns (uint256) {
+        return _contributions[roundId][account];
+    }
+
+    /**
+     * @dev Returns the total EPCS purchased by an account across all rounds
+     * @param account The buyer
+     */
+    function purchasedOf(address account) external view returns (uint256) {
+        return _purchased[account];
+    }
+
+    /**
+     * @dev Returns the total BNB raised across all rounds
+     */
+    function totalRaised() external view returns (uint256) {
+        return _totalRaised;
+    }
+
+    /**
+     * @dev Returns the total EPCS sold across all rounds
+     */
+    function totalSold() external view returns (uint256) {
+        return _totalSold;
+    }
+
+    /**
+     * @dev Returns the EPCS held by the presale that is not committed to buyers
+     */
+    function availableTokens() public view returns (uint256) {
+        return _token.balanceOf(address(this));
+    }
+
+    /**
+     * @dev Internal function to load a round by id
+     * @param roundId The round id
+     */
+    function _getRound(uint256 roundId) internal view returns (Round storage) {
+        if (roundId >= _rounds.length) revert PresaleInvalidRound();
+        return _rounds[roundId];
+    }
+
+    /**
+     * @dev Internal function to convert BNB to EPCS at a round price
+     * @param price BNB (wei) per 1 EPCS
+     * @param bnbAmount The BNB amount in wei
+     */
+    function _tokensFor(uint256 price, uint256 bnbAmount) internal pure returns (uint256) {
+        return (bnbAmount * PRICE_PRECISION) / price;
+    }
+}
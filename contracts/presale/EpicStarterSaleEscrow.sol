@@ -0,0 +1,332 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IEpicStarterSaleEscrow.sol";
+import "../interfaces/IEpicStarterPresale.sol";
+
+/**
+ * @title EpicStarterSaleEscrow
+ * @dev Escrow holding BNB and EPCS bought through an EpicStarter presale
+ * @author EpicChain Labs
+ *
+ * Features:
+ * - Soft cap: contributions are refundable if the raise misses it
+ * - Sale end after which anyone can finalize, so refunds never depend on the owner
+ * - Claim-after-TGE: bought tokens are only released after the TGE, which can only move earlier
+ *   and is at most MAX_TGE_DELAY after the sale end
+ * - Proceeds are only withdrawable once the sale succeeded
+ * - Emergency recovery of surplus funds under EMERGENCY_ROLE
+ * - Reentrancy protection
+ */
+contract EpicStarterSaleEscrow is Ownable, AccessControl, ReentrancyGuard, IEpicStarterSaleEscrow {
+    using SafeERC20 for IERC20;
+
+    // Roles
+    bytes32 public constant EMERGENCY_ROLE = keccak256("EMERGENCY_ROLE");
+
+    // Latest TGE after the sale end; claims open then if the owner sets no earlier TGE
+    uint64 public constant MAX_TGE_DELAY = 180 days;
+
+    // State variables
+    IERC20 private immutable _token;
+    address private immutable _sale;
+    uint256 private immutable _softCap;
+    uint64 private immutable _saleEnd;
+
+    EscrowStatus private _status;
+    uint64 private _tgeTime;
+
+    uint256 private _totalDeposited;
+    uint256 private _totalAllocated;
+    uint256 private _totalClaimed;
+    uint256 private _totalRefunded;
+
+    // Mapping from contributor to escrowed BNB
+    mapping(address => uint256) private _contributions;
+
+    // Mapping from contributor to unclaimed EPCS
+    mapping(address => uint256) private _allocations;
+
+    /**
+     * @dev Constructor binds the escrow to a token, a sale and a soft cap
+     * @param token_ The EPCS token address
+     * @param sale_ The presale allowed to deposit
+     * @param softCap_ Minimum BNB the sale must raise to succeed
+     * @param saleEnd_ Timestamp after which deposits stop and anyone can finalize
+     * @param initialOwner The address that will own the escrow
+     */
+    constructor(address token_, address sale_, uint256 softCap_, uint64 saleEnd_, address initialOwner) {
+        if (token_ == address(0)) revert EscrowInvalidAddress();
+        if (sale_ == address(0)) revert EscrowInvalidAddress();
+        if (initialOwner == address(0)) revert EscrowInvalidAddress();
+        if (softCap_ == 0) revert EscrowInvalidAmount();
+        if (saleEnd_ <= block.timestamp) revert EscrowInvalidTime();
+
+        _token = IERC20(token_);
+        _sale = sale_;
+        _softCap = softCap_;
+        _saleEnd = saleEnd_;
+
+        _transferOwnership(initialOwner);
+        _grantRole(DEFAULT_ADMIN_ROLE, initialOwner);
+        _grantRole(EMERGENCY_ROLE, initialOwner);
+    }
+
+    /**
+     * @dev Records a purchase made through the sale and escrows its BNB
+     * @param buyer The purchasing account
+     * @param tokenAmount The EPCS bought
+     */
+    function deposit(address buyer, uint256 tokenAmount) external payable override {
+        if (_msgSender() != _sale) revert EscrowUnauthorizedSale();
+        if (_status != EscrowStatus.Active) revert EscrowNotActive();
+        if (block.timestamp >= _saleEnd) revert EscrowSaleEnded();
+        if (buyer == address(0)) revert EscrowInvalidAddress();
+        if (msg.value == 0 || tokenAmount == 0) revert EscrowInvalidAmount();
+        if (_token.balanceOf(address(this)) < _owedTokens() + tokenAmount) revert EscrowInsufficientTokens();
+
+        _contributions[buyer] += msg.value;
+        _allocations[buyer] += tokenAmount;
+        _totalDeposited += msg.value;
+        _totalAllocated += tokenAmount;
+
+        emit Deposited(buyer, msg.value, tokenAmount);
+    }
+
+    /**
+     * @dev Settles the escrow against the soft cap. Anyone can finalize once the sale end has passed;
+     * before it only the owner can, to close a sale that already reached the soft cap while no round is open
+     */
+    function finalize() external {
+        if (_status != EscrowStatus.Active) revert EscrowNotActive();
+
+        if (block.timestamp < _saleEnd) {
+            _checkOwner();
+
+            (bool isOpen, ) = IEpicStarterPresale(_sale).activeRound();
+            if (isOpen || _totalDeposited < _softCap) revert EscrowSaleActive();
+        }
+
+        _status = _totalDeposited >= _softCap ? EscrowStatus.Succeeded : EscrowStatus.Failed;
+
+        emit Finalized(_status, _totalDeposited);
+    }
+
+    /**
+     * @dev Brings the TGE timestamp after which tokens become claimable forward
+     * Can only move it earlier, and only until the current TGE timestamp has passed
+     * @param tgeTime_ The TGE timestamp
+     */
+    function setTGETime(uint64 tgeTime_) external onlyOwner {
+        uint64 currentTGE = _currentTGETime();
+        if (block.timestamp >= currentTGE) revert EscrowTGEStarted();
+        if (tgeTime_ <= block.timestamp || tgeTime_ > currentTGE) revert EscrowInvalidTime();
+
+        _tgeTime = tgeTime_;
+
+        emit TGETimeSet(tgeTime_);
+    }
+
+    /**
+     * @dev Claims the caller's EPCS once the sale succeeded and TGE has passed
+     */
+    function claim() external override nonReentrant {
+        if (_status != EscrowStatus.Succeeded) revert EscrowNotSucceeded();
+        if (block.timestamp < _currentTGETime()) revert EscrowTGENotReached();
+
+        address buyer = _msgSender();
+        uint256 amount = _allocations[buyer];
+        if (amount == 0) revert EscrowNothingToClaim();
+
+        _allocations[buyer] = 0;
+        _totalClaimed += amount;
+
+        _token.safeTransfer(buyer, amount);
+
+        emit Claimed(buyer, amount);
+    }
+
+    /**
+     * @dev Refunds the caller's BNB once the sale failed to reach the soft cap
+     */
+    function refund() external override nonReentrant {
+        if (_status != EscrowStatus.Failed) revert EscrowNotFailed();
+
+        address buyer = _msgSender();
+        uint256 amount = _contributions[buyer];
+        if (amount == 0) revert EscrowNothingToRefund();
+
+        uint256 tokenAmount = _allocations[buyer];
+        _contributions[buyer] = 0;
+        _allocations[buyer] = 0;
+        _totalRefunded += amount;
+
+        (bool success, ) = payable(buyer).call{value: amount}("");
+        if (!success) revert EscrowTransferFailed();
+
+        emit Refunded(buyer, amount, tokenAmount);
+    }
+
+    /**
+     * @dev Withdraws raised BNB once the sale succeeded
+     * @param to The address to send BNB to
+     * @param amount The amount of BNB to withdraw
+     */
+    function withdrawProceeds(address payable to, uint256 amount) external onlyOwner nonReentrant {
+        if (_status != EscrowStatus.Succeeded) revert EscrowNotSucceeded();
+        if (to == address(0)) revert EscrowInvalidAddress();
+        if (amount == 0 || amount > address(this).balance) revert EscrowInvalidAmount();
+
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) revert EscrowTransferFailed();
+
+        emit ProceedsWithdrawn(to, amount);
+    }
+
+    /**
+     * @dev Releases the escrowed EPCS of a failed sale
+     * @param to The address to send the tokens to
+     */
+    function releaseUnsoldTokens(address to) external onlyOwner nonReentrant {
+        if (_status != EscrowStatus.Failed) revert EscrowNotFailed();
+        if (to == address(0)) revert EscrowInvalidAddress();
+
+        uint256 amount = _token.balanceOf(address(this));
+        if (amount == 0) revert EscrowInvalidAmount();
+
+        _token.safeTransfer(to, amount);
+
+        emit UnsoldTokensReleased(to, amount);
+    }
+
+    /**
+     * @dev Emergency function to withdraw tokens not owed to contributors
+     * @param token The token address to withdraw
+     * @param to The address to send tokens to
+     * @param amount The amount of tokens to withdraw
+     */
+    function emergencyWithdraw(
+        address token,
+        address to,
+        uint256 amount
+    ) external onlyRole(EMERGENCY_ROLE) nonReentrant {
+        if (token == address(0)) revert EscrowInvalidAddress();
+        if (to == address(0)) revert EscrowInvalidAddress();
+        if (amount == 0) revert EscrowInvalidAmount();
+
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        uint256 owed = token == address(_token) ? _owedTokens() : 0;
+
+        if (balance < owed + amount) revert EscrowInvalidAmount();
+
+        IERC20(token).safeTransfer(to, amount);
+
+        emit EmergencyWithdraw(token, to, amount);
+    }
+
+    /**
+     * @dev Emergency function to withdraw BNB not owed to contributors
+     * @param to The address to send BNB to
+     * @param amount The amount of BNB to withdraw
+     */
+    function emergencyWithdrawBNB(
+        address payable to,
+        uint256 amount
+    ) external onlyRole(EMERGENCY_ROLE) nonReentrant {
+        if (to == address(0)) revert EscrowInvalidAddress();
+        if (amount == 0) revert EscrowInvalidAmount();
+        if (address(this).balance < _owedBNB() + amount) revert EscrowInvalidAmount();
+
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) revert EscrowTransferFailed();
+
+        emit EmergencyWithdraw(address(0), to, amount);
+    }
+
+    /**
+     * @dev Returns the current escrow status
+     */
+    function status() external view override returns (EscrowStatus) {
+        return _status;
+    }
+
+    /**
+     * @dev Returns the TGE timestamp; sale end + MAX_TGE_DELAY until the owner sets an earlier one
+     */
+    function tgeTime() external view override returns (uint64) {
+        return _currentTGETime();
+    }
+
+    /**
+     * @dev Returns the BNB an account deposited and has not been refunded
+     * @param account The contributor
+     */
+    function contributionOf(address account) external view override returns (uint256) {
+        return _contributions[account];
+    }
+
+    /**
+     * @dev Returns the EPCS allocated to an account and not yet claimed
+     * @param account The contributor
+     */
+    function allocationOf(address account) external view override returns (uint256) {
+        return _allocations[account];
+    }
+
+    /**
+     * @dev Returns comprehensive escrow information
+     */
+    function getEscrowInfo() external view returns (
+        address tokenAddress,
+        address saleAddress,
+        uint256 softCap,
+        uint64 saleEnd,
+        uint64 tgeTime,
+        EscrowStatus currentStatus,
+        uint256 totalDeposited,
+        uint256 totalAllocated,
+        uint256 totalClaimed,
+        uint256 totalRefunded
+    ) {
+        return (
+            address(_token),
+            _sale,
+            _softCap,
+            _saleEnd,
+            _currentTGETime(),
+            _status,
+            _totalDeposited,
+            _totalAllocated,
+            _totalClaimed,
+            _totalRefunded
+        );
+    }
+
+    /**
+     * @dev Internal function returning the TGE set by the owner, or the latest one allowed
+     */
+    function _currentTGETime() internal view returns (uint64) {
+        return _tgeTime != 0 ? _tgeTime : _saleEnd + MAX_TGE_DELAY;
+    }
+
+    /**
+     * @dev Internal function returning the EPCS still owed to contributors
+     */
+    function _owedTokens() internal view returns (uint256) {
+        if (_status == EscrowStatus.Failed) return 0;
+        return _totalAllocated - _totalClaimed;
+    }
+
+    /**
+     * @dev Internal function returning the BNB still owed to contributors
+     */
+    function _owedBNB() internal view returns (uint256) {
+        if (_status == EscrowStatus.Succeeded) return 0;
+        return _totalDeposited - _totalRefunded;
+    }
+}
@@ -2,10 +2,12 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/access/AccessControlEnumerable.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "../interfaces/IEpicStarterToken.sol";
 import "../extensions/BurnableExtension.sol";
 import "../extensions/PausableExtension.sol";
@@ -18,16 +20,31 @@ import "../extensions/PausableExtension.sol";
  * Features:
  * - Fixed supply of 100,000,000 tokens
  * - Burnable functionality for token swaps
+ * - Burn-to-swap with destination memo and swap nonce
+ * - BURNER_ROLE admin burns limited by a per-burner quota per period
+ * - EIP-2612 permit for gasless approvals
+ * - On-chain holder counting
  * - Pausable transfers for emergency control
- * - Ownable with access control
+ * - Pause records with initiator, reason code and optional auto-expiry
+ * - Independently pausable scopes for transfers, approvals, burns, batch transfers and withdrawals
+ * - Allowlist of accounts that keep sending while the token is paused
+ * - FREEZER_ROLE freezes of sends and/or receives per address, with reason codes
+ * - Anti-whale max transaction and max wallet limits with exemptions and a permanent lift
+ * - Launch guard with a trading start block/time and a per-receiver cooldown after launch
+ * - Optional capped transfer fee split between burning and a treasury, with exemptions
+ * - Emergency pause by M-of-N guardian EIP-712 signatures, submitted by any relayer
+ * - Two-step ownership transfer that moves the admin roles on acceptance
+ * - Renouncement that clears or explicitly retains the owner roles
+ * - Enumerable role membership
  * - Reentrancy protection
  * - Emergency withdrawal capabilities
  * - Comprehensive event logging
  */
 contract EpicStarterToken is
     ERC20,
+    ERC20Permit,
     Ownable,
-    AccessControl,
+    AccessControlEnumerable,
     ReentrancyGuard,
     BurnableExtension,
     PausableExtension,
@@ -38,20 +55,73 @@ contract EpicStarterToken is
     string private constant TOKEN_SYMBOL = "EPCS";
     uint8 private constant TOKEN_DECIMALS = 18;
     uint256 private constant TOTAL_SUPPLY = 100_000_000 * 10**TOKEN_DECIMALS;
+    uint256 private constant MAX_SWAP_DESTINATION_LENGTH = 128;
+    uint256 private constant DEFAULT_BURN_QUOTA_PERIOD = 1 days;
+    bytes32 private constant GUARDIAN_PAUSE_TYPEHASH =
+        keccak256("GuardianPause(uint256 guardianSetId,uint256 nonce,uint256 deadline)");
+    bytes32 private constant EMERGENCY_PAUSE_REASON = "EMERGENCY";
+    bytes32 private constant GUARDIAN_PAUSE_REASON = "GUARDIAN";
+    uint8 private constant FREEZE_SEND = 1;
+    uint8 private constant FREEZE_RECEIVE = 2;
+    uint256 private constant BPS_DENOMINATOR = 10_000;
+    uint256 private constant MAX_TRANSFER_FEE_BPS = 500;
 
     // Roles
     bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
     bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
     bytes32 public constant EMERGENCY_ROLE = keccak256("EMERGENCY_ROLE");
+    bytes32 public constant FREEZER_ROLE = keccak256("FREEZER_ROLE");
 
     // State variables
     uint256 private _initialSupply;
     bool private _initialized;
+    uint256 private _holderCount;
+    uint256 private _swapNonce;
+    address private _pendingOwner;
+    uint256 private _burnQuotaPeriod;
+
+    // Admin burn quota per burner and the amount burned in its latest period
+    struct BurnQuota {
+        uint256 quota;
+        uint256 used;
+        uint256 period;
+    }
+    mapping(address => BurnQuota) private _burnQuotas;
+
+    // Guardian set; an address is a guardian while its recorded set id is the current one
+    address[] private _guardians;
+    uint256 private _guardianThreshold;
+    uint256 private _guardianSetId;
+    uint256 private _guardianPauseNonce;
+    mapping(address => uint256) private _guardianSetOf;
+
+    // FREEZE_SEND and FREEZE_RECEIVE flags per frozen account
+    mapping(address => uint8) private _freezes;
+
+    // Anti-whale limits in basis points of TOTAL_SUPPLY, zero meaning no limit
+    uint16 private _maxTxBps;
+    uint16 private _maxWalletBps;
+    bool private _limitsLifted;
+    mapping(address => bool) private _limitExempt;
+    mapping(address => bool) private _maxTxExempt;
+
+    // Launch guard; trading is open while no start was ever configured
+    uint64 private _tradingStartBlock;
+    uint64 private _tradingStartTime;
+    uint32 private _cooldownBlocks;
+    // First block in which a transfer went through with trading open, zero until then
+    uint64 private _launchBlock;
+    mapping(address => bool) private _launchExempt;
+    mapping(address => uint256) private _lastReceiveBlock;
+
+    // Transfer fee in basis points of the amount and the burned share of it; the rest goes to the treasury
+    uint16 private _feeBps;
+    uint16 private _feeBurnBps;
+    address private _treasury;
+    mapping(address => bool) private _feeExempt;
 
     // Events
     event TokensInitialized(address indexed owner, uint256 totalSupply);
-    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
-    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
 
     // Errors
     error TokenAlreadyInitialized();
@@ -67,6 +137,7 @@ contract EpicStarterToken is
      */
     constructor(address initialOwner)
         ERC20(TOKEN_NAME, TOKEN_SYMBOL)
+        ERC20Permit(TOKEN_NAME)
         BurnableExtension(TOTAL_SUPPLY)
         PausableExtension()
     {
@@ -77,6 +148,11 @@ contract EpicStarterToken is
         _grantRole(PAUSER_ROLE, initialOwner);
         _grantRole(BURNER_ROLE, initialOwner);
         _grantRole(EMERGENCY_ROLE, initialOwner);
+        _grantRole(FREEZER_ROLE, initialOwner);
+
+        // The deployer keeps unrestricted admin burning until a quota is set
+        _burnQuotaPeriod = DEFAULT_BURN_QUOTA_PERIOD;
+        _setBurnQuota(initialOwner, type(uint256).max);
 
         _initialSupply = TOTAL_SUPPLY;
         _mint(initialOwner, TOTAL_SUPPLY);
@@ -88,17 +164,31 @@ contract EpicStarterToken is
     /**
      * @dev Returns the number of decimals used to get its user representation
      */
-    function decimals() public pure override returns (uint8) {
+    function decimals() public pure override(ERC20, IERC20Metadata) returns (uint8) {
         return TOKEN_DECIMALS;
     }
 
     /**
      * @dev Returns the maximum supply of the token
      */
-    function maxSupply() external view override returns (uint256) {
+    function maxSupply() external view override(BurnableExtension, IEpicStarterToken) returns (uint256) {
         return TOTAL_SUPPLY;
     }
 
+    /**
+     * @dev Returns the total amount of tokens burned
+     */
+    function totalBurned() public view override(BurnableExtension, IEpicStarterToken) returns (uint256) {
+        return super.totalBurned();
+    }
+
+    /**
+     * @dev Returns the current circulating supply (total supply - burned tokens)
+     */
+    function circulatingSupply() public view override(BurnableExtension, IEpicStarterToken) returns (uint256) {
+        return super.circulatingSupply();
+    }
+
     /**
      * @dev Returns the initial supply at deployment
      */
@@ -117,7 +207,8 @@ contract EpicStarterToken is
      * @dev Burns tokens from the caller's account
      * @param amount The amount of tokens to burn
      */
-    function burn(uint256 amount) external override nonReentrant {
+    function burn(uint256 amount) external override(BurnableExtension, IEpicStarterToken) nonReentrant {
+        _checkBurnAllowed();
         if (amount == 0) revert TokenInvalidAmount();
 
         address account = _msgSender();
@@ -125,7 +216,7 @@ contract EpicStarterToken is
 
         if (accountBalance < amount) revert BurnExceedsBalance();
 
-        _burn(account, amount);
+        _burnTokens(account, amount);
 
         emit TokensBurned(account, amount);
     }
@@ -135,7 +226,11 @@ contract EpicStarterToken is
      * @param account The account to burn tokens from
      * @param amount The amount of tokens to burn
      */
-    function burnFrom(address account, uint256 amount) external override nonReentrant {
+    function burnFrom(
+        address account,
+        uint256 amount
+    ) external override(BurnableExtension, IEpicStarterToken) nonReentrant {
+        _checkBurnAllowed();
         if (account == address(0)) revert TokenInvalidAddress();
         if (amount == 0) revert TokenInvalidAmount();
 
@@ -145,58 +240,676 @@ contract EpicStarterToken is
         if (currentAllowance < amount) revert BurnExceedsAllowance();
 
         _spendAllowance(account, spender, amount);
-        _burn(account, amount);
+        _burnTokens(account, amount);
 
         emit TokensBurned(account, amount);
     }
 
+    /**
+     * @dev Burns tokens from the caller's account for a swap to the EpicChain network.
+     * Each swap burn gets the next nonce, so the minting service can process every burn exactly once.
+     * @param amount The amount of tokens to burn
+     * @param destination The receiving address on the EpicChain network
+     * @return nonce The swap nonce identifying this burn
+     */
+    function burnForSwap(
+        uint256 amount,
+        string calldata destination
+    ) external override nonReentrant returns (uint256 nonce) {
+        _checkBurnAllowed();
+        uint256 destinationLength = bytes(destination).length;
+        if (destinationLength == 0 || destinationLength > MAX_SWAP_DESTINATION_LENGTH) {
+            revert TokenInvalidDestination();
+        }
+        if (amount == 0) revert TokenInvalidAmount();
+
+        address account = _msgSender();
+        if (balanceOf(account) < amount) revert BurnExceedsBalance();
+
+        _burnTokens(account, amount);
+        nonce = _swapNonce++;
+
+        emit TokensBurnedForSwap(nonce, account, amount, destination);
+    }
+
+    /**
+     * @dev Returns the nonce the next swap burn will get
+     */
+    function swapNonce() external view override returns (uint256) {
+        return _swapNonce;
+    }
+
+    /**
+     * @dev Sets how much a burner may burn from other accounts per quota period
+     * @param burner The burner to configure
+     * @param quota The amount per period; zero blocks admin burns, type(uint256).max removes the limit
+     */
+    function setBurnQuota(address burner, uint256 quota) external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (burner == address(0)) revert TokenInvalidAddress();
+        _setBurnQuota(burner, quota);
+    }
+
+    /**
+     * @dev Sets the length of the quota period. Periods are aligned to multiples of the length,
+     * so changing it starts a fresh period for every burner.
+     * @param period The new period length in seconds
+     */
+    function setBurnQuotaPeriod(uint256 period) external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (period == 0) revert TokenInvalidPeriod();
+
+        _burnQuotaPeriod = period;
+        emit BurnQuotaPeriodSet(period);
+    }
+
+    /**
+     * @dev Returns the length of the quota period in seconds
+     */
+    function burnQuotaPeriod() external view override returns (uint256) {
+        return _burnQuotaPeriod;
+    }
+
+    /**
+     * @dev Returns a burner's quota and what is left of it in the current period
+     */
+    function burnQuotaOf(address burner) external view override returns (
+        uint256 quota,
+        uint256 used,
+        uint256 remaining,
+        uint256 resetsAt
+    ) {
+        BurnQuota storage entry = _burnQuotas[burner];
+        uint256 period = block.timestamp / _burnQuotaPeriod;
+
+        quota = entry.quota;
+        used = entry.period == period ? entry.used : 0;
+        remaining = quota > used ? quota - used : 0;
+        resetsAt = (period + 1) * _burnQuotaPeriod;
+    }
+
+    /**
+     * @dev Only BURNER_ROLE accounts can call emergencyBurn and batchBurn
+     */
+    function _checkAdminBurner() internal view override {
+        _checkRole(BURNER_ROLE);
+    }
+
+    /**
+     * @dev Holder burns stop while the Burn scope is paused
+     */
+    function _checkBurnAllowed() internal view override {
+        _requireScopeNotPaused(PauseScope.Burn);
+    }
+
+    /**
+     * @dev Charges an admin burn to the burner's quota for the current period
+     */
+    function _beforeAdminBurn(address burner, uint256 amount) internal override {
+        BurnQuota storage entry = _burnQuotas[burner];
+        uint256 period = block.timestamp / _burnQuotaPeriod;
+
+        if (entry.period != period) {
+            entry.period = period;
+            entry.used = 0;
+        }
+
+        uint256 remaining = entry.quota > entry.used ? entry.quota - entry.used : 0;
+        if (amount > remaining) revert TokenBurnQuotaExceeded(burner, remaining);
+
+        entry.used += amount;
+    }
+
+    /**
+     * @dev Stores a burner's quota; the amount used in the current period is kept
+     */
+    function _setBurnQuota(address burner, uint256 quota) private {
+        _burnQuotas[burner].quota = quota;
+        emit BurnQuotaSet(burner, quota);
+    }
+
+    /**
+     * @dev Returns true if the contract is paused, false otherwise
+     */
+    function paused() public view override(PausableExtension, IEpicStarterToken) returns (bool) {
+        return super.paused();
+    }
+
     /**
      * @dev Pauses all token transfers
      */
-    function pause() external override onlyRole(PAUSER_ROLE) {
-        _pause();
+    function pause() external override(IPausable, IEpicStarterToken) onlyRole(PAUSER_ROLE) {
+        _pause(bytes32(0), 0);
+        emit TokensPaused(_msgSender());
+    }
+
+    /**
+     * @dev Pauses all token transfers, recording a reason code and an optional auto-expiry
+     * @param reason Reason code stored in the pause record
+     * @param duration Seconds after which transfers resume without an unpause, zero for no expiry
+     */
+    function pauseWithReason(bytes32 reason, uint64 duration) external onlyRole(PAUSER_ROLE) {
+        _pause(reason, duration);
         emit TokensPaused(_msgSender());
     }
 
     /**
      * @dev Unpauses all token transfers
      */
-    function unpause() external override onlyRole(PAUSER_ROLE) {
+    function unpause() external override(IPausable, IEpicStarterToken) onlyRole(PAUSER_ROLE) {
         _unpause();
         emit TokensUnpaused(_msgSender());
     }
 
+    /**
+     * @dev Pauses or resumes a single operation scope without touching the global pause
+     * @param scope The scope to update
+     * @param scopePaused True to pause the scope, false to resume it
+     */
+    function setScopePaused(PauseScope scope, bool scopePaused) external override onlyRole(PAUSER_ROLE) {
+        _setScopePaused(scope, scopePaused);
+    }
+
+    /**
+     * @dev Lets an account (e.g. the presale or vesting contract) send while paused
+     * Only the sender is checked: transfers to an allowlisted account stay paused
+     * @param account The account to update
+     * @param allowed True to allowlist the account, false to remove it
+     */
+    function setPauseAllowlist(address account, bool allowed) external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (account == address(0)) revert TokenInvalidAddress();
+        _setPauseAllowlist(account, allowed);
+    }
+
+    /**
+     * @dev Freezes or unfreezes the sends and receives of an account, e.g. a compromised or sanctioned wallet
+     * @param account The account to update
+     * @param freezeSend True to block tokens leaving the account, including burns
+     * @param freezeReceive True to block tokens reaching the account
+     * @param reason Reason code emitted with the update
+     */
+    function setFrozen(
+        address account,
+        bool freezeSend,
+        bool freezeReceive,
+        bytes32 reason
+    ) external override onlyRole(FREEZER_ROLE) {
+        if (account == address(0)) revert TokenInvalidAddress();
+
+        _freezes[account] = (freezeSend ? FREEZE_SEND : 0) | (freezeReceive ? FREEZE_RECEIVE : 0);
+
+        emit FreezeUpdated(account, freezeSend, freezeReceive, reason, _msgSender());
+    }
+
+    /**
+     * @dev Returns whether the sends and the receives of an account are frozen
+     */
+    function getFreezeState(address account) external view override returns (bool sendFrozen, bool receiveFrozen) {
+        uint8 flags = _freezes[account];
+        sendFrozen = (flags & FREEZE_SEND) != 0;
+        receiveFrozen = (flags & FREEZE_RECEIVE) != 0;
+    }
+
+    /**
+     * @dev Frozen senders cannot transfer, whatever the pause state
+     */
+    function canTransfer(address account) public view override returns (bool) {
+        return super.canTransfer(account) && (_freezes[account] & FREEZE_SEND) == 0;
+    }
+
+    /**
+     * @dev Sets the anti-whale limits
+     * @param maxTxBps Largest single transfer in basis points of TOTAL_SUPPLY, zero for no limit
+     * @param maxWalletBps Largest balance a receiver can reach in basis points of TOTAL_SUPPLY, zero for no limit
+     */
+    function setLimits(uint16 maxTxBps, uint16 maxWalletBps) external override onlyOwner {
+        if (_limitsLifted) revert TokenLimitsLifted();
+        if (maxTxBps > BPS_DENOMINATOR || maxWalletBps > BPS_DENOMINATOR) revert TokenInvalidLimit();
+
+        _maxTxBps = maxTxBps;
+        _maxWalletBps = maxWalletBps;
+
+        emit LimitsUpdated(maxTxBps, maxWalletBps);
+    }
+
+    /**
+     * @dev Exempts an account (liquidity pair, presale, vesting) from the max wallet limit; the owner always is
+     * @param account The account to update
+     * @param exempt True to exempt the account
+     */
+    function setLimitExempt(address account, bool exempt) external override onlyOwner {
+        if (account == address(0)) revert TokenInvalidAddress();
+
+        _limitExempt[account] = exempt;
+
+        emit LimitExemptionUpdated(account, exempt);
+    }
+
+    /**
+     * @dev Exempts an account (presale, vesting) from the max transaction limit; never exempt the liquidity pair,
+     * or buys and sells go uncapped. The owner always is exempt
+     * @param account The account to update
+     * @param exempt True to exempt the account
+     */
+    function setMaxTxExempt(address account, bool exempt) external override onlyOwner {
+        if (account == address(0)) revert TokenInvalidAddress();
+
+        _maxTxExempt[account] = exempt;
+
+        emit MaxTxExemptionUpdated(account, exempt);
+    }
+
+    /**
+     * @dev Lifts the limits for good; they cannot be set again afterwards
+     */
+    function liftLimits() external override onlyOwner {
+        if (_limitsLifted) revert TokenLimitsLifted();
+
+        _limitsLifted = true;
+
+        emit LimitsLifted();
+    }
+
+    /**
+     * @dev Returns the limits in basis points and in tokens, and whether they were lifted
+     */
+    function getLimits() external view override returns (
+        uint16 maxTxBps,
+        uint16 maxWalletBps,
+        uint256 maxTxAmount,
+        uint256 maxWalletAmount,
+        bool lifted
+    ) {
+        maxTxBps = _maxTxBps;
+        maxWalletBps = _maxWalletBps;
+        maxTxAmount = (TOTAL_SUPPLY * maxTxBps) / BPS_DENOMINATOR;
+        maxWalletAmount = (TOTAL_SUPPLY * maxWalletBps) / BPS_DENOMINATOR;
+        lifted = _limitsLifted;
+    }
+
+    /**
+     * @dev Returns true if the account is exempt from the max wallet limit; the fee treasury always is
+     */
+    function isLimitExempt(address account) public view override returns (bool) {
+        return _limitExempt[account] || account == owner() || account == _treasury;
+    }
+
+    /**
+     * @dev Returns true if the account is exempt from the max transaction limit; the fee treasury always is
+     */
+    function isMaxTxExempt(address account) public view override returns (bool) {
+        return _maxTxExempt[account] || account == owner() || account == _treasury;
+    }
+
+    /**
+     * @dev The max transaction limit applies unless the sender or the receiver is max transaction exempt,
+     * so buys from and sells to the liquidity pair are capped; the max wallet limit applies unless the
+     * receiver is limit exempt
+     */
+    function _checkLimits(address from, address to, uint256 amount) private view {
+        bool toExempt = isLimitExempt(to);
+
+        if (_maxTxBps != 0 && !isMaxTxExempt(to) && !isMaxTxExempt(from)) {
+            uint256 maxTx = (TOTAL_SUPPLY * _maxTxBps) / BPS_DENOMINATOR;
+            if (amount > maxTx) revert TokenMaxTxExceeded(amount, maxTx);
+        }
+
+        if (_maxWalletBps != 0 && !toExempt) {
+            uint256 maxWallet = (TOTAL_SUPPLY * _maxWalletBps) / BPS_DENOMINATOR;
+            if (balanceOf(to) + amount > maxWallet) revert TokenMaxWalletExceeded(to, maxWallet);
+        }
+    }
+
+    /**
+     * @dev Sets when trading opens; only launch-exempt senders move tokens before then
+     * The cooldown starts at the launch block, the first block in which a transfer goes through with trading
+     * open, and covers that block and the next cooldownBlocks - 1. During it an account receives tokens at most
+     * once unless the sender is launch-exempt (presale, vesting and distribution payouts) or the account is
+     * limit-exempt (the liquidity pair, the owner, the treasury); a second receipt reverts TokenCooldownActive
+     * @param startBlock First block of trading, zero to open on the start time alone
+     * @param startTime First timestamp of trading, zero to open on the start block alone
+     * @param cooldownBlocks Length of the cooldown in blocks, zero for none
+     */
+    function setTradingStart(uint64 startBlock, uint64 startTime, uint32 cooldownBlocks) external override onlyOwner {
+        if ((_tradingStartBlock != 0 || _tradingStartTime != 0) && isTradingEnabled()) revert TokenTradingStarted();
+        if (startBlock == 0 && startTime == 0) revert TokenInvalidTradingStart();
+
+        _tradingStartBlock = startBlock;
+        _tradingStartTime = startTime;
+        _cooldownBlocks = cooldownBlocks;
+        // Transfers made while the token was never gated do not count as the launch
+        _launchBlock = 0;
+
+        emit TradingStartUpdated(startBlock, startTime, cooldownBlocks);
+    }
+
+    /**
+     * @dev Lets an account (presale, vesting) send before trading opens; the owner always can
+     * @param account The account to update
+     * @param exempt True to exempt the account
+     */
+    function setLaunchExempt(address account, bool exempt) external override onlyOwner {
+        if (account == address(0)) revert TokenInvalidAddress();
+
+        _launchExempt[account] = exempt;
+
+        emit LaunchExemptionUpdated(account, exempt);
+    }
+
+    /**
+     * @dev Returns the trading start, the cooldown length, whether trading is open and the launch block
+     */
+    function getLaunchConfig() external view override returns (
+        uint64 startBlock,
+        uint64 startTime,
+        uint32 cooldownBlocks,
+        bool tradingEnabled,
+        uint64 launchBlock
+    ) {
+        startBlock = _tradingStartBlock;
+        startTime = _tradingStartTime;
+        cooldownBlocks = _cooldownBlocks;
+        tradingEnabled = isTradingEnabled();
+        launchBlock = _launchBlock;
+    }
+
+    /**
+     * @dev Returns true once both the start block and the start time are reached
+     */
+    function isTradingEnabled() public view override returns (bool) {
+        return block.number >= _tradingStartBlock && block.timestamp >= _tradingStartTime;
+    }
+
+    /**
+     * @dev Returns true if the account can send before trading opens
+     */
+    function isLaunchExempt(address account) public view override returns (bool) {
+        return _launchExempt[account] || account == owner();
+    }
+
+    /**
+     * @dev Before the start only launch-exempt accounts send; the first transfer with trading open records
+     * the launch block, and for cooldownBlocks blocks from it an account receives tokens at most once
+     */
+    function _checkLaunch(address from, address to) private {
+        uint256 launchBlock = _launchBlock;
+
+        if (launchBlock == 0) {
+            if (!isTradingEnabled()) {
+                if (!isLaunchExempt(from)) revert TokenTradingNotStarted();
+                return;
+            }
+            launchBlock = block.number;
+            _launchBlock = uint64(launchBlock);
+        }
+
+        if (block.number < launchBlock + _cooldownBlocks && !isLaunchExempt(from) && !isLimitExempt(to)) {
+            if (_lastReceiveBlock[to] >= launchBlock) revert TokenCooldownActive(to);
+            _lastReceiveBlock[to] = block.number;
+        }
+    }
+
+    /**
+     * @dev Sets the transfer fee, zero by default
+     * @param feeBps Fee in basis points of each transfer, at most MAX_TRANSFER_FEE_BPS
+     * @param burnShareBps Share of the fee burned in basis points; the rest goes to the treasury
+     * @param treasury Receiver of the unburned share
+     */
+    function setFee(uint16 feeBps, uint16 burnShareBps, address treasury) external override onlyOwner {
+        if (feeBps > MAX_TRANSFER_FEE_BPS || burnShareBps > BPS_DENOMINATOR) revert TokenInvalidFee();
+        if (treasury == address(0) && burnShareBps != BPS_DENOMINATOR) revert TokenInvalidAddress();
+
+        _feeBps = feeBps;
+        _feeBurnBps = burnShareBps;
+        _treasury = treasury;
+
+        emit FeeUpdated(feeBps, burnShareBps, treasury);
+    }
+
+    /**
+     * @dev Exempts a system contract (presale, vesting, airdrop, liquidity pair) from the transfer fee
+     * @param account The account to update
+     * @param exempt True to exempt the account
+     */
+    function setFeeExempt(address account, bool exempt) external override onlyOwner {
+        if (account == address(0)) revert TokenInvalidAddress();
+
+        _feeExempt[account] = exempt;
+
+        emit FeeExemptionUpdated(account, exempt);
+    }
+
+    /**
+     * @dev Returns true if transfers from or to the account are free; the owner always is
+     */
+    function isFeeExempt(address account) public view override returns (bool) {
+        return _feeExempt[account] || account == owner();
+    }
+
     /**
      * @dev Emergency pause function
      */
     function emergencyPause() external onlyRole(EMERGENCY_ROLE) {
-        _pause();
+        _emergencyPause(EMERGENCY_PAUSE_REASON);
+        emit TokensPaused(_msgSender());
+    }
+
+    /**
+     * @dev Replaces the guardian set. Signatures collected for the previous set stop being valid.
+     * @param guardians The new guardians
+     * @param threshold The number of guardian signatures a pause needs
+     */
+    function setGuardians(
+        address[] calldata guardians,
+        uint256 threshold
+    ) external override onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (threshold == 0 || threshold > guardians.length) revert TokenInvalidGuardianSet();
+
+        uint256 setId = ++_guardianSetId;
+        for (uint256 i = 0; i < guardians.length; i++) {
+            address guardian = guardians[i];
+            if (guardian == address(0) || _guardianSetOf[guardian] == setId) revert TokenInvalidGuardianSet();
+            _guardianSetOf[guardian] = setId;
+        }
+
+        _guardians = guardians;
+        _guardianThreshold = threshold;
+
+        emit GuardianSetUpdated(setId, guardians, threshold);
+    }
+
+    /**
+     * @dev Pauses the token with signatures from at least `threshold` guardians over
+     * GuardianPause(guardianSetId, nonce, deadline). Anyone can submit them. Refused while no account
+     * holds PAUSER_ROLE, because such a pause could never be lifted.
+     * @param nonce Must equal guardianPauseNonce(); consumed by the pause
+     * @param deadline Timestamp after which the signatures are no longer accepted
+     * @param signatures Guardian signatures ordered by ascending signer address
+     */
+    function guardianPause(
+        uint256 nonce,
+        uint256 deadline,
+        bytes[] calldata signatures
+    ) external override nonReentrant {
+        if (_guardianThreshold == 0 || getRoleMemberCount(PAUSER_ROLE) == 0) revert TokenInvalidGuardianSet();
+        if (block.timestamp > deadline) revert TokenGuardianPauseExpired();
+        if (nonce != _guardianPauseNonce) revert TokenInvalidGuardianNonce(_guardianPauseNonce);
+        if (signatures.length < _guardianThreshold) {
+            revert TokenGuardianThresholdNotMet(signatures.length, _guardianThreshold);
+        }
+
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(abi.encode(GUARDIAN_PAUSE_TYPEHASH, _guardianSetId, nonce, deadline))
+        );
+
+        address[] memory signers = new address[](signatures.length);
+        for (uint256 i = 0; i < signatures.length; i++) {
+            address signer = ECDSA.recover(digest, signatures[i]);
+            // Ascending order rules out counting one guardian twice
+            if (_guardianSetOf[signer] != _guardianSetId || (i > 0 && signer <= signers[i - 1])) {
+                revert TokenInvalidGuardianSignature(signer);
+            }
+            signers[i] = signer;
+        }
+
+        _guardianPauseNonce++;
+        _emergencyPause(GUARDIAN_PAUSE_REASON);
         emit TokensPaused(_msgSender());
+        emit GuardianPaused(nonce, _msgSender(), signers);
+    }
+
+    /**
+     * @dev Returns the current guardian set
+     */
+    function getGuardians() external view override returns (
+        address[] memory guardians,
+        uint256 threshold,
+        uint256 guardianSetId
+    ) {
+        return (_guardians, _guardianThreshold, _guardianSetId);
     }
 
     /**
-     * @dev Transfers ownership of the contract
+     * @dev Returns the nonce the next guardian pause has to sign
+     */
+    function guardianPauseNonce() external view override returns (uint256) {
+        return _guardianPauseNonce;
+    }
+
+    /**
+     * @dev Returns the owner of the contract
+     */
+    function owner() public view override(Ownable, IEpicStarterToken) returns (address) {
+        return super.owner();
+    }
+
+    /**
+     * @dev Returns the account proposed as the next owner, or the zero address
+     */
+    function pendingOwner() external view override returns (address) {
+        return _pendingOwner;
+    }
+
+    /**
+     * @dev Proposes a new owner; nothing moves until it calls acceptOwnership
      * @param newOwner The address of the new owner
      */
-    function transferOwnership(address newOwner) public override onlyOwner {
-        if (newOwner == address(0)) revert TokenInvalidAddress();
+    function transferOwnership(address newOwner) public override(Ownable, IEpicStarterToken) onlyOwner {
+        if (newOwner == address(0) || newOwner == owner()) revert TokenInvalidAddress();
+
+        _pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner(), newOwner);
+    }
+
+    /**
+     * @dev Accepts a pending ownership transfer and migrates the admin roles and the owner's burn quota
+     */
+    function acceptOwnership() external override {
+        address newOwner = _msgSender();
+        if (newOwner != _pendingOwner) revert TokenNotPendingOwner();
 
         address oldOwner = owner();
         _transferOwnership(newOwner);
+        bytes32[5] memory ownerRoles = _ownerRoles();
 
         // Transfer admin roles to new owner
-        _grantRole(DEFAULT_ADMIN_ROLE, newOwner);
-        _grantRole(PAUSER_ROLE, newOwner);
-        _grantRole(BURNER_ROLE, newOwner);
-        _grantRole(EMERGENCY_ROLE, newOwner);
+        for (uint256 i = 0; i < ownerRoles.length; i++) {
+            _grantRole(ownerRoles[i], newOwner);
+        }
 
         // Revoke roles from old owner
-        _revokeRole(DEFAULT_ADMIN_ROLE, oldOwner);
-        _revokeRole(PAUSER_ROLE, oldOwner);
-        _revokeRole(BURNER_ROLE, oldOwner);
-        _revokeRole(EMERGENCY_ROLE, oldOwner);
+        for (uint256 i = 0; i < ownerRoles.length; i++) {
+            _revokeRole(ownerRoles[i], oldOwner);
+        }
+
+        // The burn quota follows BURNER_ROLE
+        _setBurnQuota(newOwner, _burnQuotas[oldOwner].quota);
+        _setBurnQuota(oldOwner, 0);
+    }
 
-        emit OwnershipTransferred(oldOwner, newOwner);
+    /**
+     * @dev Withdraws the pending ownership proposal
+     */
+    function cancelOwnershipTransfer() external override onlyOwner {
+        address pending = _pendingOwner;
+        if (pending == address(0)) revert TokenNoPendingOwner();
+
+        delete _pendingOwner;
+        emit OwnershipTransferCancelled(owner(), pending);
+    }
+
+    /**
+     * @dev Renounces ownership and every owner role, leaving the token without an administrator
+     */
+    function renounceOwnership() public override(Ownable, IEpicStarterToken) onlyOwner {
+        _renounceOwnership(new bytes32[](0));
+    }
+
+    /**
+     * @dev Renounces ownership but keeps the listed owner roles on the caller
+     * @param retainedRoles Roles among DEFAULT_ADMIN_ROLE, PAUSER_ROLE, BURNER_ROLE, EMERGENCY_ROLE and FREEZER_ROLE to keep
+     */
+    function renounceOwnershipRetainingRoles(bytes32[] calldata retainedRoles) external override onlyOwner {
+        _renounceOwnership(retainedRoles);
+    }
+
+    /**
+     * @dev Clears any pending proposal whenever ownership changes (including renouncement)
+     */
+    function _transferOwnership(address newOwner) internal override {
+        delete _pendingOwner;
+        super._transferOwnership(newOwner);
+    }
+
+    /**
+     * @dev Drops ownership and revokes the owner roles that are not retained, clearing the guardian set
+     * unless PAUSER_ROLE is among them. Emits the roles the previous owner still holds afterwards
+     */
+    function _renounceOwnership(bytes32[] memory retainedRoles) private {
+        bytes32[5] memory ownerRoles = _ownerRoles();
+        bool[5] memory retained;
+
+        for (uint256 i = 0; i < retainedRoles.length; i++) {
+            uint256 j = 0;
+            while (j < ownerRoles.length && ownerRoles[j] != retainedRoles[i]) j++;
+            if (j == ownerRoles.length) revert TokenInvalidRole(retainedRoles[i]);
+            retained[j] = true;
+        }
+
+        address previousOwner = owner();
+        _transferOwnership(address(0));
+
+        uint256 remainingCount = 0;
+        for (uint256 i = 0; i < ownerRoles.length; i++) {
+            if (!retained[i]) {
+                _revokeRole(ownerRoles[i], previousOwner);
+            } else if (hasRole(ownerRoles[i], previousOwner)) {
+                remainingCount++;
+            }
+        }
+
+        bytes32[] memory remainingRoles = new bytes32[](remainingCount);
+        uint256 index = 0;
+        for (uint256 i = 0; i < ownerRoles.length; i++) {
+            if (retained[i] && hasRole(ownerRoles[i], previousOwner)) {
+                remainingRoles[index++] = ownerRoles[i];
+            }
+        }
+
+        // A guardian pause never expires, so the guardians go unless PAUSER_ROLE (ownerRoles[1]) stays to lift it
+        if (!retained[1] && _guardianThreshold != 0) {
+            uint256 setId = ++_guardianSetId;
+            delete _guardians;
+            delete _guardianThreshold;
+            emit GuardianSetUpdated(setId, new address[](0), 0);
+        }
+
+        emit OwnershipRenounced(previousOwner, remainingRoles);
+    }
+
+    /**
+     * @dev Roles granted to the owner at deployment, which follow ownership
+     */
+    function _ownerRoles() private pure returns (bytes32[5] memory) {
+        return [DEFAULT_ADMIN_ROLE, PAUSER_ROLE, BURNER_ROLE, EMERGENCY_ROLE, FREEZER_ROLE];
     }
 
     /**
@@ -210,6 +923,7 @@ contract EpicStarterToken is
         address to,
         uint256 amount
     ) external override onlyRole(EMERGENCY_ROLE) nonReentrant {
+        _requireScopeNotPaused(PauseScope.EmergencyWithdraw);
         if (token == address(0)) revert TokenInvalidAddress();
         if (to == address(0)) revert TokenInvalidAddress();
         if (amount == 0) revert TokenInvalidAmount();
@@ -234,6 +948,7 @@ contract EpicStarterToken is
         address payable to,
         uint256 amount
     ) external onlyRole(EMERGENCY_ROLE) nonReentrant {
+        _requireScopeNotPaused(PauseScope.EmergencyWithdraw);
         if (to == address(0)) revert TokenInvalidAddress();
         if (amount == 0) revert TokenInvalidAmount();
         if (address(this).balance < amount) revert TokenInvalidAmount();
@@ -253,6 +968,7 @@ contract EpicStarterToken is
         address[] calldata recipients,
         uint256[] calldata amounts
     ) external nonReentrant {
+        _requireScopeNotPaused(PauseScope.BatchTransfer);
         if (recipients.length != amounts.length) revert("Arrays length mismatch");
         if (recipients.length == 0) revert TokenInvalidAmount();
 
@@ -276,25 +992,131 @@ contract EpicStarterToken is
     }
 
     /**
-     * @dev Override _beforeTokenTransfer to add pause functionality
+     * @dev Overrides required by Solidity; scope checks live in PausableExtension
+     */
+    function transfer(
+        address to,
+        uint256 amount
+    ) public virtual override(ERC20, IERC20, PausableExtension) returns (bool) {
+        return super.transfer(to, amount);
+    }
+
+    function transferFrom(
+        address from,
+        address to,
+        uint256 amount
+    ) public virtual override(ERC20, IERC20, PausableExtension) returns (bool) {
+        return super.transferFrom(from, to, amount);
+    }
+
+    function approve(
+        address spender,
+        uint256 amount
+    ) public virtual override(ERC20, IERC20, PausableExtension) returns (bool) {
+        return super.approve(spender, amount);
+    }
+
+    function increaseAllowance(
+        address spender,
+        uint256 addedValue
+    ) public virtual override(ERC20, PausableExtension) returns (bool) {
+        return super.increaseAllowance(spender, addedValue);
+    }
+
+    function decreaseAllowance(
+        address spender,
+        uint256 subtractedValue
+    ) public virtual override(ERC20, PausableExtension) returns (bool) {
+        return super.decreaseAllowance(spender, subtractedValue);
+    }
+
+    /**
+     * @dev Permit approvals stop while the Approve scope is paused
+     */
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) public virtual override {
+        _requireScopeNotPaused(PauseScope.Approve);
+        super.permit(owner, spender, value, deadline, v, r, s);
+    }
+
+    /**
+     * @dev Override _transfer to charge the transfer fee out of the amount. The burned share is counted
+     * in totalBurned, so totalSupply() + totalBurned() stays equal to TOTAL_SUPPLY.
+     */
+    function _transfer(address from, address to, uint256 amount) internal virtual override {
+        if (_feeBps != 0 && !isFeeExempt(from) && !isFeeExempt(to)) {
+            uint256 fee = (amount * _feeBps) / BPS_DENOMINATOR;
+            uint256 burned = (fee * _feeBurnBps) / BPS_DENOMINATOR;
+
+            if (burned != 0) _burnFee(from, burned);
+            if (fee != burned) super._transfer(from, _treasury, fee - burned);
+            if (fee != 0) emit TransferFeeCharged(from, to, burned, fee - burned);
+
+            amount -= fee;
+        }
+
+        super._transfer(from, to, amount);
+    }
+
+    /**
+     * @dev Override _beforeTokenTransfer to add pause functionality, per-address freezes, anti-whale limits
+     * and the launch guard
      */
     function _beforeTokenTransfer(
         address from,
         address to,
         uint256 amount
     ) internal virtual override(ERC20, PausableExtension) {
+        if ((_freezes[from] & FREEZE_SEND) != 0) revert TokenAccountFrozen(from);
+        if ((_freezes[to] & FREEZE_RECEIVE) != 0) revert TokenAccountFrozen(to);
+        if (from != address(0) && to != address(0)) {
+            if (!_limitsLifted) _checkLimits(from, to, amount);
+            _checkLaunch(from, to);
+        }
+
         super._beforeTokenTransfer(from, to, amount);
-        PausableExtension._beforeTokenTransfer(from, to, amount);
     }
 
     /**
-     * @dev Override supportsInterface to support AccessControl
+     * @dev Override _afterTokenTransfer to keep the holder count in sync.
+     * Every balance change (transfers, batch transfers, mints and burns) passes through
+     * this hook, so an account is counted exactly while its balance is non-zero.
+     */
+    function _afterTokenTransfer(
+        address from,
+        address to,
+        uint256 amount
+    ) internal virtual override {
+        super._afterTokenTransfer(from, to, amount);
+
+        if (amount == 0 || from == to) {
+            return;
+        }
+
+        if (from != address(0) && balanceOf(from) == 0) {
+            _holderCount--;
+        }
+
+        if (to != address(0) && balanceOf(to) == amount) {
+            _holderCount++;
+        }
+    }
+
+    /**
+     * @dev Override supportsInterface to support AccessControlEnumerable
      */
     function supportsInterface(bytes4 interfaceId)
         public
         view
         virtual
-        override(AccessControl)
+        override(AccessControlEnumerable)
         returns (bool)
     {
         return super.supportsInterface(interfaceId);
@@ -312,7 +1134,10 @@ contract EpicStarterToken is
         uint256 totalBurned,
         uint256 circulatingSupply,
         bool paused,
-        address owner
+        address owner,
+        uint16 feeBps,
+        uint16 feeBurnBps,
+        address treasury
     ) {
         name = TOKEN_NAME;
         symbol = TOKEN_SYMBOL;
@@ -323,6 +1148,16 @@ contract EpicStarterToken is
         circulatingSupply = super.circulatingSupply();
         paused = super.paused();
         owner = super.owner();
+        feeBps = _feeBps;
+        feeBurnBps = _feeBurnBps;
+        treasury = _treasury;
+    }
+
+    /**
+     * @dev Returns the number of accounts holding a non-zero balance
+     */
+    function holderCount() external view returns (uint256) {
+        return _holderCount;
     }
 
     /**
@@ -340,7 +1175,7 @@ contract EpicStarterToken is
         paused = super.paused();
         emergencyPaused = super.isEmergencyPaused();
         pauseCount = super.getPauseCount();
-        totalHolders = 0; // Would need additional tracking for accurate count
+        totalHolders = _holderCount;
         burnRate = super.burnRate();
     }
 
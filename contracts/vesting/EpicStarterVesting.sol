@@ -0,0 +1,319 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/IEpicStarterVesting.sol";
+
+/**
+ * @title EpicStarterVesting
+ * @dev Token vesting for EpicStarter (EPCS) team, advisor and presale unlocks
+ * @author EpicChain Labs
+ *
+ * Features:
+ * - Cliff + linear release schedules
+ * - Custom monthly unlock tables in basis points
+ * - Revocable or irrevocable schedules
+ * - Multiple schedules per beneficiary
+ * - Funded from the token owner's balance before schedules are created
+ * - Reentrancy protection
+ */
+contract EpicStarterVesting is Ownable, ReentrancyGuard, IEpicStarterVesting {
+    using SafeERC20 for IERC20;
+
+    // Constants
+    uint256 public constant BASIS_POINTS = 10_000;
+    uint64 public constant MONTH = 30 days;
+    uint256 public constant MAX_TABLE_LENGTH = 120;
+
+    // State variables
+    IERC20 private immutable _token;
+    Schedule[] private _schedules;
+
+    // Tokens still owed by active schedules (total - released)
+    uint256 private _totalAllocated;
+
+    // Mapping from schedule id to monthly unlock table in basis points
+    mapping(uint256 => uint16[]) private _unlockTables;
+
+    // Mapping from beneficiary to schedule ids
+    mapping(address => uint256[]) private _beneficiarySchedules;
+
+    /**
+     * @dev Constructor sets the vested token and the vesting owner
+     * @param token_ The EPCS token address
+     * @param initialOwner The address that will own the vesting contract
+     */
+    constructor(address token_, address initialOwner) {
+        if (token_ == address(0)) revert VestingInvalidAddress();
+        if (initialOwner == address(0)) revert VestingInvalidAddress();
+
+        _token = IERC20(token_);
+        _transferOwnership(initialOwner);
+    }
+
+    /**
+     * @dev Creates a cliff + linear schedule
+     * @param beneficiary The account receiving the vested tokens
+     * @param amount The total amount vested
+     * @param start The vesting start timestamp
+     * @param cliff Seconds after start before anything vests
+     * @param duration Seconds from start until fully vested
+     * @param revocable Whether the owner can revoke the unvested part
+     * @return scheduleId The id of the new schedule
+     */
+    function createLinearSchedule(
+        address beneficiary,
+        uint256 amount,
+        uint64 start,
+        uint64 cliff,
+        uint64 duration,
+        bool revocable
+    ) external onlyOwner returns (uint256 scheduleId) {
+        if (duration == 0 || cliff > duration) revert VestingInvalidSchedule();
+
+        scheduleId = _createSchedule(beneficiary, amount, ScheduleKind.Linear, start, cliff, duration, revocable);
+    }
+
+    /**
+     * @dev Creates a schedule unlocking `unlockTable[i]` basis points at start + i months
+     * @param beneficiary The account receiving the vested tokens
+     * @param amount The total amount vested
+     * @param start The vesting start timestamp
+     * @param unlockTable Basis points unlocked per month, summing to BASIS_POINTS
+     * @param revocable Whether the owner can revoke the unvested part
+     * @return scheduleId The id of the new schedule
+     */
+    function createTableSchedule(
+        address beneficiary,
+        uint256 amount,
+        uint64 start,
+        uint16[] calldata unlockTable,
+        bool revocable
+    ) external onlyOwner returns (uint256 scheduleId) {
+        if (unlockTable.length == 0 || unlockTable.length > MAX_TABLE_LENGTH) revert VestingInvalidUnlockTable();
+
+        uint256 totalBps = 0;
+        for (uint256 i = 0; i < unlockTable.length; i++) {
+            totalBps += unlockTable[i];
+        }
+        if (totalBps != BASIS_POINTS) revert VestingInvalidUnlockTable();
+
+        uint64 duration = uint64(unlockTable.length - 1) * MONTH;
+
+        scheduleId = _createSchedule(beneficiary, amount, ScheduleKind.MonthlyTable, start, 0, duration, revocable);
+        _unlockTables[scheduleId] = unlockTable;
+    }
+
+    /**
+     * @dev Releases the vested, unreleased tokens of a schedule to its beneficiary
+     * @param scheduleId The schedule to release
+     */
+    function release(uint256 scheduleId) external override nonReentrant {
+        Schedule storage schedule = _getSchedule(scheduleId);
+
+        uint256 amount = _vestedAmount(scheduleId, schedule, uint64(block.timestamp)) - schedule.released;
+        if (amount == 0) revert VestingNothingToRelease();
+
+        _release(scheduleId, schedule, amount);
+    }
+
+    /**
+     * @dev Revokes a revocable schedule
+     * Vested tokens are released to the beneficiary, unvested tokens become unallocated
+     * @param scheduleId The schedule to revoke
+     */
+    function revoke(uint256 scheduleId) external onlyOwner nonReentrant {
+        Schedule storage schedule = _getSchedule(scheduleId);
+
+        if (!schedule.revocable) revert VestingNotRevocable();
+        if (schedule.revoked) revert VestingAlreadyRevoked();
+
+        uint256 vested = _vestedAmount(scheduleId, schedule, uint64(block.timestamp));
+        uint256 unvested = schedule.totalAmount - vested;
+
+        schedule.revoked = true;
+        schedule.totalAmount = vested;
+        _totalAllocated -= unvested;
+
+        uint256 unreleased = vested - schedule.released;
+        if (unreleased > 0) {
+            _release(scheduleId, schedule, unreleased);
+        }
+
+        emit ScheduleRevoked(scheduleId, schedule.beneficiary, vested, unvested);
+    }
+
+    /**
+     * @dev Withdraws tokens not allocated to any schedule
+     * @param to The address to send the tokens to
+     * @param amount The amount of tokens to withdraw
+     */
+    function withdrawUnallocated(address to, uint256 amount) external onlyOwner nonReentrant {
+        if (to == address(0)) revert VestingInvalidAddress();
+        if (amount == 0 || amount > unallocatedBalance()) revert VestingInvalidAmount();
+
+        _token.safeTransfer(to, amount);
+
+        emit UnallocatedWithdrawn(to, amount);
+    }
+
+    /**
+     * @dev Returns the EPCS token being vested
+     */
+    function token() external view override returns (address) {
+        return address(_token);
+    }
+
+    /**
+     * @dev Returns the number of schedules created
+     */
+    function scheduleCount() external view override returns (uint256) {
+        return _schedules.length;
+    }
+
+    /**
+     * @dev Returns a schedule
+     * @param scheduleId The schedule to query
+     */
+    function getSchedule(uint256 scheduleId) external view override returns (Schedule memory) {
+        return _getSchedule(scheduleId);
+    }
+
+    /**
+     * @dev Returns the monthly unlock table of a schedule (empty for linear schedules)
+     * @param scheduleId The schedule to query
+     */
+    function getUnlockTable(uint256 scheduleId) external view returns (uint16[] memory) {
+        _getSchedule(scheduleId);
+        return _unlockTables[scheduleId];
+    }
+
+    /**
+     * @dev Returns the schedule ids of a beneficiary
+     * @param beneficiary The beneficiary to query
+     */
+    function schedulesOf(address beneficiary) external view override returns (uint256[] memory) {
+        return _beneficiarySchedules[beneficiary];
+    }
+
+    /**
+     * @dev Returns the amount vested by a schedule at a timestamp
+     * @param scheduleId The schedule to query
+     * @param timestamp The timestamp to evaluate
+     */
+    function vestedAmount(uint256 scheduleId, uint64 timestamp) external view override returns (uint256) {
+        return _vestedAmount(scheduleId, _getSchedule(scheduleId), timestamp);
+    }
+
+    /**
+     * @dev Returns the amount a schedule can release now
+     * @param scheduleId The schedule to query
+     */
+    function releasableAmount(uint256 scheduleId) external view override returns (uint256) {
+        Schedule storage schedule = _getSchedule(scheduleId);
+        return _vestedAmount(scheduleId, schedule, uint64(block.timestamp)) - schedule.released;
+    }
+
+    /**
+     * @dev Returns the tokens still owed by all schedules
+     */
+    function totalAllocated() external view returns (uint256) {
+        return _totalAllocated;
+    }
+
+    /**
+     * @dev Returns the tokens held by the contract and not owed to any schedule
+     */
+    function unallocatedBalance() public view returns (uint256) {
+        return _token.balanceOf(address(this)) - _totalAllocated;
+    }
+
+    /**
+     * @dev Internal function to validate and store a schedule
+     */
+    function _createSchedule(
+        address beneficiary,
+        uint256 amount,
+        ScheduleKind kind,
+        uint64 start,
+        uint64 cliff,
+        uint64 duration,
+        bool revocable
+    ) internal returns (uint256 scheduleId) {
+        if (beneficiary == address(0)) revert VestingInvalidAddress();
+        if (amount == 0) revert VestingInvalidAmount();
+        if (start == 0) revert VestingInvalidSchedule();
+        if (amount > unallocatedBalance()) revert VestingInsufficientTokens();
+
+        scheduleId = _schedules.length;
+        _schedules.push(Schedule({
+            beneficiary: beneficiary,
+            kind: kind,
+            revocable: revocable,
+            revoked: false,
+            start: start,
+            cliff: cliff,
+            duration: duration,
+            totalAmount: amount,
+            released: 0
+        }));
+
+        _beneficiarySchedules[beneficiary].push(scheduleId);
+        _totalAllocated += amount;
+
+        emit ScheduleCreated(scheduleId, beneficiary, kind, amount, revocable);
+    }
+
+    /**
+     * @dev Internal function to transfer released tokens to the beneficiary
+     */
+    function _release(uint256 scheduleId, Schedule storage schedule, uint256 amount) internal {
+        schedule.released += amount;
+        _totalAllocated -= amount;
+
+        _token.safeTransfer(schedule.beneficiary, amount);
+
+        emit TokensReleased(scheduleId, schedule.beneficiary, amount);
+    }
+
+    /**
+     * @dev Internal function computing the vested amount of a schedule at a timestamp
+     */
+    function _vestedAmount(
+        uint256 scheduleId,
+        Schedule storage schedule,
+        uint64 timestamp
+    ) internal view returns (uint256) {
+        if (schedule.revoked) return schedule.totalAmount;
+        if (timestamp < schedule.start) return 0;
+
+        if (schedule.kind == ScheduleKind.Linear) {
+            if (timestamp < schedule.start + schedule.cliff) return 0;
+            if (timestamp >= schedule.start + schedule.duration) return schedule.totalAmount;
+
+            return (schedule.totalAmount * (timestamp - schedule.start)) / schedule.duration;
+        }
+
+        uint16[] storage unlockTable = _unlockTables[scheduleId];
+        uint256 elapsedMonths = (timestamp - schedule.start) / MONTH;
+        if (elapsedMonths >= unlockTable.length - 1) return schedule.totalAmount;
+
+        uint256 unlockedBps = 0;
+        for (uint256 i = 0; i <= elapsedMonths; i++) {
+            unlockedBps += unlockTable[i];
+        }
+
+        return (schedule.totalAmount * unlockedBps) / BASIS_POINTS;
+    }
+
+    /**
+     * @dev Internal function to load a schedule by id
+     */
+    function _getSchedule(uint256 scheduleId) internal view returns (Schedule storage) {
+        if (scheduleId >= _schedules.length) revert VestingUnknownSchedule();
+        return _schedules[scheduleId];
+    }
+}
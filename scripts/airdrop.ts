@@ -0,0 +1,259 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import { EpicStarterMerkleDistributor } from "../typechain-types";
+import {
+  getCurrentNetworkConfig,
+  getTokenForCurrentNetwork,
+  loadAuxiliaryDeployment,
+  saveAuxiliaryDeployment,
+} from "./utils";
+import { parseTimestamp } from "./presale";
+import {
+  formatTimestamp,
+  formatTokenAmount,
+  getStringOption,
+  parseAllocationCsv,
+  parseScriptArgs,
+} from "../utils/helpers";
+import {
+  MerkleDistribution,
+  createMerkleDistribution,
+  loadMerkleDistribution,
+  saveMerkleDistribution,
+  verifyClaim,
+} from "../utils/merkle";
+
+/**
+ * Merkle airdrop CLI
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="build --input holders.csv --out airdrop.json" npx hardhat run scripts/airdrop.ts
+ *   SCRIPT_ARGS="verify --distribution airdrop.json" ...
+ *   SCRIPT_ARGS="deploy --distribution airdrop.json --deadline 2025-06-01T00:00:00Z" ... --network bscTestnet
+ *   SCRIPT_ARGS="claim --distribution airdrop.json [--account 0x...]" ...
+ *   SCRIPT_ARGS="status" / "sweep --to 0x..." ...
+ *
+ * The input CSV has "address,amount" rows with amounts in EPCS.
+ */
+
+const AIRDROP_DEPLOYMENT = "airdrop";
+
+/**
+ * Build a distribution from an "address,amount" CSV file and write it to JSON
+ */
+export function buildDistribution(inputPath: string, outputPath: string): MerkleDistribution {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`Input file not found: ${inputPath}`);
+  }
+
+  const rows = parseAllocationCsv(fs.readFileSync(inputPath, "utf8"));
+  const distribution = createMerkleDistribution(
+    rows.map((row) => row.address),
+    rows.map((row) => row.amount),
+  );
+
+  saveMerkleDistribution(outputPath, distribution);
+
+  console.log("🌳 Merkle distribution built");
+  console.log("═".repeat(50));
+  console.log(`Recipients: ${rows.length}`);
+  console.log(`Total: ${formatTokenAmount(distribution.total)} EPCS`);
+  console.log(`Root: ${distribution.merkleRoot}`);
+  console.log(`Output: ${outputPath}`);
+  console.log("═".repeat(50));
+
+  return distribution;
+}
+
+/**
+ * Verify every proof of a distribution against its root
+ * @returns Accounts whose proof does not verify
+ */
+export function verifyDistribution(distribution: MerkleDistribution): string[] {
+  const invalid = Object.keys(distribution.claims).filter((account) => !verifyClaim(distribution, account));
+  const total = Object.values(distribution.claims).reduce((sum, claim) => sum + claim.amount, 0n);
+
+  if (total !== distribution.total) {
+    const expected = formatTokenAmount(distribution.total);
+    throw new Error(`Claims sum to ${formatTokenAmount(total)} EPCS, file says ${expected} EPCS`);
+  }
+
+  return invalid;
+}
+
+/**
+ * Get the distributor recorded for the current network
+ */
+export async function getDistributorForCurrentNetwork(): Promise<EpicStarterMerkleDistributor> {
+  const networkConfig = await getCurrentNetworkConfig();
+  const deploymentInfo = loadAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, AIRDROP_DEPLOYMENT);
+
+  const DistributorFactory = await ethers.getContractFactory("EpicStarterMerkleDistributor");
+  return DistributorFactory.attach(deploymentInfo.contractAddress) as EpicStarterMerkleDistributor;
+}
+
+/**
+ * Deploy a distributor for a distribution and fund it from the token owner
+ */
+export async function deployDistributor(
+  distribution: MerkleDistribution,
+  claimDeadline: number,
+): Promise<EpicStarterMerkleDistributor> {
+  const [deployer] = await ethers.getSigners();
+  const networkConfig = await getCurrentNetworkConfig();
+  const token = await getTokenForCurrentNetwork();
+  const tokenAddress = await token.getAddress();
+  const distributorOwner = process.env.AIRDROP_OWNER || deployer.address;
+
+  console.log("🚀 Deploying EpicStarterMerkleDistributor...");
+  console.log("═".repeat(50));
+  console.log(`Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
+  console.log(`Token: ${tokenAddress}`);
+  console.log(`Root: ${distribution.merkleRoot}`);
+  console.log(`Deadline: ${formatTimestamp(claimDeadline)}`);
+  console.log(`Owner: ${distributorOwner}`);
+  console.log("═".repeat(50));
+
+  const DistributorFactory = await ethers.getContractFactory("EpicStarterMerkleDistributor");
+  const distributor = await DistributorFactory.deploy(
+    tokenAddress,
+    distribution.merkleRoot,
+    claimDeadline,
+    distributorOwner,
+  ) as EpicStarterMerkleDistributor;
+  await distributor.waitForDeployment();
+
+  const contractAddress = await distributor.getAddress();
+  console.log(`✅ EpicStarterMerkleDistributor deployed to: ${contractAddress}`);
+
+  saveAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, AIRDROP_DEPLOYMENT, {
+    contractAddress,
+    tokenAddress,
+    merkleRoot: distribution.merkleRoot,
+    total: distribution.total.toString(),
+    claimDeadline,
+    owner: distributorOwner,
+    deploymentTx: distributor.deploymentTransaction()?.hash,
+    network: networkConfig.name,
+    chainId: networkConfig.chainId,
+  });
+
+  console.log(`💸 Funding distributor with ${formatTokenAmount(distribution.total)} EPCS...`);
+  const tx = await token.connect(deployer).transfer(contractAddress, distribution.total);
+  await tx.wait();
+  console.log(`✅ Funded (tx: ${tx.hash})`);
+
+  return distributor;
+}
+
+/**
+ * Submit the claim of an account from a distribution file
+ */
+export async function claimFromDistribution(
+  distributor: EpicStarterMerkleDistributor,
+  distribution: MerkleDistribution,
+  account: string,
+): Promise<void> {
+  const claim = distribution.claims[ethers.getAddress(account)];
+  if (!claim) {
+    throw new Error(`${account} is not part of the distribution`);
+  }
+
+  if (await distributor.isClaimed(account)) {
+    console.log(`ℹ️  ${account} has already claimed`);
+    return;
+  }
+
+  const tx = await distributor.claim(account, claim.amount, claim.proof);
+  await tx.wait();
+
+  console.log(`✅ Claimed ${formatTokenAmount(claim.amount)} EPCS for ${account} (tx: ${tx.hash})`);
+}
+
+/**
+ * Print distributor status
+ */
+export async function printDistributorStatus(distributor: EpicStarterMerkleDistributor): Promise<void> {
+  const token = await getTokenForCurrentNetwork();
+  const deadline = Number(await distributor.claimDeadline());
+  const latestBlock = await ethers.provider.getBlock("latest");
+
+  console.log("\n📊 Airdrop Status:");
+  console.log("═".repeat(50));
+  console.log(`Address: ${await distributor.getAddress()}`);
+  console.log(`Root: ${await distributor.merkleRoot()}`);
+  console.log(`Deadline: ${formatTimestamp(deadline)}`);
+  console.log(`Expired: ${(latestBlock?.timestamp ?? 0) > deadline}`);
+  console.log(`Claimed: ${formatTokenAmount(await distributor.totalClaimed())} EPCS`);
+  console.log(`Unclaimed: ${formatTokenAmount(await token.balanceOf(await distributor.getAddress()))} EPCS`);
+  console.log("═".repeat(50));
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/airdrop.ts --network <network>");
+  console.log("Commands:");
+  console.log("  build --input <csv> --out <json>         Build the Merkle tree and export proofs");
+  console.log("  verify --distribution <json>             Verify every proof against the root");
+  console.log("  deploy --distribution <json> --deadline <time>");
+  console.log("  claim --distribution <json> [--account <address>]");
+  console.log("  status                                   Print claimed and unclaimed amounts");
+  console.log("  sweep --to <address>                     Sweep unclaimed tokens after the deadline");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "build":
+      buildDistribution(getStringOption(args, "input"), getStringOption(args, "out"));
+      break;
+    case "verify": {
+      const invalid = verifyDistribution(loadMerkleDistribution(getStringOption(args, "distribution")));
+      invalid.forEach((account) => console.log(`❌ Invalid proof for ${account}`));
+      if (invalid.length > 0) {
+        throw new Error(`${invalid.length} invalid proofs`);
+      }
+      console.log("✅ All proofs verify against the root");
+      break;
+    }
+    case "deploy": {
+      const distribution = loadMerkleDistribution(getStringOption(args, "distribution"));
+      if (verifyDistribution(distribution).length > 0) {
+        throw new Error("Distribution contains invalid proofs, run verify first");
+      }
+      await deployDistributor(distribution, parseTimestamp(getStringOption(args, "deadline")));
+      break;
+    }
+    case "claim": {
+      const [signer] = await ethers.getSigners();
+      await claimFromDistribution(
+        await getDistributorForCurrentNetwork(),
+        loadMerkleDistribution(getStringOption(args, "distribution")),
+        getStringOption(args, "account", signer.address),
+      );
+      break;
+    }
+    case "status":
+      await printDistributorStatus(await getDistributorForCurrentNetwork());
+      break;
+    case "sweep": {
+      const distributor = await getDistributorForCurrentNetwork();
+      const tx = await distributor.sweep(getStringOption(args, "to"));
+      await tx.wait();
+      console.log(`✅ Unclaimed tokens swept (tx: ${tx.hash})`);
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Airdrop command failed:", error);
+      process.exit(1);
+    });
+}
@@ -1,6 +1,8 @@
 import { ethers } from "hardhat";
 import { EpicStarterToken } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getRoleIds } from "./roles";
+import { formatFeeConfig } from "../utils/helpers";
 
 async function main() {
   console.log("🚀 Starting EpicStarter Token (EPCS) deployment...\n");
@@ -66,19 +68,16 @@ async function main() {
   console.log(`Max Supply: ${ethers.formatEther(tokenInfo.maxSupply)} EPCS`);
   console.log(`Owner: ${tokenInfo.owner}`);
   console.log(`Paused: ${tokenInfo.paused}`);
+  console.log(`Transfer Fee: ${formatFeeConfig(tokenInfo.feeBps, tokenInfo.feeBurnBps, tokenInfo.treasury)}`);
   console.log("═".repeat(50));
 
   // Verify roles
   console.log("\n👥 Verifying roles...");
-  const DEFAULT_ADMIN_ROLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
-  const PAUSER_ROLE = await epicStarterToken.PAUSER_ROLE();
-  const BURNER_ROLE = await epicStarterToken.BURNER_ROLE();
-  const EMERGENCY_ROLE = await epicStarterToken.EMERGENCY_ROLE();
-
-  console.log(`DEFAULT_ADMIN_ROLE: ${await epicStarterToken.hasRole(DEFAULT_ADMIN_ROLE, initialOwner)}`);
-  console.log(`PAUSER_ROLE: ${await epicStarterToken.hasRole(PAUSER_ROLE, initialOwner)}`);
-  console.log(`BURNER_ROLE: ${await epicStarterToken.hasRole(BURNER_ROLE, initialOwner)}`);
-  console.log(`EMERGENCY_ROLE: ${await epicStarterToken.hasRole(EMERGENCY_ROLE, initialOwner)}`);
+  const roleIds = await getRoleIds(epicStarterToken);
+
+  for (const [role, roleId] of Object.entries(roleIds)) {
+    console.log(`${role}: ${await epicStarterToken.hasRole(roleId, initialOwner)}`);
+  }
 
   // Test basic functionality
   console.log("\n🧪 Testing basic functionality...");
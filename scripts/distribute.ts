@@ -0,0 +1,479 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { Signer } from "ethers";
+import { EpicStarterToken } from "../typechain-types";
+import { getCurrentNetworkConfig, getTokenForCurrentNetwork } from "./utils";
+import {
+  AllocationRow,
+  formatTokenAmount,
+  getStringOption,
+  isZeroAddress,
+  parseAllocationCsv,
+  parseScriptArgs,
+} from "../utils/helpers";
+
+/**
+ * CSV-driven token distribution
+ *
+ * Pays an "address,amount" CSV (amounts in EPCS) with batchTransfer from the signer:
+ *
+ *   - rows are validated up front: checksums, duplicates, zero addresses, zero amounts and
+ *     the total against the sender balance
+ *   - rows are split into chunks of --batch-size; a chunk whose gas estimate exceeds --max-gas
+ *     is split in half (only chunks that were never sent are re-planned)
+ *   - progress goes to a state file, written before and after every transaction. A chunk
+ *     that was sent but not confirmed is looked up by hash on resume and only re-sent with
+ *     the same nonce, so a crashed run never pays a row twice
+ *   - when every chunk is confirmed a receipt CSV maps each row to its transaction
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="plan --input payout.csv [--batch-size 150]" npx hardhat run scripts/distribute.ts
+ *   SCRIPT_ARGS="run --input payout.csv --state payout.state.json [--batch-size 150] [--max-gas 8000000]
+ *                [--receipts payout.receipts.csv]" ... --network bscMainnet
+ *   SCRIPT_ARGS="status --state payout.state.json" ...
+ */
+
+export const DISTRIBUTION_STATE_VERSION = 1;
+export const DEFAULT_BATCH_SIZE = 150;
+export const DEFAULT_MAX_GAS = 8_000_000n;
+
+export type ChunkStatus = "pending" | "sent" | "confirmed";
+
+export interface DistributionChunk {
+  start: number;
+  end: number;
+  status: ChunkStatus;
+  nonce?: number;
+  txHash?: string;
+  blockNumber?: number;
+}
+
+export interface DistributionState {
+  version: number;
+  inputHash: string;
+  tokenAddress: string;
+  chainId: number;
+  sender: string;
+  total: string;
+  rows: number;
+  chunks: DistributionChunk[];
+}
+
+export interface DistributionOptions {
+  statePath?: string;
+  maxGas?: bigint;
+}
+
+export interface DistributionReceipt {
+  line: number;
+  address: string;
+  amount: bigint;
+  txHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Check distribution rows for problems parseAllocationCsv does not catch
+ * @param rows - Parsed CSV rows
+ * @returns Human readable problems, empty when the rows can be paid
+ */
+export function validateDistributionRows(rows: AllocationRow[]): string[] {
+  const problems: string[] = [];
+  const firstLine = new Map<string, number>();
+
+  if (rows.length === 0) {
+    problems.push("No rows to distribute");
+  }
+
+  for (const row of rows) {
+    if (isZeroAddress(row.address)) {
+      problems.push(`Line ${row.line}: zero address`);
+    }
+    if (row.amount === 0n) {
+      problems.push(`Line ${row.line}: zero amount`);
+    }
+
+    const previous = firstLine.get(row.address);
+    if (previous !== undefined) {
+      problems.push(`Line ${row.line}: duplicate of line ${previous} (${row.address})`);
+    } else {
+      firstLine.set(row.address, row.line);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Hash of the input content, stored in the state so a resumed run cannot pay a different sheet
+ */
+export function hashDistributionInput(content: string): string {
+  return ethers.id(content);
+}
+
+/**
+ * Split row indexes into pending chunks of at most batchSize rows
+ */
+export function planChunks(rowCount: number, batchSize: number): DistributionChunk[] {
+  if (batchSize <= 0) {
+    throw new Error("Batch size must be positive");
+  }
+
+  const chunks: DistributionChunk[] = [];
+  for (let start = 0; start < rowCount; start += batchSize) {
+    chunks.push({ start, end: Math.min(start + batchSize, rowCount), status: "pending" });
+  }
+
+  return chunks;
+}
+
+/**
+ * Create the state of a new distribution
+ */
+export function createDistributionState(
+  content: string,
+  rows: AllocationRow[],
+  tokenAddress: string,
+  chainId: number,
+  sender: string,
+  batchSize: number,
+): DistributionState {
+  return {
+    version: DISTRIBUTION_STATE_VERSION,
+    inputHash: hashDistributionInput(content),
+    tokenAddress,
+    chainId,
+    sender,
+    total: rows.reduce((sum, row) => sum + row.amount, 0n).toString(),
+    rows: rows.length,
+    chunks: planChunks(rows.length, batchSize),
+  };
+}
+
+/**
+ * Load a state written by saveDistributionState
+ * @returns The state, or null if the file does not exist
+ */
+export function loadDistributionState(filepath: string): DistributionState | null {
+  if (!fs.existsSync(filepath)) {
+    return null;
+  }
+
+  const state = JSON.parse(fs.readFileSync(filepath, "utf8")) as DistributionState;
+  if (state.version !== DISTRIBUTION_STATE_VERSION) {
+    throw new Error(`Unsupported distribution state version ${state.version} in ${filepath}`);
+  }
+
+  return state;
+}
+
+/**
+ * Write a state atomically (temporary file + rename) so a crash never leaves a truncated file
+ */
+export function saveDistributionState(filepath: string, state: DistributionState): void {
+  fs.mkdirSync(path.dirname(filepath), { recursive: true });
+
+  const tmpPath = `${filepath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, filepath);
+}
+
+/**
+ * Sum of the rows not yet confirmed
+ */
+export function getRemainingAmount(rows: AllocationRow[], state: DistributionState): bigint {
+  return state.chunks
+    .filter((chunk) => chunk.status !== "confirmed")
+    .flatMap((chunk) => rows.slice(chunk.start, chunk.end))
+    .reduce((sum, row) => sum + row.amount, 0n);
+}
+
+/**
+ * Settle a chunk left in "sent" state by a previous run: it ends up confirmed, back to pending
+ * if it reverted, or still sent when it must be re-sent with its recorded nonce
+ */
+async function settleSentChunk(sender: Signer, chunk: DistributionChunk): Promise<void> {
+  let receipt = chunk.txHash ? await ethers.provider.getTransactionReceipt(chunk.txHash) : null;
+
+  // Still in the mempool: wait for it rather than competing with it
+  if (!receipt && chunk.txHash && await ethers.provider.getTransaction(chunk.txHash)) {
+    receipt = await ethers.provider.waitForTransaction(chunk.txHash);
+  }
+
+  if (receipt) {
+    if (receipt.status === 1) {
+      chunk.status = "confirmed";
+      chunk.blockNumber = receipt.blockNumber;
+      return;
+    }
+    // Reverted transactions pay nothing; send again with a fresh nonce
+    chunk.status = "pending";
+    delete chunk.nonce;
+    delete chunk.txHash;
+    return;
+  }
+
+  const minedNonce = await sender.getNonce("latest");
+  if (chunk.nonce !== undefined && minedNonce > chunk.nonce) {
+    throw new Error(
+      `Rows ${chunk.start + 1}-${chunk.end}: nonce ${chunk.nonce} was used by another transaction ` +
+      `than ${chunk.txHash ?? "the recorded one"}; reconcile the recipients before resuming`,
+    );
+  }
+}
+
+/**
+ * Pay every unconfirmed chunk of a distribution
+ * @param token - Token contract
+ * @param sender - Signer holding the tokens
+ * @param rows - Rows of the input CSV
+ * @param state - Distribution state (modified in place)
+ * @param options - Path to persist the state after every step and the per-transaction gas ceiling
+ * @returns The state with every chunk confirmed
+ */
+export async function runDistribution(
+  token: EpicStarterToken,
+  sender: Signer,
+  rows: AllocationRow[],
+  state: DistributionState,
+  options: DistributionOptions = {},
+): Promise<DistributionState> {
+  const maxGas = options.maxGas ?? DEFAULT_MAX_GAS;
+  const senderAddress = await sender.getAddress();
+  const persist = () => {
+    if (options.statePath) saveDistributionState(options.statePath, state);
+  };
+
+  const { chainId } = await ethers.provider.getNetwork();
+  if (Number(chainId) !== state.chainId) {
+    throw new Error(`State was created on chain ${state.chainId}, not ${chainId}`);
+  }
+  if (ethers.getAddress(await token.getAddress()) !== ethers.getAddress(state.tokenAddress)) {
+    throw new Error(`State was created for token ${state.tokenAddress}, not ${await token.getAddress()}`);
+  }
+  if (ethers.getAddress(senderAddress) !== ethers.getAddress(state.sender)) {
+    throw new Error(`State was created for sender ${state.sender}, not ${senderAddress}`);
+  }
+  if (state.rows !== rows.length) {
+    throw new Error(`State covers ${state.rows} rows, input has ${rows.length}`);
+  }
+
+  // Settle what a previous run broadcast before working out what is left to pay
+  for (const chunk of state.chunks.filter((pending) => pending.status === "sent")) {
+    await settleSentChunk(sender, chunk);
+    persist();
+  }
+
+  const remaining = getRemainingAmount(rows, state);
+  const balance = await token.balanceOf(senderAddress);
+  if (balance < remaining) {
+    throw new Error(
+      `Sender holds ${formatTokenAmount(balance)} EPCS but ${formatTokenAmount(remaining)} EPCS remain to be paid`,
+    );
+  }
+
+  for (let index = 0; index < state.chunks.length; index++) {
+    const chunk = state.chunks[index];
+    if (chunk.status === "confirmed") continue;
+
+    const batch = rows.slice(chunk.start, chunk.end);
+    const recipients = batch.map((row) => row.address);
+    const amounts = batch.map((row) => row.amount);
+
+    if (chunk.nonce === undefined) {
+      const gas = await token.connect(sender).batchTransfer.estimateGas(recipients, amounts);
+      if (gas > maxGas && batch.length > 1) {
+        const middle = chunk.start + Math.ceil(batch.length / 2);
+        state.chunks.splice(index, 1,
+          { start: chunk.start, end: middle, status: "pending" },
+          { start: middle, end: chunk.end, status: "pending" },
+        );
+        persist();
+        index--;
+        continue;
+      }
+
+      chunk.nonce = await sender.getNonce("pending");
+    }
+
+    // Record the nonce before broadcasting and the hash right after, so a crash in between
+    // is detected on resume instead of paying the chunk twice
+    chunk.status = "sent";
+    persist();
+
+    const tx = await token.connect(sender).batchTransfer(recipients, amounts, { nonce: chunk.nonce });
+    chunk.txHash = tx.hash;
+    persist();
+
+    const receipt = await tx.wait();
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Rows ${chunk.start + 1}-${chunk.end} reverted (tx: ${tx.hash})`);
+    }
+
+    chunk.status = "confirmed";
+    chunk.blockNumber = receipt.blockNumber;
+    persist();
+
+    console.log(`✅ Rows ${chunk.start + 1}-${chunk.end} paid (tx: ${tx.hash})`);
+  }
+
+  return state;
+}
+
+/**
+ * Map every row to the transaction that paid it
+ */
+export function buildReceipts(rows: AllocationRow[], state: DistributionState): DistributionReceipt[] {
+  return state.chunks.flatMap((chunk) => {
+    if (chunk.status !== "confirmed" || !chunk.txHash || chunk.blockNumber === undefined) {
+      throw new Error(`Rows ${chunk.start + 1}-${chunk.end} are not confirmed yet`);
+    }
+
+    return rows.slice(chunk.start, chunk.end).map((row) => ({
+      line: row.line,
+      address: row.address,
+      amount: row.amount,
+      txHash: chunk.txHash as string,
+      blockNumber: chunk.blockNumber as number,
+    }));
+  });
+}
+
+/**
+ * Write receipts as CSV (amounts in EPCS)
+ */
+export function saveReceiptsCsv(filepath: string, receipts: DistributionReceipt[]): void {
+  const lines = [
+    "line,address,amount,txHash,blockNumber",
+    ...receipts.map((receipt) => [
+      receipt.line,
+      receipt.address,
+      formatTokenAmount(receipt.amount),
+      receipt.txHash,
+      receipt.blockNumber,
+    ].join(",")),
+  ];
+
+  fs.mkdirSync(path.dirname(filepath), { recursive: true });
+  fs.writeFileSync(filepath, `${lines.join("\n")}\n`);
+}
+
+/**
+ * Read and validate a distribution CSV
+ * @returns File content and parsed rows
+ */
+export function loadDistributionInput(inputPath: string): { content: string; rows: AllocationRow[] } {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`Input file not found: ${inputPath}`);
+  }
+
+  const content = fs.readFileSync(inputPath, "utf8");
+  const rows = parseAllocationCsv(content);
+  const problems = validateDistributionRows(rows);
+
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.log(`❌ ${problem}`));
+    throw new Error(`${problems.length} problems in ${inputPath}`);
+  }
+
+  return { content, rows };
+}
+
+/**
+ * Print progress of a distribution state
+ */
+export function printDistributionStatus(state: DistributionState): void {
+  const confirmed = state.chunks.filter((chunk) => chunk.status === "confirmed");
+  const sent = state.chunks.filter((chunk) => chunk.status === "sent");
+  const paidRows = confirmed.reduce((sum, chunk) => sum + chunk.end - chunk.start, 0);
+
+  console.log("\n📦 Distribution Status:");
+  console.log("═".repeat(50));
+  console.log(`Token: ${state.tokenAddress} (Chain ID: ${state.chainId})`);
+  console.log(`Sender: ${state.sender}`);
+  console.log(`Total: ${formatTokenAmount(state.total)} EPCS over ${state.rows} rows`);
+  console.log(`Chunks: ${confirmed.length}/${state.chunks.length} confirmed, ${sent.length} awaiting confirmation`);
+  console.log(`Rows paid: ${paidRows}/${state.rows}`);
+  console.log("═".repeat(50));
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/distribute.ts --network <network>");
+  console.log("Commands:");
+  console.log("  plan --input <csv> [--batch-size <n>]    Validate the CSV and print the chunk plan");
+  console.log("  run --input <csv> --state <json> [--batch-size <n>] [--max-gas <n>] [--receipts <csv>]");
+  console.log("  status --state <json>                    Print distribution progress");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  const batchSize = Number(getStringOption(args, "batch-size", String(DEFAULT_BATCH_SIZE)));
+
+  switch (args.command) {
+    case "plan": {
+      const { rows } = loadDistributionInput(getStringOption(args, "input"));
+      const chunks = planChunks(rows.length, batchSize);
+      const total = rows.reduce((sum, row) => sum + row.amount, 0n);
+
+      console.log(`✅ ${rows.length} rows, ${formatTokenAmount(total)} EPCS in ${chunks.length} batchTransfer calls`);
+      break;
+    }
+    case "run": {
+      const [signer] = await ethers.getSigners();
+      const networkConfig = await getCurrentNetworkConfig();
+      const token = await getTokenForCurrentNetwork();
+      const inputPath = getStringOption(args, "input");
+      const statePath = getStringOption(args, "state");
+      const { content, rows } = loadDistributionInput(inputPath);
+
+      let state = loadDistributionState(statePath);
+      if (state) {
+        if (state.inputHash !== hashDistributionInput(content)) {
+          throw new Error(`${inputPath} changed since ${statePath} was created`);
+        }
+        console.log(`🔁 Resuming distribution from ${statePath}`);
+      } else {
+        state = createDistributionState(
+          content,
+          rows,
+          await token.getAddress(),
+          networkConfig.chainId,
+          signer.address,
+          batchSize,
+        );
+        saveDistributionState(statePath, state);
+      }
+
+      await runDistribution(token, signer, rows, state, {
+        statePath,
+        maxGas: BigInt(getStringOption(args, "max-gas", DEFAULT_MAX_GAS.toString())),
+      });
+      printDistributionStatus(state);
+
+      const receiptsPath = getStringOption(args, "receipts", statePath.replace(/\.json$/, "") + ".receipts.csv");
+      saveReceiptsCsv(receiptsPath, buildReceipts(rows, state));
+      console.log(`✅ Receipts saved to: ${receiptsPath}`);
+      break;
+    }
+    case "status": {
+      const statePath = getStringOption(args, "state");
+      const state = loadDistributionState(statePath);
+      if (!state) throw new Error(`Distribution state not found: ${statePath}`);
+      printDistributionStatus(state);
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Distribution failed:", error);
+      process.exit(1);
+    });
+}
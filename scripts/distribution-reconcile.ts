@@ -0,0 +1,248 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import { EpicStarterToken } from "../typechain-types";
+import { getTokenForCurrentNetwork } from "./utils";
+import { DistributionState, hashDistributionInput, loadDistributionState } from "./distribute";
+import { DEFAULT_CHUNK_SIZE } from "./indexer";
+import {
+  AllocationRow,
+  DecodedEvent,
+  EventHelpers,
+  formatTokenAmount,
+  getStringOption,
+  parseAllocationCsv,
+  parseScriptArgs,
+} from "../utils/helpers";
+
+/**
+ * Distribution reconciliation
+ *
+ * Proves every recipient of a payout sheet received exactly its amount. Transfer events sent
+ * by the paying account are decoded against the token interface and compared per address
+ * with the "address,amount" CSV:
+ *
+ *   matched     paid == expected
+ *   missing     expected but nothing paid
+ *   underpaid   0 < paid < expected
+ *   overpaid    paid > expected
+ *   unexpected  paid to an address that is not in the sheet
+ *
+ * Transfers come either from the transactions recorded in a distribute.ts state file or from
+ * every Transfer out of --sender in a block range. Exits with code 1 unless every row matched
+ * and nothing unexpected was paid.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="--input payout.csv --state payout.state.json" npx hardhat run scripts/distribution-reconcile.ts
+ *   SCRIPT_ARGS="--input payout.csv --sender 0x... --from-block 100 [--to-block 200]" ...
+ */
+
+export type RecipientStatus = "matched" | "missing" | "underpaid" | "overpaid" | "unexpected";
+
+export interface RecipientReconciliation {
+  address: string;
+  lines: number[];
+  expected: bigint;
+  paid: bigint;
+  status: RecipientStatus;
+  txHashes: string[];
+}
+
+export interface DistributionReconciliation {
+  sender: string;
+  transfers: number;
+  expectedTotal: bigint;
+  paidTotal: bigint;
+  recipients: RecipientReconciliation[];
+  counts: Record<RecipientStatus, number>;
+  balanced: boolean;
+}
+
+/**
+ * Transfers out of the sender in the transactions recorded by a distribution state
+ */
+export async function collectTransfersFromState(
+  token: EpicStarterToken,
+  state: DistributionState,
+): Promise<DecodedEvent[]> {
+  const txHashes = [...new Set(state.chunks.map((chunk) => chunk.txHash).filter((hash): hash is string => !!hash))];
+  const transfers: DecodedEvent[] = [];
+
+  for (const txHash of txHashes) {
+    const receipt = await ethers.provider.getTransactionReceipt(txHash);
+    const events = EventHelpers.getEventsFromReceipt(receipt, token.interface, "Transfer", state.tokenAddress);
+    transfers.push(...events.filter((event) => event.args.from === ethers.getAddress(state.sender)));
+  }
+
+  return transfers;
+}
+
+/**
+ * Transfers out of the sender in a block range, queried in chunks
+ */
+export async function collectTransfersInRange(
+  token: EpicStarterToken,
+  sender: string,
+  fromBlock: number,
+  toBlock: number,
+): Promise<DecodedEvent[]> {
+  const tokenAddress = await token.getAddress();
+  const topics = [token.interface.getEvent("Transfer").topicHash, ethers.zeroPadValue(sender, 32)];
+  const transfers: DecodedEvent[] = [];
+
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += DEFAULT_CHUNK_SIZE) {
+    const chunkEnd = Math.min(chunkStart + DEFAULT_CHUNK_SIZE - 1, toBlock);
+    const filter = { address: tokenAddress, topics, fromBlock: chunkStart, toBlock: chunkEnd };
+    const logs = await ethers.provider.getLogs(filter);
+    transfers.push(...EventHelpers.decodeLogs(logs, token.interface, "Transfer", tokenAddress));
+  }
+
+  return transfers;
+}
+
+/**
+ * Compare decoded transfers with the rows of a payout sheet
+ * @param rows - Sheet rows (duplicate addresses are summed)
+ * @param transfers - Decoded Transfer events out of the sender
+ * @param sender - Paying account
+ * @returns Per-recipient report, sheet rows first in file order
+ */
+export function reconcileDistribution(
+  rows: AllocationRow[],
+  transfers: DecodedEvent[],
+  sender: string,
+): DistributionReconciliation {
+  const recipients = new Map<string, RecipientReconciliation>();
+  const entry = (address: string) => {
+    let recipient = recipients.get(address);
+    if (!recipient) {
+      recipient = { address, lines: [], expected: 0n, paid: 0n, status: "unexpected", txHashes: [] };
+      recipients.set(address, recipient);
+    }
+    return recipient;
+  };
+
+  for (const row of rows) {
+    const recipient = entry(row.address);
+    recipient.lines.push(row.line);
+    recipient.expected += row.amount;
+  }
+
+  const outgoing = transfers.filter((event) => (
+    event.args.from === ethers.getAddress(sender) && event.args.to !== ethers.ZeroAddress
+  ));
+
+  for (const event of outgoing) {
+    const recipient = entry(event.args.to);
+    recipient.paid += event.args.value;
+    if (!recipient.txHashes.includes(event.log.transactionHash)) {
+      recipient.txHashes.push(event.log.transactionHash);
+    }
+  }
+
+  const counts: Record<RecipientStatus, number> = { matched: 0, missing: 0, underpaid: 0, overpaid: 0, unexpected: 0 };
+
+  for (const recipient of recipients.values()) {
+    if (recipient.lines.length === 0) {
+      recipient.status = "unexpected";
+    } else if (recipient.paid === recipient.expected) {
+      recipient.status = "matched";
+    } else if (recipient.paid === 0n) {
+      recipient.status = "missing";
+    } else {
+      recipient.status = recipient.paid < recipient.expected ? "underpaid" : "overpaid";
+    }
+    counts[recipient.status]++;
+  }
+
+  const report = [...recipients.values()];
+
+  return {
+    sender: ethers.getAddress(sender),
+    transfers: outgoing.length,
+    expectedTotal: report.reduce((sum, recipient) => sum + recipient.expected, 0n),
+    paidTotal: report.reduce((sum, recipient) => sum + recipient.paid, 0n),
+    recipients: report,
+    counts,
+    balanced: counts.matched === report.length,
+  };
+}
+
+/**
+ * Print a reconciliation report
+ */
+export function printDistributionReconciliation(report: DistributionReconciliation): void {
+  console.log("\n🧮 Distribution Reconciliation:");
+  console.log("═".repeat(50));
+  console.log(`Sender: ${report.sender}`);
+  console.log(`Transfers: ${report.transfers}`);
+  console.log(`Expected: ${formatTokenAmount(report.expectedTotal)} EPCS`);
+  console.log(`Paid: ${formatTokenAmount(report.paidTotal)} EPCS`);
+  for (const [status, count] of Object.entries(report.counts)) {
+    console.log(`${status}: ${count}`);
+  }
+  console.log("═".repeat(50));
+
+  report.recipients
+    .filter((recipient) => recipient.status !== "matched")
+    .forEach((recipient) => {
+      const where = recipient.lines.length > 0 ? `line ${recipient.lines.join(", ")}` : "not in sheet";
+      console.log(`❌ ${recipient.status} ${recipient.address} (${where})`);
+      console.log(`   expected ${formatTokenAmount(recipient.expected)}, paid ${formatTokenAmount(recipient.paid)}`);
+      recipient.txHashes.forEach((txHash) => console.log(`   tx ${txHash}`));
+    });
+
+  console.log(report.balanced ? "\n🎉 Every row was paid exactly" : "\n⚠️  Distribution does not reconcile");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  const token = await getTokenForCurrentNetwork();
+  const inputPath = getStringOption(args, "input");
+
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`Input file not found: ${inputPath}`);
+  }
+
+  const content = fs.readFileSync(inputPath, "utf8");
+  const rows = parseAllocationCsv(content);
+
+  let sender: string;
+  let transfers: DecodedEvent[];
+
+  if (typeof args.options.state === "string") {
+    const state = loadDistributionState(args.options.state);
+    if (!state) throw new Error(`Distribution state not found: ${args.options.state}`);
+    if (state.inputHash !== hashDistributionInput(content)) {
+      throw new Error(`${inputPath} is not the sheet ${args.options.state} was created from`);
+    }
+
+    sender = state.sender;
+    transfers = await collectTransfersFromState(token, state);
+  } else {
+    sender = getStringOption(args, "sender");
+    const latest = await ethers.provider.getBlockNumber();
+    transfers = await collectTransfersInRange(
+      token,
+      sender,
+      Number(getStringOption(args, "from-block")),
+      Number(getStringOption(args, "to-block", String(latest))),
+    );
+  }
+
+  const report = reconcileDistribution(rows, transfers, sender);
+  printDistributionReconciliation(report);
+
+  if (!report.balanced) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+      console.error("❌ Reconciliation failed:", error);
+      process.exit(1);
+    });
+}
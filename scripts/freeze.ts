@@ -0,0 +1,246 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { EpicStarterToken } from "../typechain-types";
+import { getCurrentNetworkConfig, getTokenForCurrentNetwork, loadDeploymentInfo } from "./utils";
+import { DEFAULT_CHUNK_SIZE } from "./indexer";
+import {
+  EventHelpers,
+  decodeReasonCode,
+  encodeReasonCode,
+  getStringOption,
+  isValidAddress,
+  parseScriptArgs,
+} from "../utils/helpers";
+
+/**
+ * Account freezes
+ *
+ * FREEZER_ROLE accounts can freeze the sends and/or the receives of single addresses, e.g. a
+ * compromised presale wallet or a sanctioned address, without pausing everyone. This CLI applies
+ * freezes from a list file and exports the current frozen set.
+ *
+ * List files hold one "address[,reason]" per line (optional header, # comments). The reason of a
+ * line overrides --reason. Addresses already in the requested state are skipped, so a list can be
+ * applied again after a failure.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="freeze --list frozen.csv [--mode send|receive|both] [--reason SANCTIONED]" npx hardhat run ...
+ *   SCRIPT_ARGS="unfreeze --list frozen.csv [--reason CLEARED]" npx hardhat run scripts/freeze.ts --network <name>
+ *   SCRIPT_ARGS="export [--out frozen.json] [--from-block <n>]" npx hardhat run ...
+ */
+
+export type FreezeMode = "send" | "receive" | "both" | "none";
+
+export interface FreezeListEntry {
+  line: number;
+  address: string;
+  reason?: string;
+}
+
+export interface FreezeChange {
+  address: string;
+  reason: string;
+  status: "updated" | "skipped";
+  txHash?: string;
+}
+
+export interface FrozenAccount {
+  address: string;
+  sendFrozen: boolean;
+  receiveFrozen: boolean;
+  reason: string;
+  operator: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Parse "address[,reason]" list content
+ */
+export function parseFreezeList(content: string): FreezeListEntry[] {
+  const entries: FreezeListEntry[] = [];
+  const seen = new Set<string>();
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) return;
+
+    const [address, reason] = line.split(",").map((cell) => cell.trim());
+    if (index === 0 && address.toLowerCase() === "address") return;
+
+    if (!isValidAddress(address)) {
+      throw new Error(`Line ${index + 1}: invalid address ${address}`);
+    }
+
+    const checksummed = ethers.getAddress(address);
+    if (seen.has(checksummed)) {
+      throw new Error(`Line ${index + 1}: duplicate address ${checksummed}`);
+    }
+    seen.add(checksummed);
+
+    entries.push({ line: index + 1, address: checksummed, reason: reason || undefined });
+  });
+
+  return entries;
+}
+
+/**
+ * Send and receive flags of a freeze mode
+ */
+export function getFreezeFlags(mode: FreezeMode): { freezeSend: boolean; freezeReceive: boolean } {
+  if (!["send", "receive", "both", "none"].includes(mode)) {
+    throw new Error(`Invalid freeze mode ${mode}, expected send, receive or both`);
+  }
+
+  return {
+    freezeSend: mode === "send" || mode === "both",
+    freezeReceive: mode === "receive" || mode === "both",
+  };
+}
+
+/**
+ * Bring every listed account to the given mode, one setFrozen transaction per account that differs
+ */
+export async function applyFreezeList(
+  token: EpicStarterToken,
+  signer: SignerWithAddress,
+  entries: FreezeListEntry[],
+  mode: FreezeMode,
+  defaultReason = "",
+): Promise<FreezeChange[]> {
+  const { freezeSend, freezeReceive } = getFreezeFlags(mode);
+  const changes: FreezeChange[] = [];
+
+  for (const entry of entries) {
+    const reason = entry.reason ?? defaultReason;
+    const state = await token.getFreezeState(entry.address);
+
+    if (state.sendFrozen === freezeSend && state.receiveFrozen === freezeReceive) {
+      changes.push({ address: entry.address, reason, status: "skipped" });
+      continue;
+    }
+
+    const tx = await token
+      .connect(signer)
+      .setFrozen(entry.address, freezeSend, freezeReceive, encodeReasonCode(reason));
+    await tx.wait();
+    changes.push({ address: entry.address, reason, status: "updated", txHash: tx.hash });
+  }
+
+  return changes;
+}
+
+/**
+ * Rebuild the frozen set from FreezeUpdated events, keeping each account's latest update that
+ * still matches the chain
+ */
+export async function fetchFrozenAccounts(
+  token: EpicStarterToken,
+  fromBlock: number,
+  toBlock: number,
+): Promise<FrozenAccount[]> {
+  const tokenAddress = await token.getAddress();
+  const topics = [token.interface.getEvent("FreezeUpdated").topicHash];
+  const latest = new Map<string, FrozenAccount>();
+
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += DEFAULT_CHUNK_SIZE) {
+    const chunkEnd = Math.min(chunkStart + DEFAULT_CHUNK_SIZE - 1, toBlock);
+    const filter = { address: tokenAddress, topics, fromBlock: chunkStart, toBlock: chunkEnd };
+    const logs = await ethers.provider.getLogs(filter);
+
+    for (const event of EventHelpers.decodeLogs(logs, token.interface, "FreezeUpdated", tokenAddress)) {
+      latest.set(event.args.account, {
+        address: event.args.account,
+        sendFrozen: event.args.sendFrozen,
+        receiveFrozen: event.args.receiveFrozen,
+        reason: decodeReasonCode(event.args.reason),
+        operator: event.args.operator,
+        blockNumber: event.log.blockNumber,
+        transactionHash: event.log.transactionHash,
+      });
+    }
+  }
+
+  const frozen: FrozenAccount[] = [];
+  for (const account of latest.values()) {
+    const state = await token.getFreezeState(account.address);
+    if (!state.sendFrozen && !state.receiveFrozen) continue;
+
+    frozen.push({ ...account, sendFrozen: state.sendFrozen, receiveFrozen: state.receiveFrozen });
+  }
+
+  return frozen.sort((a, b) => a.address.toLowerCase().localeCompare(b.address.toLowerCase()));
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/freeze.ts --network <name>");
+  console.log("Commands:");
+  console.log("  freeze --list <file> [--mode send|receive|both] [--reason <code>]   Freeze the listed accounts");
+  console.log("  unfreeze --list <file> [--reason <code>]                           Unfreeze the listed accounts");
+  console.log("  export [--out <file>] [--from-block <n>]                           Current frozen set");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "freeze":
+    case "unfreeze": {
+      const token = await getTokenForCurrentNetwork();
+      const [signer] = await ethers.getSigners();
+      const list = getStringOption(args, "list");
+      const mode = (args.command === "unfreeze" ? "none" : getStringOption(args, "mode", "both")) as FreezeMode;
+      const entries = parseFreezeList(fs.readFileSync(list, "utf8"));
+
+      const action = args.command === "freeze" ? `Freezing (${mode})` : "Unfreezing";
+      console.log(`\n🧊 ${action} ${entries.length} account(s)`);
+      console.log("═".repeat(50));
+      const changes = await applyFreezeList(token, signer, entries, mode, getStringOption(args, "reason", ""));
+      for (const change of changes) {
+        const detail = change.status === "updated" ? `tx: ${change.txHash}` : "already in this state";
+        console.log(`${change.status === "updated" ? "✅" : "⏭️ "} ${change.address} ${change.reason} (${detail})`);
+      }
+      console.log("═".repeat(50));
+      console.log(`Updated: ${changes.filter((change) => change.status === "updated").length}`);
+      console.log(`Skipped: ${changes.filter((change) => change.status === "skipped").length}`);
+      break;
+    }
+    case "export": {
+      const networkConfig = await getCurrentNetworkConfig();
+      const deploymentInfo = loadDeploymentInfo(networkConfig.name, networkConfig.chainId);
+      const token = await getTokenForCurrentNetwork();
+      const fromBlock = Number(getStringOption(args, "from-block", String(deploymentInfo.blockNumber ?? 0)));
+      const frozen = await fetchFrozenAccounts(token, fromBlock, await ethers.provider.getBlockNumber());
+
+      console.log("\n🧊 Frozen Accounts:");
+      console.log("═".repeat(50));
+      for (const account of frozen) {
+        const flags = [account.sendFrozen && "send", account.receiveFrozen && "receive"].filter(Boolean).join("+");
+        console.log(`${account.address} ${flags} ${account.reason} (block ${account.blockNumber})`);
+      }
+      console.log("═".repeat(50));
+      console.log(`Frozen accounts: ${frozen.length}`);
+
+      if (typeof args.options.out === "string") {
+        const tmpPath = `${args.options.out}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(frozen, null, 2));
+        fs.renameSync(tmpPath, args.options.out);
+        console.log(`📄 Frozen set written to ${args.options.out}`);
+      }
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Freeze command failed:", error);
+      process.exit(1);
+    });
+}
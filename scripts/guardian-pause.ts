@@ -0,0 +1,336 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { Signer, TypedDataDomain, TypedDataField, Wallet } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { EpicStarterToken } from "../typechain-types";
+import { getTokenForCurrentNetwork } from "./utils";
+import { PERMIT_DOMAIN_VERSION } from "../utils/permit";
+import { TIME_UNITS, formatTimestamp, getStringOption, parseScriptArgs } from "../utils/helpers";
+
+/**
+ * Guardian emergency pause
+ *
+ * Any M of the N guardians set with setGuardians can pause the token without an EMERGENCY_ROLE
+ * key being online. The flow is:
+ *
+ *   prepare   read the guardian set id and pause nonce from the chain and write an intent file
+ *   sign      each guardian signs the intent offline (GUARDIAN_PRIVATE_KEY, no RPC needed) and
+ *             hands back a signature file
+ *   submit    anyone aggregates the signature files, drops invalid ones, orders the rest by
+ *             signer and sends guardianPause once the threshold is met
+ *
+ * Guardians sign the EIP-712 message GuardianPause(guardianSetId, nonce, deadline) in the
+ * token's domain. A pause consumes the nonce and rotating the guardian set changes the set id,
+ * so collected signatures cannot be replayed in either case.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="prepare --out pause-intent.json [--valid-hours 24]" npx hardhat run scripts/guardian-pause.ts
+ *   GUARDIAN_PRIVATE_KEY=... SCRIPT_ARGS="sign --intent pause-intent.json [--out sigs/]" npx hardhat run ...
+ *   SCRIPT_ARGS="submit --intent pause-intent.json --signatures sigs/" npx hardhat run ...
+ *   SCRIPT_ARGS="status" npx hardhat run ...
+ */
+
+export const GUARDIAN_PAUSE_VERSION = 1;
+export const DEFAULT_INTENT_VALIDITY = TIME_UNITS.DAY;
+
+export const GUARDIAN_PAUSE_TYPES: Record<string, TypedDataField[]> = {
+  GuardianPause: [
+    { name: "guardianSetId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PauseIntent {
+  version: number;
+  domainName: string;
+  chainId: number;
+  token: string;
+  guardianSetId: string;
+  nonce: string;
+  deadline: number;
+}
+
+export interface GuardianSignature {
+  intent: PauseIntent;
+  guardian: string;
+  signature: string;
+}
+
+export interface SignatureAggregate {
+  signatures: string[];
+  signers: string[];
+  rejected: string[];
+}
+
+/**
+ * EIP-712 domain, types and message of an intent
+ */
+export function getPauseTypedData(intent: PauseIntent): {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: Record<string, bigint>;
+} {
+  return {
+    domain: {
+      name: intent.domainName,
+      version: PERMIT_DOMAIN_VERSION,
+      chainId: intent.chainId,
+      verifyingContract: intent.token,
+    },
+    types: GUARDIAN_PAUSE_TYPES,
+    message: {
+      guardianSetId: BigInt(intent.guardianSetId),
+      nonce: BigInt(intent.nonce),
+      deadline: BigInt(intent.deadline),
+    },
+  };
+}
+
+/**
+ * Build an intent for the next guardian pause from the chain state
+ * @param validFor - Seconds from the latest block until the signatures expire
+ */
+export async function preparePauseIntent(
+  token: EpicStarterToken,
+  validFor: number = DEFAULT_INTENT_VALIDITY,
+): Promise<PauseIntent> {
+  const { guardianSetId, threshold } = await token.getGuardians();
+  if (threshold === 0n) throw new Error("No guardian set is configured on the token");
+
+  const latest = await ethers.provider.getBlock("latest");
+
+  return {
+    version: GUARDIAN_PAUSE_VERSION,
+    domainName: await token.name(),
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    token: await token.getAddress(),
+    guardianSetId: guardianSetId.toString(),
+    nonce: (await token.guardianPauseNonce()).toString(),
+    deadline: (latest?.timestamp ?? Math.floor(Date.now() / 1000)) + validFor,
+  };
+}
+
+/**
+ * Sign an intent; works with a signer that has no provider
+ */
+export async function signPauseIntent(intent: PauseIntent, signer: Signer): Promise<GuardianSignature> {
+  const { domain, types, message } = getPauseTypedData(intent);
+
+  return {
+    intent,
+    guardian: await signer.getAddress(),
+    signature: await signer.signTypedData(domain, types, message),
+  };
+}
+
+/**
+ * Address that produced a signature over an intent
+ */
+export function recoverPauseSigner(intent: PauseIntent, signature: string): string {
+  const { domain, types, message } = getPauseTypedData(intent);
+  return ethers.verifyTypedData(domain, types, message, signature);
+}
+
+function sameIntent(a: PauseIntent, b: PauseIntent): boolean {
+  return a.chainId === b.chainId &&
+    a.token.toLowerCase() === b.token.toLowerCase() &&
+    a.domainName === b.domainName &&
+    a.guardianSetId === b.guardianSetId &&
+    a.nonce === b.nonce &&
+    a.deadline === b.deadline;
+}
+
+/**
+ * Keep the valid signatures for an intent, one per guardian, ordered by signer address as guardianPause expects
+ * @param guardians - Current guardian set
+ */
+export function aggregatePauseSignatures(
+  intent: PauseIntent,
+  entries: GuardianSignature[],
+  guardians: string[],
+): SignatureAggregate {
+  const members = new Set(guardians.map((guardian) => guardian.toLowerCase()));
+  const bySigner = new Map<string, string>();
+  const rejected: string[] = [];
+
+  for (const entry of entries) {
+    if (!sameIntent(entry.intent, intent)) {
+      rejected.push(`${entry.guardian}: signed a different intent`);
+      continue;
+    }
+
+    const signer = recoverPauseSigner(intent, entry.signature);
+    if (signer.toLowerCase() !== entry.guardian.toLowerCase()) {
+      rejected.push(`${entry.guardian}: signature recovers to ${signer}`);
+    } else if (!members.has(signer.toLowerCase())) {
+      rejected.push(`${signer}: not in the guardian set`);
+    } else if (bySigner.has(signer.toLowerCase())) {
+      rejected.push(`${signer}: duplicate signature`);
+    } else {
+      bySigner.set(signer.toLowerCase(), entry.signature);
+    }
+  }
+
+  const signers = [...bySigner.keys()].sort();
+  return {
+    signatures: signers.map((signer) => bySigner.get(signer) as string),
+    signers: signers.map((signer) => ethers.getAddress(signer)),
+    rejected,
+  };
+}
+
+/**
+ * Load an intent file
+ */
+export function loadPauseIntent(filepath: string): PauseIntent {
+  const intent = JSON.parse(fs.readFileSync(filepath, "utf8")) as PauseIntent;
+  if (intent.version !== GUARDIAN_PAUSE_VERSION) {
+    throw new Error(`Unsupported pause intent version ${intent.version} in ${filepath}`);
+  }
+  return intent;
+}
+
+/**
+ * Load signature files, given as files or directories of .json files
+ */
+export function loadGuardianSignatures(paths: string[]): GuardianSignature[] {
+  const files = paths.flatMap((entry) => fs.statSync(entry).isDirectory()
+    ? fs.readdirSync(entry).filter((name) => name.endsWith(".json")).sort().map((name) => path.join(entry, name))
+    : [entry]);
+
+  return files.map((filepath) => JSON.parse(fs.readFileSync(filepath, "utf8")) as GuardianSignature);
+}
+
+/**
+ * Write a JSON file atomically
+ */
+function writeJsonFile(filepath: string, data: object): void {
+  const tmpPath = `${filepath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tmpPath, filepath);
+}
+
+/**
+ * Check an aggregate against the chain and send guardianPause
+ */
+export async function submitGuardianPause(
+  token: EpicStarterToken,
+  relayer: SignerWithAddress,
+  intent: PauseIntent,
+  aggregate: SignatureAggregate,
+): Promise<string> {
+  const { threshold, guardianSetId } = await token.getGuardians();
+  const nonce = await token.guardianPauseNonce();
+  const latest = await ethers.provider.getBlock("latest");
+
+  if (intent.token.toLowerCase() !== (await token.getAddress()).toLowerCase()) {
+    throw new Error(`Intent is for token ${intent.token}`);
+  }
+  if (BigInt(intent.guardianSetId) !== guardianSetId) {
+    throw new Error(`Intent was signed for guardian set ${intent.guardianSetId}, current set is ${guardianSetId}`);
+  }
+  if (BigInt(intent.nonce) !== nonce) {
+    throw new Error(`Intent nonce ${intent.nonce} was already used, current nonce is ${nonce}`);
+  }
+  if (latest && latest.timestamp > intent.deadline) {
+    throw new Error(`Intent expired at ${formatTimestamp(intent.deadline)}`);
+  }
+  if (BigInt(aggregate.signatures.length) < threshold) {
+    throw new Error(`Only ${aggregate.signatures.length} valid signature(s), ${threshold} needed`);
+  }
+
+  const tx = await token.connect(relayer).guardianPause(intent.nonce, intent.deadline, aggregate.signatures);
+  await tx.wait();
+  console.log(`✅ Token paused by ${aggregate.signers.length} guardian(s) (tx: ${tx.hash})`);
+
+  return tx.hash;
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/guardian-pause.ts --network <name>");
+  console.log("Commands:");
+  console.log("  prepare --out <intent.json> [--valid-hours <n>]   Intent for the next guardian pause");
+  console.log("  sign --intent <intent.json> [--out <dir>]         Sign offline with GUARDIAN_PRIVATE_KEY");
+  console.log("  submit --intent <intent.json> --signatures <a,b>  Aggregate signature files/dirs and pause");
+  console.log("  status                                            Guardian set, threshold and nonce");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "prepare": {
+      const validHours = Number(getStringOption(args, "valid-hours", "24"));
+      const intent = await preparePauseIntent(await getTokenForCurrentNetwork(), validHours * TIME_UNITS.HOUR);
+      const out = getStringOption(args, "out");
+      writeJsonFile(out, intent);
+
+      console.log(`✅ Pause intent written to ${out}`);
+      console.log(`   Guardian set ${intent.guardianSetId}, nonce ${intent.nonce}`);
+      console.log(`   Signatures expire at ${formatTimestamp(intent.deadline)}`);
+      break;
+    }
+    case "sign": {
+      const privateKey = process.env.GUARDIAN_PRIVATE_KEY;
+      if (!privateKey) throw new Error("GUARDIAN_PRIVATE_KEY is not set");
+
+      const intent = loadPauseIntent(getStringOption(args, "intent"));
+      const signed = await signPauseIntent(intent, new Wallet(privateKey));
+      const outDir = getStringOption(args, "out", ".");
+      const out = path.join(outDir, `pause-${intent.nonce}-${signed.guardian}.json`);
+      fs.mkdirSync(outDir, { recursive: true });
+      writeJsonFile(out, signed);
+
+      console.log(`✅ ${signed.guardian} signed pause intent ${intent.nonce} for ${intent.token}`);
+      console.log(`   Signature written to ${out}`);
+      break;
+    }
+    case "submit": {
+      const token = await getTokenForCurrentNetwork();
+      const [relayer] = await ethers.getSigners();
+      const intent = loadPauseIntent(getStringOption(args, "intent"));
+      const entries = loadGuardianSignatures(getStringOption(args, "signatures").split(","));
+      const { guardians, threshold } = await token.getGuardians();
+      const aggregate = aggregatePauseSignatures(intent, entries, [...guardians]);
+
+      console.log("\n🛡️  Guardian Pause:");
+      console.log("═".repeat(50));
+      console.log(`Signature files: ${entries.length}`);
+      console.log(`Valid: ${aggregate.signers.length} of ${threshold} needed`);
+      aggregate.signers.forEach((signer) => console.log(`  ✅ ${signer}`));
+      aggregate.rejected.forEach((message) => console.log(`  ❌ ${message}`));
+      console.log("═".repeat(50));
+
+      await submitGuardianPause(token, relayer, intent, aggregate);
+      break;
+    }
+    case "status": {
+      const token = await getTokenForCurrentNetwork();
+      const { guardians, threshold, guardianSetId } = await token.getGuardians();
+
+      console.log("\n🛡️  Guardians:");
+      console.log("═".repeat(50));
+      console.log(`Guardian set: ${guardianSetId}`);
+      console.log(`Threshold: ${threshold} of ${guardians.length}`);
+      console.log(`Next pause nonce: ${await token.guardianPauseNonce()}`);
+      console.log(`Paused: ${await token.paused()}`);
+      guardians.forEach((guardian) => console.log(`  ${guardian}`));
+      console.log("═".repeat(50));
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Guardian pause command failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,492 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { EpicStarterToken } from "../typechain-types";
+import { getContractFromDeployment, getCurrentNetworkConfig, loadDeploymentInfo } from "./utils";
+import { ZERO_ADDRESS, formatTokenAmount, getStringOption, parseScriptArgs } from "../utils/helpers";
+
+/**
+ * Token event indexer
+ *
+ * Incrementally syncs token events into a local JSON store so balances, holder lists and
+ * transfer history can be queried without a block explorer:
+ *
+ *   - log queries are chunked by block range and the store is written after every chunk,
+ *     so an interrupted sync resumes from the persisted cursor
+ *   - the hashes of the last --reorg-depth indexed blocks are stored; if the chain no longer
+ *     has the cursor block the store is rewound to the newest of those blocks that is still
+ *     on chain (or to the start block if none is) and the blocks after it are indexed again
+ *   - balances are derived from Transfer events only
+ *
+ * The token address and default start block come from the deployment JSON written by
+ * saveDeploymentInfo; the store defaults to deployments/<network>_<chainId>_indexer.json.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="sync [--from-block 123] [--chunk-size 2000] [--reorg-depth 12]" npx hardhat run scripts/indexer.ts
+ *     (--from-block only applies to a new store; an existing store keeps its own start block)
+ *   SCRIPT_ARGS="holders [--top 20]" / "history [--account 0x...] [--limit 50]" ...
+ *   SCRIPT_ARGS="rewind --blocks 100" / "status" ...
+ * Every command accepts --store <path>.
+ */
+
+export const INDEXER_STORE_VERSION = 2;
+export const DEFAULT_CHUNK_SIZE = 2000;
+export const DEFAULT_REORG_DEPTH = 12;
+
+export const INDEXED_EVENTS = [
+  "Transfer",
+  "TokensBurned",
+  "Burn",
+  "TokensPaused",
+  "TokensUnpaused",
+  "EmergencyWithdraw",
+  "RoleGranted",
+  "RoleRevoked",
+  "RoleAdminChanged",
+  "OwnershipTransferred",
+];
+
+export interface IndexedEvent {
+  name: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string>;
+}
+
+export interface IndexerCursor {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexerStore {
+  version: number;
+  tokenAddress: string;
+  chainId: number;
+  startBlock: number;
+  cursor: IndexerCursor | null;
+  /** Hashes of the most recently indexed blocks, oldest first; the last entry is the cursor */
+  recentBlocks: IndexerCursor[];
+  balances: Record<string, string>;
+  events: IndexedEvent[];
+}
+
+export interface SyncOptions {
+  toBlock?: number;
+  chunkSize?: number;
+  reorgDepth?: number;
+  storePath?: string;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  rewoundTo: number | null;
+}
+
+export interface Holder {
+  address: string;
+  balance: bigint;
+}
+
+/**
+ * Create an empty store for a token
+ */
+export function createIndexerStore(tokenAddress: string, chainId: number, startBlock: number): IndexerStore {
+  return {
+    version: INDEXER_STORE_VERSION,
+    tokenAddress: ethers.getAddress(tokenAddress),
+    chainId,
+    startBlock,
+    cursor: null,
+    recentBlocks: [],
+    balances: {},
+    events: [],
+  };
+}
+
+/**
+ * Load a store written by saveIndexerStore
+ * @returns The store, or null if the file does not exist
+ */
+export function loadIndexerStore(filepath: string): IndexerStore | null {
+  if (!fs.existsSync(filepath)) {
+    return null;
+  }
+
+  const store = JSON.parse(fs.readFileSync(filepath, "utf8")) as IndexerStore;
+  if (store.version === 1) {
+    // Version 1 stores only kept the cursor hash
+    store.version = INDEXER_STORE_VERSION;
+    store.recentBlocks = store.cursor ? [store.cursor] : [];
+  }
+  if (store.version !== INDEXER_STORE_VERSION) {
+    throw new Error(`Unsupported indexer store version ${store.version} in ${filepath}`);
+  }
+
+  return store;
+}
+
+/**
+ * Pick the store to sync into: the loaded one, or a new store if there is none
+ * @param loaded - Store read from disk, if any
+ * @param tokenAddress - Token to index
+ * @param chainId - Chain the token is deployed on
+ * @param startBlock - Start block for a new store
+ * @param fromBlock - Explicitly requested start block; must match an existing store's start block
+ */
+export function openIndexerStore(
+  loaded: IndexerStore | null,
+  tokenAddress: string,
+  chainId: number,
+  startBlock: number,
+  fromBlock?: number,
+): IndexerStore {
+  if (!loaded) {
+    return createIndexerStore(tokenAddress, chainId, fromBlock ?? startBlock);
+  }
+  if (fromBlock !== undefined && fromBlock !== loaded.startBlock) {
+    throw new Error(
+      `Store starts at block ${loaded.startBlock} and is synced to ${loaded.cursor?.blockNumber ?? "nothing"}; ` +
+        `--from-block ${fromBlock} would be ignored. Use a new --store or the rewind command`,
+    );
+  }
+
+  return loaded;
+}
+
+/**
+ * Write a store atomically (temporary file + rename) so a crash never leaves a truncated file
+ */
+export function saveIndexerStore(filepath: string, store: IndexerStore): void {
+  fs.mkdirSync(path.dirname(filepath), { recursive: true });
+
+  const tmpPath = `${filepath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(store, null, 2));
+  fs.renameSync(tmpPath, filepath);
+}
+
+function applyTransfer(balances: Record<string, string>, event: IndexedEvent): void {
+  const { from, to, value } = event.args;
+  const amount = BigInt(value);
+
+  if (from !== ZERO_ADDRESS) {
+    const remaining = BigInt(balances[from] ?? "0") - amount;
+    if (remaining === 0n) {
+      delete balances[from];
+    } else {
+      balances[from] = remaining.toString();
+    }
+  }
+
+  if (to !== ZERO_ADDRESS) {
+    balances[to] = (BigInt(balances[to] ?? "0") + amount).toString();
+  }
+}
+
+/**
+ * Drop everything indexed after a block and rebuild balances from the remaining events
+ * @param store - Indexer store (modified in place)
+ * @param blockNumber - Last block to keep
+ */
+export async function rewindIndexerStore(store: IndexerStore, blockNumber: number): Promise<void> {
+  const target = Math.max(blockNumber, store.startBlock - 1);
+
+  store.events = store.events.filter((event) => event.blockNumber <= target);
+  store.balances = {};
+  store.events.filter((event) => event.name === "Transfer").forEach((event) => applyTransfer(store.balances, event));
+
+  store.recentBlocks = store.recentBlocks.filter((entry) => entry.blockNumber < target);
+
+  if (target < store.startBlock) {
+    store.cursor = null;
+    return;
+  }
+
+  const block = await ethers.provider.getBlock(target);
+  if (!block?.hash) {
+    throw new Error(`Block ${target} not found while rewinding`);
+  }
+  store.cursor = { blockNumber: target, blockHash: block.hash };
+  store.recentBlocks.push(store.cursor);
+}
+
+/**
+ * Newest stored block that is still on chain, checking the stored hashes from the cursor back
+ * @returns The block number, or the block before the start block if none of them match
+ */
+async function findLastCanonicalBlock(store: IndexerStore): Promise<number> {
+  for (const entry of [...store.recentBlocks].reverse()) {
+    const block = await ethers.provider.getBlock(entry.blockNumber);
+    if (block?.hash === entry.blockHash) {
+      return entry.blockNumber;
+    }
+  }
+
+  // The reorg is deeper than the stored hashes, so nothing indexed can be trusted
+  return store.startBlock - 1;
+}
+
+/**
+ * Sync a store up to the chain head (or options.toBlock)
+ * @param token - Token contract
+ * @param store - Indexer store (modified in place)
+ * @param options - Chunk size, reorg depth and an optional path to persist the store after every chunk
+ * @returns Indexed range, number of new events and the block rewound to if a reorg was detected
+ */
+export async function syncIndexer(
+  token: EpicStarterToken,
+  store: IndexerStore,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+  const tokenAddress = await token.getAddress();
+
+  if (chunkSize <= 0) {
+    throw new Error("Chunk size must be positive");
+  }
+  if (ethers.getAddress(tokenAddress) !== store.tokenAddress) {
+    throw new Error(`Store indexes ${store.tokenAddress}, not ${tokenAddress}`);
+  }
+
+  if (reorgDepth <= 0) {
+    throw new Error("Reorg depth must be positive");
+  }
+
+  let rewoundTo: number | null = null;
+
+  if (store.cursor) {
+    const lastCanonical = await findLastCanonicalBlock(store);
+    if (lastCanonical !== store.cursor.blockNumber) {
+      rewoundTo = lastCanonical;
+      await rewindIndexerStore(store, rewoundTo);
+    }
+  }
+
+  const fromBlock = store.cursor ? store.cursor.blockNumber + 1 : store.startBlock;
+  const toBlock = options.toBlock ?? await ethers.provider.getBlockNumber();
+  const eventNames = new Set(INDEXED_EVENTS);
+  let newEvents = 0;
+
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += chunkSize) {
+    const chunkEnd = Math.min(chunkStart + chunkSize - 1, toBlock);
+    const logs = await ethers.provider.getLogs({ address: tokenAddress, fromBlock: chunkStart, toBlock: chunkEnd });
+
+    for (const log of logs) {
+      const parsed = token.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed || !eventNames.has(parsed.name)) continue;
+
+      const args: Record<string, string> = {};
+      parsed.fragment.inputs.forEach((input, index) => {
+        args[input.name] = parsed.args[index].toString();
+      });
+
+      const event = {
+        name: parsed.name,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+        args,
+      };
+
+      store.events.push(event);
+      if (event.name === "Transfer") {
+        applyTransfer(store.balances, event);
+      }
+      newEvents++;
+    }
+
+    const windowStart = chunkEnd - reorgDepth + 1;
+    const recentBlocks = store.recentBlocks.filter((entry) => entry.blockNumber >= windowStart);
+    for (let blockNumber = Math.max(windowStart, chunkStart); blockNumber <= chunkEnd; blockNumber++) {
+      const block = await ethers.provider.getBlock(blockNumber);
+      if (!block?.hash) {
+        throw new Error(`Block ${blockNumber} not found while syncing`);
+      }
+      recentBlocks.push({ blockNumber, blockHash: block.hash });
+    }
+    store.recentBlocks = recentBlocks;
+    store.cursor = recentBlocks[recentBlocks.length - 1];
+
+    if (options.storePath) {
+      saveIndexerStore(options.storePath, store);
+    }
+  }
+
+  return { fromBlock, toBlock, newEvents, rewoundTo };
+}
+
+/**
+ * Holders sorted by balance, largest first
+ */
+export function getHolders(store: IndexerStore): Holder[] {
+  return Object.entries(store.balances)
+    .map(([address, balance]) => ({ address, balance: BigInt(balance) }))
+    .filter((holder) => holder.balance > 0n)
+    .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1));
+}
+
+/**
+ * Balances at a past block, replayed from the indexed Transfer events
+ * @param store - Indexer store synced to at least blockNumber
+ * @param blockNumber - Block whose closing balances are wanted
+ * @returns Non-zero balances by address
+ */
+export function getBalancesAt(store: IndexerStore, blockNumber: number): Record<string, string> {
+  if (!store.cursor || store.cursor.blockNumber < blockNumber) {
+    throw new Error(`Indexer store is synced to ${store.cursor?.blockNumber ?? "nothing"}, not block ${blockNumber}`);
+  }
+  if (blockNumber < store.startBlock) {
+    throw new Error(`Block ${blockNumber} is before the indexer start block ${store.startBlock}`);
+  }
+
+  const balances: Record<string, string> = {};
+  store.events
+    .filter((event) => event.name === "Transfer" && event.blockNumber <= blockNumber)
+    .forEach((event) => applyTransfer(balances, event));
+
+  return balances;
+}
+
+/**
+ * Transfer events in chain order, optionally only those involving an account
+ */
+export function getTransferHistory(store: IndexerStore, account?: string): IndexedEvent[] {
+  const transfers = store.events.filter((event) => event.name === "Transfer");
+  if (!account) return transfers;
+
+  const address = ethers.getAddress(account);
+  return transfers.filter((event) => event.args.from === address || event.args.to === address);
+}
+
+/**
+ * Default store location for a network
+ */
+export function getDefaultStorePath(network: string, chainId: number): string {
+  return path.join(__dirname, "..", "deployments", `${network}_${chainId}_indexer.json`);
+}
+
+/**
+ * Print store status
+ */
+export function printIndexerStatus(store: IndexerStore): void {
+  const counts = new Map<string, number>();
+  store.events.forEach((event) => counts.set(event.name, (counts.get(event.name) ?? 0) + 1));
+
+  console.log("\n📊 Indexer Status:");
+  console.log("═".repeat(50));
+  console.log(`Token: ${store.tokenAddress} (Chain ID: ${store.chainId})`);
+  console.log(`Start block: ${store.startBlock}`);
+  console.log(`Synced to: ${store.cursor ? `${store.cursor.blockNumber} (${store.cursor.blockHash})` : "not synced"}`);
+  console.log(`Holders: ${getHolders(store).length}`);
+  console.log(`Events: ${store.events.length}`);
+  for (const [name, count] of counts) {
+    console.log(`  ${name}: ${count}`);
+  }
+  console.log("═".repeat(50));
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/indexer.ts --network <network>");
+  console.log("Commands:");
+  console.log("  sync [--from-block <n>] [--chunk-size <n>] [--reorg-depth <n>]");
+  console.log("  holders [--top <n>]                      List holders by balance");
+  console.log("  history [--account <address>] [--limit <n>]");
+  console.log("  rewind --blocks <n>                      Drop the last <n> indexed blocks");
+  console.log("  status                                   Print sync cursor and event counts");
+  console.log("All commands accept --store <path>");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  if (!args.command) {
+    printUsage();
+    return;
+  }
+
+  const networkConfig = await getCurrentNetworkConfig();
+  const storePath = getStringOption(args, "store", getDefaultStorePath(networkConfig.name, networkConfig.chainId));
+  const loaded = loadIndexerStore(storePath);
+
+  switch (args.command) {
+    case "sync": {
+      const deploymentInfo = loadDeploymentInfo(networkConfig.name, networkConfig.chainId);
+      const token = await getContractFromDeployment(networkConfig.name, networkConfig.chainId);
+      const fromBlock = typeof args.options["from-block"] === "string" ? Number(args.options["from-block"]) : undefined;
+      const store = openIndexerStore(
+        loaded,
+        deploymentInfo.contractAddress,
+        networkConfig.chainId,
+        deploymentInfo.blockNumber ?? 0,
+        fromBlock,
+      );
+
+      console.log(`🔄 Syncing ${store.tokenAddress} into ${storePath}...`);
+      const result = await syncIndexer(token, store, {
+        chunkSize: Number(getStringOption(args, "chunk-size", String(DEFAULT_CHUNK_SIZE))),
+        reorgDepth: Number(getStringOption(args, "reorg-depth", String(DEFAULT_REORG_DEPTH))),
+        storePath,
+      });
+      saveIndexerStore(storePath, store);
+
+      if (result.rewoundTo !== null) {
+        console.log(`⚠️  Reorg detected, rewound to block ${result.rewoundTo}`);
+      }
+      console.log(`✅ Indexed blocks ${result.fromBlock} → ${result.toBlock} (${result.newEvents} new events)`);
+      break;
+    }
+    case "holders": {
+      if (!loaded) throw new Error(`No indexer store at ${storePath}, run sync first`);
+      const holders = getHolders(loaded);
+      const top = Number(getStringOption(args, "top", String(holders.length)));
+
+      console.log(`\n👥 Holders (${holders.length}):`);
+      console.log("─".repeat(40));
+      holders.slice(0, top).forEach((holder, index) => {
+        console.log(`${index + 1}. ${holder.address} ${formatTokenAmount(holder.balance)} EPCS`);
+      });
+      break;
+    }
+    case "history": {
+      if (!loaded) throw new Error(`No indexer store at ${storePath}, run sync first`);
+      const account = typeof args.options.account === "string" ? args.options.account : undefined;
+      const transfers = getTransferHistory(loaded, account);
+      const limit = Number(getStringOption(args, "limit", "50"));
+
+      console.log(`\n📜 Transfers (${transfers.length}${account ? ` involving ${account}` : ""}):`);
+      console.log("─".repeat(40));
+      transfers.slice(-limit).forEach((event) => {
+        const { from, to, value } = event.args;
+        const amount = formatTokenAmount(value);
+        console.log(`#${event.blockNumber} ${from} → ${to} ${amount} EPCS (${event.transactionHash})`);
+      });
+      break;
+    }
+    case "rewind": {
+      if (!loaded?.cursor) throw new Error(`No synced indexer store at ${storePath}`);
+      const target = loaded.cursor.blockNumber - Number(getStringOption(args, "blocks"));
+      await rewindIndexerStore(loaded, target);
+      saveIndexerStore(storePath, loaded);
+      console.log(`✅ Rewound to block ${loaded.cursor?.blockNumber ?? "start"}`);
+      break;
+    }
+    case "status":
+      if (!loaded) throw new Error(`No indexer store at ${storePath}, run sync first`);
+      printIndexerStatus(loaded);
+      break;
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Indexer command failed:", error);
+      process.exit(1);
+    });
+}
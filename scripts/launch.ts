@@ -0,0 +1,293 @@
+import { ethers } from "hardhat";
+import { Contract } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { EpicStarterToken } from "../typechain-types";
+import { getCurrentNetworkConfig, getTokenForCurrentNetwork, saveAuxiliaryDeployment } from "./utils";
+import {
+  formatTokenAmount,
+  getStringOption,
+  isValidAddress,
+  isZeroAddress,
+  parseScriptArgs,
+  parseTokenAmount,
+} from "../utils/helpers";
+
+/**
+ * Controlled launch
+ *
+ * Adds the initial liquidity through a Uniswap V2 style router (PancakeSwap on BSC) while trading
+ * is still closed, then opens trading at a start block, so that no bot buys from the pool before
+ * the configured start. The sequence, run by the owner:
+ *
+ *   1. close trading (start block far in the future) with the cooldown length
+ *   2. let the presale/vesting contracts (--exempt) keep sending while trading is closed
+ *   3. create the token/WBNB pair and exempt it from the anti-whale limits
+ *   4. approve the router and add the liquidity
+ *   5. open trading --delay blocks after the current block
+ *
+ * Steps that are already done on chain are skipped, so a launch that failed halfway can be run
+ * again. Once trading is open the token refuses a new start and the script stops at step 1.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="launch --router <address> --tokens <EPCS> --bnb <BNB> [--delay <blocks>] [--cooldown <blocks>]
+ *                [--exempt <address,address>]" npx hardhat run scripts/launch.ts --network <name>
+ *   SCRIPT_ARGS="status" npx hardhat run scripts/launch.ts --network <name>
+ */
+
+export const LAUNCH_DEPLOYMENT = "launch";
+export const DEFAULT_START_DELAY_BLOCKS = 3;
+export const DEFAULT_COOLDOWN_BLOCKS = 20;
+export const LIQUIDITY_DEADLINE_SECONDS = 20 * 60;
+
+// Start block that keeps trading closed until the launch opens it
+export const TRADING_CLOSED_BLOCK = 2n ** 64n - 1n;
+
+export const ROUTER_ABI = [
+  "function factory() view returns (address)",
+  "function WETH() view returns (address)",
+  "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, " +
+    "uint256 amountETHMin, address to, uint256 deadline) payable returns (uint256, uint256, uint256)",
+];
+
+export const FACTORY_ABI = [
+  "function getPair(address tokenA, address tokenB) view returns (address)",
+  "function createPair(address tokenA, address tokenB) returns (address)",
+];
+
+export interface LaunchPlan {
+  router: string;
+  tokenAmount: bigint;
+  bnbAmount: bigint;
+  startDelayBlocks: number;
+  cooldownBlocks: number;
+  exempt: string[];
+}
+
+export interface LaunchStep {
+  name: string;
+  status: "done" | "skipped";
+  txHash?: string;
+}
+
+export interface LaunchResult {
+  pair: string;
+  startBlock: number;
+  steps: LaunchStep[];
+}
+
+/**
+ * Check a launch plan before any transaction is sent
+ * @returns Human readable problems, empty when the launch can run
+ */
+export async function validateLaunchPlan(
+  token: EpicStarterToken,
+  owner: SignerWithAddress,
+  plan: LaunchPlan,
+): Promise<string[]> {
+  const problems: string[] = [];
+  const config = await token.getLaunchConfig();
+
+  if (config.tradingEnabled && (config.startBlock !== 0n || config.startTime !== 0n)) {
+    problems.push(`Trading already started at block ${config.startBlock}`);
+  }
+  if ((await token.owner()) !== owner.address) {
+    problems.push(`${owner.address} is not the token owner`);
+  }
+  if (!isValidAddress(plan.router) || isZeroAddress(plan.router)) {
+    problems.push(`Invalid router address ${plan.router}`);
+  }
+  for (const account of plan.exempt) {
+    if (!isValidAddress(account) || isZeroAddress(account)) problems.push(`Invalid exempt address ${account}`);
+  }
+  if (plan.tokenAmount <= 0n || plan.bnbAmount <= 0n) {
+    problems.push("Token and BNB liquidity amounts must be greater than zero");
+  }
+  if ((await token.balanceOf(owner.address)) < plan.tokenAmount) {
+    problems.push(`Owner balance is below the ${formatTokenAmount(plan.tokenAmount)} EPCS of liquidity`);
+  }
+  if (!Number.isInteger(plan.startDelayBlocks) || plan.startDelayBlocks < 1) {
+    problems.push("The start delay must be at least one block, after the liquidity block");
+  }
+  if (!Number.isInteger(plan.cooldownBlocks) || plan.cooldownBlocks < 0) {
+    problems.push("The cooldown must be a whole number of blocks");
+  }
+
+  return problems;
+}
+
+/**
+ * Run the launch sequence, skipping the steps already done on chain
+ */
+export async function runLaunch(
+  token: EpicStarterToken,
+  owner: SignerWithAddress,
+  plan: LaunchPlan,
+  log: (message: string) => void = console.log,
+): Promise<LaunchResult> {
+  const problems = await validateLaunchPlan(token, owner, plan);
+  if (problems.length > 0) {
+    throw new Error(`Launch plan is invalid:\n  - ${problems.join("\n  - ")}`);
+  }
+
+  const steps: LaunchStep[] = [];
+  const record = async (name: string, send?: () => Promise<{ hash: string; wait: () => Promise<unknown> }>) => {
+    if (!send) {
+      steps.push({ name, status: "skipped" });
+      log(`⏭️  ${name} (already done)`);
+      return;
+    }
+
+    const tx = await send();
+    await tx.wait();
+    steps.push({ name, status: "done", txHash: tx.hash });
+    log(`✅ ${name} (tx: ${tx.hash})`);
+  };
+
+  const tokenAddress = await token.getAddress();
+  const ownerToken = token.connect(owner);
+  const router = new Contract(plan.router, ROUTER_ABI, owner);
+  const factory = new Contract(await router.factory(), FACTORY_ABI, owner);
+  const weth: string = await router.WETH();
+
+  // 1. Close trading
+  const config = await token.getLaunchConfig();
+  await record(
+    "Close trading",
+    config.startBlock === TRADING_CLOSED_BLOCK && Number(config.cooldownBlocks) === plan.cooldownBlocks
+      ? undefined
+      : () => ownerToken.setTradingStart(TRADING_CLOSED_BLOCK, 0, plan.cooldownBlocks),
+  );
+
+  // 2. Launch exemptions
+  for (const account of plan.exempt) {
+    await record(
+      `Launch exemption ${account}`,
+      (await token.isLaunchExempt(account)) ? undefined : () => ownerToken.setLaunchExempt(account, true),
+    );
+  }
+
+  // 3. Pair
+  let pair: string = await factory.getPair(tokenAddress, weth);
+  await record("Create pair", isZeroAddress(pair) ? () => factory.createPair(tokenAddress, weth) : undefined);
+  pair = await factory.getPair(tokenAddress, weth);
+  await record(
+    `Limit exemption for pair ${pair}`,
+    (await token.isLimitExempt(pair)) ? undefined : () => ownerToken.setLimitExempt(pair, true),
+  );
+
+  // 4. Liquidity
+  const hasLiquidity = (await token.balanceOf(pair)) > 0n;
+  const allowance = await token.allowance(owner.address, plan.router);
+  await record(
+    "Approve router",
+    hasLiquidity || allowance >= plan.tokenAmount ? undefined : () => ownerToken.approve(plan.router, plan.tokenAmount),
+  );
+  const latest = await ethers.provider.getBlock("latest");
+  const deadline = (latest?.timestamp ?? Math.floor(Date.now() / 1000)) + LIQUIDITY_DEADLINE_SECONDS;
+  await record(
+    `Add ${formatTokenAmount(plan.tokenAmount)} EPCS + ${ethers.formatEther(plan.bnbAmount)} BNB liquidity`,
+    hasLiquidity
+      ? undefined
+      : () => router.addLiquidityETH(
+        tokenAddress,
+        plan.tokenAmount,
+        plan.tokenAmount,
+        plan.bnbAmount,
+        owner.address,
+        deadline,
+        { value: plan.bnbAmount },
+      ),
+  );
+
+  // 5. Open trading
+  const startBlock = (await ethers.provider.getBlockNumber()) + plan.startDelayBlocks;
+  await record(
+    `Open trading at block ${startBlock}`,
+    () => ownerToken.setTradingStart(startBlock, 0, plan.cooldownBlocks),
+  );
+
+  return { pair, startBlock, steps };
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/launch.ts --network <name>");
+  console.log("Commands:");
+  console.log("  launch --router <address> --tokens <EPCS> --bnb <BNB>   Add liquidity and open trading");
+  console.log("         [--delay <blocks>] [--cooldown <blocks>] [--exempt <address,address>]");
+  console.log("  status                                                   Trading start and cooldown");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "launch": {
+      const networkConfig = await getCurrentNetworkConfig();
+      const token = await getTokenForCurrentNetwork();
+      const [owner] = await ethers.getSigners();
+      const exempt = getStringOption(args, "exempt", "");
+      const plan: LaunchPlan = {
+        router: getStringOption(args, "router"),
+        tokenAmount: parseTokenAmount(getStringOption(args, "tokens")),
+        bnbAmount: ethers.parseEther(getStringOption(args, "bnb")),
+        startDelayBlocks: Number(getStringOption(args, "delay", String(DEFAULT_START_DELAY_BLOCKS))),
+        cooldownBlocks: Number(getStringOption(args, "cooldown", String(DEFAULT_COOLDOWN_BLOCKS))),
+        exempt: exempt === "" ? [] : exempt.split(",").map((account) => account.trim()),
+      };
+
+      console.log("\n🚀 Launching EPCS trading");
+      console.log("═".repeat(50));
+      const result = await runLaunch(token, owner, plan);
+      console.log("═".repeat(50));
+      console.log(`Pair: ${result.pair}`);
+      console.log(`Trading opens at block ${result.startBlock}`);
+      console.log(`Cooldown: ${plan.cooldownBlocks} blocks from the first transfer once trading is open`);
+
+      saveAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, LAUNCH_DEPLOYMENT, {
+        router: plan.router,
+        pair: result.pair,
+        startBlock: result.startBlock,
+        cooldownBlocks: plan.cooldownBlocks,
+        steps: result.steps,
+      });
+      break;
+    }
+    case "status": {
+      const token = await getTokenForCurrentNetwork();
+      const config = await token.getLaunchConfig();
+      const configured = config.startBlock !== 0n || config.startTime !== 0n;
+
+      console.log("\n🚀 Launch Status:");
+      console.log("═".repeat(50));
+      console.log(`Trading: ${config.tradingEnabled ? "open" : "closed"}${configured ? "" : " (never gated)"}`);
+      if (config.startBlock === TRADING_CLOSED_BLOCK) {
+        console.log("Start block: not set yet");
+      } else {
+        console.log(`Start block: ${config.startBlock}`);
+      }
+      if (config.launchBlock !== 0n) {
+        console.log(`Launch block: ${config.launchBlock}`);
+        console.log(`Cooldown until block: ${config.launchBlock + config.cooldownBlocks}`);
+      } else {
+        console.log(`Cooldown: ${config.cooldownBlocks} blocks from the launch block`);
+      }
+      if (config.startTime !== 0n) {
+        console.log(`Start time: ${new Date(Number(config.startTime) * 1000).toISOString()}`);
+      }
+      console.log(`Current block: ${await ethers.provider.getBlockNumber()}`);
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Launch command failed:", error);
+      process.exit(1);
+    });
+}
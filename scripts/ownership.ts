@@ -0,0 +1,369 @@
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { EpicStarterToken } from "../typechain-types";
+import { getTokenForCurrentNetwork } from "./utils";
+import { getRoleMembers } from "./roles";
+import { getStringOption, isValidAddress, parseScriptArgs } from "../utils/helpers";
+
+/**
+ * Ownership handoff CLI
+ *
+ * Drives the two-step ownership transfer of the token. The current owner proposes, the new owner
+ * accepts from its own key, and only then do ownership and the five admin roles move. After
+ * acceptance every role is checked with hasRole: the new owner must hold all of them and the
+ * previous owner none.
+ *
+ * `renounce` gives ownership up for good. Without --keep the owner roles go with it; --keep names
+ * the roles the owner account holds on to. `admin` reports whether anyone can still administer
+ * the token: owner, pending owner, every current holder of an owner role and the guardian set,
+ * whose pauses only a PAUSER_ROLE holder can lift.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="status" npx hardhat run scripts/ownership.ts --network bscMainnet
+ *   SCRIPT_ARGS="propose --to 0x..." ...          (signed by the current owner)
+ *   SCRIPT_ARGS="accept" ...                      (signed by the pending owner)
+ *   SCRIPT_ARGS="cancel" ...                      (signed by the current owner)
+ *   SCRIPT_ARGS="verify --owner 0x... [--previous 0x...]" ...
+ *   SCRIPT_ARGS="renounce --confirm [--keep PAUSER_ROLE,EMERGENCY_ROLE]" ...
+ *   SCRIPT_ARGS="admin" ...
+ */
+
+export const OWNER_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "PAUSER_ROLE",
+  "BURNER_ROLE",
+  "EMERGENCY_ROLE",
+  "FREEZER_ROLE",
+] as const;
+
+export type OwnerRole = typeof OWNER_ROLES[number];
+
+export interface AdminReport {
+  owner: string;
+  pendingOwner: string;
+  roleMembers: Record<OwnerRole, string[]>;
+  guardians: string[];
+  adminLess: boolean;
+}
+
+/**
+ * Which of the owner roles an account holds
+ */
+export async function getOwnerRoles(token: EpicStarterToken, account: string): Promise<Record<OwnerRole, boolean>> {
+  const roles = {} as Record<OwnerRole, boolean>;
+
+  for (const role of OWNER_ROLES) {
+    roles[role] = await token.hasRole(await token[role](), account);
+  }
+
+  return roles;
+}
+
+/**
+ * Check the state a completed handoff must leave behind
+ * @param token - Token contract
+ * @param newOwner - Account that must own the token and hold every owner role
+ * @param previousOwner - Account that must hold none of the owner roles any more
+ * @returns Problems found, empty when the handoff is complete
+ */
+export async function verifyOwnershipHandoff(
+  token: EpicStarterToken,
+  newOwner: string,
+  previousOwner?: string,
+): Promise<string[]> {
+  const problems: string[] = [];
+  const owner = await token.owner();
+  const pendingOwner = await token.pendingOwner();
+
+  if (owner !== ethers.getAddress(newOwner)) {
+    problems.push(`Owner is ${owner}, expected ${newOwner}`);
+  }
+  if (pendingOwner !== ethers.ZeroAddress) {
+    problems.push(`Transfer to ${pendingOwner} is still pending`);
+  }
+
+  const newOwnerRoles = await getOwnerRoles(token, newOwner);
+  for (const role of OWNER_ROLES) {
+    if (!newOwnerRoles[role]) problems.push(`${newOwner} is missing ${role}`);
+  }
+
+  if (previousOwner) {
+    const previousOwnerRoles = await getOwnerRoles(token, previousOwner);
+    for (const role of OWNER_ROLES) {
+      if (previousOwnerRoles[role]) problems.push(`${previousOwner} still holds ${role}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Propose a new owner, signed by the current owner
+ */
+export async function proposeOwnership(
+  token: EpicStarterToken,
+  signer: SignerWithAddress,
+  newOwner: string,
+): Promise<string> {
+  const owner = await token.owner();
+
+  if (owner !== signer.address) {
+    throw new Error(`Signer ${signer.address} is not the token owner (${owner})`);
+  }
+  if (!isValidAddress(newOwner) || newOwner === ethers.ZeroAddress) {
+    throw new Error(`Invalid new owner address: ${newOwner}`);
+  }
+
+  const pendingOwner = await token.pendingOwner();
+  if (pendingOwner !== ethers.ZeroAddress) {
+    console.log(`⚠️  Replacing the pending transfer to ${pendingOwner}`);
+  }
+
+  const tx = await token.connect(signer).transferOwnership(newOwner);
+  await tx.wait();
+  console.log(`✅ Proposed ${ethers.getAddress(newOwner)} as owner (tx: ${tx.hash})`);
+  console.log("   Ownership and roles move once that account runs `accept`");
+
+  return tx.hash;
+}
+
+/**
+ * Accept the pending transfer, signed by the pending owner, and verify the resulting roles
+ */
+export async function acceptOwnership(token: EpicStarterToken, signer: SignerWithAddress): Promise<string> {
+  const pendingOwner = await token.pendingOwner();
+
+  if (pendingOwner === ethers.ZeroAddress) {
+    throw new Error("No ownership transfer is pending");
+  }
+  if (pendingOwner !== signer.address) {
+    throw new Error(`Signer ${signer.address} is not the pending owner (${pendingOwner})`);
+  }
+
+  const previousOwner = await token.owner();
+  const tx = await token.connect(signer).acceptOwnership();
+  await tx.wait();
+  console.log(`✅ Ownership accepted by ${signer.address} (tx: ${tx.hash})`);
+
+  const problems = await verifyOwnershipHandoff(token, signer.address, previousOwner);
+  if (problems.length > 0) {
+    throw new Error(`Handoff is incomplete:\n  ${problems.join("\n  ")}`);
+  }
+  console.log(`✅ ${OWNER_ROLES.join(", ")} moved from ${previousOwner}`);
+
+  return tx.hash;
+}
+
+/**
+ * Withdraw the pending proposal, signed by the current owner
+ */
+export async function cancelOwnershipTransfer(token: EpicStarterToken, signer: SignerWithAddress): Promise<string> {
+  const pendingOwner = await token.pendingOwner();
+
+  if (pendingOwner === ethers.ZeroAddress) {
+    throw new Error("No ownership transfer is pending");
+  }
+
+  const tx = await token.connect(signer).cancelOwnershipTransfer();
+  await tx.wait();
+  console.log(`✅ Cancelled the transfer to ${pendingOwner} (tx: ${tx.hash})`);
+
+  return tx.hash;
+}
+
+/**
+ * Renounce ownership, signed by the current owner
+ * @param keep - Owner roles the owner account keeps; every other owner role is revoked
+ * @returns The roles the previous owner still holds, as stated by the OwnershipRenounced event
+ */
+export async function renounceOwnership(
+  token: EpicStarterToken,
+  signer: SignerWithAddress,
+  keep: OwnerRole[] = [],
+): Promise<OwnerRole[]> {
+  const owner = await token.owner();
+
+  if (owner !== signer.address) {
+    throw new Error(`Signer ${signer.address} is not the token owner (${owner})`);
+  }
+
+  const roleIds = await Promise.all(keep.map((role) => token[role]()));
+  const tx = keep.length === 0
+    ? await token.connect(signer).renounceOwnership()
+    : await token.connect(signer).renounceOwnershipRetainingRoles(roleIds);
+  const receipt = await tx.wait();
+
+  const event = receipt?.logs
+    .map((log) => token.interface.parseLog(log))
+    .find((parsed) => parsed?.name === "OwnershipRenounced");
+  if (!event) {
+    throw new Error(`OwnershipRenounced not found in ${tx.hash}`);
+  }
+
+  const remainingIds: string[] = [...event.args.remainingRoles];
+  const remaining: OwnerRole[] = [];
+  for (const role of OWNER_ROLES) {
+    if (remainingIds.includes(await token[role]())) remaining.push(role);
+  }
+
+  console.log(`✅ Ownership renounced by ${owner} (tx: ${tx.hash})`);
+  console.log(`   Roles still held: ${remaining.length > 0 ? remaining.join(", ") : "none"}`);
+
+  return remaining;
+}
+
+/**
+ * Current holders of each owner role
+ */
+export async function findOwnerRoleMembers(token: EpicStarterToken): Promise<Record<OwnerRole, string[]>> {
+  const members = {} as Record<OwnerRole, string[]>;
+
+  for (const role of OWNER_ROLES) {
+    members[role] = await getRoleMembers(token, await token[role]());
+  }
+
+  return members;
+}
+
+/**
+ * Whether anyone can still administer the token
+ */
+export async function getAdminReport(token: EpicStarterToken): Promise<AdminReport> {
+  const owner = await token.owner();
+  const pendingOwner = await token.pendingOwner();
+  const roleMembers = await findOwnerRoleMembers(token);
+  const guardians = [...(await token.getGuardians()).guardians];
+
+  return {
+    owner,
+    pendingOwner,
+    roleMembers,
+    guardians,
+    adminLess: owner === ethers.ZeroAddress &&
+      pendingOwner === ethers.ZeroAddress &&
+      OWNER_ROLES.every((role) => roleMembers[role].length === 0) &&
+      guardians.length === 0,
+  };
+}
+
+/**
+ * Print an admin report
+ */
+export function printAdminReport(report: AdminReport): void {
+  console.log("\n🛡️  Administration:");
+  console.log("═".repeat(50));
+  console.log(`Owner: ${report.owner === ethers.ZeroAddress ? "none (renounced)" : report.owner}`);
+  console.log(`Pending owner: ${report.pendingOwner === ethers.ZeroAddress ? "none" : report.pendingOwner}`);
+  for (const role of OWNER_ROLES) {
+    const members = report.roleMembers[role];
+    console.log(`${role}: ${members.length > 0 ? members.join(", ") : "none"}`);
+  }
+  console.log(`Guardians: ${report.guardians.length > 0 ? report.guardians.join(", ") : "none"}`);
+  console.log("═".repeat(50));
+  console.log(report.adminLess
+    ? "✅ Token is admin-less: no owner, no holder of any owner role and no guardians"
+    : "⚠️  Token is NOT admin-less: the accounts above can still administer it");
+}
+
+/**
+ * Print the owner, the pending owner and the owner roles each of them holds
+ */
+export async function printOwnershipStatus(token: EpicStarterToken): Promise<void> {
+  const owner = await token.owner();
+  const pendingOwner = await token.pendingOwner();
+
+  console.log("\n👑 Ownership Status:");
+  console.log("═".repeat(50));
+  console.log(`Token: ${await token.getAddress()}`);
+  console.log(`Owner: ${owner}`);
+  console.log(`Pending owner: ${pendingOwner === ethers.ZeroAddress ? "none" : pendingOwner}`);
+  console.log("═".repeat(50));
+
+  const accounts = [owner, pendingOwner].filter((account) => account !== ethers.ZeroAddress);
+  for (const account of accounts) {
+    const roles = await getOwnerRoles(token, account);
+    console.log(`\n${account === owner ? "Owner" : "Pending owner"} ${account}`);
+    console.log("─".repeat(40));
+    for (const role of OWNER_ROLES) {
+      console.log(`${roles[role] ? "✅" : "❌"} ${role}`);
+    }
+  }
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/ownership.ts --network <network>");
+  console.log("Commands:");
+  console.log("  status                                   Print owner, pending owner and their roles");
+  console.log("  propose --to <address>                   Propose a new owner (current owner signs)");
+  console.log("  accept                                   Accept and verify the roles (pending owner signs)");
+  console.log("  cancel                                   Withdraw the pending proposal (current owner signs)");
+  console.log("  verify --owner <address> [--previous <address>]");
+  console.log("  renounce --confirm [--keep <ROLE,...>]   Give up ownership and the roles not kept");
+  console.log("  admin                                    Report whether the token is admin-less");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  const token = await getTokenForCurrentNetwork();
+  const [signer] = await ethers.getSigners();
+
+  switch (args.command) {
+    case "status":
+      await printOwnershipStatus(token);
+      break;
+    case "propose":
+      await proposeOwnership(token, signer, getStringOption(args, "to"));
+      break;
+    case "accept":
+      await acceptOwnership(token, signer);
+      break;
+    case "cancel":
+      await cancelOwnershipTransfer(token, signer);
+      break;
+    case "verify": {
+      const newOwner = getStringOption(args, "owner");
+      const problems = await verifyOwnershipHandoff(
+        token,
+        newOwner,
+        typeof args.options.previous === "string" ? args.options.previous : undefined,
+      );
+
+      problems.forEach((problem) => console.log(`❌ ${problem}`));
+      if (problems.length > 0) {
+        process.exitCode = 1;
+      } else {
+        console.log(`✅ ${newOwner} owns the token and holds every owner role`);
+      }
+      break;
+    }
+    case "renounce": {
+      if (args.options.confirm !== true) {
+        throw new Error("Renouncing ownership cannot be undone, pass --confirm to proceed");
+      }
+
+      const keep = getStringOption(args, "keep", "").split(",").filter((role) => role.length > 0);
+      const unknown = keep.filter((role) => !(OWNER_ROLES as readonly string[]).includes(role));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown roles ${unknown.join(", ")}, expected some of ${OWNER_ROLES.join(", ")}`);
+      }
+
+      await renounceOwnership(token, signer, keep as OwnerRole[]);
+      break;
+    }
+    case "admin":
+      printAdminReport(await getAdminReport(token));
+      break;
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+      console.error("❌ Ownership command failed:", error);
+      process.exit(1);
+    });
+}
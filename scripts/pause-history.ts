@@ -0,0 +1,165 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import { EpicStarterToken } from "../typechain-types";
+import { getTokenForCurrentNetwork } from "./utils";
+import { decodeReasonCode, formatDuration, formatTimestamp, parseScriptArgs } from "../utils/helpers";
+
+/**
+ * Pause history
+ *
+ * Reads every pause record from the token and renders the timeline: who paused, why, when the
+ * pause started and ended (by unpause or by reaching its auto-expiry) and the total downtime,
+ * followed by the pause scope matrix (also part of `npm run status`).
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="[--json <file>]" npx hardhat run scripts/pause-history.ts --network <name>
+ */
+
+// Scope names in PauseScope order
+export const PAUSE_SCOPES = ["transfer", "transferFrom", "approve", "burn", "batchTransfer", "emergencyWithdraw"];
+
+export interface PauseScopeStatus {
+  scope: string;
+  scopePaused: boolean;
+  halted: boolean;
+}
+
+export interface PauseHistoryEntry {
+  index: number;
+  initiator: string;
+  reason: string;
+  emergency: boolean;
+  startedAt: number;
+  endedAt: number | null;
+  expiresAt: number | null;
+  endedBy: "unpause" | "expiry" | null;
+  duration: number;
+}
+
+export interface PauseHistory {
+  entries: PauseHistoryEntry[];
+  totalDowntime: number;
+  paused: boolean;
+  generatedAt: number;
+}
+
+/**
+ * Read every pause record and measure each pause up to `now` if it is still open
+ */
+export async function fetchPauseHistory(token: EpicStarterToken, now?: number): Promise<PauseHistory> {
+  const generatedAt = now ?? (await ethers.provider.getBlock("latest"))?.timestamp ?? 0;
+  const count = Number(await token.getPauseCount());
+  const entries: PauseHistoryEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const record = await token.getPauseRecord(index);
+    const startedAt = Number(record.startedAt);
+    const endedAt = Number(record.endedAt);
+    const expiresAt = Number(record.expiresAt);
+
+    entries.push({
+      index,
+      initiator: record.initiator,
+      reason: decodeReasonCode(record.reason),
+      emergency: record.emergency,
+      startedAt,
+      endedAt: endedAt === 0 ? null : endedAt,
+      expiresAt: expiresAt === 0 ? null : expiresAt,
+      endedBy: endedAt === 0 ? null : expiresAt !== 0 && endedAt === expiresAt ? "expiry" : "unpause",
+      duration: (endedAt === 0 ? generatedAt : endedAt) - startedAt,
+    });
+  }
+
+  return {
+    entries,
+    totalDowntime: entries.reduce((total, entry) => total + entry.duration, 0),
+    paused: await token.paused(),
+    generatedAt,
+  };
+}
+
+/**
+ * Read the scope matrix: which scopes are paused on their own and which are halted right now
+ */
+export async function getPauseScopeReport(token: EpicStarterToken): Promise<PauseScopeStatus[]> {
+  const { scopePaused, halted } = await token.getPauseScopeMatrix();
+
+  return PAUSE_SCOPES.map((scope, index) => ({
+    scope,
+    scopePaused: scopePaused[index],
+    halted: halted[index],
+  }));
+}
+
+/**
+ * Print the scope matrix
+ */
+export function printPauseScopeReport(report: PauseScopeStatus[]): void {
+  console.log("\n🚦 Pause Scopes:");
+  console.log("═".repeat(50));
+  for (const { scope, scopePaused, halted } of report) {
+    const state = !halted ? "✅ running" : scopePaused ? "⛔ halted (scope paused)" : "⛔ halted (global pause)";
+    console.log(`${scope.padEnd(20)} ${state}`);
+  }
+  console.log("═".repeat(50));
+
+  const haltedScopes = report.filter((entry) => entry.halted).map((entry) => entry.scope);
+  console.log(haltedScopes.length > 0 ? `⚠️  Halted: ${haltedScopes.join(", ")}` : "✅ No operation is halted");
+}
+
+/**
+ * Print the pause timeline
+ */
+export function printPauseHistory(history: PauseHistory): void {
+  console.log("\n⏸️  Pause History:");
+  console.log("═".repeat(50));
+
+  if (history.entries.length === 0) {
+    console.log("The token has never been paused");
+  }
+
+  for (const entry of history.entries) {
+    const kind = entry.emergency ? "🚨 Emergency pause" : "⏸️  Pause";
+    const end = entry.endedAt === null
+      ? `ongoing${entry.expiresAt === null ? "" : `, expires ${formatTimestamp(entry.expiresAt)}`}`
+      : `${formatTimestamp(entry.endedAt)} (${entry.endedBy})`;
+
+    console.log(`#${entry.index} ${kind}${entry.reason ? ` - ${entry.reason}` : ""}`);
+    console.log(`   By: ${entry.initiator}`);
+    console.log(`   From: ${formatTimestamp(entry.startedAt)}`);
+    console.log(`   Until: ${end}`);
+    console.log(`   Duration: ${formatDuration(entry.duration)}`);
+    console.log("─".repeat(40));
+  }
+
+  console.log(`Pauses: ${history.entries.length}`);
+  console.log(`Total downtime: ${formatDuration(history.totalDowntime)}`);
+  console.log(`Currently paused: ${history.paused ? "Yes" : "No"}`);
+  console.log("═".repeat(50));
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  const token = await getTokenForCurrentNetwork();
+  const history = await fetchPauseHistory(token);
+
+  printPauseHistory(history);
+  printPauseScopeReport(await getPauseScopeReport(token));
+
+  if (typeof args.options.json === "string") {
+    const tmpPath = `${args.options.json}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(history, null, 2));
+    fs.renameSync(tmpPath, args.options.json);
+    console.log(`📄 Pause history written to ${args.options.json}`);
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Pause history failed:", error);
+      process.exit(1);
+    });
+}
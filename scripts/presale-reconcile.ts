@@ -0,0 +1,258 @@
+import { ethers } from "hardhat";
+import { EpicStarterPresale, EpicStarterToken } from "../typechain-types";
+import { getTokenForCurrentNetwork } from "./utils";
+import { getEscrowForPresale, getPresaleForCurrentNetwork } from "./presale";
+import { formatTokenAmount, getStringOption, parseScriptArgs } from "../utils/helpers";
+
+/**
+ * Presale token reconciliation
+ *
+ * Proves that every EPCS the token owner transferred into the presale within a block range was
+ * either claimed by a buyer, is still owed to one, or is unsold:
+ *
+ *   sum(claims) + owed + unsold == EPCS transferred in from the token owner
+ *
+ * claims  = Claimed events of the escrow, or TokensPurchased events when purchases are paid out directly
+ * owed    = change of the escrow EPCS balance over the range, while the escrow has not failed
+ * unsold  = change of the presale balance + UnsoldTokensWithdrawn
+ *           + (failed escrow) change of the escrow balance + UnsoldTokensReleased
+ *
+ * Balances are read at the edges of the event range, so a --from-block/--to-block window is
+ * reconciled on its own. Contribution events from the escrow (Deposited, Claimed, Refunded) are
+ * cross-checked against its on-chain accounting. Exits with code 1 when any check fails.
+ *
+ * Usage:
+ *   SCRIPT_ARGS="[--owner 0x...] [--from-block 123] [--to-block 456]" npx hardhat run scripts/presale-reconcile.ts \
+ *     --network bscTestnet
+ */
+
+const ESCROW_STATUS_FAILED = 2n;
+
+export interface ReconciliationCheck {
+  name: string;
+  expected: bigint;
+  actual: bigint;
+  ok: boolean;
+}
+
+export interface PresaleReconciliation {
+  tokenOwner: string;
+  escrow: string | null;
+  fromBlock: number;
+  toBlock: number;
+  fundedIn: bigint;
+  sold: bigint;
+  returned: bigint;
+  claims: bigint;
+  owed: bigint;
+  unsold: bigint;
+  contributors: number;
+  mismatchedContributors: string[];
+  checks: ReconciliationCheck[];
+  balanced: boolean;
+}
+
+export interface ReconcileOptions {
+  tokenOwner?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+function check(name: string, expected: bigint, actual: bigint): ReconciliationCheck {
+  return { name, expected, actual, ok: expected === actual };
+}
+
+function sum(values: bigint[]): bigint {
+  return values.reduce((total, value) => total + value, 0n);
+}
+
+/**
+ * Reconcile the EPCS flows of a presale and its escrow from on-chain events
+ */
+export async function reconcilePresale(
+  token: EpicStarterToken,
+  presale: EpicStarterPresale,
+  options: ReconcileOptions = {},
+): Promise<PresaleReconciliation> {
+  const fromBlock = options.fromBlock ?? 0;
+  const toBlock = options.toBlock ?? await ethers.provider.getBlockNumber();
+  const tokenOwner = options.tokenOwner ?? await token.owner({ blockTag: toBlock });
+  const presaleAddress = await presale.getAddress();
+
+  // Change of an EPCS balance over the range
+  const balanceChange = async (account: string): Promise<bigint> => {
+    const closing = await token.balanceOf(account, { blockTag: toBlock });
+    const opening = fromBlock > 0 ? await token.balanceOf(account, { blockTag: fromBlock - 1 }) : 0n;
+    return closing - opening;
+  };
+
+  const fundedInEvents = await token.queryFilter(
+    token.filters.Transfer(tokenOwner, presaleAddress),
+    fromBlock,
+    toBlock,
+  );
+  const purchaseEvents = await presale.queryFilter(presale.filters.TokensPurchased(), fromBlock, toBlock);
+  const unsoldEvents = await presale.queryFilter(presale.filters.UnsoldTokensWithdrawn(), fromBlock, toBlock);
+
+  const fundedIn = sum(fundedInEvents.map((event) => event.args.value));
+  const sold = sum(purchaseEvents.map((event) => event.args.tokenAmount));
+  const unsoldWithdrawn = sum(unsoldEvents.map((event) => event.args.amount));
+  const presaleChange = await balanceChange(presaleAddress);
+
+  const checks: ReconciliationCheck[] = [];
+  if (fromBlock === 0) {
+    const totalSold = await presale.totalSold({ blockTag: toBlock });
+    checks.push(check("Presale totalSold matches purchase events", sold, totalSold));
+  }
+  const mismatchedContributors: string[] = [];
+
+  let claims = sold;
+  let owed = 0n;
+  let returned = 0n;
+  let contributors = 0;
+
+  const escrowAddress = await presale.escrow({ blockTag: toBlock });
+  const hasEscrow = escrowAddress !== ethers.ZeroAddress;
+
+  if (hasEscrow) {
+    const escrow = await getEscrowForPresale(presale);
+    const info = await escrow.getEscrowInfo({ blockTag: toBlock });
+
+    const depositEvents = await escrow.queryFilter(escrow.filters.Deposited(), fromBlock, toBlock);
+    const claimEvents = await escrow.queryFilter(escrow.filters.Claimed(), fromBlock, toBlock);
+    const refundEvents = await escrow.queryFilter(escrow.filters.Refunded(), fromBlock, toBlock);
+    const releaseEvents = await escrow.queryFilter(escrow.filters.UnsoldTokensReleased(), fromBlock, toBlock);
+
+    const escrowed = sum(depositEvents.map((event) => event.args.tokenAmount));
+    const deposited = sum(depositEvents.map((event) => event.args.bnbAmount));
+
+    checks.push(check("Escrow deposits match purchase events", sold, escrowed));
+    if (fromBlock === 0) {
+      checks.push(check("Escrow allocations match deposit events", escrowed, info.totalAllocated));
+      checks.push(check("Escrow contributions match deposit events", deposited, info.totalDeposited));
+    }
+
+    // Outstanding allocation per contributor: deposited - claimed - refunded
+    const outstanding = new Map<string, bigint>();
+    const adjust = (account: string, delta: bigint) => {
+      outstanding.set(account, (outstanding.get(account) ?? 0n) + delta);
+    };
+
+    depositEvents.forEach((event) => adjust(event.args.buyer, event.args.tokenAmount));
+    claimEvents.forEach((event) => adjust(event.args.buyer, -event.args.tokenAmount));
+    refundEvents.forEach((event) => adjust(event.args.buyer, -event.args.tokenAmount));
+
+    if (fromBlock === 0) {
+      let expectedOutstanding = 0n;
+      let actualOutstanding = 0n;
+
+      for (const [account, expected] of outstanding) {
+        const actual = await escrow.allocationOf(account, { blockTag: toBlock });
+        expectedOutstanding += expected;
+        actualOutstanding += actual;
+
+        if (actual !== expected) {
+          mismatchedContributors.push(account);
+        }
+      }
+
+      checks.push(check("Outstanding allocations match contributor events", expectedOutstanding, actualOutstanding));
+    }
+
+    // EPCS that entered the escrow over the range and did not go to a buyer
+    const held = (await balanceChange(escrowAddress)) + sum(releaseEvents.map((event) => event.args.amount));
+
+    contributors = outstanding.size;
+    claims = sum(claimEvents.map((event) => event.args.tokenAmount));
+    if (info.currentStatus === ESCROW_STATUS_FAILED) {
+      returned = held;
+    } else {
+      owed = held;
+    }
+  }
+
+  const unsold = presaleChange + unsoldWithdrawn + returned;
+
+  checks.unshift(check(
+    "sum(claims) + owed + unsold == EPCS transferred in from the token owner",
+    fundedIn,
+    claims + owed + unsold,
+  ));
+
+  return {
+    tokenOwner,
+    escrow: hasEscrow ? escrowAddress : null,
+    fromBlock,
+    toBlock,
+    fundedIn,
+    sold,
+    returned,
+    claims,
+    owed,
+    unsold,
+    contributors,
+    mismatchedContributors,
+    checks,
+    balanced: mismatchedContributors.length === 0 && checks.every((item) => item.ok),
+  };
+}
+
+/**
+ * Print a reconciliation report
+ */
+export function printReconciliation(report: PresaleReconciliation): void {
+  console.log("\n🧮 Presale Reconciliation:");
+  console.log("═".repeat(50));
+  console.log(`Token Owner: ${report.tokenOwner}`);
+  console.log(`Escrow: ${report.escrow ?? "none"}`);
+  console.log(`Blocks: ${report.fromBlock} - ${report.toBlock}`);
+  console.log(`Contributors: ${report.contributors}`);
+  console.log(`Funded In: ${formatTokenAmount(report.fundedIn)} EPCS`);
+  console.log(`Sold: ${formatTokenAmount(report.sold)} EPCS`);
+  console.log(`Returned (failed escrow): ${formatTokenAmount(report.returned)} EPCS`);
+  console.log(`Claims: ${formatTokenAmount(report.claims)} EPCS`);
+  console.log(`Owed: ${formatTokenAmount(report.owed)} EPCS`);
+  console.log(`Unsold: ${formatTokenAmount(report.unsold)} EPCS`);
+  console.log("═".repeat(50));
+
+  report.checks.forEach((item) => {
+    console.log(`${item.ok ? "✅" : "❌"} ${item.name}`);
+    if (!item.ok) {
+      console.log(`   expected ${formatTokenAmount(item.expected)}, got ${formatTokenAmount(item.actual)}`);
+    }
+  });
+
+  report.mismatchedContributors.forEach((account) => {
+    console.log(`❌ Allocation mismatch for ${account}`);
+  });
+
+  console.log(report.balanced ? "\n🎉 Presale is balanced" : "\n⚠️  Presale does not reconcile");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  const token = await getTokenForCurrentNetwork();
+  const presale = await getPresaleForCurrentNetwork();
+
+  const report = await reconcilePresale(token, presale, {
+    tokenOwner: args.options.owner ? getStringOption(args, "owner") : undefined,
+    fromBlock: Number(getStringOption(args, "from-block", "0")),
+    toBlock: args.options["to-block"] ? Number(getStringOption(args, "to-block")) : undefined,
+  });
+
+  printReconciliation(report);
+
+  if (!report.balanced) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+      console.error("❌ Reconciliation failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,390 @@
+import { ethers } from "hardhat";
+import { EpicStarterPresale, EpicStarterSaleEscrow } from "../typechain-types";
+import {
+  getCurrentNetworkConfig,
+  getTokenForCurrentNetwork,
+  loadAuxiliaryDeployment,
+  saveAuxiliaryDeployment,
+} from "./utils";
+import {
+  ScriptArgs,
+  formatTimestamp,
+  formatTokenAmount,
+  getStringOption,
+  parseScriptArgs,
+  parseTokenAmount,
+} from "../utils/helpers";
+
+/**
+ * Presale operator CLI
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="deploy" npx hardhat run scripts/presale.ts --network bscTestnet
+ *   SCRIPT_ARGS="fund --amount 1000000" ...
+ *   SCRIPT_ARGS="add-round --price 0.0001 --cap 50 --min 0.1 --max 5 --start 2024-01-01T00:00:00Z --end 1704931200" ...
+ *   SCRIPT_ARGS="open --round 0" / "close --round 0" / "status" ...
+ *   SCRIPT_ARGS="withdraw-proceeds --to 0x... [--amount 1.5]" / "withdraw-unsold --to 0x... [--amount 1000]" ...
+ *
+ * Escrow (soft cap refunds and claim-after-TGE):
+ *   SCRIPT_ARGS="deploy-escrow --soft-cap 25 --sale-end 2024-02-01T00:00:00Z" ...
+ *   SCRIPT_ARGS="finalize" / "set-tge --time 2024-02-01T00:00:00Z" ...
+ *   SCRIPT_ARGS="escrow-withdraw-proceeds --to 0x... [--amount 1.5]" / "escrow-release-unsold --to 0x..." ...
+ */
+
+const PRESALE_DEPLOYMENT = "presale";
+const ESCROW_DEPLOYMENT = "escrow";
+const ROUND_STATUS = ["Pending", "Open", "Closed"];
+const ESCROW_STATUS = ["Active", "Succeeded", "Failed"];
+
+/**
+ * Parse a timestamp given as unix seconds or an ISO date string
+ */
+export function parseTimestamp(value: string): number {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+
+  return Math.floor(parsed / 1000);
+}
+
+/**
+ * Get the presale recorded for the current network
+ */
+export async function getPresaleForCurrentNetwork(): Promise<EpicStarterPresale> {
+  const networkConfig = await getCurrentNetworkConfig();
+  const deploymentInfo = loadAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, PRESALE_DEPLOYMENT);
+
+  const PresaleFactory = await ethers.getContractFactory("EpicStarterPresale");
+  return PresaleFactory.attach(deploymentInfo.contractAddress) as EpicStarterPresale;
+}
+
+/**
+ * Deploy the presale against the token recorded for the current network
+ */
+export async function deployPresale(): Promise<EpicStarterPresale> {
+  const [deployer] = await ethers.getSigners();
+  const networkConfig = await getCurrentNetworkConfig();
+  const token = await getTokenForCurrentNetwork();
+  const tokenAddress = await token.getAddress();
+  const presaleOwner = process.env.PRESALE_OWNER || deployer.address;
+
+  console.log("🚀 Deploying EpicStarterPresale...");
+  console.log("═".repeat(50));
+  console.log(`Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
+  console.log(`Token: ${tokenAddress}`);
+  console.log(`Owner: ${presaleOwner}`);
+  console.log("═".repeat(50));
+
+  const PresaleFactory = await ethers.getContractFactory("EpicStarterPresale");
+  const presale = await PresaleFactory.deploy(tokenAddress, presaleOwner) as EpicStarterPresale;
+  await presale.waitForDeployment();
+
+  const contractAddress = await presale.getAddress();
+  const deploymentTx = presale.deploymentTransaction();
+
+  console.log(`✅ EpicStarterPresale deployed to: ${contractAddress}`);
+
+  saveAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, PRESALE_DEPLOYMENT, {
+    contractAddress,
+    tokenAddress,
+    owner: presaleOwner,
+    deploymentTx: deploymentTx?.hash,
+    network: networkConfig.name,
+    chainId: networkConfig.chainId,
+  });
+
+  return presale;
+}
+
+/**
+ * Get the escrow the presale routes purchases through
+ */
+export async function getEscrowForPresale(presale: EpicStarterPresale): Promise<EpicStarterSaleEscrow> {
+  const escrowAddress = await presale.escrow();
+  if (escrowAddress === ethers.ZeroAddress) {
+    throw new Error("Presale has no escrow configured");
+  }
+
+  const EscrowFactory = await ethers.getContractFactory("EpicStarterSaleEscrow");
+  return EscrowFactory.attach(escrowAddress) as EpicStarterSaleEscrow;
+}
+
+/**
+ * Deploy an escrow for the recorded presale and route purchases through it
+ */
+export async function deployEscrow(
+  presale: EpicStarterPresale,
+  softCap: bigint,
+  saleEnd: number,
+): Promise<EpicStarterSaleEscrow> {
+  const [deployer] = await ethers.getSigners();
+  const networkConfig = await getCurrentNetworkConfig();
+  const presaleAddress = await presale.getAddress();
+  const tokenAddress = await presale.token();
+  const escrowOwner = process.env.PRESALE_OWNER || deployer.address;
+
+  console.log("🚀 Deploying EpicStarterSaleEscrow...");
+  console.log("═".repeat(50));
+  console.log(`Presale: ${presaleAddress}`);
+  console.log(`Soft Cap: ${ethers.formatEther(softCap)} ${networkConfig.config.currency}`);
+  console.log(`Sale End: ${formatTimestamp(saleEnd)}`);
+  console.log(`Owner: ${escrowOwner}`);
+  console.log("═".repeat(50));
+
+  const EscrowFactory = await ethers.getContractFactory("EpicStarterSaleEscrow");
+  const escrow = await EscrowFactory.deploy(
+    tokenAddress,
+    presaleAddress,
+    softCap,
+    saleEnd,
+    escrowOwner,
+  ) as EpicStarterSaleEscrow;
+  await escrow.waitForDeployment();
+
+  const contractAddress = await escrow.getAddress();
+  console.log(`✅ EpicStarterSaleEscrow deployed to: ${contractAddress}`);
+
+  saveAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, ESCROW_DEPLOYMENT, {
+    contractAddress,
+    presaleAddress,
+    tokenAddress,
+    softCap: softCap.toString(),
+    saleEnd,
+    owner: escrowOwner,
+    deploymentTx: escrow.deploymentTransaction()?.hash,
+    network: networkConfig.name,
+    chainId: networkConfig.chainId,
+  });
+
+  const tx = await presale.setEscrow(contractAddress);
+  await tx.wait();
+  console.log(`✅ Presale purchases now routed through the escrow (tx: ${tx.hash})`);
+
+  return escrow;
+}
+
+/**
+ * Fund the presale with EPCS from the token owner's balance
+ */
+export async function fundPresale(presale: EpicStarterPresale, amount: bigint): Promise<void> {
+  const [signer] = await ethers.getSigners();
+  const token = await getTokenForCurrentNetwork();
+  const tokenOwner = await token.owner();
+
+  if (tokenOwner.toLowerCase() !== signer.address.toLowerCase()) {
+    throw new Error(`Signer ${signer.address} is not the token owner (${tokenOwner})`);
+  }
+
+  const balance = await token.balanceOf(signer.address);
+  if (balance < amount) {
+    throw new Error(`Insufficient owner balance: ${formatTokenAmount(balance)} EPCS`);
+  }
+
+  console.log(`💸 Funding presale with ${formatTokenAmount(amount)} EPCS...`);
+  const tx = await token.connect(signer).transfer(await presale.getAddress(), amount);
+  await tx.wait();
+
+  console.log(`✅ Funded (tx: ${tx.hash})`);
+}
+
+/**
+ * Add a round from CLI options
+ */
+export async function addRound(presale: EpicStarterPresale, args: ScriptArgs): Promise<void> {
+  const price = ethers.parseEther(getStringOption(args, "price"));
+  const hardCap = ethers.parseEther(getStringOption(args, "cap"));
+  const minContribution = ethers.parseEther(getStringOption(args, "min", "0"));
+  const maxContribution = ethers.parseEther(getStringOption(args, "max", getStringOption(args, "cap")));
+  const startTime = parseTimestamp(getStringOption(args, "start"));
+  const endTime = parseTimestamp(getStringOption(args, "end"));
+
+  console.log("➕ Adding presale round...");
+  const tx = await presale.addRound(price, hardCap, minContribution, maxContribution, startTime, endTime);
+  const receipt = await tx.wait();
+
+  const roundId = (await presale.roundCount()) - 1n;
+  console.log(`✅ Round ${roundId} added (tx: ${receipt?.hash})`);
+}
+
+/**
+ * Print the status of every round
+ */
+export async function printPresaleStatus(presale: EpicStarterPresale): Promise<void> {
+  const networkConfig = await getCurrentNetworkConfig();
+  const currency = networkConfig.config.currency;
+  const roundCount = await presale.roundCount();
+  const [hasOpenRound, openRoundId] = await presale.activeRound();
+
+  console.log("\n📊 Presale Status:");
+  console.log("═".repeat(50));
+  console.log(`Address: ${await presale.getAddress()}`);
+  console.log(`Token: ${await presale.token()}`);
+  console.log(`Owner: ${await presale.owner()}`);
+  console.log(`Available Tokens: ${formatTokenAmount(await presale.availableTokens())} EPCS`);
+  console.log(`Total Raised: ${ethers.formatEther(await presale.totalRaised())} ${currency}`);
+  console.log(`Total Sold: ${formatTokenAmount(await presale.totalSold())} EPCS`);
+  console.log(`Open Round: ${hasOpenRound ? openRoundId.toString() : "none"}`);
+  console.log("═".repeat(50));
+
+  for (let roundId = 0n; roundId < roundCount; roundId++) {
+    const round = await presale.getRound(roundId);
+
+    console.log(`\nRound ${roundId} [${ROUND_STATUS[Number(round.status)]}]`);
+    console.log("─".repeat(40));
+    console.log(`Price: ${ethers.formatEther(round.price)} ${currency} per EPCS`);
+    console.log(`Raised: ${ethers.formatEther(round.raised)} / ${ethers.formatEther(round.hardCap)} ${currency}`);
+    console.log(`Sold: ${formatTokenAmount(round.tokensSold)} EPCS`);
+    const minContribution = ethers.formatEther(round.minContribution);
+    const maxContribution = ethers.formatEther(round.maxContribution);
+    console.log(`Wallet limits: ${minContribution} - ${maxContribution} ${currency}`);
+    console.log(`Window: ${formatTimestamp(Number(round.startTime))} → ${formatTimestamp(Number(round.endTime))}`);
+  }
+
+  if ((await presale.escrow()) !== ethers.ZeroAddress) {
+    await printEscrowStatus(await getEscrowForPresale(presale), currency);
+  }
+}
+
+/**
+ * Print the escrow status
+ */
+export async function printEscrowStatus(escrow: EpicStarterSaleEscrow, currency: string): Promise<void> {
+  const info = await escrow.getEscrowInfo();
+
+  console.log("\n🔐 Escrow Status:");
+  console.log("═".repeat(50));
+  console.log(`Address: ${await escrow.getAddress()}`);
+  console.log(`Status: ${ESCROW_STATUS[Number(info.currentStatus)]}`);
+  console.log(`Soft Cap: ${ethers.formatEther(info.softCap)} ${currency}`);
+  console.log(`Sale End: ${formatTimestamp(Number(info.saleEnd))}`);
+  console.log(`TGE: ${formatTimestamp(Number(info.tgeTime))}`);
+  console.log(`Deposited: ${ethers.formatEther(info.totalDeposited)} ${currency}`);
+  console.log(`Refunded: ${ethers.formatEther(info.totalRefunded)} ${currency}`);
+  console.log(`Allocated: ${formatTokenAmount(info.totalAllocated)} EPCS`);
+  console.log(`Claimed: ${formatTokenAmount(info.totalClaimed)} EPCS`);
+  console.log("═".repeat(50));
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/presale.ts --network <network>");
+  console.log("Commands:");
+  console.log("  deploy                                   Deploy the presale for the recorded token");
+  console.log("  fund --amount <EPCS>                     Transfer EPCS from the token owner to the presale");
+  console.log("  add-round --price <BNB> --cap <BNB> --start <time> --end <time> [--min <BNB>] [--max <BNB>]");
+  console.log("  open --round <id>                        Open a pending round");
+  console.log("  close --round <id>                       Close the open round");
+  console.log("  status                                   Print presale and round status");
+  console.log("  withdraw-proceeds --to <address> [--amount <BNB>]");
+  console.log("  withdraw-unsold --to <address> [--amount <EPCS>]");
+  console.log("  deploy-escrow --soft-cap <BNB> --sale-end <time>  Deploy an escrow and route purchases through it");
+  console.log("  finalize                                 Settle the escrow against its soft cap");
+  console.log("  set-tge --time <time>                    Bring forward the time escrowed tokens become claimable");
+  console.log("  escrow-withdraw-proceeds --to <address> [--amount <BNB>]");
+  console.log("  escrow-release-unsold --to <address>     Release the EPCS of a failed sale");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "deploy":
+      await deployPresale();
+      break;
+    case "fund":
+      await fundPresale(await getPresaleForCurrentNetwork(), parseTokenAmount(getStringOption(args, "amount")));
+      break;
+    case "add-round":
+      await addRound(await getPresaleForCurrentNetwork(), args);
+      break;
+    case "open": {
+      const presale = await getPresaleForCurrentNetwork();
+      const tx = await presale.openRound(getStringOption(args, "round"));
+      await tx.wait();
+      console.log(`✅ Round ${getStringOption(args, "round")} opened (tx: ${tx.hash})`);
+      break;
+    }
+    case "close": {
+      const presale = await getPresaleForCurrentNetwork();
+      const tx = await presale.closeRound(getStringOption(args, "round"));
+      await tx.wait();
+      console.log(`✅ Round ${getStringOption(args, "round")} closed (tx: ${tx.hash})`);
+      break;
+    }
+    case "status":
+      await printPresaleStatus(await getPresaleForCurrentNetwork());
+      break;
+    case "withdraw-proceeds": {
+      const presale = await getPresaleForCurrentNetwork();
+      const balance = await ethers.provider.getBalance(await presale.getAddress());
+      const amount = args.options.amount ? ethers.parseEther(getStringOption(args, "amount")) : balance;
+      const tx = await presale.withdrawProceeds(getStringOption(args, "to"), amount);
+      await tx.wait();
+      console.log(`✅ Withdrew ${ethers.formatEther(amount)} (tx: ${tx.hash})`);
+      break;
+    }
+    case "withdraw-unsold": {
+      const presale = await getPresaleForCurrentNetwork();
+      const available = await presale.availableTokens();
+      const amount = args.options.amount ? parseTokenAmount(getStringOption(args, "amount")) : available;
+      const tx = await presale.withdrawUnsoldTokens(getStringOption(args, "to"), amount);
+      await tx.wait();
+      console.log(`✅ Withdrew ${formatTokenAmount(amount)} EPCS (tx: ${tx.hash})`);
+      break;
+    }
+    case "deploy-escrow":
+      await deployEscrow(
+        await getPresaleForCurrentNetwork(),
+        ethers.parseEther(getStringOption(args, "soft-cap")),
+        parseTimestamp(getStringOption(args, "sale-end")),
+      );
+      break;
+    case "finalize": {
+      const escrow = await getEscrowForPresale(await getPresaleForCurrentNetwork());
+      const tx = await escrow.finalize();
+      await tx.wait();
+      console.log(`✅ Escrow finalized as ${ESCROW_STATUS[Number(await escrow.status())]} (tx: ${tx.hash})`);
+      break;
+    }
+    case "set-tge": {
+      const escrow = await getEscrowForPresale(await getPresaleForCurrentNetwork());
+      const tgeTime = parseTimestamp(getStringOption(args, "time"));
+      const tx = await escrow.setTGETime(tgeTime);
+      await tx.wait();
+      console.log(`✅ TGE set to ${formatTimestamp(tgeTime)} (tx: ${tx.hash})`);
+      break;
+    }
+    case "escrow-withdraw-proceeds": {
+      const escrow = await getEscrowForPresale(await getPresaleForCurrentNetwork());
+      const balance = await ethers.provider.getBalance(await escrow.getAddress());
+      const amount = args.options.amount ? ethers.parseEther(getStringOption(args, "amount")) : balance;
+      const tx = await escrow.withdrawProceeds(getStringOption(args, "to"), amount);
+      await tx.wait();
+      console.log(`✅ Withdrew ${ethers.formatEther(amount)} (tx: ${tx.hash})`);
+      break;
+    }
+    case "escrow-release-unsold": {
+      const escrow = await getEscrowForPresale(await getPresaleForCurrentNetwork());
+      const tx = await escrow.releaseUnsoldTokens(getStringOption(args, "to"));
+      await tx.wait();
+      console.log(`✅ Released escrowed EPCS (tx: ${tx.hash})`);
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Presale command failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,391 @@
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as readline from "readline/promises";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { EpicStarterToken } from "../typechain-types";
+import { getTokenForCurrentNetwork } from "./utils";
+import { getStringOption, isValidAddress, parseScriptArgs } from "../utils/helpers";
+
+/**
+ * Role membership audit
+ *
+ * Lists every member of every token role through AccessControlEnumerable and tells whether each
+ * member is an EOA or a contract (code at the address). The JSON output is stable (roles in
+ * declaration order, members sorted by address) so two audits can be diffed between releases.
+ *
+ * roles.policy.json declares the wanted members per role for each network:
+ *
+ *   { "networks": { "bscMainnet": { "DEFAULT_ADMIN_ROLE": ["0x..."], "PAUSER_ROLE": ["0x...", "0x..."] } } }
+ *
+ * Roles left out of a network are not managed. `plan` prints the grants and revokes that would
+ * bring the chain to the policy, `apply` sends them one by one after a confirmation each (--yes
+ * skips the prompts) and `check` exits with code 1 when the chain has drifted from the policy.
+ * Grants go first and DEFAULT_ADMIN_ROLE revokes last, so the signer never loses admin rights
+ * halfway through a plan.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="list" npx hardhat run scripts/roles.ts --network bscMainnet
+ *   SCRIPT_ARGS="list --json" ...                  (JSON on stdout)
+ *   SCRIPT_ARGS="list --out roles.json" ...        (JSON to a file)
+ *   SCRIPT_ARGS="plan|apply|check [--policy roles.policy.json] [--yes]" ...
+ */
+
+export const TOKEN_ROLES = [
+  "DEFAULT_ADMIN_ROLE",
+  "PAUSER_ROLE",
+  "BURNER_ROLE",
+  "EMERGENCY_ROLE",
+  "FREEZER_ROLE",
+] as const;
+export const DEFAULT_POLICY_PATH = "roles.policy.json";
+
+export type TokenRole = typeof TOKEN_ROLES[number];
+
+export type AccountKind = "eoa" | "contract";
+
+export interface RoleMember {
+  address: string;
+  kind: AccountKind;
+}
+
+export interface RoleMembership {
+  name: TokenRole;
+  id: string;
+  admin: string;
+  members: RoleMember[];
+}
+
+export interface RoleAudit {
+  tokenAddress: string;
+  chainId: number;
+  blockNumber: number;
+  roles: RoleMembership[];
+}
+
+export type RolePolicy = Partial<Record<TokenRole, string[]>>;
+
+export interface RoleChange {
+  action: "grant" | "revoke";
+  role: TokenRole;
+  account: string;
+}
+
+/**
+ * Role identifiers as read from the token
+ */
+export async function getRoleIds(token: EpicStarterToken): Promise<Record<TokenRole, string>> {
+  const roleIds = {} as Record<TokenRole, string>;
+
+  for (const role of TOKEN_ROLES) {
+    roleIds[role] = await token[role]();
+  }
+
+  return roleIds;
+}
+
+/**
+ * Every account holding a role
+ */
+export async function getRoleMembers(token: EpicStarterToken, roleId: string, blockTag?: number): Promise<string[]> {
+  const count = await token.getRoleMemberCount(roleId, { blockTag });
+  const members: string[] = [];
+
+  for (let index = 0n; index < count; index++) {
+    members.push(await token.getRoleMember(roleId, index, { blockTag }));
+  }
+
+  return members;
+}
+
+/**
+ * Whether an address is an EOA or a contract at a block
+ */
+export async function getAccountKind(address: string, blockTag?: number): Promise<AccountKind> {
+  const code = await ethers.provider.getCode(address, blockTag);
+  return code === "0x" ? "eoa" : "contract";
+}
+
+/**
+ * Members of every token role at the latest block
+ */
+export async function auditRoles(token: EpicStarterToken): Promise<RoleAudit> {
+  const blockNumber = await ethers.provider.getBlockNumber();
+  const roleIds = new Map<string, TokenRole>();
+
+  for (const [role, id] of Object.entries(await getRoleIds(token))) {
+    roleIds.set(id, role as TokenRole);
+  }
+
+  const roles: RoleMembership[] = [];
+  for (const [id, name] of roleIds) {
+    const adminId = await token.getRoleAdmin(id, { blockTag: blockNumber });
+    const addresses = await getRoleMembers(token, id, blockNumber);
+    const members: RoleMember[] = [];
+
+    for (const address of [...addresses].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))) {
+      members.push({ address, kind: await getAccountKind(address, blockNumber) });
+    }
+
+    roles.push({ name, id, admin: roleIds.get(adminId) ?? adminId, members });
+  }
+
+  return {
+    tokenAddress: await token.getAddress(),
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    blockNumber,
+    roles,
+  };
+}
+
+/**
+ * Write an audit as JSON
+ */
+export function saveRoleAudit(filepath: string, audit: RoleAudit): void {
+  const tmpPath = `${filepath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(audit, null, 2));
+  fs.renameSync(tmpPath, filepath);
+}
+
+/**
+ * Print every role with its members
+ */
+export function printRoleAudit(audit: RoleAudit): void {
+  console.log("\n🔑 Role Membership:");
+  console.log("═".repeat(50));
+  console.log(`Token: ${audit.tokenAddress}`);
+  console.log(`Chain ID: ${audit.chainId}`);
+  console.log(`Block: ${audit.blockNumber}`);
+  console.log("═".repeat(50));
+
+  for (const role of audit.roles) {
+    console.log(`\n${role.name} (${role.members.length} members, admin ${role.admin})`);
+    console.log("─".repeat(40));
+    if (role.members.length === 0) {
+      console.log("none");
+    }
+    role.members.forEach((member) => {
+      console.log(`${member.kind === "contract" ? "📜 contract" : "👤 eoa     "} ${member.address}`);
+    });
+  }
+}
+
+/**
+ * Load and validate the policy of one network
+ * @param filepath - Policy file
+ * @param networkName - Hardhat network name the policy is keyed by
+ */
+export function loadRolePolicy(filepath: string, networkName: string): RolePolicy {
+  if (!fs.existsSync(filepath)) {
+    throw new Error(`Role policy not found: ${filepath}`);
+  }
+
+  const file = JSON.parse(fs.readFileSync(filepath, "utf8"));
+  const entry = file.networks?.[networkName];
+  if (!entry) {
+    throw new Error(`${filepath} has no policy for network ${networkName}`);
+  }
+
+  return parseRolePolicy(entry, `${filepath} ${networkName}`);
+}
+
+/**
+ * Validate a policy entry and checksum its addresses
+ */
+export function parseRolePolicy(entry: Record<string, unknown>, source: string): RolePolicy {
+  const policy: RolePolicy = {};
+
+  for (const [role, members] of Object.entries(entry)) {
+    if (!(TOKEN_ROLES as readonly string[]).includes(role)) {
+      throw new Error(`${source}: unknown role ${role}, expected one of ${TOKEN_ROLES.join(", ")}`);
+    }
+    if (!Array.isArray(members)) {
+      throw new Error(`${source}: ${role} must be a list of addresses`);
+    }
+
+    const accounts: string[] = [];
+    for (const member of members) {
+      if (typeof member !== "string" || !isValidAddress(member) || member === ethers.ZeroAddress) {
+        throw new Error(`${source}: invalid address ${member} in ${role}`);
+      }
+      const account = ethers.getAddress(member);
+      if (accounts.includes(account)) {
+        throw new Error(`${source}: ${account} is listed twice in ${role}`);
+      }
+      accounts.push(account);
+    }
+
+    policy[role as TokenRole] = accounts;
+  }
+
+  if (policy.DEFAULT_ADMIN_ROLE?.length === 0) {
+    throw new Error(`${source}: DEFAULT_ADMIN_ROLE cannot be empty, use the ownership renounce command instead`);
+  }
+
+  return policy;
+}
+
+/**
+ * Grants and revokes that bring the chain to the policy
+ * Grants come first and DEFAULT_ADMIN_ROLE revokes last
+ */
+export async function planRoleChanges(token: EpicStarterToken, policy: RolePolicy): Promise<RoleChange[]> {
+  const roleIds = await getRoleIds(token);
+  const grants: RoleChange[] = [];
+  const revokes: RoleChange[] = [];
+  const adminRevokes: RoleChange[] = [];
+
+  for (const role of TOKEN_ROLES) {
+    const wanted = policy[role];
+    if (!wanted) continue;
+
+    const current = await getRoleMembers(token, roleIds[role]);
+    wanted
+      .filter((account) => !current.includes(account))
+      .forEach((account) => grants.push({ action: "grant", role, account }));
+    const revokeList = role === "DEFAULT_ADMIN_ROLE" ? adminRevokes : revokes;
+    current
+      .filter((account) => !wanted.includes(account))
+      .forEach((account) => revokeList.push({ action: "revoke", role, account }));
+  }
+
+  return [...grants, ...revokes, ...adminRevokes];
+}
+
+/**
+ * Print a plan
+ */
+export function printRolePlan(changes: RoleChange[], networkName: string): void {
+  console.log(`\n📝 Role Plan (${networkName}):`);
+  console.log("═".repeat(50));
+  if (changes.length === 0) {
+    console.log("✅ Role membership matches the policy");
+  }
+  changes.forEach((change, index) => {
+    const [sign, preposition] = change.action === "grant" ? ["+", "to"] : ["-", "from"];
+    console.log(`${index + 1}. ${sign} ${change.action} ${change.role} ${preposition} ${change.account}`);
+  });
+  console.log("═".repeat(50));
+}
+
+/**
+ * Ask on the terminal whether to send a change
+ */
+export async function confirmOnTerminal(change: RoleChange): Promise<boolean> {
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await prompt.question(`Send ${change.action} ${change.role} ${change.account}? [y/N] `);
+    return answer.trim().toLowerCase() === "y";
+  } finally {
+    prompt.close();
+  }
+}
+
+/**
+ * Send the changes of a plan, each after a confirmation
+ * @param confirm - Called before every change; a declined change is skipped
+ * @returns The changes that were sent
+ */
+export async function applyRolePlan(
+  token: EpicStarterToken,
+  signer: SignerWithAddress,
+  changes: RoleChange[],
+  confirm: (change: RoleChange) => Promise<boolean> = confirmOnTerminal,
+): Promise<RoleChange[]> {
+  const roleIds = await getRoleIds(token);
+
+  for (const role of new Set(changes.map((change) => change.role))) {
+    const adminRole = await token.getRoleAdmin(roleIds[role]);
+    if (!await token.hasRole(adminRole, signer.address)) {
+      throw new Error(`Signer ${signer.address} cannot administer ${role}`);
+    }
+  }
+
+  // The signer giving up its own admin role must come after everything else
+  const ordered = [
+    ...changes.filter((change) => !isSelfAdminRevoke(change, signer.address)),
+    ...changes.filter((change) => isSelfAdminRevoke(change, signer.address)),
+  ];
+  const applied: RoleChange[] = [];
+
+  for (const change of ordered) {
+    if (!await confirm(change)) {
+      console.log(`⏭️  Skipped ${change.action} ${change.role} ${change.account}`);
+      continue;
+    }
+
+    const tx = change.action === "grant"
+      ? await token.connect(signer).grantRole(roleIds[change.role], change.account)
+      : await token.connect(signer).revokeRole(roleIds[change.role], change.account);
+    await tx.wait();
+    applied.push(change);
+    console.log(`✅ ${change.action} ${change.role} ${change.account} (tx: ${tx.hash})`);
+  }
+
+  return applied;
+}
+
+function isSelfAdminRevoke(change: RoleChange, signer: string): boolean {
+  return change.action === "revoke" && change.role === "DEFAULT_ADMIN_ROLE" && change.account === signer;
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/roles.ts --network <network>");
+  console.log("Commands:");
+  console.log("  list [--json] [--out <json>]             Print every member of every role");
+  console.log("  plan [--policy <json>]                   Print the grants and revokes the policy needs");
+  console.log("  apply [--policy <json>] [--yes]          Send them, confirming each one");
+  console.log("  check [--policy <json>]                  Exit with code 1 when the chain drifted");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "list": {
+      const audit = await auditRoles(await getTokenForCurrentNetwork());
+
+      if (args.options.json === true) {
+        console.log(JSON.stringify(audit, null, 2));
+      } else {
+        printRoleAudit(audit);
+      }
+      if (typeof args.options.out === "string") {
+        saveRoleAudit(args.options.out, audit);
+        if (args.options.json !== true) console.log(`✅ Role audit saved to: ${args.options.out}`);
+      }
+      break;
+    }
+    case "plan":
+    case "apply":
+    case "check": {
+      const token = await getTokenForCurrentNetwork();
+      const policy = loadRolePolicy(getStringOption(args, "policy", DEFAULT_POLICY_PATH), network.name);
+      const changes = await planRoleChanges(token, policy);
+      printRolePlan(changes, network.name);
+
+      if (args.command === "check" && changes.length > 0) {
+        console.log(`❌ ${changes.length} role changes needed, run apply to fix the drift`);
+        process.exitCode = 1;
+      }
+      if (args.command === "apply" && changes.length > 0) {
+        const [signer] = await ethers.getSigners();
+        const confirm = args.options.yes === true ? async () => true : confirmOnTerminal;
+        const applied = await applyRolePlan(token, signer, changes, confirm);
+        console.log(`\n${applied.length} of ${changes.length} changes applied`);
+      }
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+      console.error("❌ Role audit failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,363 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { EpicStarterToken } from "../typechain-types";
+import {
+  getContractFromDeployment,
+  getCurrentNetworkConfig,
+  loadAuxiliaryDeployment,
+  loadDeploymentInfo,
+} from "./utils";
+import {
+  IndexerStore,
+  createIndexerStore,
+  getBalancesAt,
+  getDefaultStorePath,
+  loadIndexerStore,
+  saveIndexerStore,
+  syncIndexer,
+} from "./indexer";
+import { formatTokenAmount, getStringOption, parseScriptArgs } from "../utils/helpers";
+import { createMerkleDistribution, saveMerkleDistribution } from "../utils/merkle";
+
+/**
+ * Holder snapshot export
+ *
+ * Reconstructs every EPCS balance at a target block and writes it as JSON (with the block,
+ * exclusions and totals) plus optionally:
+ *   - an "address,amount" CSV in EPCS, the input format of the airdrop and distribution CLIs
+ *   - a Merkle distribution JSON ready for `airdrop deploy`
+ *
+ * Balances come from the indexer store (synced up to the block first) or, with --source rpc,
+ * from balanceOf at that block for every address seen in Transfer events (needs an archive node).
+ *
+ * The token contract, the owner at the snapshot block and any presale, escrow, vesting or airdrop contract
+ * recorded in deployments/ are excluded by default. --exclude adds more, --include-owner keeps
+ * the owner.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="export --block 123456 --out snapshot.json [--csv holders.csv] [--merkle airdrop.json]
+ *                [--exclude 0x...,0x...] [--include-owner] [--source events|rpc]" npx hardhat run scripts/snapshot.ts
+ *   SCRIPT_ARGS="verify --snapshot snapshot.json [--samples 25]" ...
+ */
+
+const LOCKER_DEPLOYMENTS = ["presale", "escrow", "vesting", "airdrop"];
+
+export type SnapshotSource = "events" | "rpc";
+
+export interface SnapshotEntry {
+  address: string;
+  balance: bigint;
+}
+
+export interface HolderSnapshot {
+  tokenAddress: string;
+  chainId: number;
+  blockNumber: number;
+  source: SnapshotSource;
+  totalSupply: bigint;
+  total: bigint;
+  holders: SnapshotEntry[];
+  excluded: SnapshotEntry[];
+}
+
+export interface SnapshotOptions {
+  blockNumber: number;
+  exclude?: string[];
+  source?: SnapshotSource;
+}
+
+export interface SnapshotMismatch {
+  address: string;
+  expected: bigint;
+  actual: bigint;
+}
+
+function byBalanceDesc(a: SnapshotEntry, b: SnapshotEntry): number {
+  return a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1;
+}
+
+/**
+ * Addresses excluded by default: the token itself, its owner at the snapshot block and recorded locker contracts
+ * @param token - Token contract
+ * @param blockNumber - Snapshot block
+ * @param includeOwner - Keep the owner in the snapshot
+ */
+export async function getDefaultExclusions(
+  token: EpicStarterToken,
+  blockNumber: number,
+  includeOwner = false,
+): Promise<string[]> {
+  const networkConfig = await getCurrentNetworkConfig();
+  const exclusions = [await token.getAddress()];
+
+  if (!includeOwner) {
+    exclusions.push(await token.owner({ blockTag: blockNumber }));
+  }
+
+  for (const name of LOCKER_DEPLOYMENTS) {
+    try {
+      exclusions.push(loadAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, name).contractAddress);
+    } catch {
+      // Not deployed on this network
+    }
+  }
+
+  return exclusions;
+}
+
+/**
+ * Read balances with balanceOf at a block for every address that appears in Transfer events
+ */
+async function fetchBalancesAt(
+  token: EpicStarterToken,
+  store: IndexerStore,
+  blockNumber: number,
+): Promise<Record<string, string>> {
+  const accounts = new Set<string>();
+  store.events
+    .filter((event) => event.name === "Transfer" && event.blockNumber <= blockNumber)
+    .forEach((event) => {
+      accounts.add(event.args.from);
+      accounts.add(event.args.to);
+    });
+  accounts.delete(ethers.ZeroAddress);
+
+  const balances: Record<string, string> = {};
+  for (const account of accounts) {
+    const balance = await token.balanceOf(account, { blockTag: blockNumber });
+    if (balance > 0n) {
+      balances[account] = balance.toString();
+    }
+  }
+
+  return balances;
+}
+
+/**
+ * Build a holder snapshot at a block
+ * @param token - Token contract
+ * @param store - Indexer store synced to at least options.blockNumber
+ * @param options - Target block, excluded addresses and balance source
+ * @returns Snapshot with holders sorted by balance
+ */
+export async function takeSnapshot(
+  token: EpicStarterToken,
+  store: IndexerStore,
+  options: SnapshotOptions,
+): Promise<HolderSnapshot> {
+  const source = options.source ?? "events";
+  const excluded = new Set((options.exclude ?? []).map((address) => ethers.getAddress(address)));
+
+  const balances = source === "rpc"
+    ? await fetchBalancesAt(token, store, options.blockNumber)
+    : getBalancesAt(store, options.blockNumber);
+
+  const entries = Object.entries(balances).map(([address, balance]) => ({ address, balance: BigInt(balance) }));
+  const holders = entries.filter((entry) => !excluded.has(entry.address)).sort(byBalanceDesc);
+
+  return {
+    tokenAddress: store.tokenAddress,
+    chainId: store.chainId,
+    blockNumber: options.blockNumber,
+    source,
+    totalSupply: await token.totalSupply({ blockTag: options.blockNumber }),
+    total: holders.reduce((sum, holder) => sum + holder.balance, 0n),
+    holders,
+    excluded: entries.filter((entry) => excluded.has(entry.address)).sort(byBalanceDesc),
+  };
+}
+
+/**
+ * Write a snapshot to JSON (amounts as decimal wei strings)
+ */
+export function saveSnapshot(filepath: string, snapshot: HolderSnapshot): void {
+  const entry = ({ address, balance }: SnapshotEntry) => ({ address, balance: balance.toString() });
+
+  fs.mkdirSync(path.dirname(filepath), { recursive: true });
+  fs.writeFileSync(filepath, JSON.stringify({
+    ...snapshot,
+    totalSupply: snapshot.totalSupply.toString(),
+    total: snapshot.total.toString(),
+    holders: snapshot.holders.map(entry),
+    excluded: snapshot.excluded.map(entry),
+  }, null, 2));
+}
+
+/**
+ * Load a snapshot written by saveSnapshot
+ */
+export function loadSnapshot(filepath: string): HolderSnapshot {
+  if (!fs.existsSync(filepath)) {
+    throw new Error(`Snapshot file not found: ${filepath}`);
+  }
+
+  const data = JSON.parse(fs.readFileSync(filepath, "utf8"));
+  const entry = ({ address, balance }: { address: string; balance: string }) => ({ address, balance: BigInt(balance) });
+
+  return {
+    ...data,
+    totalSupply: BigInt(data.totalSupply),
+    total: BigInt(data.total),
+    holders: data.holders.map(entry),
+    excluded: data.excluded.map(entry),
+  };
+}
+
+/**
+ * Write the holders as "address,amount" CSV with amounts in EPCS (readable by parseAllocationCsv)
+ */
+export function saveSnapshotCsv(filepath: string, snapshot: HolderSnapshot): void {
+  const lines = [
+    "address,amount",
+    `# EPCS holders of ${snapshot.tokenAddress} at block ${snapshot.blockNumber}`,
+    ...snapshot.holders.map((holder) => `${holder.address},${formatTokenAmount(holder.balance)}`),
+  ];
+
+  fs.mkdirSync(path.dirname(filepath), { recursive: true });
+  fs.writeFileSync(filepath, `${lines.join("\n")}\n`);
+}
+
+/**
+ * Spot-check snapshot balances against balanceOf at the snapshot block
+ * @param token - Token contract
+ * @param snapshot - Snapshot to verify
+ * @param samples - Number of holders to check (the largest holders first, then random ones)
+ * @returns Mismatching balances, plus a totals mismatch keyed by the token address if
+ *          holders and exclusions do not add up to the total supply at that block
+ */
+export async function verifySnapshot(
+  token: EpicStarterToken,
+  snapshot: HolderSnapshot,
+  samples: number,
+): Promise<SnapshotMismatch[]> {
+  const blockTag = snapshot.blockNumber;
+  const largest = snapshot.holders.slice(0, Math.ceil(samples / 2));
+  const rest = snapshot.holders.slice(largest.length);
+
+  // Fisher-Yates shuffle so the remaining samples are spread over the whole holder list
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+
+  const sampled = [...largest, ...rest.slice(0, samples - largest.length), ...snapshot.excluded];
+
+  const mismatches: SnapshotMismatch[] = [];
+  for (const entry of sampled) {
+    const actual = await token.balanceOf(entry.address, { blockTag });
+    if (actual !== entry.balance) {
+      mismatches.push({ address: entry.address, expected: entry.balance, actual });
+    }
+  }
+
+  const excludedTotal = snapshot.excluded.reduce((sum, entry) => sum + entry.balance, 0n);
+  const totalSupply = await token.totalSupply({ blockTag });
+  if (snapshot.total + excludedTotal !== totalSupply) {
+    mismatches.push({ address: snapshot.tokenAddress, expected: snapshot.total + excludedTotal, actual: totalSupply });
+  }
+
+  return mismatches;
+}
+
+/**
+ * Print a snapshot summary
+ */
+export function printSnapshotSummary(snapshot: HolderSnapshot): void {
+  console.log("\n📸 Holder Snapshot:");
+  console.log("═".repeat(50));
+  console.log(`Token: ${snapshot.tokenAddress} (Chain ID: ${snapshot.chainId})`);
+  console.log(`Block: ${snapshot.blockNumber} (source: ${snapshot.source})`);
+  console.log(`Holders: ${snapshot.holders.length}`);
+  console.log(`Total: ${formatTokenAmount(snapshot.total)} EPCS of ${formatTokenAmount(snapshot.totalSupply)} EPCS`);
+  console.log(`Excluded (${snapshot.excluded.length}):`);
+  snapshot.excluded.forEach((entry) => console.log(`  ${entry.address} ${formatTokenAmount(entry.balance)} EPCS`));
+  console.log("═".repeat(50));
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/snapshot.ts --network <network>");
+  console.log("Commands:");
+  console.log("  export --block <n> --out <json> [--csv <csv>] [--merkle <json>]");
+  console.log("         [--exclude <a,b,...>] [--include-owner] [--source events|rpc] [--store <path>]");
+  console.log("  verify --snapshot <json> [--samples <n>]   Spot-check balances with balanceOf at the block");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  const networkConfig = await getCurrentNetworkConfig();
+
+  switch (args.command) {
+    case "export": {
+      const deploymentInfo = loadDeploymentInfo(networkConfig.name, networkConfig.chainId);
+      const token = await getContractFromDeployment(networkConfig.name, networkConfig.chainId);
+      const blockNumber = Number(getStringOption(args, "block"));
+      const source = getStringOption(args, "source", "events");
+      if (source !== "events" && source !== "rpc") {
+        throw new Error(`Unknown source ${source}, expected events or rpc`);
+      }
+
+      const storePath = getStringOption(args, "store", getDefaultStorePath(networkConfig.name, networkConfig.chainId));
+      const store = loadIndexerStore(storePath) ??
+        createIndexerStore(deploymentInfo.contractAddress, networkConfig.chainId, deploymentInfo.blockNumber ?? 0);
+      if (!store.cursor || store.cursor.blockNumber < blockNumber) {
+        console.log(`🔄 Syncing indexer store to block ${blockNumber}...`);
+        await syncIndexer(token, store, { toBlock: blockNumber, storePath });
+        saveIndexerStore(storePath, store);
+      }
+
+      const exclude = [
+        ...await getDefaultExclusions(token, blockNumber, args.options["include-owner"] === true),
+        ...getStringOption(args, "exclude", "").split(",").filter((address) => address.length > 0),
+      ];
+      const snapshot = await takeSnapshot(token, store, { blockNumber, exclude, source });
+      printSnapshotSummary(snapshot);
+
+      const out = getStringOption(args, "out");
+      saveSnapshot(out, snapshot);
+      console.log(`✅ Snapshot saved to: ${out}`);
+
+      if (typeof args.options.csv === "string") {
+        saveSnapshotCsv(args.options.csv, snapshot);
+        console.log(`✅ CSV saved to: ${args.options.csv}`);
+      }
+      if (typeof args.options.merkle === "string") {
+        const distribution = createMerkleDistribution(
+          snapshot.holders.map((holder) => holder.address),
+          snapshot.holders.map((holder) => holder.balance),
+        );
+        saveMerkleDistribution(args.options.merkle, distribution);
+        console.log(`✅ Merkle distribution saved to: ${args.options.merkle} (root ${distribution.merkleRoot})`);
+      }
+      break;
+    }
+    case "verify": {
+      const token = await getContractFromDeployment(networkConfig.name, networkConfig.chainId);
+      const snapshot = loadSnapshot(getStringOption(args, "snapshot"));
+      const mismatches = await verifySnapshot(token, snapshot, Number(getStringOption(args, "samples", "25")));
+
+      mismatches.forEach((mismatch) => {
+        const expected = formatTokenAmount(mismatch.expected);
+        const actual = formatTokenAmount(mismatch.actual);
+        console.log(`❌ ${mismatch.address}: snapshot ${expected} EPCS, chain ${actual} EPCS`);
+      });
+      if (mismatches.length > 0) {
+        throw new Error(`${mismatches.length} snapshot mismatches at block ${snapshot.blockNumber}`);
+      }
+      console.log(`✅ Snapshot matches balanceOf at block ${snapshot.blockNumber}`);
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Snapshot command failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,71 @@
+import { ethers } from "hardhat";
+import { EpicStarterToken } from "../typechain-types";
+import { getCurrentNetworkConfig, loadDeploymentInfo } from "./utils";
+import { getAdminReport, printAdminReport } from "./ownership";
+import { getPauseScopeReport, printPauseScopeReport } from "./pause-history";
+import { formatFeeConfig } from "../utils/helpers";
+
+/**
+ * Deployment status report
+ *
+ * Prints the token info, the pause scope matrix and the admin report for the deployment
+ * recorded for the current network.
+ *
+ * Usage:
+ *   npx hardhat run scripts/status.ts --network bscMainnet
+ */
+
+/**
+ * Deployment status check
+ */
+export async function checkDeploymentStatus(contractAddress: string): Promise<void> {
+  console.log(`🔍 Checking deployment status for: ${contractAddress}`);
+
+  try {
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const contract = EpicStarterTokenFactory.attach(contractAddress) as EpicStarterToken;
+
+    const tokenInfo = await contract.getTokenInfo();
+    const contractStatus = await contract.getContractStatus();
+
+    console.log("\n📊 Contract Status:");
+    console.log("═".repeat(50));
+    console.log(`Address: ${contractAddress}`);
+    console.log(`Name: ${tokenInfo.name}`);
+    console.log(`Symbol: ${tokenInfo.symbol}`);
+    console.log(`Total Supply: ${ethers.formatEther(tokenInfo.totalSupply)} EPCS`);
+    console.log(`Owner: ${tokenInfo.owner}`);
+    console.log(`Paused: ${tokenInfo.paused}`);
+    console.log(`Initialized: ${contractStatus.initialized}`);
+    console.log(`Emergency Paused: ${contractStatus.emergencyPaused}`);
+    console.log(`Total Burned: ${ethers.formatEther(tokenInfo.totalBurned)} EPCS`);
+    console.log(`Circulating Supply: ${ethers.formatEther(tokenInfo.circulatingSupply)} EPCS`);
+    console.log(`Transfer Fee: ${formatFeeConfig(tokenInfo.feeBps, tokenInfo.feeBurnBps, tokenInfo.treasury)}`);
+    console.log("═".repeat(50));
+
+    printPauseScopeReport(await getPauseScopeReport(contract));
+    printAdminReport(await getAdminReport(contract));
+
+    console.log("✅ Contract is operational");
+
+  } catch (error) {
+    console.error("❌ Failed to check contract status:", error);
+    throw error;
+  }
+}
+
+// Main execution function
+async function main() {
+  const networkConfig = await getCurrentNetworkConfig();
+  const deploymentInfo = loadDeploymentInfo(networkConfig.name, networkConfig.chainId);
+  await checkDeploymentStatus(deploymentInfo.contractAddress);
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Status check failed:", error);
+      process.exit(1);
+    });
+}
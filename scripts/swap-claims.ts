@@ -0,0 +1,349 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { Signer } from "ethers";
+import { EpicStarterToken } from "../typechain-types";
+import { getTokenForCurrentNetwork } from "./utils";
+import { DEFAULT_CHUNK_SIZE } from "./indexer";
+import { EventHelpers, formatTokenAmount, getStringOption, parseScriptArgs } from "../utils/helpers";
+
+/**
+ * Swap claim export
+ *
+ * Turns TokensBurnedForSwap events into claim files for the bridge operator. Every burn gets
+ * one `<nonce>.json` in the output directory holding the burn (burner, amount, destination,
+ * transaction) and the operator's signature over
+ *
+ *   keccak256(chainId, token, nonce, burner, amount, destination)
+ *
+ * so the receiving side can check a claim came from this export and was not edited.
+ *
+ * Burns are rejected (no claim file) when:
+ *   duplicate            two different logs carry the same nonce
+ *   malformed            the destination does not match --destination-pattern
+ *
+ * Nonce gaps inside the scanned range are reported but do not block the other claims. An
+ * existing claim file is left untouched when it signs the same burn and reported as a conflict
+ * otherwise. Exits with code 1 when anything was rejected or conflicted.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="export --from-block 100 [--to-block 200] --out claims/" npx hardhat run scripts/swap-claims.ts
+ *   SCRIPT_ARGS="verify --claim claims/7.json [--signer 0x...]" npx hardhat run scripts/swap-claims.ts
+ */
+
+export const SWAP_CLAIM_VERSION = 1;
+// EpicChain addresses: base58, 34 characters
+export const DEFAULT_DESTINATION_PATTERN = "^[1-9A-HJ-NP-Za-km-z]{34}$";
+
+export interface SwapBurn {
+  nonce: bigint;
+  burner: string;
+  amount: bigint;
+  destination: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface SwapClaim {
+  version: number;
+  chainId: number;
+  token: string;
+  nonce: string;
+  burner: string;
+  amount: string;
+  destination: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  digest: string;
+  signer: string;
+  signature: string;
+}
+
+export type SwapBurnIssueKind = "duplicate" | "malformed" | "gap";
+
+export interface SwapBurnIssue {
+  kind: SwapBurnIssueKind;
+  nonce: bigint;
+  message: string;
+}
+
+export interface SwapBurnValidation {
+  accepted: SwapBurn[];
+  issues: SwapBurnIssue[];
+}
+
+export interface SwapClaimExport {
+  written: string[];
+  unchanged: string[];
+  conflicts: string[];
+}
+
+/**
+ * TokensBurnedForSwap events in a block range, queried in chunks and sorted by nonce
+ */
+export async function fetchSwapBurns(
+  token: EpicStarterToken,
+  fromBlock: number,
+  toBlock: number,
+): Promise<SwapBurn[]> {
+  const tokenAddress = await token.getAddress();
+  const topics = [token.interface.getEvent("TokensBurnedForSwap").topicHash];
+  const burns: SwapBurn[] = [];
+
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += DEFAULT_CHUNK_SIZE) {
+    const chunkEnd = Math.min(chunkStart + DEFAULT_CHUNK_SIZE - 1, toBlock);
+    const filter = { address: tokenAddress, topics, fromBlock: chunkStart, toBlock: chunkEnd };
+    const logs = await ethers.provider.getLogs(filter);
+
+    for (const event of EventHelpers.decodeLogs(logs, token.interface, "TokensBurnedForSwap", tokenAddress)) {
+      burns.push({
+        nonce: event.args.nonce,
+        burner: event.args.from,
+        amount: event.args.amount,
+        destination: event.args.destination,
+        blockNumber: event.log.blockNumber,
+        transactionHash: event.log.transactionHash,
+        logIndex: event.log.index,
+      });
+    }
+  }
+
+  return burns.sort((a, b) => (a.nonce === b.nonce ? 0 : a.nonce < b.nonce ? -1 : 1));
+}
+
+/**
+ * Split burns into the ones that can be claimed and the problems found
+ * @param burns - Burns sorted by nonce, as returned by fetchSwapBurns
+ * @param destinationPattern - Regular expression a destination must match
+ */
+export function validateSwapBurns(
+  burns: SwapBurn[],
+  destinationPattern: string = DEFAULT_DESTINATION_PATTERN,
+): SwapBurnValidation {
+  const pattern = new RegExp(destinationPattern);
+  const byNonce = new Map<bigint, SwapBurn[]>();
+
+  for (const burn of burns) {
+    const seen = byNonce.get(burn.nonce) ?? [];
+    // The same log scanned twice (overlapping ranges) is not a duplicate
+    if (!seen.some((other) => other.transactionHash === burn.transactionHash && other.logIndex === burn.logIndex)) {
+      seen.push(burn);
+    }
+    byNonce.set(burn.nonce, seen);
+  }
+
+  const accepted: SwapBurn[] = [];
+  const issues: SwapBurnIssue[] = [];
+  let previous: bigint | undefined;
+
+  for (const [nonce, entries] of byNonce) {
+    if (previous !== undefined && nonce > previous + 1n) {
+      const missing = nonce - previous - 1n;
+      issues.push({ kind: "gap", nonce, message: `${missing} nonce(s) missing before ${nonce}` });
+    }
+    previous = nonce;
+
+    if (entries.length > 1) {
+      const txHashes = entries.map((entry) => entry.transactionHash).join(", ");
+      const message = `Nonce ${nonce} emitted ${entries.length} times (${txHashes})`;
+      issues.push({ kind: "duplicate", nonce, message });
+      continue;
+    }
+
+    const [burn] = entries;
+    if (!pattern.test(burn.destination)) {
+      issues.push({ kind: "malformed", nonce, message: `Nonce ${nonce}: malformed destination "${burn.destination}"` });
+      continue;
+    }
+
+    accepted.push(burn);
+  }
+
+  return { accepted, issues };
+}
+
+/**
+ * Digest the operator signs for a claim
+ */
+export function hashSwapClaim(
+  chainId: number,
+  tokenAddress: string,
+  nonce: bigint,
+  burner: string,
+  amount: bigint,
+  destination: string,
+): string {
+  return ethers.solidityPackedKeccak256(
+    ["uint256", "address", "uint256", "address", "uint256", "string"],
+    [chainId, tokenAddress, nonce, burner, amount, destination],
+  );
+}
+
+/**
+ * Build and sign the claim for a burn
+ */
+export async function signSwapClaim(
+  burn: SwapBurn,
+  chainId: number,
+  tokenAddress: string,
+  signer: Signer,
+): Promise<SwapClaim> {
+  const digest = hashSwapClaim(chainId, tokenAddress, burn.nonce, burn.burner, burn.amount, burn.destination);
+
+  return {
+    version: SWAP_CLAIM_VERSION,
+    chainId,
+    token: ethers.getAddress(tokenAddress),
+    nonce: burn.nonce.toString(),
+    burner: burn.burner,
+    amount: burn.amount.toString(),
+    destination: burn.destination,
+    blockNumber: burn.blockNumber,
+    transactionHash: burn.transactionHash,
+    logIndex: burn.logIndex,
+    digest,
+    signer: await signer.getAddress(),
+    signature: await signer.signMessage(ethers.getBytes(digest)),
+  };
+}
+
+/**
+ * Recompute the digest of a claim and recover the address that signed it
+ * @returns The recovered signer, or null when the claim fields do not match its digest
+ */
+export function recoverSwapClaimSigner(claim: SwapClaim): string | null {
+  const digest = hashSwapClaim(
+    claim.chainId,
+    claim.token,
+    BigInt(claim.nonce),
+    claim.burner,
+    BigInt(claim.amount),
+    claim.destination,
+  );
+  if (digest !== claim.digest) return null;
+
+  return ethers.verifyMessage(ethers.getBytes(digest), claim.signature);
+}
+
+/**
+ * Load a claim file
+ */
+export function loadSwapClaim(filepath: string): SwapClaim {
+  const claim = JSON.parse(fs.readFileSync(filepath, "utf8")) as SwapClaim;
+  if (claim.version !== SWAP_CLAIM_VERSION) {
+    throw new Error(`Unsupported swap claim version ${claim.version} in ${filepath}`);
+  }
+  return claim;
+}
+
+/**
+ * Write one `<nonce>.json` per claim, keeping files that already sign the same burn
+ */
+export function exportSwapClaims(outDir: string, claims: SwapClaim[]): SwapClaimExport {
+  const result: SwapClaimExport = { written: [], unchanged: [], conflicts: [] };
+  fs.mkdirSync(outDir, { recursive: true });
+
+  for (const claim of claims) {
+    const filepath = path.join(outDir, `${claim.nonce}.json`);
+
+    if (fs.existsSync(filepath)) {
+      const existing = loadSwapClaim(filepath);
+      if (existing.digest === claim.digest) {
+        result.unchanged.push(filepath);
+      } else {
+        result.conflicts.push(filepath);
+      }
+      continue;
+    }
+
+    const tmpPath = `${filepath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(claim, null, 2));
+    fs.renameSync(tmpPath, filepath);
+    result.written.push(filepath);
+  }
+
+  return result;
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/swap-claims.ts --network <network>");
+  console.log("Commands:");
+  console.log("  export --from-block <n> [--to-block <n>] --out <dir> [--destination-pattern <regex>]");
+  console.log("  verify --claim <json> [--signer <address>]   Check the digest and recover the signer");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "export": {
+      const token = await getTokenForCurrentNetwork();
+      const tokenAddress = await token.getAddress();
+      const chainId = Number((await ethers.provider.getNetwork()).chainId);
+      const [signer] = await ethers.getSigners();
+      const latest = await ethers.provider.getBlockNumber();
+      const fromBlock = Number(getStringOption(args, "from-block"));
+      const toBlock = Number(getStringOption(args, "to-block", String(latest)));
+
+      const burns = await fetchSwapBurns(token, fromBlock, toBlock);
+      const { accepted, issues } = validateSwapBurns(
+        burns,
+        getStringOption(args, "destination-pattern", DEFAULT_DESTINATION_PATTERN),
+      );
+
+      const claims: SwapClaim[] = [];
+      for (const burn of accepted) {
+        claims.push(await signSwapClaim(burn, chainId, tokenAddress, signer));
+      }
+      const result = exportSwapClaims(getStringOption(args, "out"), claims);
+
+      console.log("\n🌉 Swap Claims:");
+      console.log("═".repeat(50));
+      console.log(`Blocks: ${fromBlock} - ${toBlock}`);
+      console.log(`Burns: ${burns.length}`);
+      console.log(`Claimed: ${formatTokenAmount(accepted.reduce((sum, burn) => sum + burn.amount, 0n))} EPCS`);
+      console.log(`Signer: ${await signer.getAddress()}`);
+      console.log(`Written: ${result.written.length}`);
+      console.log(`Unchanged: ${result.unchanged.length}`);
+      console.log("═".repeat(50));
+
+      issues.forEach((issue) => console.log(`${issue.kind === "gap" ? "⚠️ " : "❌"} ${issue.message}`));
+      result.conflicts.forEach((filepath) => console.log(`❌ ${filepath} exists and signs a different burn`));
+
+      if (result.conflicts.length > 0 || issues.some((issue) => issue.kind !== "gap")) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+    case "verify": {
+      const claimPath = getStringOption(args, "claim");
+      const claim = loadSwapClaim(claimPath);
+      const recovered = recoverSwapClaimSigner(claim);
+      const expected = getStringOption(args, "signer", claim.signer);
+
+      if (!recovered) {
+        throw new Error(`${claimPath}: fields do not match the signed digest`);
+      }
+      if (recovered !== ethers.getAddress(expected)) {
+        throw new Error(`${claimPath}: signed by ${recovered}, expected ${expected}`);
+      }
+      console.log(`✅ Claim ${claim.nonce} signed by ${recovered}`);
+      console.log(`   ${formatTokenAmount(claim.amount)} EPCS from ${claim.burner} to ${claim.destination}`);
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+      console.error("❌ Swap claim command failed:", error);
+      process.exit(1);
+    });
+}
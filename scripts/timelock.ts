@@ -0,0 +1,513 @@
+import { ethers } from "hardhat";
+import { Interface } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { EpicStarterTimelock, EpicStarterToken } from "../typechain-types";
+import {
+  getCurrentNetworkConfig,
+  getTokenForCurrentNetwork,
+  loadAuxiliaryDeployment,
+  saveAuxiliaryDeployment,
+} from "./utils";
+import { DEFAULT_CHUNK_SIZE } from "./indexer";
+import { TOKEN_ROLES } from "./roles";
+import { proposeOwnership } from "./ownership";
+import {
+  EventHelpers,
+  TIME_UNITS,
+  formatTimestamp,
+  getStringOption,
+  isValidAddress,
+  parseScriptArgs,
+} from "../utils/helpers";
+
+/**
+ * Timelocked administration
+ *
+ * Once the token is owned by EpicStarterTimelock, emergency withdrawals, admin burns, role grants
+ * and ownership moves are scheduled through the timelock and can only be executed after its
+ * minimum delay. Anyone watching CallScheduled events sees the call long before it runs, and the
+ * guardian (or any proposer) can cancel it in the meantime.
+ *
+ * The handoff hands the timelock ownership with DEFAULT_ADMIN_ROLE, BURNER_ROLE and FREEZER_ROLE.
+ * PAUSER_ROLE and EMERGENCY_ROLE stay with the guardian or multisig passed as --pauser (the current owner by
+ * default), so pausing never waits for the delay.
+ *
+ * Calls are given as a function name followed by its arguments. Array arguments are comma
+ * separated, role arguments accept role names (BURNER_ROLE) and amounts are in wei. `list`
+ * decodes the calldata of every operation against the token and timelock ABIs.
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="deploy --guardian 0x... [--delay 172800] [--proposer 0x...] [--executor 0x...]" ...
+ *   SCRIPT_ARGS="handoff [--pauser 0x...]" ...     (propose the timelock as owner, schedule acceptOwnership)
+ *   SCRIPT_ARGS="schedule emergencyBurn 0x... 1000000000000000000 [--target timelock] [--salt text]" ...
+ *   SCRIPT_ARGS="list [--from-block n] [--all]" ...
+ *   SCRIPT_ARGS="execute --id 0x..." / "cancel --id 0x..." ...
+ */
+
+export const TIMELOCK_DEPLOYMENT = "timelock";
+export const DEFAULT_TIMELOCK_DELAY = 2 * TIME_UNITS.DAY;
+export const TIMELOCK_ROLES = ["TIMELOCK_ADMIN_ROLE", "PROPOSER_ROLE", "EXECUTOR_ROLE", "CANCELLER_ROLE"] as const;
+// Owner roles that must keep working without the delay, so they are not left with the timelock
+export const INSTANT_ROLES = ["PAUSER_ROLE", "EMERGENCY_ROLE"] as const;
+
+export type OperationState = "pending" | "ready" | "done" | "cancelled";
+
+export interface TimelockOperation {
+  id: string;
+  target: string;
+  value: bigint;
+  data: string;
+  predecessor: string;
+  salt: string;
+  delay: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  readyAt: number;
+  state: OperationState;
+  call: string;
+}
+
+export interface ScheduleOptions {
+  delay?: bigint;
+  salt?: string;
+  predecessor?: string;
+}
+
+// Contracts whose calls can be decoded, by the name shown in listings
+export type CallTargets = Record<string, { address: string; contractInterface: Interface }>;
+
+/**
+ * Get the timelock recorded for the current network
+ */
+export async function getTimelockForCurrentNetwork(): Promise<EpicStarterTimelock> {
+  const networkConfig = await getCurrentNetworkConfig();
+  const deploymentInfo = loadAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, TIMELOCK_DEPLOYMENT);
+
+  const TimelockFactory = await ethers.getContractFactory("EpicStarterTimelock");
+  return TimelockFactory.attach(deploymentInfo.contractAddress) as EpicStarterTimelock;
+}
+
+/**
+ * Deploy the timelock for the current network
+ */
+export async function deployTimelock(
+  delay: number,
+  proposers: string[],
+  executors: string[],
+  guardian: string,
+): Promise<EpicStarterTimelock> {
+  const networkConfig = await getCurrentNetworkConfig();
+
+  for (const account of [...proposers, ...executors, guardian]) {
+    if (!isValidAddress(account)) throw new Error(`Invalid address: ${account}`);
+  }
+
+  console.log("🚀 Deploying EpicStarterTimelock...");
+  console.log("═".repeat(50));
+  console.log(`Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
+  console.log(`Delay: ${delay / TIME_UNITS.HOUR} hours`);
+  console.log(`Proposers: ${proposers.join(", ")}`);
+  console.log(`Executors: ${executors.join(", ")}`);
+  console.log(`Guardian: ${guardian}`);
+  console.log("═".repeat(50));
+
+  const TimelockFactory = await ethers.getContractFactory("EpicStarterTimelock");
+  const timelock = await TimelockFactory.deploy(delay, proposers, executors, guardian) as EpicStarterTimelock;
+  await timelock.waitForDeployment();
+
+  const contractAddress = await timelock.getAddress();
+  const receipt = await timelock.deploymentTransaction()?.wait();
+  console.log(`✅ EpicStarterTimelock deployed to: ${contractAddress}`);
+
+  saveAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, TIMELOCK_DEPLOYMENT, {
+    contractAddress,
+    delay,
+    proposers,
+    executors,
+    guardian,
+    blockNumber: receipt?.blockNumber,
+    deploymentTx: receipt?.hash,
+    network: networkConfig.name,
+    chainId: networkConfig.chainId,
+  });
+
+  return timelock;
+}
+
+/**
+ * The token and the timelock itself, the two contracts operations are expected to call
+ */
+export async function getCallTargets(token: EpicStarterToken, timelock: EpicStarterTimelock): Promise<CallTargets> {
+  return {
+    token: { address: await token.getAddress(), contractInterface: token.interface },
+    timelock: { address: await timelock.getAddress(), contractInterface: timelock.interface },
+  };
+}
+
+function roleIdsByName(): Map<string, string> {
+  const roles = new Map<string, string>();
+  for (const role of [...TOKEN_ROLES, ...TIMELOCK_ROLES]) {
+    roles.set(role, role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : ethers.id(role));
+  }
+  return roles;
+}
+
+/**
+ * Encode a call from its function name and command line arguments
+ * Array parameters take comma separated values and bytes32 parameters accept role names
+ */
+export function encodeCall(contractInterface: Interface, functionName: string, values: string[]): string {
+  const fragment = contractInterface.getFunction(functionName);
+  if (!fragment) throw new Error(`Unknown function: ${functionName}`);
+  if (fragment.inputs.length !== values.length) {
+    throw new Error(`${fragment.format()} takes ${fragment.inputs.length} argument(s), got ${values.length}`);
+  }
+
+  const roles = roleIdsByName();
+  const args = fragment.inputs.map((input, index) => {
+    const value = values[index];
+    if (input.baseType === "array") return value.length > 0 ? value.split(",") : [];
+    if (input.type === "bool") return value === "true";
+    if (input.type === "bytes32") return roles.get(value) ?? value;
+    return value;
+  });
+
+  return contractInterface.encodeFunctionData(fragment, args);
+}
+
+/**
+ * Decode calldata for display, e.g. `token.emergencyBurn(account=0x..., amount=1000)`
+ * @returns The decoded call, or the raw selector when no known contract matches
+ */
+export function decodeCall(target: string, data: string, targets: CallTargets): string {
+  const entry = Object.entries(targets).find(([, candidate]) => candidate.address === ethers.getAddress(target));
+  const parsed = entry?.[1].contractInterface.parseTransaction({ data });
+  if (!entry || !parsed) return `${target}:${data.slice(0, 10)}`;
+
+  const roleNames = new Map([...roleIdsByName()].map(([name, id]) => [id, name]));
+  const args = parsed.fragment.inputs.map((input, index) => {
+    const value = parsed.args[index];
+    const formatted = Array.isArray(value) ? `[${value.join(",")}]` : String(value);
+    return `${input.name}=${roleNames.get(formatted) ?? formatted}`;
+  });
+
+  return `${entry[0]}.${parsed.name}(${args.join(", ")})`;
+}
+
+/**
+ * Schedule a single call through the timelock
+ * @returns The operation id
+ */
+export async function scheduleOperation(
+  timelock: EpicStarterTimelock,
+  signer: SignerWithAddress,
+  target: string,
+  data: string,
+  options: ScheduleOptions = {},
+): Promise<string> {
+  const delay = options.delay ?? await timelock.getMinDelay();
+  const salt = options.salt ?? ethers.ZeroHash;
+  const predecessor = options.predecessor ?? ethers.ZeroHash;
+
+  const id = await timelock.hashOperation(target, 0, data, predecessor, salt);
+  if (await timelock.isOperation(id)) {
+    throw new Error(`Operation ${id} is already scheduled; use another --salt to repeat it`);
+  }
+
+  const tx = await timelock.connect(signer).schedule(target, 0, data, predecessor, salt, delay);
+  await tx.wait();
+  console.log(`✅ Scheduled ${id} (tx: ${tx.hash})`);
+  console.log(`   Executable after ${Number(delay) / TIME_UNITS.HOUR} hours`);
+
+  return id;
+}
+
+/**
+ * Propose the timelock as token owner and schedule the calls completing the handoff
+ *
+ * acceptOwnership hands every owner role to the timelock, so it is followed by operations granting
+ * the instant roles to the pauser and revoking them from the timelock. Each operation has the
+ * previous one as predecessor; execute them in the returned order once the delay has passed. A
+ * pauser other than the owner gets the instant roles right away as well.
+ * @param pauser - Guardian or multisig keeping PAUSER_ROLE and EMERGENCY_ROLE
+ * @returns The operation ids, in execution order
+ */
+export async function scheduleHandoff(
+  token: EpicStarterToken,
+  timelock: EpicStarterTimelock,
+  signer: SignerWithAddress,
+  pauser: string,
+): Promise<string[]> {
+  if (!isValidAddress(pauser) || pauser === ethers.ZeroAddress) {
+    throw new Error(`Invalid pauser address: ${pauser}`);
+  }
+
+  const tokenAddress = await token.getAddress();
+  const timelockAddress = await timelock.getAddress();
+  if (ethers.getAddress(pauser) === timelockAddress) {
+    throw new Error("The pauser must not be the timelock");
+  }
+
+  await proposeOwnership(token, signer, timelockAddress);
+
+  const calls = [token.interface.encodeFunctionData("acceptOwnership")];
+  for (const role of INSTANT_ROLES) {
+    const roleId = await token[role]();
+    if (ethers.getAddress(pauser) !== signer.address && !await token.hasRole(roleId, pauser)) {
+      const tx = await token.connect(signer).grantRole(roleId, pauser);
+      await tx.wait();
+      console.log(`✅ Granted ${role} to ${pauser} (tx: ${tx.hash})`);
+    }
+    calls.push(token.interface.encodeFunctionData("grantRole", [roleId, pauser]));
+    calls.push(token.interface.encodeFunctionData("revokeRole", [roleId, timelockAddress]));
+  }
+
+  const ids: string[] = [];
+  for (const data of calls) {
+    ids.push(await scheduleOperation(timelock, signer, tokenAddress, data, { predecessor: ids[ids.length - 1] }));
+  }
+
+  return ids;
+}
+
+/**
+ * Operations scheduled in a block range with their current state, oldest first
+ * Operations scheduled as a batch are listed by their first call
+ */
+export async function fetchOperations(
+  timelock: EpicStarterTimelock,
+  targets: CallTargets,
+  fromBlock: number,
+  toBlock: number,
+): Promise<TimelockOperation[]> {
+  const timelockAddress = await timelock.getAddress();
+  const topics = [[
+    timelock.interface.getEvent("CallScheduled").topicHash,
+    timelock.interface.getEvent("CallSalt").topicHash,
+  ]];
+  const operations: TimelockOperation[] = [];
+  const salts = new Map<string, string>();
+
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += DEFAULT_CHUNK_SIZE) {
+    const chunkEnd = Math.min(chunkStart + DEFAULT_CHUNK_SIZE - 1, toBlock);
+    const filter = { address: timelockAddress, topics, fromBlock: chunkStart, toBlock: chunkEnd };
+    const logs = await ethers.provider.getLogs(filter);
+
+    for (const event of EventHelpers.decodeLogs(logs, timelock.interface, undefined, timelockAddress)) {
+      if (event.name === "CallSalt") {
+        salts.set(event.args.id, event.args.salt);
+        continue;
+      }
+      if (event.args.index !== 0n) continue;
+
+      operations.push({
+        id: event.args.id,
+        target: event.args.target,
+        value: event.args.value,
+        data: event.args.data,
+        predecessor: event.args.predecessor,
+        salt: ethers.ZeroHash,
+        delay: event.args.delay,
+        blockNumber: event.log.blockNumber,
+        transactionHash: event.log.transactionHash,
+        readyAt: 0,
+        state: "pending",
+        call: decodeCall(event.args.target, event.args.data, targets),
+      });
+    }
+  }
+
+  for (const operation of operations) {
+    operation.salt = salts.get(operation.id) ?? ethers.ZeroHash;
+
+    const timestamp = await timelock.getTimestamp(operation.id);
+    if (timestamp === 0n) {
+      operation.state = "cancelled";
+    } else if (await timelock.isOperationDone(operation.id)) {
+      operation.state = "done";
+    } else {
+      operation.readyAt = Number(timestamp);
+      operation.state = await timelock.isOperationReady(operation.id) ? "ready" : "pending";
+    }
+  }
+
+  return operations;
+}
+
+function findOperation(operations: TimelockOperation[], id: string): TimelockOperation {
+  const operation = operations.find((candidate) => candidate.id === id);
+  if (!operation) throw new Error(`Operation ${id} not found in the scanned blocks`);
+  return operation;
+}
+
+/**
+ * Execute a ready operation
+ */
+export async function executeOperation(
+  timelock: EpicStarterTimelock,
+  signer: SignerWithAddress,
+  operations: TimelockOperation[],
+  id: string,
+): Promise<string> {
+  const operation = findOperation(operations, id);
+  if (operation.state !== "ready") {
+    const readyAt = operation.readyAt > 0 ? ` (ready at ${formatTimestamp(operation.readyAt)})` : "";
+    throw new Error(`Operation ${id} is ${operation.state}${readyAt}`);
+  }
+
+  const tx = await timelock.connect(signer).execute(
+    operation.target,
+    operation.value,
+    operation.data,
+    operation.predecessor,
+    operation.salt,
+  );
+  await tx.wait();
+  console.log(`✅ Executed ${operation.call} (tx: ${tx.hash})`);
+
+  return tx.hash;
+}
+
+/**
+ * Cancel a pending or ready operation, signed by the guardian or a proposer
+ */
+export async function cancelOperation(
+  timelock: EpicStarterTimelock,
+  signer: SignerWithAddress,
+  id: string,
+): Promise<string> {
+  if (!await timelock.isOperationPending(id)) {
+    throw new Error(`Operation ${id} is not pending`);
+  }
+  if (!await timelock.hasRole(await timelock.CANCELLER_ROLE(), signer.address)) {
+    throw new Error(`Signer ${signer.address} is neither the guardian nor a proposer`);
+  }
+
+  const tx = await timelock.connect(signer).cancel(id);
+  await tx.wait();
+  console.log(`✅ Cancelled ${id} (tx: ${tx.hash})`);
+
+  return tx.hash;
+}
+
+/**
+ * Print operations with their decoded call
+ */
+export function printOperations(operations: TimelockOperation[], minDelay: bigint): void {
+  console.log("\n⏱️  Timelock Operations:");
+  console.log("═".repeat(50));
+  console.log(`Minimum delay: ${Number(minDelay) / TIME_UNITS.HOUR} hours`);
+
+  if (operations.length === 0) {
+    console.log("No operations");
+  }
+
+  for (const operation of operations) {
+    console.log("─".repeat(40));
+    console.log(`${operation.id} [${operation.state}]`);
+    console.log(`  Call: ${operation.call}`);
+    if (operation.value > 0n) console.log(`  Value: ${ethers.formatEther(operation.value)} BNB`);
+    if (operation.readyAt > 0) console.log(`  Ready at: ${formatTimestamp(operation.readyAt)}`);
+    console.log(`  Scheduled in block ${operation.blockNumber} (tx: ${operation.transactionHash})`);
+  }
+  console.log("═".repeat(50));
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/timelock.ts --network <network>");
+  console.log("Commands:");
+  console.log("  deploy --guardian <address> [--delay <seconds>] [--proposer <a,b>] [--executor <a,b>]");
+  console.log("  handoff [--pauser <address>]             Propose the timelock as owner and schedule acceptance");
+  console.log("  schedule <function> [args...] [--target token|timelock] [--salt <text>] [--delay <seconds>]");
+  console.log("  list [--from-block <n>] [--all]          Pending operations with decoded calldata");
+  console.log("  execute --id <operationId>               Execute a ready operation");
+  console.log("  cancel --id <operationId>                Cancel a pending operation (guardian or proposer)");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+  const [signer] = await ethers.getSigners();
+
+  switch (args.command) {
+    case "deploy": {
+      const splitAccounts = (value: string) => value.split(",").filter((account) => account.length > 0);
+      await deployTimelock(
+        Number(getStringOption(args, "delay", String(DEFAULT_TIMELOCK_DELAY))),
+        splitAccounts(getStringOption(args, "proposer", signer.address)),
+        splitAccounts(getStringOption(args, "executor", signer.address)),
+        getStringOption(args, "guardian"),
+      );
+      break;
+    }
+    case "handoff": {
+      const token = await getTokenForCurrentNetwork();
+      const timelock = await getTimelockForCurrentNetwork();
+      const ids = await scheduleHandoff(token, timelock, signer, getStringOption(args, "pauser", signer.address));
+      console.log("   Run `execute` for each operation, in this order, once the delay has passed:");
+      ids.forEach((id) => console.log(`   ${id}`));
+      break;
+    }
+    case "schedule": {
+      const [functionName, ...values] = args.positional;
+      if (!functionName) throw new Error("Missing function name");
+
+      const token = await getTokenForCurrentNetwork();
+      const timelock = await getTimelockForCurrentNetwork();
+      const targets = await getCallTargets(token, timelock);
+      const target = targets[getStringOption(args, "target", "token")];
+      if (!target) throw new Error(`Unknown target: ${getStringOption(args, "target")}`);
+
+      const data = encodeCall(target.contractInterface, functionName, values);
+      console.log(`📝 ${decodeCall(target.address, data, targets)}`);
+      await scheduleOperation(timelock, signer, target.address, data, {
+        delay: typeof args.options.delay === "string" ? BigInt(args.options.delay) : undefined,
+        salt: typeof args.options.salt === "string" ? ethers.id(args.options.salt) : undefined,
+      });
+      break;
+    }
+    case "list":
+    case "execute":
+    case "cancel": {
+      const networkConfig = await getCurrentNetworkConfig();
+      const deploymentInfo = loadAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, TIMELOCK_DEPLOYMENT);
+      const token = await getTokenForCurrentNetwork();
+      const timelock = await getTimelockForCurrentNetwork();
+
+      if (args.command === "cancel") {
+        await cancelOperation(timelock, signer, getStringOption(args, "id"));
+        break;
+      }
+
+      const fromBlock = Number(getStringOption(args, "from-block", String(deploymentInfo.blockNumber ?? 0)));
+      const operations = await fetchOperations(
+        timelock,
+        await getCallTargets(token, timelock),
+        fromBlock,
+        await ethers.provider.getBlockNumber(),
+      );
+
+      if (args.command === "execute") {
+        await executeOperation(timelock, signer, operations, getStringOption(args, "id"));
+        break;
+      }
+
+      const shown = args.options.all === true
+        ? operations
+        : operations.filter((operation) => operation.state === "pending" || operation.state === "ready");
+      printOperations(shown, await timelock.getMinDelay());
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Timelock command failed:", error);
+      process.exit(1);
+    });
+}
@@ -269,8 +269,7 @@ export async function verifyContractDeployment(contract: EpicStarterToken, confi
     }
 
     // Check roles
-    const DEFAULT_ADMIN_ROLE = "0x0000000000000000000000000000000000000000000000000000000000000000";
-    const hasAdminRole = await contract.hasRole(DEFAULT_ADMIN_ROLE, config.initialOwner);
+    const hasAdminRole = await contract.hasRole(await contract.DEFAULT_ADMIN_ROLE(), config.initialOwner);
 
     if (!hasAdminRole) {
       throw new Error("Initial owner does not have admin role");
@@ -343,10 +342,11 @@ export async function saveDeploymentInfo(
       paused: tokenInfo.paused,
     },
     roles: {
-      DEFAULT_ADMIN_ROLE: "0x0000000000000000000000000000000000000000000000000000000000000000",
+      DEFAULT_ADMIN_ROLE: await contract.DEFAULT_ADMIN_ROLE(),
       PAUSER_ROLE: await contract.PAUSER_ROLE(),
       BURNER_ROLE: await contract.BURNER_ROLE(),
       EMERGENCY_ROLE: await contract.EMERGENCY_ROLE(),
+      FREEZER_ROLE: await contract.FREEZER_ROLE(),
     },
     deploymentDate: new Date().toISOString(),
   };
@@ -394,6 +394,58 @@ export async function getContractFromDeployment(network: string, chainId?: numbe
   return contract;
 }
 
+/**
+ * Get the token deployed on the current network, as recorded by saveDeploymentInfo
+ */
+export async function getTokenForCurrentNetwork(): Promise<EpicStarterToken> {
+  const networkConfig = await getCurrentNetworkConfig();
+  return getContractFromDeployment(networkConfig.name, networkConfig.chainId);
+}
+
+/**
+ * Save deployment information of an auxiliary contract (presale, vesting, ...) next to the token deployment
+ */
+export function saveAuxiliaryDeployment(network: string, chainId: number, name: string, data: object): string {
+  const deploymentsDir = path.join(__dirname, "..", "deployments");
+
+  if (!fs.existsSync(deploymentsDir)) {
+    fs.mkdirSync(deploymentsDir, { recursive: true });
+  }
+
+  const filepath = path.join(deploymentsDir, `${network}_${chainId}_${name}.json`);
+  fs.writeFileSync(filepath, JSON.stringify({ ...data, deploymentDate: new Date().toISOString() }, null, 2));
+
+  console.log(`✅ ${name} deployment info saved to: ${filepath}`);
+  return filepath;
+}
+
+/**
+ * Fields recorded for an auxiliary contract by saveAuxiliaryDeployment
+ */
+export interface AuxiliaryDeployment {
+  contractAddress: string;
+  blockNumber?: number;
+  deploymentDate: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Load deployment information of an auxiliary contract
+ */
+export function loadAuxiliaryDeployment<T extends object = AuxiliaryDeployment>(
+  network: string,
+  chainId: number,
+  name: string,
+): T {
+  const filepath = path.join(__dirname, "..", "deployments", `${network}_${chainId}_${name}.json`);
+
+  if (!fs.existsSync(filepath)) {
+    throw new Error(`Deployment file not found: ${filepath}`);
+  }
+
+  return JSON.parse(fs.readFileSync(filepath, "utf8")) as T;
+}
+
 /**
  * Interactive deployment with prompts
  */
@@ -470,38 +522,3 @@ export async function quickDeploy(initialOwner?: string): Promise<EpicStarterTok
 
   return contract;
 }
-
-/**
- * Deployment status check
- */
-export async function checkDeploymentStatus(contractAddress: string): Promise<void> {
-  console.log(`🔍 Checking deployment status for: ${contractAddress}`);
-
-  try {
-    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
-    const contract = EpicStarterTokenFactory.attach(contractAddress) as EpicStarterToken;
-
-    const tokenInfo = await contract.getTokenInfo();
-    const contractStatus = await contract.getContractStatus();
-
-    console.log("\n📊 Contract Status:");
-    console.log("═".repeat(50));
-    console.log(`Address: ${contractAddress}`);
-    console.log(`Name: ${tokenInfo.name}`);
-    console.log(`Symbol: ${tokenInfo.symbol}`);
-    console.log(`Total Supply: ${ethers.formatEther(tokenInfo.totalSupply)} EPCS`);
-    console.log(`Owner: ${tokenInfo.owner}`);
-    console.log(`Paused: ${tokenInfo.paused}`);
-    console.log(`Initialized: ${contractStatus.initialized}`);
-    console.log(`Emergency Paused: ${contractStatus.emergencyPaused}`);
-    console.log(`Total Burned: ${ethers.formatEther(tokenInfo.totalBurned)} EPCS`);
-    console.log(`Circulating Supply: ${ethers.formatEther(tokenInfo.circulatingSupply)} EPCS`);
-    console.log("═".repeat(50));
-
-    console.log("✅ Contract is operational");
-
-  } catch (error) {
-    console.error("❌ Failed to check contract status:", error);
-    throw error;
-  }
-}
@@ -0,0 +1,357 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import { EpicStarterToken, EpicStarterVesting } from "../typechain-types";
+import {
+  getCurrentNetworkConfig,
+  getTokenForCurrentNetwork,
+  loadAuxiliaryDeployment,
+  saveAuxiliaryDeployment,
+} from "./utils";
+import { parseTimestamp } from "./presale";
+import {
+  TIME_UNITS,
+  formatTimestamp,
+  formatTokenAmount,
+  getStringOption,
+  isValidAddress,
+  parseScriptArgs,
+  parseTokenAmount,
+} from "../utils/helpers";
+
+/**
+ * Vesting operator CLI
+ *
+ * Usage (arguments through SCRIPT_ARGS because `hardhat run` does not forward them):
+ *   SCRIPT_ARGS="deploy" npx hardhat run scripts/vesting.ts --network bscTestnet
+ *   SCRIPT_ARGS="create --file scripts/examples/vesting-allocations.json" ...
+ *   SCRIPT_ARGS="status [--beneficiary 0x...]" ...
+ *   SCRIPT_ARGS="release --id 0" / "revoke --id 0" ...
+ *
+ * Allocation file format (amounts in EPCS, times as unix seconds or ISO dates):
+ *   { "schedules": [
+ *     { "label": "Team", "beneficiary": "0x...", "amount": "10000000", "type": "linear",
+ *       "start": "2025-01-01T00:00:00Z", "cliffMonths": 12, "durationMonths": 36, "revocable": true },
+ *     { "label": "Presale", "beneficiary": "0x...", "amount": "2500000", "type": "table",
+ *       "start": "2025-01-01T00:00:00Z", "unlockTableBps": [2500, 2500, 2500, 2500], "revocable": false }
+ *   ] }
+ */
+
+const VESTING_DEPLOYMENT = "vesting";
+const SCHEDULE_KIND = ["Linear", "MonthlyTable"];
+const BASIS_POINTS = 10000;
+
+export interface VestingAllocation {
+  label: string;
+  beneficiary: string;
+  amount: bigint;
+  type: "linear" | "table";
+  start: number;
+  cliff: number;
+  duration: number;
+  unlockTableBps: number[];
+  revocable: boolean;
+}
+
+/**
+ * One allocation entry as written in the JSON file, before validation
+ */
+export interface RawAllocation {
+  label?: string;
+  beneficiary?: string;
+  amount?: string | number;
+  type?: string;
+  start?: string | number;
+  cliffMonths?: number;
+  durationMonths?: number;
+  unlockTableBps?: number[];
+  revocable?: boolean;
+}
+
+/**
+ * Validate and normalize one allocation entry from the JSON file
+ */
+export function parseAllocation(value: unknown, index: number): VestingAllocation {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Allocation #${index}: expected an object`);
+  }
+
+  const entry = value as RawAllocation;
+  const label = typeof entry.label === "string" && entry.label !== "" ? entry.label : `#${index}`;
+
+  if (typeof entry.beneficiary !== "string" || !isValidAddress(entry.beneficiary)) {
+    throw new Error(`Allocation ${label}: invalid beneficiary ${entry.beneficiary}`);
+  }
+
+  const amount = parseTokenAmount(String(entry.amount));
+  if (amount <= 0n) {
+    throw new Error(`Allocation ${label}: amount must be positive`);
+  }
+
+  if (entry.start === undefined) {
+    throw new Error(`Allocation ${label}: missing start`);
+  }
+  const base = {
+    label,
+    beneficiary: entry.beneficiary,
+    amount,
+    start: parseTimestamp(String(entry.start)),
+    revocable: Boolean(entry.revocable),
+  };
+
+  if (entry.type === "linear") {
+    const cliff = Number(entry.cliffMonths ?? 0) * TIME_UNITS.MONTH;
+    const duration = Number(entry.durationMonths) * TIME_UNITS.MONTH;
+
+    if (!(duration > 0) || cliff > duration) {
+      throw new Error(`Allocation ${label}: cliffMonths must not exceed a positive durationMonths`);
+    }
+
+    return { ...base, type: "linear", cliff, duration, unlockTableBps: [] };
+  }
+
+  if (entry.type === "table") {
+    const unlockTableBps: unknown[] = Array.isArray(entry.unlockTableBps) ? entry.unlockTableBps : [];
+    if (unlockTableBps.length === 0 || unlockTableBps.some((bps) => !Number.isInteger(bps) || Number(bps) < 0)) {
+      throw new Error(`Allocation ${label}: unlockTableBps must be a list of non-negative integers`);
+    }
+
+    const tableBps = unlockTableBps as number[];
+    const totalBps = tableBps.reduce((total, bps) => total + bps, 0);
+    if (totalBps !== BASIS_POINTS) {
+      throw new Error(`Allocation ${label}: unlockTableBps sums to ${totalBps}, expected ${BASIS_POINTS}`);
+    }
+
+    const duration = (tableBps.length - 1) * TIME_UNITS.MONTH;
+    return { ...base, type: "table", cliff: 0, duration, unlockTableBps: tableBps };
+  }
+
+  throw new Error(`Allocation ${label}: unknown type ${entry.type} (expected "linear" or "table")`);
+}
+
+/**
+ * Load and validate a JSON allocation file
+ */
+export function loadVestingAllocations(filepath: string): VestingAllocation[] {
+  if (!fs.existsSync(filepath)) {
+    throw new Error(`Allocation file not found: ${filepath}`);
+  }
+
+  const data: unknown = JSON.parse(fs.readFileSync(filepath, "utf8"));
+  const entries = Array.isArray(data) ? data : (data as { schedules?: unknown } | null)?.schedules;
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("Allocation file must contain a non-empty \"schedules\" list");
+  }
+
+  return entries.map(parseAllocation);
+}
+
+/**
+ * Get the vesting contract recorded for the current network
+ */
+export async function getVestingForCurrentNetwork(): Promise<EpicStarterVesting> {
+  const networkConfig = await getCurrentNetworkConfig();
+  const deploymentInfo = loadAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, VESTING_DEPLOYMENT);
+
+  const VestingFactory = await ethers.getContractFactory("EpicStarterVesting");
+  return VestingFactory.attach(deploymentInfo.contractAddress) as EpicStarterVesting;
+}
+
+/**
+ * Deploy the vesting contract against the token recorded for the current network
+ */
+export async function deployVesting(): Promise<EpicStarterVesting> {
+  const [deployer] = await ethers.getSigners();
+  const networkConfig = await getCurrentNetworkConfig();
+  const token = await getTokenForCurrentNetwork();
+  const tokenAddress = await token.getAddress();
+  const vestingOwner = process.env.VESTING_OWNER || deployer.address;
+
+  console.log("🚀 Deploying EpicStarterVesting...");
+  console.log("═".repeat(50));
+  console.log(`Network: ${networkConfig.name} (Chain ID: ${networkConfig.chainId})`);
+  console.log(`Token: ${tokenAddress}`);
+  console.log(`Owner: ${vestingOwner}`);
+  console.log("═".repeat(50));
+
+  const VestingFactory = await ethers.getContractFactory("EpicStarterVesting");
+  const vesting = await VestingFactory.deploy(tokenAddress, vestingOwner) as EpicStarterVesting;
+  await vesting.waitForDeployment();
+
+  const contractAddress = await vesting.getAddress();
+  console.log(`✅ EpicStarterVesting deployed to: ${contractAddress}`);
+
+  saveAuxiliaryDeployment(networkConfig.name, networkConfig.chainId, VESTING_DEPLOYMENT, {
+    contractAddress,
+    tokenAddress,
+    owner: vestingOwner,
+    deploymentTx: vesting.deploymentTransaction()?.hash,
+    network: networkConfig.name,
+    chainId: networkConfig.chainId,
+  });
+
+  return vesting;
+}
+
+/**
+ * Fund the vesting contract with one batchTransfer of the allocation total from the token owner
+ * and create every schedule
+ */
+export async function createSchedules(
+  token: EpicStarterToken,
+  vesting: EpicStarterVesting,
+  allocations: VestingAllocation[],
+): Promise<bigint[]> {
+  const [signer] = await ethers.getSigners();
+  const tokenOwner = await token.owner();
+
+  if (tokenOwner.toLowerCase() !== signer.address.toLowerCase()) {
+    throw new Error(`Signer ${signer.address} is not the token owner (${tokenOwner})`);
+  }
+
+  const vestingAddress = await vesting.getAddress();
+  const total = allocations.reduce((sum, allocation) => sum + allocation.amount, 0n);
+
+  console.log(`💸 Funding vesting with ${formatTokenAmount(total)} EPCS for ${allocations.length} schedules...`);
+  const fundTx = await token.connect(signer).batchTransfer([vestingAddress], [total]);
+  await fundTx.wait();
+  console.log(`✅ Funded (tx: ${fundTx.hash})`);
+
+  const scheduleIds: bigint[] = [];
+
+  for (const allocation of allocations) {
+    const tx = allocation.type === "linear"
+      ? await vesting.connect(signer).createLinearSchedule(
+        allocation.beneficiary,
+        allocation.amount,
+        allocation.start,
+        allocation.cliff,
+        allocation.duration,
+        allocation.revocable,
+      )
+      : await vesting.connect(signer).createTableSchedule(
+        allocation.beneficiary,
+        allocation.amount,
+        allocation.start,
+        allocation.unlockTableBps,
+        allocation.revocable,
+      );
+    await tx.wait();
+
+    const scheduleId = (await vesting.scheduleCount()) - 1n;
+    scheduleIds.push(scheduleId);
+
+    console.log(`✅ ${allocation.label}: schedule ${scheduleId} for ${formatTokenAmount(allocation.amount)} EPCS`);
+  }
+
+  return scheduleIds;
+}
+
+/**
+ * Print releasable and released amounts per beneficiary
+ */
+export async function printVestingStatus(vesting: EpicStarterVesting, beneficiary?: string): Promise<void> {
+  const scheduleCount = await vesting.scheduleCount();
+  const scheduleIds = beneficiary
+    ? await vesting.schedulesOf(beneficiary)
+    : Array.from({ length: Number(scheduleCount) }, (_, index) => BigInt(index));
+
+  console.log("\n📊 Vesting Status:");
+  console.log("═".repeat(50));
+  console.log(`Address: ${await vesting.getAddress()}`);
+  console.log(`Owner: ${await vesting.owner()}`);
+  console.log(`Schedules: ${scheduleCount}`);
+  console.log(`Allocated: ${formatTokenAmount(await vesting.totalAllocated())} EPCS`);
+  console.log(`Unallocated: ${formatTokenAmount(await vesting.unallocatedBalance())} EPCS`);
+  console.log("═".repeat(50));
+
+  const totals = new Map<string, { released: bigint; releasable: bigint; total: bigint }>();
+
+  for (const scheduleId of scheduleIds) {
+    const schedule = await vesting.getSchedule(scheduleId);
+    const releasable = await vesting.releasableAmount(scheduleId);
+    const flags = [SCHEDULE_KIND[Number(schedule.kind)], schedule.revocable ? "revocable" : "irrevocable"];
+    if (schedule.revoked) flags.push("revoked");
+
+    console.log(`\nSchedule ${scheduleId} [${flags.join(", ")}]`);
+    console.log("─".repeat(40));
+    console.log(`Beneficiary: ${schedule.beneficiary}`);
+    console.log(`Total: ${formatTokenAmount(schedule.totalAmount)} EPCS`);
+    console.log(`Released: ${formatTokenAmount(schedule.released)} EPCS`);
+    console.log(`Releasable: ${formatTokenAmount(releasable)} EPCS`);
+    console.log(`Start: ${formatTimestamp(Number(schedule.start))}`);
+    console.log(`Fully vested: ${formatTimestamp(Number(schedule.start + schedule.duration))}`);
+
+    const current = totals.get(schedule.beneficiary) ?? { released: 0n, releasable: 0n, total: 0n };
+    totals.set(schedule.beneficiary, {
+      released: current.released + schedule.released,
+      releasable: current.releasable + releasable,
+      total: current.total + schedule.totalAmount,
+    });
+  }
+
+  console.log("\n👥 Per Beneficiary:");
+  console.log("═".repeat(50));
+  for (const [account, amounts] of totals) {
+    console.log(`${account}`);
+    console.log(`  Released: ${formatTokenAmount(amounts.released)} / ${formatTokenAmount(amounts.total)} EPCS`);
+    console.log(`  Releasable: ${formatTokenAmount(amounts.releasable)} EPCS`);
+  }
+}
+
+function printUsage(): void {
+  console.log("Usage: SCRIPT_ARGS=\"<command> [options]\" npx hardhat run scripts/vesting.ts --network <network>");
+  console.log("Commands:");
+  console.log("  deploy                                   Deploy the vesting contract for the recorded token");
+  console.log("  create --file <allocations.json>         Fund with batchTransfer and create the schedules");
+  console.log("  status [--beneficiary <address>]         Print released and releasable amounts");
+  console.log("  release --id <scheduleId>                Release vested tokens to the beneficiary");
+  console.log("  revoke --id <scheduleId>                 Revoke a revocable schedule");
+}
+
+// Main execution function
+async function main() {
+  const args = parseScriptArgs();
+
+  switch (args.command) {
+    case "deploy":
+      await deployVesting();
+      break;
+    case "create": {
+      const allocations = loadVestingAllocations(getStringOption(args, "file"));
+      await createSchedules(await getTokenForCurrentNetwork(), await getVestingForCurrentNetwork(), allocations);
+      break;
+    }
+    case "status":
+      await printVestingStatus(
+        await getVestingForCurrentNetwork(),
+        args.options.beneficiary ? getStringOption(args, "beneficiary") : undefined,
+      );
+      break;
+    case "release": {
+      const vesting = await getVestingForCurrentNetwork();
+      const tx = await vesting.release(getStringOption(args, "id"));
+      await tx.wait();
+      console.log(`✅ Schedule ${getStringOption(args, "id")} released (tx: ${tx.hash})`);
+      break;
+    }
+    case "revoke": {
+      const vesting = await getVestingForCurrentNetwork();
+      const tx = await vesting.revoke(getStringOption(args, "id"));
+      await tx.wait();
+      console.log(`✅ Schedule ${getStringOption(args, "id")} revoked (tx: ${tx.hash})`);
+      break;
+    }
+    default:
+      printUsage();
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Vesting command failed:", error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,219 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { EpicStarterToken } from "../typechain-types";
+import {
+  DistributionState,
+  buildReceipts,
+  createDistributionState,
+  runDistribution,
+  validateDistributionRows,
+} from "../scripts/distribute";
+import {
+  collectTransfersFromState,
+  collectTransfersInRange,
+  reconcileDistribution,
+} from "../scripts/distribution-reconcile";
+import { AllocationRow, EventHelpers, parseAllocationCsv } from "../utils/helpers";
+
+describe("EpicStarterDistribution", function () {
+  // Fixtures
+  async function deployDistributionFixture() {
+    const [owner, ...others] = await ethers.getSigners();
+    const recipients = others.slice(0, 5);
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+
+    const content = [
+      "address,amount",
+      ...recipients.map((recipient, index) => `${recipient.address},${(index + 1) * 100}`),
+    ].join("\n");
+    const rows = parseAllocationCsv(content);
+
+    const tokenAddress = await token.getAddress();
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const createState = (batchSize: number): DistributionState =>
+      createDistributionState(content, rows, tokenAddress, chainId, owner.address, batchSize);
+
+    return { token, owner, recipients, rows, createState };
+  }
+
+  async function expectPaidOnce(token: EpicStarterToken, rows: AllocationRow[]) {
+    for (const row of rows) {
+      expect(await token.balanceOf(row.address)).to.equal(row.amount);
+    }
+  }
+
+  describe("Validation", function () {
+    it("Should report zero addresses, zero amounts and duplicates", async function () {
+      const { recipients } = await loadFixture(deployDistributionFixture);
+
+      const rows = parseAllocationCsv([
+        `${recipients[0].address},10`,
+        `${ethers.ZeroAddress},10`,
+        `${recipients[1].address},0`,
+        `${recipients[0].address.toLowerCase()},5`,
+      ].join("\n"));
+
+      expect(validateDistributionRows(rows)).to.deep.equal([
+        "Line 2: zero address",
+        "Line 3: zero amount",
+        `Line 4: duplicate of line 1 (${recipients[0].address})`,
+      ]);
+      expect(validateDistributionRows([])).to.deep.equal(["No rows to distribute"]);
+    });
+
+    it("Should reject addresses with a bad checksum", async function () {
+      const { recipients } = await loadFixture(deployDistributionFixture);
+
+      const address = recipients[0].address;
+      const flipped = address.slice(0, 2) + address.slice(2).replace(/[a-f]/, (c) => c.toUpperCase());
+
+      expect(() => parseAllocationCsv(`${flipped},10`)).to.throw("Line 1: invalid address");
+    });
+  });
+
+  describe("Run", function () {
+    it("Should pay every row in batchTransfer chunks and map rows to receipts", async function () {
+      const { token, owner, rows, createState } = await loadFixture(deployDistributionFixture);
+
+      const state = await runDistribution(token, owner, rows, createState(2));
+
+      expect(state.chunks).to.have.length(3);
+      expect(state.chunks.every((chunk) => chunk.status === "confirmed")).to.be.true;
+      await expectPaidOnce(token, rows);
+
+      const receipts = buildReceipts(rows, state);
+      expect(receipts.map((receipt) => receipt.line)).to.deep.equal([2, 3, 4, 5, 6]);
+      expect(receipts[0].txHash).to.equal(receipts[1].txHash);
+      expect(receipts[2].txHash).to.not.equal(receipts[1].txHash);
+    });
+
+    it("Should split chunks whose gas estimate exceeds the ceiling", async function () {
+      const { token, owner, rows, createState } = await loadFixture(deployDistributionFixture);
+
+      const state = await runDistribution(token, owner, rows, createState(5), { maxGas: 1n });
+
+      expect(state.chunks.map((chunk) => chunk.end - chunk.start)).to.deep.equal([1, 1, 1, 1, 1]);
+      await expectPaidOnce(token, rows);
+    });
+
+    it("Should refuse to run on another chain, for another sender or without enough balance", async function () {
+      const { token, owner, recipients, rows, createState } = await loadFixture(deployDistributionFixture);
+
+      await expect(runDistribution(token, owner, rows, { ...createState(2), chainId: 1 }))
+        .to.be.rejectedWith("State was created on chain 1");
+      await token.connect(owner).transfer(recipients[0].address, await token.balanceOf(owner.address));
+
+      await expect(runDistribution(token, recipients[0], rows, createState(2))).to.be.rejectedWith("State was created");
+      await expect(runDistribution(token, owner, rows, createState(2))).to.be.rejectedWith("remain to be paid");
+    });
+  });
+
+  describe("Resume", function () {
+    it("Should not pay again a chunk that was mined before the crash", async function () {
+      const { token, owner, rows, createState } = await loadFixture(deployDistributionFixture);
+
+      const state = await runDistribution(token, owner, rows, createState(2));
+
+      // Crash after broadcasting the last chunk, before its confirmation was recorded
+      const last = state.chunks[2];
+      last.status = "sent";
+      delete last.blockNumber;
+
+      await runDistribution(token, owner, rows, state);
+
+      expect(last.status).to.equal("confirmed");
+      await expectPaidOnce(token, rows);
+    });
+
+    it("Should re-send with the recorded nonce when the broadcast never happened", async function () {
+      const { token, owner, rows, createState } = await loadFixture(deployDistributionFixture);
+
+      // Crash after recording the nonce, before the transaction reached the node
+      const state = createState(5);
+      state.chunks[0].status = "sent";
+      state.chunks[0].nonce = await owner.getNonce("pending");
+
+      await runDistribution(token, owner, rows, state);
+
+      expect(state.chunks[0].status).to.equal("confirmed");
+      await expectPaidOnce(token, rows);
+    });
+
+    it("Should stop when the recorded nonce was used by another transaction", async function () {
+      const { token, owner, recipients, rows, createState } = await loadFixture(deployDistributionFixture);
+
+      const state = createState(5);
+      state.chunks[0].status = "sent";
+      state.chunks[0].nonce = await owner.getNonce("pending");
+      await token.connect(owner).transfer(recipients[0].address, 1n);
+
+      await expect(runDistribution(token, owner, rows, state)).to.be.rejectedWith("reconcile the recipients");
+    });
+  });
+
+  describe("Reconciliation", function () {
+    it("Should decode batchTransfer receipts against the token interface", async function () {
+      const { token, owner, rows } = await loadFixture(deployDistributionFixture);
+
+      const tx = await token.connect(owner).batchTransfer(
+        rows.map((row) => row.address),
+        rows.map((row) => row.amount),
+      );
+      const receipt = await tx.wait();
+
+      const transfers = EventHelpers.getEventsFromReceipt(receipt, token.interface, "Transfer");
+      expect(transfers.map((event) => event.args.to)).to.deep.equal(rows.map((row) => row.address));
+      expect(EventHelpers.parseEventArgs(transfers[0]).value).to.equal(rows[0].amount);
+      expect(EventHelpers.getEventsFromReceipt(receipt, token.interface, "Transfer", owner.address)).to.be.empty;
+    });
+
+    it("Should match every row of a completed distribution from its state", async function () {
+      const { token, owner, rows, createState } = await loadFixture(deployDistributionFixture);
+
+      const state = await runDistribution(token, owner, rows, createState(2));
+      const report = reconcileDistribution(rows, await collectTransfersFromState(token, state), owner.address);
+
+      expect(report.balanced).to.be.true;
+      expect(report.counts.matched).to.equal(rows.length);
+      expect(report.paidTotal).to.equal(report.expectedTotal);
+    });
+
+    it("Should report missing, underpaid, overpaid and unexpected transfers in a block range", async function () {
+      const { token, owner, recipients, rows } = await loadFixture(deployDistributionFixture);
+      const [, , , , , , stranger] = await ethers.getSigners();
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+      await token.connect(owner).batchTransfer(
+        [rows[0].address, rows[1].address, rows[2].address, stranger.address],
+        [rows[0].amount, rows[1].amount - 1n, rows[2].amount + 1n, 5n],
+      );
+      await token.connect(owner).transfer(rows[3].address, rows[3].amount);
+      // Transfers from other accounts and burns are not part of the payout
+      await token.connect(recipients[0]).transfer(rows[4].address, 1n);
+      await token.connect(owner).burn(1n);
+
+      const transfers = await collectTransfersInRange(
+        token,
+        owner.address,
+        fromBlock,
+        await ethers.provider.getBlockNumber(),
+      );
+      const report = reconcileDistribution(rows, transfers, owner.address);
+
+      expect(report.balanced).to.be.false;
+      expect(report.transfers).to.equal(5);
+      expect(report.recipients.map((recipient) => recipient.status)).to.deep.equal([
+        "matched",
+        "underpaid",
+        "overpaid",
+        "matched",
+        "missing",
+        "unexpected",
+      ]);
+      expect(report.recipients[5]).to.include({ address: stranger.address, expected: 0n, paid: 5n });
+    });
+  });
+});
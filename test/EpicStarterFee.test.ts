@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { EpicStarterToken } from "../typechain-types";
+import { TOTAL_SUPPLY, formatFeeConfig } from "../utils/helpers";
+
+describe("EpicStarterFee", function () {
+  const AMOUNT = ethers.parseEther("100");
+
+  // Fixtures
+  async function deployFeeFixture() {
+    const [owner, treasury, presale, addr1, addr2] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("10000"));
+    await token.connect(owner).transfer(presale.address, ethers.parseEther("10000"));
+
+    return { token, owner, treasury, presale, addr1, addr2 };
+  }
+
+  async function expectSupplyConsistent(token: EpicStarterToken) {
+    expect((await token.totalSupply()) + (await token.totalBurned())).to.equal(TOTAL_SUPPLY);
+  }
+
+  describe("Fee Configuration", function () {
+    it("Should charge nothing by default and cap the fee", async function () {
+      const { token, owner, treasury, addr1, addr2 } = await loadFixture(deployFeeFixture);
+
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      expect(await token.balanceOf(addr2.address)).to.equal(AMOUNT);
+
+      await expect(token.connect(addr1).setFee(100, 0, treasury.address)).to.be.reverted;
+      await expect(token.connect(owner).setFee(501, 0, treasury.address))
+        .to.be.revertedWithCustomError(token, "TokenInvalidFee");
+      await expect(token.connect(owner).setFee(100, 10001, treasury.address))
+        .to.be.revertedWithCustomError(token, "TokenInvalidFee");
+      await expect(token.connect(owner).setFee(100, 5000, ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(token, "TokenInvalidAddress");
+
+      // A fully burned fee needs no treasury
+      await expect(token.connect(owner).setFee(500, 10000, ethers.ZeroAddress))
+        .to.emit(token, "FeeUpdated")
+        .withArgs(500, 10000, ethers.ZeroAddress);
+      const info = await token.getTokenInfo();
+      expect([info.feeBps, info.feeBurnBps, info.treasury]).to.deep.equal([500n, 10000n, ethers.ZeroAddress]);
+      expect(formatFeeConfig(info.feeBps, info.feeBurnBps, info.treasury)).to.equal("5% (all burned)");
+      expect(formatFeeConfig(250, 5000, treasury.address)).to.equal(`2.5% (50% burned, rest to ${treasury.address})`);
+    });
+  });
+
+  describe("Fee Charging", function () {
+    it("Should split the fee between burning and the treasury on every transfer path", async function () {
+      const { token, owner, treasury, addr1, addr2 } = await loadFixture(deployFeeFixture);
+      const fee = ethers.parseEther("3");
+      const half = fee / 2n;
+
+      // 3% fee, half burned
+      await token.connect(owner).setFee(300, 5000, treasury.address);
+
+      await expect(token.connect(addr1).transfer(addr2.address, AMOUNT))
+        .to.emit(token, "TransferFeeCharged")
+        .withArgs(addr1.address, addr2.address, half, half);
+      expect(await token.balanceOf(addr2.address)).to.equal(AMOUNT - fee);
+      expect(await token.balanceOf(treasury.address)).to.equal(half);
+      expect(await token.totalBurned()).to.equal(half);
+      // Fee burns are not voluntary burns of the sender
+      expect(await token.burnedBalanceOf(addr1.address)).to.equal(0);
+      expect(await token.hasBurned(addr1.address)).to.be.false;
+
+      await token.connect(addr1).approve(addr2.address, AMOUNT);
+      await token.connect(addr2).transferFrom(addr1.address, addr2.address, AMOUNT);
+      await token.connect(addr1).batchTransfer([addr2.address, owner.address], [AMOUNT, AMOUNT]);
+      expect(await token.balanceOf(addr2.address)).to.equal((AMOUNT - fee) * 3n);
+      expect(await token.balanceOf(treasury.address)).to.equal(half * 3n);
+      expect(await token.balanceOf(addr1.address)).to.equal(ethers.parseEther("10000") - AMOUNT * 4n);
+      await expectSupplyConsistent(token);
+
+      // The treasury is never held back by the anti-whale limits
+      expect(await token.isLimitExempt(treasury.address)).to.be.true;
+    });
+
+    it("Should let exempt system contracts and the owner move tokens free of the fee", async function () {
+      const { token, owner, treasury, presale, addr1, addr2 } = await loadFixture(deployFeeFixture);
+      await token.connect(owner).setFee(500, 2000, treasury.address);
+
+      await expect(token.connect(addr1).setFeeExempt(presale.address, true)).to.be.reverted;
+      await expect(token.connect(owner).setFeeExempt(ethers.ZeroAddress, true))
+        .to.be.revertedWithCustomError(token, "TokenInvalidAddress");
+      await expect(token.connect(owner).setFeeExempt(presale.address, true))
+        .to.emit(token, "FeeExemptionUpdated")
+        .withArgs(presale.address, true);
+
+      await expect(token.connect(presale).transfer(addr2.address, AMOUNT)).to.not.emit(token, "TransferFeeCharged");
+      await token.connect(addr1).transfer(presale.address, AMOUNT);
+      await token.connect(owner).transfer(addr2.address, AMOUNT);
+      await token.connect(addr1).transfer(owner.address, AMOUNT);
+      expect(await token.balanceOf(addr2.address)).to.equal(AMOUNT * 2n);
+      expect(await token.balanceOf(treasury.address)).to.equal(0);
+      expect(await token.isFeeExempt(owner.address)).to.be.true;
+
+      await token.connect(owner).setFeeExempt(presale.address, false);
+      await token.connect(presale).transfer(addr2.address, AMOUNT);
+      expect(await token.balanceOf(treasury.address)).to.equal(ethers.parseEther("4"));
+    });
+  });
+
+  describe("Supply Accounting", function () {
+    it("Should count fee burns in totalBurned but not in the sender's burned balance", async function () {
+      const { token, owner, treasury, addr1, addr2 } = await loadFixture(deployFeeFixture);
+      await token.connect(addr1).burn(AMOUNT);
+      await token.connect(owner).setFee(500, 10000, treasury.address);
+
+      const burnedBefore = await token.burnedBalanceOf(addr1.address);
+      const totalBefore = await token.totalBurned();
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+
+      expect(await token.burnedBalanceOf(addr1.address)).to.equal(burnedBefore);
+      expect(await token.burnedBalanceOf(addr2.address)).to.equal(0);
+      expect(await token.totalBurned()).to.equal(totalBefore + ethers.parseEther("5"));
+    });
+
+    it("Should keep totalSupply + totalBurned equal to TOTAL_SUPPLY across fees and burns", async function () {
+      const { token, owner, treasury, presale, addr1, addr2 } = await loadFixture(deployFeeFixture);
+      await expectSupplyConsistent(token);
+
+      await token.connect(owner).setFee(250, 10000, ethers.ZeroAddress);
+      await token.connect(addr1).transfer(addr2.address, ethers.parseEther("123.456789"));
+      await token.connect(addr2).transfer(addr1.address, 7n);
+      await expectSupplyConsistent(token);
+
+      await token.connect(owner).setFee(500, 3333, treasury.address);
+      await token.connect(addr1).batchTransfer([addr2.address, presale.address], [AMOUNT, 999n]);
+      await token.connect(addr1).burn(AMOUNT);
+      await token.connect(addr1).approve(addr2.address, AMOUNT);
+      await token.connect(addr2).burnFrom(addr1.address, AMOUNT);
+      await token.connect(addr2).burnForSwap(ethers.parseEther("1"), "epc1destination");
+      await token.connect(owner).emergencyBurn(presale.address, AMOUNT);
+      await expectSupplyConsistent(token);
+
+      await token.connect(owner).setFee(0, 0, treasury.address);
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      await expectSupplyConsistent(token);
+      expect(await token.totalSupply()).to.be.lessThan(TOTAL_SUPPLY);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { applyFreezeList, fetchFrozenAccounts, parseFreezeList } from "../scripts/freeze";
+
+describe("EpicStarterFreeze", function () {
+  const AMOUNT = ethers.parseEther("10");
+  const COMPROMISED = ethers.encodeBytes32String("COMPROMISED");
+
+  // Fixtures
+  async function deployFreezeFixture() {
+    const [owner, freezer, addr1, addr2, outsider] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    await token.connect(owner).grantRole(await token.FREEZER_ROLE(), freezer.address);
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("1000"));
+    await token.connect(owner).transfer(addr2.address, ethers.parseEther("1000"));
+    await token.connect(addr1).approve(addr2.address, ethers.parseEther("100"));
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    return { token, owner, freezer, addr1, addr2, outsider, fromBlock };
+  }
+
+  describe("Freezing", function () {
+    it("Should block every send of a send-frozen account, whatever the pause state", async function () {
+      const { token, owner, freezer, addr1, addr2 } = await loadFixture(deployFreezeFixture);
+
+      await expect(token.connect(freezer).setFrozen(addr1.address, true, false, COMPROMISED))
+        .to.emit(token, "FreezeUpdated")
+        .withArgs(addr1.address, true, false, COMPROMISED, freezer.address);
+      await token.connect(owner).setPauseAllowlist(addr1.address, true);
+
+      await expect(token.connect(addr1).transfer(addr2.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenAccountFrozen")
+        .withArgs(addr1.address);
+      await expect(token.connect(addr2).transferFrom(addr1.address, addr2.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenAccountFrozen");
+      await expect(token.connect(addr1).batchTransfer([addr2.address], [AMOUNT]))
+        .to.be.revertedWithCustomError(token, "TokenAccountFrozen");
+      await expect(token.connect(addr1).burn(AMOUNT)).to.be.revertedWithCustomError(token, "TokenAccountFrozen");
+
+      // Receiving still works
+      await token.connect(addr2).transfer(addr1.address, AMOUNT);
+      expect(await token.canTransfer(addr1.address)).to.be.false;
+      expect(await token.canTransfer(addr2.address)).to.be.true;
+    });
+
+    it("Should block receives of a receive-frozen account and lift both on unfreeze", async function () {
+      const { token, freezer, addr1, addr2 } = await loadFixture(deployFreezeFixture);
+
+      await token.connect(freezer).setFrozen(addr1.address, false, true, COMPROMISED);
+      await expect(token.connect(addr2).transfer(addr1.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenAccountFrozen")
+        .withArgs(addr1.address);
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      expect(await token.canTransfer(addr1.address)).to.be.true;
+
+      await token.connect(freezer).setFrozen(addr1.address, false, false, ethers.ZeroHash);
+      await token.connect(addr2).transfer(addr1.address, AMOUNT);
+      const state = await token.getFreezeState(addr1.address);
+      expect([state.sendFrozen, state.receiveFrozen]).to.deep.equal([false, false]);
+    });
+
+    it("Should only let FREEZER_ROLE accounts freeze", async function () {
+      const { token, owner, freezer, outsider, addr1 } = await loadFixture(deployFreezeFixture);
+
+      await expect(token.connect(outsider).setFrozen(addr1.address, true, true, COMPROMISED)).to.be.reverted;
+      await token.connect(owner).renounceRole(await token.FREEZER_ROLE(), owner.address);
+      await expect(token.connect(owner).setFrozen(addr1.address, true, true, COMPROMISED)).to.be.reverted;
+      await expect(token.connect(freezer).setFrozen(ethers.ZeroAddress, true, true, COMPROMISED))
+        .to.be.revertedWithCustomError(token, "TokenInvalidAddress");
+    });
+  });
+
+  describe("Freeze Lists", function () {
+    it("Should parse list files and reject invalid or duplicate addresses", async function () {
+      const { addr1, addr2 } = await loadFixture(deployFreezeFixture);
+
+      const entries = parseFreezeList(`address,reason\n# compromised\n${addr1.address},STOLEN\n${addr2.address}\n`);
+      expect(entries).to.deep.equal([
+        { line: 3, address: addr1.address, reason: "STOLEN" },
+        { line: 4, address: addr2.address, reason: undefined },
+      ]);
+      expect(() => parseFreezeList("0x1234")).to.throw("Line 1: invalid address 0x1234");
+      expect(() => parseFreezeList(`${addr1.address}\n${addr1.address.toLowerCase()}`))
+        .to.throw(`Line 2: duplicate address ${addr1.address}`);
+    });
+
+    it("Should apply a list once and export the current frozen set", async function () {
+      const { token, freezer, addr1, addr2, outsider, fromBlock } = await loadFixture(deployFreezeFixture);
+      const entries = parseFreezeList(`${addr1.address},STOLEN\n${addr2.address}\n${outsider.address}`);
+
+      const first = await applyFreezeList(token, freezer, entries, "send", "SANCTIONED");
+      expect(first.map((change) => change.status)).to.deep.equal(["updated", "updated", "updated"]);
+      const again = await applyFreezeList(token, freezer, entries, "send", "SANCTIONED");
+      expect(again.map((change) => change.status)).to.deep.equal(["skipped", "skipped", "skipped"]);
+
+      await applyFreezeList(token, freezer, entries.slice(1, 2), "both", "SANCTIONED");
+      await applyFreezeList(token, freezer, entries.slice(2), "none", "CLEARED");
+
+      const frozen = await fetchFrozenAccounts(token, fromBlock, await ethers.provider.getBlockNumber());
+      const expected = [
+        [addr1.address, true, false, "STOLEN"],
+        [addr2.address, true, true, "SANCTIONED"],
+      ].sort((a, b) => String(a[0]).toLowerCase().localeCompare(String(b[0]).toLowerCase()));
+      expect(frozen.map((account) => [account.address, account.sendFrozen, account.receiveFrozen, account.reason]))
+        .to.deep.equal(expected);
+      expect(frozen[0].operator).to.equal(freezer.address);
+      await expect(applyFreezeList(token, freezer, entries, "all" as "both")).to.be.rejectedWith("Invalid freeze mode");
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Signer, Wallet } from "ethers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  aggregatePauseSignatures,
+  loadGuardianSignatures,
+  preparePauseIntent,
+  signPauseIntent,
+  submitGuardianPause,
+} from "../scripts/guardian-pause";
+
+describe("EpicStarterGuardianPause", function () {
+  // Fixtures
+  async function deployGuardianFixture() {
+    const [owner, relayer, outsider] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+
+    // Guardians sign offline, so they are plain wallets without a provider
+    const guardians = [0, 1, 2].map(() => Wallet.createRandom());
+    await token.connect(owner).setGuardians(guardians.map((guardian) => guardian.address), 2);
+
+    return { token, owner, relayer, outsider, guardians };
+  }
+
+  async function signAll(intent: Awaited<ReturnType<typeof preparePauseIntent>>, signers: Signer[]) {
+    return Promise.all(signers.map((signer) => signPauseIntent(intent, signer)));
+  }
+
+  describe("Guardian Set", function () {
+    it("Should only accept valid guardian sets from the admin", async function () {
+      const { token, owner, outsider, guardians } = await loadFixture(deployGuardianFixture);
+      const [a, b] = guardians.map((guardian) => guardian.address);
+
+      await expect(token.connect(outsider).setGuardians([a, b], 1)).to.be.reverted;
+      for (const [members, threshold] of [[[a, b], 0], [[a, b], 3], [[a, a], 1], [[a, ethers.ZeroAddress], 1]]) {
+        await expect(token.connect(owner).setGuardians(members as string[], threshold as number))
+          .to.be.revertedWithCustomError(token, "TokenInvalidGuardianSet");
+      }
+
+      await expect(token.connect(owner).setGuardians([b, a], 2))
+        .to.emit(token, "GuardianSetUpdated")
+        .withArgs(2, [b, a], 2);
+      const current = await token.getGuardians();
+      expect([...current.guardians]).to.deep.equal([b, a]);
+      expect(current.guardianSetId).to.equal(2);
+    });
+  });
+
+  describe("Pause", function () {
+    it("Should pause with M-of-N signatures submitted by any relayer", async function () {
+      const { token, relayer, guardians } = await loadFixture(deployGuardianFixture);
+
+      const intent = await preparePauseIntent(token);
+      const signed = await signAll(intent, [guardians[2], guardians[0]]);
+      const aggregate = aggregatePauseSignatures(intent, signed, guardians.map((guardian) => guardian.address));
+      const expectedSigners = [guardians[0].address, guardians[2].address]
+        .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+
+      expect(aggregate.signers).to.deep.equal(expectedSigners);
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, aggregate.signatures))
+        .to.emit(token, "GuardianPaused")
+        .withArgs(0, relayer.address, expectedSigners);
+
+      expect(await token.paused()).to.be.true;
+      expect(await token.guardianPauseNonce()).to.equal(1);
+    });
+
+    it("Should reject replayed, expired and rotated-out signatures", async function () {
+      const { token, owner, relayer, guardians } = await loadFixture(deployGuardianFixture);
+      const members = guardians.map((guardian) => guardian.address);
+
+      const intent = await preparePauseIntent(token, 60);
+      const { signatures } = aggregatePauseSignatures(intent, await signAll(intent, guardians), members);
+      await token.connect(relayer).guardianPause(intent.nonce, intent.deadline, signatures);
+      await token.connect(owner).unpause();
+
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, signatures))
+        .to.be.revertedWithCustomError(token, "TokenInvalidGuardianNonce")
+        .withArgs(1);
+
+      const late = await preparePauseIntent(token, 60);
+      const lateSigned = aggregatePauseSignatures(late, await signAll(late, guardians), members);
+      await time.increase(61);
+      await expect(token.connect(relayer).guardianPause(late.nonce, late.deadline, lateSigned.signatures))
+        .to.be.revertedWithCustomError(token, "TokenGuardianPauseExpired");
+
+      const stale = await preparePauseIntent(token);
+      const staleSigned = aggregatePauseSignatures(stale, await signAll(stale, guardians), members);
+      await token.connect(owner).setGuardians(members, 2);
+      await expect(token.connect(relayer).guardianPause(stale.nonce, stale.deadline, staleSigned.signatures))
+        .to.be.revertedWithCustomError(token, "TokenInvalidGuardianSignature");
+      await expect(submitGuardianPause(token, relayer, stale, staleSigned))
+        .to.be.rejectedWith("current set is 2");
+    });
+
+    it("Should reject too few, unordered, duplicate and outsider signatures", async function () {
+      const { token, relayer, guardians } = await loadFixture(deployGuardianFixture);
+      const members = guardians.map((guardian) => guardian.address);
+
+      const intent = await preparePauseIntent(token);
+      const { signatures } = aggregatePauseSignatures(intent, await signAll(intent, guardians.slice(0, 2)), members);
+      const outsider = await signPauseIntent(intent, Wallet.createRandom());
+
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, signatures.slice(0, 1)))
+        .to.be.revertedWithCustomError(token, "TokenGuardianThresholdNotMet")
+        .withArgs(1, 2);
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, [...signatures].reverse()))
+        .to.be.revertedWithCustomError(token, "TokenInvalidGuardianSignature");
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, [signatures[0], signatures[0]]))
+        .to.be.revertedWithCustomError(token, "TokenInvalidGuardianSignature");
+      const withOutsider = [signatures[0], outsider.signature];
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, withOutsider))
+        .to.be.revertedWithCustomError(token, "TokenInvalidGuardianSignature")
+        .withArgs(outsider.guardian);
+      expect(await token.paused()).to.be.false;
+    });
+
+    it("Should refuse guardian pauses once nobody holds PAUSER_ROLE", async function () {
+      const { token, owner, relayer, guardians } = await loadFixture(deployGuardianFixture);
+      const members = guardians.map((guardian) => guardian.address);
+      const PAUSER_ROLE = await token.PAUSER_ROLE();
+
+      const intent = await preparePauseIntent(token);
+      const { signatures } = aggregatePauseSignatures(intent, await signAll(intent, guardians), members);
+
+      // Keeping PAUSER_ROLE keeps the guardians, until the role itself is given up
+      await token.connect(owner).renounceOwnershipRetainingRoles([PAUSER_ROLE]);
+      expect((await token.getGuardians()).guardians).to.have.length(3);
+      await token.connect(owner).renounceRole(PAUSER_ROLE, owner.address);
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, signatures))
+        .to.be.revertedWithCustomError(token, "TokenInvalidGuardianSet");
+
+      await loadFixture(deployGuardianFixture);
+      await expect(token.connect(owner).renounceOwnership())
+        .to.emit(token, "GuardianSetUpdated")
+        .withArgs(2, [], 0);
+      await expect(token.connect(relayer).guardianPause(intent.nonce, intent.deadline, signatures))
+        .to.be.revertedWithCustomError(token, "TokenInvalidGuardianSet");
+      expect(await token.paused()).to.be.false;
+    });
+  });
+
+  describe("Aggregation", function () {
+    it("Should load signature files and drop invalid entries before submitting", async function () {
+      const { token, relayer, guardians } = await loadFixture(deployGuardianFixture);
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "guardian-pause-"));
+
+      try {
+        const intent = await preparePauseIntent(token);
+        const other = { ...intent, deadline: intent.deadline + 1 };
+        const entries = [
+          await signPauseIntent(intent, guardians[0]),
+          await signPauseIntent(intent, guardians[0]),
+          await signPauseIntent(other, guardians[1]),
+          await signPauseIntent(intent, Wallet.createRandom()),
+          { ...(await signPauseIntent(intent, guardians[2])), guardian: guardians[1].address },
+        ];
+        entries.forEach((entry, index) => {
+          fs.writeFileSync(path.join(dir, `${index}.json`), JSON.stringify(entry));
+        });
+
+        const aggregate = aggregatePauseSignatures(
+          intent,
+          loadGuardianSignatures([dir]),
+          guardians.map((guardian) => guardian.address),
+        );
+        expect(aggregate.signers).to.deep.equal([guardians[0].address]);
+        expect(aggregate.rejected).to.have.length(4);
+
+        await expect(submitGuardianPause(token, relayer, intent, aggregate))
+          .to.be.rejectedWith("Only 1 valid signature(s), 2 needed");
+
+        const second = aggregatePauseSignatures(
+          intent,
+          [...loadGuardianSignatures([dir]), await signPauseIntent(intent, guardians[1])],
+          guardians.map((guardian) => guardian.address),
+        );
+        await submitGuardianPause(token, relayer, intent, second);
+        expect(await token.paused()).to.be.true;
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
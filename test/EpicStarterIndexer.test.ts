@@ -0,0 +1,304 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { EpicStarterToken } from "../typechain-types";
+import {
+  IndexerStore,
+  createIndexerStore,
+  getHolders,
+  getTransferHistory,
+  loadIndexerStore,
+  openIndexerStore,
+  syncIndexer,
+} from "../scripts/indexer";
+import {
+  getDefaultExclusions,
+  loadSnapshot,
+  saveSnapshot,
+  saveSnapshotCsv,
+  takeSnapshot,
+  verifySnapshot,
+} from "../scripts/snapshot";
+import { parseAllocationCsv } from "../utils/helpers";
+import { createMerkleDistribution } from "../utils/merkle";
+
+describe("EpicStarterIndexer", function () {
+  // Fixtures
+  async function deployIndexedTokenFixture() {
+    const [owner, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    const deploymentBlock = (await token.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("1000"));
+    await token.connect(owner).batchTransfer([addr2.address, addr3.address], [ethers.parseEther("500"), 1n]);
+    await token.connect(addr1).burn(ethers.parseEther("100"));
+    await token.connect(addr3).transfer(addr1.address, 1n);
+    await token.connect(owner).pause();
+    await token.connect(owner).unpause();
+
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const store = createIndexerStore(await token.getAddress(), chainId, deploymentBlock);
+
+    return { token, store, owner, addr1, addr2, addr3 };
+  }
+
+  async function expectBalancesMatchChain(store: IndexerStore, token: EpicStarterToken) {
+    for (const holder of getHolders(store)) {
+      expect(await token.balanceOf(holder.address)).to.equal(holder.balance);
+    }
+    expect(getHolders(store).length).to.equal(await token.holderCount());
+  }
+
+  describe("Sync", function () {
+    it("Should index events in chunks and derive balances", async function () {
+      const { token, store, owner, addr1, addr2 } = await loadFixture(deployIndexedTokenFixture);
+
+      const result = await syncIndexer(token, store, { chunkSize: 2 });
+
+      expect(result.rewoundTo).to.be.null;
+      expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(store.cursor?.blockNumber).to.equal(result.toBlock);
+
+      const names = store.events.map((event) => event.name);
+      expect(names).to.include.members(["Transfer", "TokensBurned", "TokensPaused", "TokensUnpaused", "RoleGranted"]);
+
+      const holders = getHolders(store);
+      expect(holders.map((holder) => holder.address)).to.deep.equal([owner.address, addr1.address, addr2.address]);
+      expect(holders[1].balance).to.equal(ethers.parseEther("900") + 1n);
+      await expectBalancesMatchChain(store, token);
+
+      expect(getTransferHistory(store, addr1.address)).to.have.length(3);
+    });
+
+    it("Should resume from the cursor without duplicating events", async function () {
+      const { token, store, addr1, addr2 } = await loadFixture(deployIndexedTokenFixture);
+
+      await syncIndexer(token, store);
+      const indexed = store.events.length;
+
+      const noop = await syncIndexer(token, store);
+      expect(noop.newEvents).to.equal(0);
+
+      await token.connect(addr1).transfer(addr2.address, ethers.parseEther("900") + 1n);
+      const result = await syncIndexer(token, store);
+
+      expect(result.newEvents).to.equal(1);
+      expect(store.events).to.have.length(indexed + 1);
+      expect(store.balances[addr1.address]).to.be.undefined;
+      await expectBalancesMatchChain(store, token);
+    });
+
+    it("Should persist the store after every chunk", async function () {
+      const fixture = await loadFixture(deployIndexedTokenFixture);
+      const { token } = fixture;
+      // Earlier tests sync the fixture's store, so start from an empty one
+      const store = createIndexerStore(fixture.store.tokenAddress, fixture.store.chainId, fixture.store.startBlock);
+      const storeDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+      const storePath = path.join(storeDir, "store.json");
+
+      try {
+        await syncIndexer(token, store, { chunkSize: 3, storePath });
+
+        expect(loadIndexerStore(storePath)).to.deep.equal(store);
+        expect(fs.existsSync(`${storePath}.tmp`)).to.be.false;
+      } finally {
+        fs.rmSync(storeDir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should reject a store built for another token", async function () {
+      const { token, owner } = await loadFixture(deployIndexedTokenFixture);
+
+      const store = createIndexerStore(owner.address, 31337, 0);
+
+      await expect(syncIndexer(token, store)).to.be.rejectedWith("Store indexes");
+    });
+
+    it("Should only apply a start block to a new store", async function () {
+      const { token, store } = await loadFixture(deployIndexedTokenFixture);
+      const tokenAddress = await token.getAddress();
+
+      expect(openIndexerStore(null, tokenAddress, store.chainId, 5).startBlock).to.equal(5);
+      expect(openIndexerStore(null, tokenAddress, store.chainId, 5, 7).startBlock).to.equal(7);
+      expect(openIndexerStore(store, tokenAddress, store.chainId, 5)).to.equal(store);
+      expect(openIndexerStore(store, tokenAddress, store.chainId, 5, store.startBlock)).to.equal(store);
+      expect(() => openIndexerStore(store, tokenAddress, store.chainId, 5, store.startBlock + 1)).to.throw(
+        "--from-block",
+      );
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Should rewind and re-index when the cursor block is replaced", async function () {
+      const { token, store, addr1, addr2, addr3 } = await loadFixture(deployIndexedTokenFixture);
+
+      const snapshot = await network.provider.send("evm_snapshot");
+      await token.connect(addr1).transfer(addr2.address, ethers.parseEther("10"));
+      await syncIndexer(token, store);
+      const orphanedHash = store.cursor?.blockHash;
+
+      // Replace the indexed block with a different one at the same height
+      await network.provider.send("evm_revert", [snapshot]);
+      await token.connect(addr1).transfer(addr3.address, ethers.parseEther("20"));
+      await mine(2);
+
+      const result = await syncIndexer(token, store, { reorgDepth: 3 });
+
+      expect(result.rewoundTo).to.not.be.null;
+      expect(store.cursor?.blockHash).to.not.equal(orphanedHash);
+      expect(store.balances[addr3.address]).to.equal(ethers.parseEther("20").toString());
+      expect(store.balances[addr2.address]).to.equal(ethers.parseEther("500").toString());
+      await expectBalancesMatchChain(store, token);
+    });
+
+    it("Should rewind to the last stored block that is still on chain", async function () {
+      const { token, store, addr1, addr2, addr3 } = await loadFixture(deployIndexedTokenFixture);
+
+      await syncIndexer(token, store, { reorgDepth: 5 });
+      const forkBlock = await ethers.provider.getBlockNumber();
+
+      const snapshot = await network.provider.send("evm_snapshot");
+      await token.connect(addr1).transfer(addr2.address, ethers.parseEther("10"));
+      await mine(2);
+      await syncIndexer(token, store, { reorgDepth: 5 });
+      expect(store.recentBlocks.map((entry) => entry.blockNumber)).to.deep.equal(
+        Array.from({ length: 5 }, (_, index) => forkBlock - 1 + index),
+      );
+
+      // Replace every block after forkBlock
+      await network.provider.send("evm_revert", [snapshot]);
+      await token.connect(addr1).transfer(addr3.address, ethers.parseEther("20"));
+      await mine(3);
+
+      const result = await syncIndexer(token, store, { reorgDepth: 5 });
+
+      expect(result.rewoundTo).to.equal(forkBlock);
+      expect(store.balances[addr2.address]).to.equal(ethers.parseEther("500").toString());
+      await expectBalancesMatchChain(store, token);
+    });
+
+    it("Should re-index from the start block when the reorg is deeper than the stored hashes", async function () {
+      const { token, store, addr1, addr2, addr3 } = await loadFixture(deployIndexedTokenFixture);
+
+      const snapshot = await network.provider.send("evm_snapshot");
+      await token.connect(addr1).transfer(addr2.address, ethers.parseEther("10"));
+      await mine(2);
+      await syncIndexer(token, store, { reorgDepth: 1 });
+
+      await network.provider.send("evm_revert", [snapshot]);
+      await token.connect(addr1).transfer(addr3.address, ethers.parseEther("20"));
+      await mine(2);
+
+      const result = await syncIndexer(token, store, { reorgDepth: 1 });
+
+      expect(result.rewoundTo).to.equal(store.startBlock - 1);
+      expect(result.fromBlock).to.equal(store.startBlock);
+      expect(store.balances[addr2.address]).to.equal(ethers.parseEther("500").toString());
+      await expectBalancesMatchChain(store, token);
+    });
+  });
+
+  describe("Snapshot", function () {
+    async function snapshotFixture() {
+      const fixture = await loadFixture(deployIndexedTokenFixture);
+      const { token, store, addr1, addr2, addr3 } = fixture;
+
+      const blockNumber = await ethers.provider.getBlockNumber();
+      // Moves after the snapshot block must not show up in the snapshot
+      await token.connect(addr1).transfer(addr3.address, ethers.parseEther("400"));
+      await token.connect(addr2).burn(ethers.parseEther("500"));
+      await syncIndexer(token, store);
+
+      return { ...fixture, blockNumber };
+    }
+
+    it("Should reconstruct balances at a past block with exclusions", async function () {
+      const { token, store, owner, addr1, addr2, blockNumber } = await loadFixture(snapshotFixture);
+
+      const snapshot = await takeSnapshot(token, store, { blockNumber, exclude: [owner.address] });
+
+      expect(snapshot.holders).to.deep.equal([
+        { address: addr1.address, balance: ethers.parseEther("900") + 1n },
+        { address: addr2.address, balance: ethers.parseEther("500") },
+      ]);
+      expect(snapshot.excluded.map((entry) => entry.address)).to.deep.equal([owner.address]);
+      expect(snapshot.total).to.equal(ethers.parseEther("1400") + 1n);
+      expect(snapshot.totalSupply).to.equal(await token.totalSupply({ blockTag: blockNumber }));
+    });
+
+    it("Should produce the same holders from balanceOf at the block", async function () {
+      const { token, store, owner, blockNumber } = await loadFixture(snapshotFixture);
+
+      const fromEvents = await takeSnapshot(token, store, { blockNumber, exclude: [owner.address] });
+      const fromRpc = await takeSnapshot(token, store, { blockNumber, exclude: [owner.address], source: "rpc" });
+
+      expect(fromRpc.holders).to.deep.equal(fromEvents.holders);
+      expect(fromRpc.total).to.equal(fromEvents.total);
+    });
+
+    it("Should export files readable by the distribution and Merkle tooling", async function () {
+      const { token, store, owner, blockNumber } = await loadFixture(snapshotFixture);
+      const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "snapshot-"));
+
+      try {
+        const snapshot = await takeSnapshot(token, store, { blockNumber, exclude: [owner.address] });
+        saveSnapshot(path.join(outDir, "snapshot.json"), snapshot);
+        saveSnapshotCsv(path.join(outDir, "holders.csv"), snapshot);
+
+        expect(loadSnapshot(path.join(outDir, "snapshot.json"))).to.deep.equal(snapshot);
+
+        const rows = parseAllocationCsv(fs.readFileSync(path.join(outDir, "holders.csv"), "utf8"));
+        expect(rows.map((row) => ({ address: row.address, balance: row.amount }))).to.deep.equal(snapshot.holders);
+
+        const distribution = createMerkleDistribution(
+          rows.map((row) => row.address),
+          rows.map((row) => row.amount),
+        );
+        expect(distribution.total).to.equal(snapshot.total);
+      } finally {
+        fs.rmSync(outDir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should verify balances against balanceOf at the block", async function () {
+      const { token, store, owner, addr1, blockNumber } = await loadFixture(snapshotFixture);
+
+      const snapshot = await takeSnapshot(token, store, { blockNumber, exclude: [owner.address] });
+      expect(await verifySnapshot(token, snapshot, 10)).to.deep.equal([]);
+
+      const tampered = {
+        ...snapshot,
+        holders: snapshot.holders.map((holder) => ({ ...holder, balance: holder.balance + 1n })),
+      };
+      const mismatches = await verifySnapshot(token, tampered, 10);
+
+      expect(mismatches.map((mismatch) => mismatch.address)).to.include(addr1.address);
+      expect(mismatches).to.have.length(2);
+    });
+
+    it("Should exclude the owner as of the snapshot block", async function () {
+      const { token, owner, addr1, blockNumber } = await loadFixture(snapshotFixture);
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await token.connect(addr1).acceptOwnership();
+
+      const exclusions = await getDefaultExclusions(token, blockNumber);
+      expect(exclusions).to.include(owner.address);
+      expect(exclusions).to.not.include(addr1.address);
+      expect(await getDefaultExclusions(token, blockNumber, true)).to.not.include(owner.address);
+    });
+
+    it("Should refuse blocks beyond the synced cursor", async function () {
+      const { token, store } = await loadFixture(snapshotFixture);
+
+      const blockNumber = (store.cursor?.blockNumber ?? 0) + 1;
+
+      await expect(takeSnapshot(token, store, { blockNumber })).to.be.rejectedWith("Indexer store is synced to");
+    });
+  });
+});
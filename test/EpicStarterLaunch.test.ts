@@ -0,0 +1,205 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { MockUniswapV2Router } from "../typechain-types";
+import { LaunchPlan, TRADING_CLOSED_BLOCK, runLaunch } from "../scripts/launch";
+
+describe("EpicStarterLaunch", function () {
+  const AMOUNT = ethers.parseEther("10");
+  const WBNB = "0x000000000000000000000000000000000000bEEF";
+
+  // Fixtures
+  async function deployLaunchFixture() {
+    const [owner, presale, addr1, addr2] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    await token.connect(owner).transfer(presale.address, ethers.parseEther("1000000"));
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("1000"));
+
+    const MockRouterFactory = await ethers.getContractFactory("MockUniswapV2Router");
+    const router = await MockRouterFactory.deploy(WBNB);
+
+    return { token, router, owner, presale, addr1, addr2 };
+  }
+
+  async function buy(router: MockUniswapV2Router, tokenAddress: string, buyer: { address: string }, value: bigint) {
+    const deadline = (await time.latest()) + 3600;
+    return router.swapExactETHForTokens(0, [WBNB, tokenAddress], buyer.address, deadline, { value });
+  }
+
+  describe("Trading Gate", function () {
+    it("Should only let launch-exempt accounts send before the start block", async function () {
+      const { token, owner, presale, addr1, addr2 } = await loadFixture(deployLaunchFixture);
+      const startBlock = (await ethers.provider.getBlockNumber()) + 10;
+
+      await expect(token.connect(owner).setTradingStart(startBlock, 0, 0))
+        .to.emit(token, "TradingStartUpdated")
+        .withArgs(startBlock, 0, 0);
+      await token.connect(owner).setLaunchExempt(presale.address, true);
+      expect(await token.isTradingEnabled()).to.be.false;
+
+      await expect(token.connect(addr1).transfer(addr2.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenTradingNotStarted");
+      await token.connect(addr1).approve(addr2.address, AMOUNT);
+      await expect(token.connect(addr2).transferFrom(addr1.address, addr2.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenTradingNotStarted");
+      await token.connect(presale).transfer(addr2.address, AMOUNT);
+      await token.connect(owner).transfer(addr2.address, AMOUNT);
+      await token.connect(addr1).burn(AMOUNT);
+
+      await mine(10);
+      expect(await token.isTradingEnabled()).to.be.true;
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      expect(await token.balanceOf(addr2.address)).to.equal(AMOUNT * 3n);
+    });
+
+    it("Should wait for the start time as well as the start block", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployLaunchFixture);
+      const startTime = (await time.latest()) + 3600;
+
+      await token.connect(owner).setTradingStart(1, startTime, 0);
+      await expect(token.connect(addr1).transfer(addr2.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenTradingNotStarted");
+
+      await time.increaseTo(startTime);
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      const config = await token.getLaunchConfig();
+      expect([config.startBlock, config.startTime, config.tradingEnabled]).to.deep.equal([1n, BigInt(startTime), true]);
+    });
+
+    it("Should lock the start once reached and restrict the setters to the owner", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployLaunchFixture);
+
+      await expect(token.connect(addr1).setTradingStart(TRADING_CLOSED_BLOCK, 0, 0)).to.be.reverted;
+      await expect(token.connect(addr1).setLaunchExempt(addr1.address, true)).to.be.reverted;
+      await expect(token.connect(owner).setLaunchExempt(ethers.ZeroAddress, true))
+        .to.be.revertedWithCustomError(token, "TokenInvalidAddress");
+      await expect(token.connect(owner).setTradingStart(0, 0, 5))
+        .to.be.revertedWithCustomError(token, "TokenInvalidTradingStart");
+
+      // A start that is not reached yet can be moved
+      await token.connect(owner).setTradingStart(TRADING_CLOSED_BLOCK, 0, 5);
+      await token.connect(owner).setTradingStart((await ethers.provider.getBlockNumber()) + 2, 0, 5);
+      await mine(2);
+      await expect(token.connect(owner).setTradingStart(TRADING_CLOSED_BLOCK, 0, 5))
+        .to.be.revertedWithCustomError(token, "TokenTradingStarted");
+    });
+  });
+
+  describe("Cooldown", function () {
+    it("Should let a receiver get tokens once during the cooldown after the launch block", async function () {
+      const { token, owner, presale, addr1, addr2 } = await loadFixture(deployLaunchFixture);
+      const startBlock = (await ethers.provider.getBlockNumber()) + 2;
+      await token.connect(owner).setTradingStart(startBlock, 0, 5);
+      await token.connect(owner).setLaunchExempt(presale.address, true);
+      await mine(1);
+
+      await expect(token.connect(addr1).batchTransfer([addr2.address, addr2.address], [AMOUNT, AMOUNT]))
+        .to.be.revertedWithCustomError(token, "TokenCooldownActive")
+        .withArgs(addr2.address);
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      const launchBlock = (await token.getLaunchConfig()).launchBlock;
+      expect(launchBlock).to.equal(await ethers.provider.getBlockNumber());
+
+      // A later block does not reset the cooldown
+      await mine(1);
+      await expect(token.connect(addr1).transfer(addr2.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenCooldownActive")
+        .withArgs(addr2.address);
+
+      // Payouts from launch-exempt senders and receipts of limit-exempt accounts such as the owner are not throttled
+      await token.connect(presale).batchTransfer([addr2.address, addr2.address], [AMOUNT, AMOUNT]);
+      await token.connect(addr1).batchTransfer([owner.address, owner.address], [AMOUNT, AMOUNT]);
+
+      await mine(Number(launchBlock) + 5 - (await ethers.provider.getBlockNumber()) - 1);
+      await token.connect(addr1).batchTransfer([addr2.address, addr2.address], [AMOUNT, AMOUNT]);
+      expect(await token.balanceOf(addr2.address)).to.equal(AMOUNT * 5n);
+    });
+
+    it("Should not throttle payouts while trading is still closed", async function () {
+      const { token, owner, presale, addr2 } = await loadFixture(deployLaunchFixture);
+      await token.connect(owner).setTradingStart(TRADING_CLOSED_BLOCK, 0, 5);
+      await token.connect(owner).setLaunchExempt(presale.address, true);
+
+      await token.connect(presale).batchTransfer([addr2.address, addr2.address], [AMOUNT, AMOUNT]);
+      await token.connect(presale).transfer(addr2.address, AMOUNT);
+      await token.connect(owner).transfer(addr2.address, AMOUNT);
+
+      expect(await token.balanceOf(addr2.address)).to.equal(AMOUNT * 4n);
+      expect((await token.getLaunchConfig()).launchBlock).to.equal(0);
+    });
+
+    it("Should apply the cooldown after a start time without a start block", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployLaunchFixture);
+      const startTime = (await time.latest()) + 3600;
+      await token.connect(owner).setTradingStart(0, startTime, 3);
+
+      await time.increaseTo(startTime);
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      expect((await token.getLaunchConfig()).launchBlock).to.equal(await ethers.provider.getBlockNumber());
+      await expect(token.connect(addr1).transfer(addr2.address, AMOUNT))
+        .to.be.revertedWithCustomError(token, "TokenCooldownActive")
+        .withArgs(addr2.address);
+
+      await mine(2);
+      await token.connect(addr1).transfer(addr2.address, AMOUNT);
+      expect(await token.balanceOf(addr2.address)).to.equal(AMOUNT * 2n);
+    });
+  });
+
+  describe("Launch Script", function () {
+    it("Should add liquidity while trading is closed and open it at the start block", async function () {
+      const { token, router, owner, presale, addr1 } = await loadFixture(deployLaunchFixture);
+      const tokenAddress = await token.getAddress();
+      const plan: LaunchPlan = {
+        router: await router.getAddress(),
+        tokenAmount: ethers.parseEther("1000000"),
+        bnbAmount: ethers.parseEther("100"),
+        startDelayBlocks: 3,
+        cooldownBlocks: 5,
+        exempt: [presale.address],
+      };
+
+      const result = await runLaunch(token, owner, plan, () => undefined);
+      expect(result.steps.map((step) => step.status)).to.deep.equal(Array(7).fill("done"));
+      expect(result.pair).to.equal(await router.getPair(tokenAddress, WBNB));
+      expect(await token.balanceOf(result.pair)).to.equal(plan.tokenAmount);
+      expect(await ethers.provider.getBalance(result.pair)).to.equal(plan.bnbAmount);
+      expect(await token.isLimitExempt(result.pair)).to.be.true;
+      expect(await token.isLaunchExempt(presale.address)).to.be.true;
+
+      // Bots cannot buy from the pool before the start block
+      await expect(buy(router, tokenAddress, addr1, ethers.parseEther("1")))
+        .to.be.revertedWithCustomError(token, "TokenTradingNotStarted");
+      await mine(result.startBlock - (await ethers.provider.getBlockNumber()));
+      await buy(router, tokenAddress, addr1, ethers.parseEther("1"));
+      expect(await token.balanceOf(addr1.address)).to.be.greaterThan(ethers.parseEther("1000"));
+
+      await expect(runLaunch(token, owner, plan, () => undefined)).to.be.rejectedWith("Trading already started");
+    });
+
+    it("Should skip the steps a failed launch already did", async function () {
+      const { token, router, owner, addr1 } = await loadFixture(deployLaunchFixture);
+      const plan: LaunchPlan = {
+        router: await router.getAddress(),
+        tokenAmount: ethers.parseEther("1000000"),
+        bnbAmount: ethers.parseEther("100"),
+        startDelayBlocks: 0,
+        cooldownBlocks: 5,
+        exempt: [addr1.address],
+      };
+
+      await expect(runLaunch(token, owner, plan, () => undefined)).to.be.rejectedWith("at least one block");
+
+      // A run that stopped after creating the pair
+      await token.connect(owner).setTradingStart(TRADING_CLOSED_BLOCK, 0, 5);
+      await token.connect(owner).setLaunchExempt(addr1.address, true);
+      await router.createPair(await token.getAddress(), WBNB);
+
+      const result = await runLaunch(token, owner, { ...plan, startDelayBlocks: 1 }, () => undefined);
+      expect(result.steps.map((step) => step.status))
+        .to.deep.equal(["skipped", "skipped", "skipped", "done", "done", "done", "done"]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  calculatePercentage,
+  percentageToBasisPoints,
+  percentageToTokenAmount,
+} from "../utils/helpers";
+
+describe("EpicStarterLimits", function () {
+  // 0.5% per transaction, 1% per wallet
+  const MAX_TX = percentageToTokenAmount(0.5);
+  const MAX_WALLET = percentageToTokenAmount(1);
+
+  // Fixtures
+  async function deployLimitsFixture() {
+    const [owner, pair, addr1, addr2, addr3] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    await token.connect(owner).transfer(pair.address, ethers.parseEther("10000000"));
+    await token.connect(owner).setLimitExempt(pair.address, true);
+    await token.connect(owner).setLimits(percentageToBasisPoints(0.5), percentageToBasisPoints(1));
+
+    return { token, owner, pair, addr1, addr2, addr3 };
+  }
+
+  describe("Limits", function () {
+    it("Should cap single transfers and wallet balances in basis points of the total supply", async function () {
+      const { token, pair, addr1, addr2 } = await loadFixture(deployLimitsFixture);
+
+      const limits = await token.getLimits();
+      expect([limits.maxTxBps, limits.maxWalletBps]).to.deep.equal([50n, 100n]);
+      expect([limits.maxTxAmount, limits.maxWalletAmount]).to.deep.equal([MAX_TX, MAX_WALLET]);
+
+      // Buys from the wallet-exempt pair are capped per transaction and by the receiver's wallet cap
+      await expect(token.connect(pair).transfer(addr1.address, MAX_TX + 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxTxExceeded")
+        .withArgs(MAX_TX + 1n, MAX_TX);
+      await token.connect(pair).transfer(addr1.address, MAX_TX);
+      await token.connect(pair).transfer(addr1.address, MAX_TX);
+      await expect(token.connect(pair).transfer(addr1.address, 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxWalletExceeded")
+        .withArgs(addr1.address, MAX_WALLET);
+
+      await expect(token.connect(addr1).transfer(addr2.address, MAX_TX + 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxTxExceeded")
+        .withArgs(MAX_TX + 1n, MAX_TX);
+
+      // Sells to the pair are capped per transaction as well
+      await expect(token.connect(addr1).transfer(pair.address, MAX_TX + 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxTxExceeded")
+        .withArgs(MAX_TX + 1n, MAX_TX);
+      await token.connect(addr1).transfer(pair.address, MAX_TX);
+      await token.connect(addr1).transfer(addr2.address, MAX_TX);
+      expect(await token.balanceOf(addr1.address)).to.equal(0);
+    });
+
+    it("Should check every batchTransfer leg and transferFrom against the caps", async function () {
+      const { token, pair, addr1, addr2, addr3 } = await loadFixture(deployLimitsFixture);
+
+      await token.connect(pair).transfer(addr1.address, MAX_TX);
+      await token.connect(pair).transfer(addr1.address, MAX_TX);
+      await expect(token.connect(addr1).batchTransfer([addr2.address, addr3.address], [MAX_TX / 2n, MAX_TX + 1n]))
+        .to.be.revertedWithCustomError(token, "TokenMaxTxExceeded");
+      await token.connect(addr1).batchTransfer([addr2.address, addr3.address], [MAX_TX, MAX_TX / 2n]);
+
+      await token.connect(pair).transfer(addr2.address, MAX_TX);
+      await token.connect(pair).transfer(addr3.address, MAX_TX);
+      await expect(token.connect(addr3).batchTransfer([addr2.address], [1n]))
+        .to.be.revertedWithCustomError(token, "TokenMaxWalletExceeded")
+        .withArgs(addr2.address, MAX_WALLET);
+
+      await token.connect(addr3).approve(addr1.address, MAX_WALLET);
+      await expect(token.connect(addr1).transferFrom(addr3.address, addr1.address, MAX_TX + 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxTxExceeded");
+      await expect(token.connect(addr1).transferFrom(addr3.address, addr2.address, 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxWalletExceeded");
+      await token.connect(addr1).transferFrom(addr3.address, addr1.address, MAX_TX / 2n);
+      expect(await token.balanceOf(addr1.address)).to.equal(MAX_TX);
+    });
+
+    it("Should exempt the owner and listed accounts and lift the limits for good", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployLimitsFixture);
+
+      await expect(token.connect(addr1).setLimits(0, 0)).to.be.reverted;
+      await expect(token.connect(addr1).liftLimits()).to.be.reverted;
+      await expect(token.connect(owner).setLimits(10001, 0)).to.be.revertedWithCustomError(token, "TokenInvalidLimit");
+      expect(await token.isLimitExempt(owner.address)).to.be.true;
+
+      await expect(token.connect(owner).setLimitExempt(addr1.address, true))
+        .to.emit(token, "LimitExemptionUpdated")
+        .withArgs(addr1.address, true);
+      await token.connect(owner).transfer(addr1.address, MAX_WALLET * 2n);
+      // Wallet-exempt senders still respect the transaction cap
+      await expect(token.connect(addr1).transfer(addr2.address, MAX_WALLET + 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxTxExceeded");
+
+      await expect(token.connect(owner).liftLimits()).to.emit(token, "LimitsLifted");
+      await token.connect(addr1).transfer(addr2.address, MAX_WALLET * 2n);
+      expect((await token.getLimits()).lifted).to.be.true;
+      await expect(token.connect(owner).setLimits(50, 100)).to.be.revertedWithCustomError(token, "TokenLimitsLifted");
+      await expect(token.connect(owner).liftLimits()).to.be.revertedWithCustomError(token, "TokenLimitsLifted");
+    });
+
+    it("Should waive the transaction cap only for max-tx exempt accounts", async function () {
+      const { token, owner, pair, addr1, addr2 } = await loadFixture(deployLimitsFixture);
+
+      expect(await token.isMaxTxExempt(owner.address)).to.be.true;
+      expect(await token.isMaxTxExempt(pair.address)).to.be.false;
+      await expect(token.connect(addr1).setMaxTxExempt(addr1.address, true)).to.be.reverted;
+      await expect(token.connect(owner).setMaxTxExempt(ethers.ZeroAddress, true))
+        .to.be.revertedWithCustomError(token, "TokenInvalidAddress");
+
+      // A presale-style contract pays out more than the transaction cap
+      await token.connect(owner).setLimitExempt(addr1.address, true);
+      await token.connect(owner).transfer(addr1.address, MAX_WALLET * 2n);
+      await expect(token.connect(owner).setMaxTxExempt(addr1.address, true))
+        .to.emit(token, "MaxTxExemptionUpdated")
+        .withArgs(addr1.address, true);
+      await token.connect(addr1).transfer(addr2.address, MAX_WALLET);
+      await expect(token.connect(addr1).transfer(addr2.address, 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxWalletExceeded");
+
+      await token.connect(owner).setMaxTxExempt(addr1.address, false);
+      await expect(token.connect(addr1).transfer(pair.address, MAX_TX + 1n))
+        .to.be.revertedWithCustomError(token, "TokenMaxTxExceeded");
+    });
+  });
+
+  describe("Helpers", function () {
+    it("Should convert percentages to token amounts on calculatePercentage's basis", async function () {
+      expect(percentageToTokenAmount(0.5)).to.equal(ethers.parseEther("500000"));
+      expect(percentageToTokenAmount(12.34, 10000n)).to.equal(1234n);
+      expect(calculatePercentage(percentageToTokenAmount(2.75))).to.equal(2.75);
+      expect(() => percentageToBasisPoints(0.001)).to.throw("more than two decimals");
+      expect(() => percentageToBasisPoints(101)).to.throw("Invalid percentage");
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createMerkleDistribution,
+  hashLeaf,
+  loadMerkleDistribution,
+  saveMerkleDistribution,
+  verifyClaim,
+  verifyMerkleProof,
+} from "../utils/merkle";
+import { generateRandomAddresses } from "../utils/helpers";
+
+describe("EpicStarterMerkleDistributor", function () {
+  // Constants
+  const CLAIM_WINDOW = 30 * 24 * 60 * 60;
+
+  // Fixtures
+  async function deployDistributorFixture() {
+    const [owner, ...recipients] = (await ethers.getSigners()).slice(0, 6);
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+
+    // Signers plus random addresses so the tree has an odd number of leaves
+    const addresses = [...recipients.map((recipient) => recipient.address), ...generateRandomAddresses(6)];
+    const amounts = addresses.map((_, index) => ethers.parseEther(String(1000 * (index + 1))));
+    const built = createMerkleDistribution(addresses, amounts);
+
+    // Round-trip the proofs through the JSON export
+    const filepath = path.join(os.tmpdir(), `epcs-airdrop-${Date.now()}.json`);
+    saveMerkleDistribution(filepath, built);
+    const distribution = loadMerkleDistribution(filepath);
+    fs.unlinkSync(filepath);
+
+    const deadline = (await time.latest()) + CLAIM_WINDOW;
+    const DistributorFactory = await ethers.getContractFactory("EpicStarterMerkleDistributor");
+    const distributor = await DistributorFactory.deploy(
+      await token.getAddress(),
+      distribution.merkleRoot,
+      deadline,
+      owner.address,
+    );
+
+    await token.connect(owner).transfer(await distributor.getAddress(), distribution.total);
+
+    return { token, distributor, distribution, owner, recipients, deadline };
+  }
+
+  describe("Merkle Helpers", function () {
+    it("Should export proofs that verify in TypeScript", async function () {
+      const { distribution } = await loadFixture(deployDistributorFixture);
+
+      expect(Object.keys(distribution.claims)).to.have.length(11);
+      for (const account of Object.keys(distribution.claims)) {
+        expect(verifyClaim(distribution, account)).to.be.true;
+      }
+    });
+
+    it("Should reject tampered amounts and foreign proofs", async function () {
+      const { distribution, recipients } = await loadFixture(deployDistributorFixture);
+
+      const account = recipients[0].address;
+      const claim = distribution.claims[account];
+      const otherClaim = distribution.claims[recipients[1].address];
+      const root = distribution.merkleRoot;
+
+      expect(verifyMerkleProof(hashLeaf(account, claim.amount + 1n), claim.proof, root)).to.be.false;
+      expect(verifyMerkleProof(hashLeaf(account, claim.amount), otherClaim.proof, root)).to.be.false;
+    });
+
+    it("Should reject duplicate addresses", async function () {
+      const [address] = generateRandomAddresses(1);
+
+      expect(() => createMerkleDistribution([address, address.toLowerCase()], [1n, 2n]))
+        .to.throw("Duplicate address");
+    });
+
+    it("Should build a single-leaf tree", async function () {
+      const [address] = generateRandomAddresses(1);
+      const distribution = createMerkleDistribution([address], [5n]);
+
+      expect(distribution.merkleRoot).to.equal(hashLeaf(address, 5n));
+      expect(verifyClaim(distribution, address)).to.be.true;
+    });
+  });
+
+  describe("Deployment", function () {
+    it("Should deploy with correct parameters", async function () {
+      const { token, distributor, distribution, owner, deadline } = await loadFixture(deployDistributorFixture);
+
+      expect(await distributor.token()).to.equal(await token.getAddress());
+      expect(await distributor.merkleRoot()).to.equal(distribution.merkleRoot);
+      expect(await distributor.claimDeadline()).to.equal(deadline);
+      expect(await distributor.owner()).to.equal(owner.address);
+    });
+
+    it("Should revert with a past deadline or empty root", async function () {
+      const { token, distribution, owner } = await loadFixture(deployDistributorFixture);
+      const DistributorFactory = await ethers.getContractFactory("EpicStarterMerkleDistributor");
+      const tokenAddress = await token.getAddress();
+      const now = await time.latest();
+
+      await expect(
+        DistributorFactory.deploy(tokenAddress, distribution.merkleRoot, now, owner.address),
+      ).to.be.revertedWithCustomError(DistributorFactory, "AirdropInvalidDeadline");
+      await expect(
+        DistributorFactory.deploy(tokenAddress, ethers.ZeroHash, now + CLAIM_WINDOW, owner.address),
+      ).to.be.revertedWithCustomError(DistributorFactory, "AirdropInvalidRoot");
+    });
+  });
+
+  describe("Claims", function () {
+    it("Should accept every helper-generated proof on-chain", async function () {
+      const { token, distributor, distribution, owner } = await loadFixture(deployDistributorFixture);
+
+      // Claims can be submitted by anyone; tokens always go to the account in the leaf
+      for (const [account, claim] of Object.entries(distribution.claims)) {
+        await expect(distributor.connect(owner).claim(account, claim.amount, claim.proof))
+          .to.emit(distributor, "Claimed")
+          .withArgs(account, claim.amount);
+
+        expect(await token.balanceOf(account)).to.equal(claim.amount);
+        expect(await distributor.isClaimed(account)).to.be.true;
+      }
+
+      expect(await distributor.totalClaimed()).to.equal(distribution.total);
+      expect(await token.balanceOf(await distributor.getAddress())).to.equal(0);
+    });
+
+    it("Should reject double claims", async function () {
+      const { distributor, distribution, recipients } = await loadFixture(deployDistributorFixture);
+
+      const claim = distribution.claims[recipients[0].address];
+      await distributor.connect(recipients[0]).claim(recipients[0].address, claim.amount, claim.proof);
+
+      await expect(
+        distributor.connect(recipients[0]).claim(recipients[0].address, claim.amount, claim.proof),
+      ).to.be.revertedWithCustomError(distributor, "AirdropAlreadyClaimed");
+    });
+
+    it("Should reject invalid proofs", async function () {
+      const { distributor, distribution, recipients } = await loadFixture(deployDistributorFixture);
+
+      const claim = distribution.claims[recipients[0].address];
+
+      await expect(
+        distributor.connect(recipients[0]).claim(recipients[0].address, claim.amount + 1n, claim.proof),
+      ).to.be.revertedWithCustomError(distributor, "AirdropInvalidProof");
+      await expect(
+        distributor.connect(recipients[1]).claim(recipients[1].address, claim.amount, claim.proof),
+      ).to.be.revertedWithCustomError(distributor, "AirdropInvalidProof");
+    });
+
+    it("Should reject claims after the deadline", async function () {
+      const { distributor, distribution, recipients, deadline } = await loadFixture(deployDistributorFixture);
+
+      await time.increaseTo(deadline + 1);
+
+      const claim = distribution.claims[recipients[0].address];
+      await expect(
+        distributor.connect(recipients[0]).claim(recipients[0].address, claim.amount, claim.proof),
+      ).to.be.revertedWithCustomError(distributor, "AirdropExpired");
+    });
+  });
+
+  describe("Sweep", function () {
+    it("Should only sweep after the deadline", async function () {
+      const { token, distributor, distribution, owner, recipients, deadline } = await loadFixture(
+        deployDistributorFixture,
+      );
+
+      const claim = distribution.claims[recipients[0].address];
+      await distributor.connect(recipients[0]).claim(recipients[0].address, claim.amount, claim.proof);
+
+      await expect(
+        distributor.connect(owner).sweep(owner.address),
+      ).to.be.revertedWithCustomError(distributor, "AirdropNotExpired");
+
+      await time.increaseTo(deadline + 1);
+
+      const unclaimed = distribution.total - claim.amount;
+      await expect(distributor.connect(owner).sweep(owner.address))
+        .to.emit(distributor, "Swept")
+        .withArgs(owner.address, unclaimed);
+
+      expect(await token.balanceOf(await distributor.getAddress())).to.equal(0);
+    });
+
+    it("Should only allow owner to sweep", async function () {
+      const { distributor, recipients, deadline } = await loadFixture(deployDistributorFixture);
+
+      await time.increaseTo(deadline + 1);
+
+      await expect(
+        distributor.connect(recipients[0]).sweep(recipients[0].address),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+});
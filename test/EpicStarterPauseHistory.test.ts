@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { fetchPauseHistory } from "../scripts/pause-history";
+import { decodeReasonCode } from "../utils/helpers";
+
+describe("EpicStarterPauseHistory", function () {
+  const HOUR = 60 * 60;
+  const MAINTENANCE = ethers.encodeBytes32String("MAINTENANCE");
+
+  // Fixtures
+  async function deployPauseFixture() {
+    const [owner, pauser, addr1] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("1000"));
+    await token.connect(owner).grantRole(await token.PAUSER_ROLE(), pauser.address);
+
+    return { token, owner, pauser, addr1 };
+  }
+
+  describe("Pause Records", function () {
+    it("Should record initiator, reason, start and end of each pause", async function () {
+      const { token, owner, pauser } = await loadFixture(deployPauseFixture);
+
+      await token.connect(pauser).pauseWithReason(MAINTENANCE, 0);
+      const startedAt = await time.latest();
+      await time.increase(HOUR);
+      await token.connect(owner).unpause();
+      const endedAt = await time.latest();
+
+      const record = await token.getPauseRecord(0);
+      expect(record.initiator).to.equal(pauser.address);
+      expect(record.reason).to.equal(MAINTENANCE);
+      expect(record.startedAt).to.equal(startedAt);
+      expect(record.endedAt).to.equal(endedAt);
+      expect(record.expiresAt).to.equal(0);
+      expect(record.emergency).to.be.false;
+      expect(await token.getPauseTimestamp(0)).to.equal(startedAt);
+      await expect(token.getPauseRecord(1)).to.be.revertedWith("Invalid pause index");
+    });
+
+    it("Should resume transfers after the auto-expiry without an unpause", async function () {
+      const { token, pauser, addr1 } = await loadFixture(deployPauseFixture);
+
+      await token.connect(pauser).pauseWithReason(MAINTENANCE, HOUR);
+      const expiresAt = (await time.latest()) + HOUR;
+      await expect(token.connect(addr1).transfer(pauser.address, 1))
+        .to.be.revertedWithCustomError(token, "TokenPaused");
+      expect((await token.getPauseInfo()).resumesAt).to.equal(expiresAt);
+
+      await time.increaseTo(expiresAt);
+      expect(await token.paused()).to.be.false;
+      await expect(token.connect(addr1).transfer(pauser.address, 1)).to.not.be.reverted;
+      await expect(token.connect(pauser).unpause()).to.be.revertedWithCustomError(token, "TokenNotPaused");
+      expect((await token.getPauseRecord(0)).endedAt).to.equal(expiresAt);
+
+      // The next pause closes the expired record for good
+      await token.connect(pauser).pause();
+      expect((await token.getPauseRecord(0)).endedAt).to.equal(expiresAt);
+      expect((await token.getPauseInfo()).pauseCount).to.equal(2);
+    });
+
+    it("Should turn an expiring pause into an open emergency pause", async function () {
+      const { token, owner, pauser } = await loadFixture(deployPauseFixture);
+
+      await token.connect(pauser).pauseWithReason(MAINTENANCE, HOUR);
+      await expect(token.connect(pauser).pauseWithReason(MAINTENANCE, HOUR))
+        .to.be.revertedWithCustomError(token, "TokenAlreadyPaused");
+      await token.connect(owner).emergencyPause();
+
+      await time.increase(2 * HOUR);
+      const record = await token.getPauseRecord(0);
+      expect(await token.paused()).to.be.true;
+      expect(await token.isEmergencyPaused()).to.be.true;
+      expect(record.emergency).to.be.true;
+      expect(record.expiresAt).to.equal(0);
+      expect(record.endedAt).to.equal(0);
+      expect(await token.getPauseCount()).to.equal(1);
+    });
+  });
+
+  describe("History", function () {
+    it("Should render the timeline and the total downtime", async function () {
+      const { token, owner, pauser } = await loadFixture(deployPauseFixture);
+
+      await token.connect(pauser).pauseWithReason(MAINTENANCE, HOUR);
+      await time.increase(3 * HOUR);
+      await token.connect(pauser).pause();
+      await time.increase(2 * HOUR);
+      await token.connect(owner).unpause();
+      await token.connect(owner).emergencyPause();
+      await time.increase(30 * 60);
+
+      const history = await fetchPauseHistory(token, await time.latest());
+      expect(history.entries.map((entry) => [entry.reason, entry.endedBy, entry.duration])).to.deep.equal([
+        ["MAINTENANCE", "expiry", HOUR],
+        ["", "unpause", 2 * HOUR + 1],
+        ["EMERGENCY", null, 30 * 60],
+      ]);
+      expect(history.entries[0].initiator).to.equal(pauser.address);
+      expect(history.entries[2].emergency).to.be.true;
+      expect(history.totalDowntime).to.equal(3 * HOUR + 30 * 60 + 1);
+      expect(history.paused).to.be.true;
+      expect(decodeReasonCode(ethers.id("not a string"))).to.equal(ethers.id("not a string"));
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { signPermit } from "../utils/permit";
+import { PAUSE_SCOPES, getPauseScopeReport } from "../scripts/pause-history";
+
+describe("EpicStarterPauseScopes", function () {
+  const TRANSFER = 0;
+  const TRANSFER_FROM = 1;
+  const APPROVE = 2;
+  const BURN = 3;
+  const BATCH_TRANSFER = 4;
+  const EMERGENCY_WITHDRAW = 5;
+  const AMOUNT = ethers.parseEther("10");
+
+  // Fixtures
+  async function deployScopesFixture() {
+    const [owner, addr1, addr2, outsider] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    const tokenAddress = await token.getAddress();
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("1000"));
+    await token.connect(owner).transfer(tokenAddress, AMOUNT);
+    await token.connect(addr1).approve(addr2.address, ethers.parseEther("100"));
+
+    return { token, tokenAddress, owner, addr1, addr2, outsider };
+  }
+
+  describe("Scopes", function () {
+    it("Should halt each operation only while its own scope is paused", async function () {
+      const { token, tokenAddress, owner, addr1, addr2 } = await loadFixture(deployScopesFixture);
+      const deadline = (await time.latest()) + 3600;
+      const permit = await signPermit(addr1, token, addr2.address, AMOUNT, deadline);
+      const operations: [number, () => Promise<unknown>][] = [
+        [TRANSFER, () => token.connect(addr1).transfer(addr2.address, AMOUNT)],
+        [TRANSFER_FROM, () => token.connect(addr2).transferFrom(addr1.address, addr2.address, AMOUNT)],
+        [APPROVE, () => token.connect(addr1).approve(addr2.address, AMOUNT)],
+        [APPROVE, () => token.connect(addr1).increaseAllowance(addr2.address, AMOUNT)],
+        [APPROVE, () => token.permit(addr1.address, addr2.address, AMOUNT, deadline, permit.v, permit.r, permit.s)],
+        [BURN, () => token.connect(addr1).burn(AMOUNT)],
+        [BURN, () => token.connect(addr2).burnFrom(addr1.address, AMOUNT)],
+        [BURN, () => token.connect(addr1).burnForSwap(AMOUNT, "epc1destination")],
+        [BATCH_TRANSFER, () => token.connect(addr1).batchTransfer([addr2.address], [AMOUNT])],
+        [EMERGENCY_WITHDRAW, () => token.connect(owner).emergencyWithdraw(tokenAddress, owner.address, 1)],
+      ];
+
+      await token.connect(owner).setScopePaused(TRANSFER, true);
+      await token.connect(owner).setScopePaused(APPROVE, true);
+      await token.connect(owner).setScopePaused(BURN, true);
+      await token.connect(owner).setScopePaused(EMERGENCY_WITHDRAW, true);
+
+      for (const [scope, operation] of operations) {
+        if (scope === TRANSFER_FROM || scope === BATCH_TRANSFER) {
+          await expect(operation()).to.not.be.reverted;
+        } else {
+          await expect(operation()).to.be.revertedWithCustomError(token, "TokenScopePaused").withArgs(scope);
+        }
+      }
+
+      await token.connect(owner).setScopePaused(TRANSFER_FROM, true);
+      await token.connect(owner).setScopePaused(BATCH_TRANSFER, true);
+      await token.connect(owner).setScopePaused(TRANSFER, false);
+      await expect(operations[1][1]()).to.be.revertedWithCustomError(token, "TokenScopePaused").withArgs(TRANSFER_FROM);
+      await expect(operations[8][1]()).to.be.revertedWithCustomError(token, "TokenScopePaused")
+        .withArgs(BATCH_TRANSFER);
+      await expect(operations[0][1]()).to.not.be.reverted;
+      expect(await token.paused()).to.be.false;
+    });
+
+    it("Should only let pausers change scopes and reject no-op updates", async function () {
+      const { token, owner, outsider } = await loadFixture(deployScopesFixture);
+
+      await expect(token.connect(outsider).setScopePaused(BURN, true)).to.be.reverted;
+      await expect(token.connect(owner).setScopePaused(BURN, false))
+        .to.be.revertedWithCustomError(token, "TokenNotPaused");
+      await expect(token.connect(owner).setScopePaused(BURN, true))
+        .to.emit(token, "PauseScopeUpdated")
+        .withArgs(BURN, true, owner.address);
+      await expect(token.connect(owner).setScopePaused(BURN, true))
+        .to.be.revertedWithCustomError(token, "TokenAlreadyPaused");
+    });
+  });
+
+  describe("Scope Matrix", function () {
+    it("Should report scopes halted by the global pause and by their own pause", async function () {
+      const { token, owner } = await loadFixture(deployScopesFixture);
+
+      await token.connect(owner).pause();
+      await token.connect(owner).setScopePaused(APPROVE, true);
+
+      const matrix = await token.getPauseScopeMatrix();
+      expect([...matrix.scopePaused]).to.deep.equal([false, false, true, false, false, false]);
+      expect([...matrix.halted]).to.deep.equal([true, true, true, false, true, false]);
+      expect([...(await token.checkBatchOperations([TRANSFER, BURN, APPROVE]))]).to.deep.equal([false, true, false]);
+      expect(await token.isScopePaused(BATCH_TRANSFER)).to.be.true;
+
+      const report = await getPauseScopeReport(token);
+      expect(report.map((entry) => entry.scope)).to.deep.equal(PAUSE_SCOPES);
+      expect(report.filter((entry) => entry.halted).map((entry) => entry.scope))
+        .to.deep.equal(["transfer", "transferFrom", "approve", "batchTransfer"]);
+
+      await token.connect(owner).unpause();
+      expect([...(await token.getPauseScopeMatrix()).halted]).to.deep.equal([false, false, true, false, false, false]);
+    });
+  });
+});
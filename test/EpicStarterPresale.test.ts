@@ -0,0 +1,264 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("EpicStarterPresale", function () {
+  // Constants
+  const PRICE = ethers.parseEther("0.0001"); // 0.0001 BNB per EPCS
+  const HARD_CAP = ethers.parseEther("10");
+  const MIN_CONTRIBUTION = ethers.parseEther("0.1");
+  const MAX_CONTRIBUTION = ethers.parseEther("2");
+  const PRESALE_SUPPLY = ethers.parseEther("1000000");
+
+  // Fixtures
+  async function deployPresaleFixture() {
+    const [owner, buyer1, buyer2, buyer3] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+
+    const PresaleFactory = await ethers.getContractFactory("EpicStarterPresale");
+    const presale = await PresaleFactory.deploy(await token.getAddress(), owner.address);
+
+    return { token, presale, owner, buyer1, buyer2, buyer3 };
+  }
+
+  async function openRoundFixture() {
+    const { token, presale, owner, buyer1, buyer2, buyer3 } = await loadFixture(deployPresaleFixture);
+
+    await token.connect(owner).transfer(await presale.getAddress(), PRESALE_SUPPLY);
+
+    const start = (await time.latest()) + 60;
+    const end = start + 7 * 24 * 60 * 60;
+    await presale.connect(owner).addRound(PRICE, HARD_CAP, MIN_CONTRIBUTION, MAX_CONTRIBUTION, start, end);
+    await presale.connect(owner).openRound(0);
+    await time.increaseTo(start);
+
+    return { token, presale, owner, buyer1, buyer2, buyer3, start, end };
+  }
+
+  describe("Deployment", function () {
+    it("Should deploy with correct parameters", async function () {
+      const { token, presale, owner } = await loadFixture(deployPresaleFixture);
+
+      expect(await presale.token()).to.equal(await token.getAddress());
+      expect(await presale.owner()).to.equal(owner.address);
+      expect(await presale.roundCount()).to.equal(0);
+    });
+
+    it("Should revert if deployed with zero addresses", async function () {
+      const { token, owner } = await loadFixture(deployPresaleFixture);
+      const PresaleFactory = await ethers.getContractFactory("EpicStarterPresale");
+
+      await expect(
+        PresaleFactory.deploy(ethers.ZeroAddress, owner.address),
+      ).to.be.revertedWithCustomError(PresaleFactory, "PresaleInvalidAddress");
+      await expect(
+        PresaleFactory.deploy(await token.getAddress(), ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(PresaleFactory, "PresaleInvalidAddress");
+    });
+  });
+
+  describe("Round Management", function () {
+    it("Should add a round", async function () {
+      const { presale, owner } = await loadFixture(deployPresaleFixture);
+
+      const start = (await time.latest()) + 60;
+      const end = start + 3600;
+
+      await expect(presale.connect(owner).addRound(PRICE, HARD_CAP, MIN_CONTRIBUTION, MAX_CONTRIBUTION, start, end))
+        .to.emit(presale, "RoundAdded")
+        .withArgs(0, PRICE, HARD_CAP, start, end);
+
+      const round = await presale.getRound(0);
+      expect(round.price).to.equal(PRICE);
+      expect(round.hardCap).to.equal(HARD_CAP);
+      expect(round.status).to.equal(0);
+    });
+
+    it("Should reject invalid round configuration", async function () {
+      const { presale, owner } = await loadFixture(deployPresaleFixture);
+
+      const start = (await time.latest()) + 60;
+
+      await expect(
+        presale.connect(owner).addRound(0, HARD_CAP, MIN_CONTRIBUTION, MAX_CONTRIBUTION, start, start + 3600),
+      ).to.be.revertedWithCustomError(presale, "PresaleInvalidRoundConfig");
+      await expect(
+        presale.connect(owner).addRound(PRICE, HARD_CAP, MAX_CONTRIBUTION, MIN_CONTRIBUTION, start, start + 3600),
+      ).to.be.revertedWithCustomError(presale, "PresaleInvalidRoundConfig");
+      await expect(
+        presale.connect(owner).addRound(PRICE, HARD_CAP, MIN_CONTRIBUTION, MAX_CONTRIBUTION, start, start),
+      ).to.be.revertedWithCustomError(presale, "PresaleInvalidRoundConfig");
+    });
+
+    it("Should only allow owner to manage rounds", async function () {
+      const { presale, buyer1 } = await loadFixture(deployPresaleFixture);
+
+      const start = (await time.latest()) + 60;
+
+      await expect(
+        presale.connect(buyer1).addRound(PRICE, HARD_CAP, MIN_CONTRIBUTION, MAX_CONTRIBUTION, start, start + 3600),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("Should not open a round without enough tokens for the hard cap", async function () {
+      const { presale, owner } = await loadFixture(deployPresaleFixture);
+
+      const start = (await time.latest()) + 60;
+      await presale.connect(owner).addRound(PRICE, HARD_CAP, MIN_CONTRIBUTION, MAX_CONTRIBUTION, start, start + 3600);
+
+      await expect(
+        presale.connect(owner).openRound(0),
+      ).to.be.revertedWithCustomError(presale, "PresaleInsufficientTokens");
+    });
+
+    it("Should allow only one open round at a time", async function () {
+      const { presale, owner, end } = await loadFixture(openRoundFixture);
+
+      await presale.connect(owner).addRound(PRICE * 2n, HARD_CAP, MIN_CONTRIBUTION, MAX_CONTRIBUTION, end, end + 3600);
+
+      await expect(
+        presale.connect(owner).openRound(1),
+      ).to.be.revertedWithCustomError(presale, "PresaleRoundAlreadyOpen");
+
+      await expect(presale.connect(owner).closeRound(0))
+        .to.emit(presale, "RoundClosed")
+        .withArgs(0, 0, 0);
+
+      await expect(presale.connect(owner).openRound(1))
+        .to.emit(presale, "RoundOpened")
+        .withArgs(1);
+
+      const [isOpen, roundId] = await presale.activeRound();
+      expect(isOpen).to.be.true;
+      expect(roundId).to.equal(1);
+    });
+
+    it("Should not reopen a closed round", async function () {
+      const { presale, owner } = await loadFixture(openRoundFixture);
+
+      await presale.connect(owner).closeRound(0);
+
+      await expect(
+        presale.connect(owner).openRound(0),
+      ).to.be.revertedWithCustomError(presale, "PresaleRoundNotPending");
+    });
+  });
+
+  describe("Purchasing", function () {
+    it("Should sell tokens at the round price", async function () {
+      const { token, presale, buyer1 } = await loadFixture(openRoundFixture);
+
+      const value = ethers.parseEther("1");
+      const expectedTokens = ethers.parseEther("10000");
+
+      await expect(presale.connect(buyer1).buy({ value }))
+        .to.emit(presale, "TokensPurchased")
+        .withArgs(0, buyer1.address, value, expectedTokens);
+
+      expect(await token.balanceOf(buyer1.address)).to.equal(expectedTokens);
+      expect(await presale.contributionOf(0, buyer1.address)).to.equal(value);
+      expect(await presale.purchasedOf(buyer1.address)).to.equal(expectedTokens);
+      expect(await presale.totalRaised()).to.equal(value);
+      expect(await presale.totalSold()).to.equal(expectedTokens);
+    });
+
+    it("Should reject purchases outside the round window", async function () {
+      const { presale, buyer1, end } = await loadFixture(openRoundFixture);
+
+      await time.increaseTo(end + 1);
+
+      await expect(
+        presale.connect(buyer1).buy({ value: ethers.parseEther("1") }),
+      ).to.be.revertedWithCustomError(presale, "PresaleRoundNotActive");
+    });
+
+    it("Should reject purchases when no round is open", async function () {
+      const { presale, buyer1 } = await loadFixture(deployPresaleFixture);
+
+      await expect(
+        presale.connect(buyer1).buy({ value: ethers.parseEther("1") }),
+      ).to.be.revertedWithCustomError(presale, "PresaleRoundNotActive");
+    });
+
+    it("Should enforce wallet contribution limits", async function () {
+      const { presale, buyer1 } = await loadFixture(openRoundFixture);
+
+      await expect(
+        presale.connect(buyer1).buy({ value: ethers.parseEther("0.05") }),
+      ).to.be.revertedWithCustomError(presale, "PresaleBelowMinContribution");
+
+      await presale.connect(buyer1).buy({ value: ethers.parseEther("1.5") });
+
+      await expect(
+        presale.connect(buyer1).buy({ value: ethers.parseEther("1") }),
+      ).to.be.revertedWithCustomError(presale, "PresaleAboveMaxContribution");
+
+      // Top-ups below the minimum are fine once the cumulative minimum is met
+      await expect(presale.connect(buyer1).buy({ value: ethers.parseEther("0.05") })).to.not.be.reverted;
+    });
+
+    it("Should enforce the round hard cap", async function () {
+      const { token, presale, owner, end } = await loadFixture(openRoundFixture);
+
+      await presale.connect(owner).closeRound(0);
+      await presale.connect(owner).addRound(PRICE, ethers.parseEther("3"), 0, MAX_CONTRIBUTION, end, end + 3600);
+      await presale.connect(owner).openRound(1);
+      await time.increaseTo(end);
+
+      const signers = await ethers.getSigners();
+      await presale.connect(signers[1]).buy({ value: ethers.parseEther("2") });
+
+      await expect(
+        presale.connect(signers[2]).buy({ value: ethers.parseEther("1.5") }),
+      ).to.be.revertedWithCustomError(presale, "PresaleHardCapExceeded");
+
+      await presale.connect(signers[2]).buy({ value: ethers.parseEther("1") });
+
+      const round = await presale.getRound(1);
+      expect(round.raised).to.equal(ethers.parseEther("3"));
+      expect(await token.balanceOf(signers[2].address)).to.equal(ethers.parseEther("10000"));
+    });
+  });
+
+  describe("Withdrawals", function () {
+    it("Should withdraw proceeds to the owner", async function () {
+      const { presale, owner, buyer1, buyer2 } = await loadFixture(openRoundFixture);
+
+      const value = ethers.parseEther("1");
+      await presale.connect(buyer1).buy({ value });
+
+      await expect(
+        presale.connect(owner).withdrawProceeds(buyer2.address, value),
+      ).to.changeEtherBalances([presale, buyer2], [-value, value]);
+    });
+
+    it("Should withdraw unsold tokens only when no round is open", async function () {
+      const { token, presale, owner, buyer1 } = await loadFixture(openRoundFixture);
+
+      await presale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+      const available = await presale.availableTokens();
+
+      await expect(
+        presale.connect(owner).withdrawUnsoldTokens(owner.address, available),
+      ).to.be.revertedWithCustomError(presale, "PresaleRoundAlreadyOpen");
+
+      await presale.connect(owner).closeRound(0);
+
+      await expect(presale.connect(owner).withdrawUnsoldTokens(owner.address, available))
+        .to.emit(presale, "UnsoldTokensWithdrawn")
+        .withArgs(owner.address, available);
+
+      expect(await token.balanceOf(await presale.getAddress())).to.equal(0);
+    });
+
+    it("Should only allow owner to withdraw", async function () {
+      const { presale, buyer1 } = await loadFixture(openRoundFixture);
+
+      await expect(
+        presale.connect(buyer1).withdrawProceeds(buyer1.address, 1),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  RoleChange,
+  TOKEN_ROLES,
+  applyRolePlan,
+  auditRoles,
+  loadRolePolicy,
+  parseRolePolicy,
+  planRoleChanges,
+  saveRoleAudit,
+} from "../scripts/roles";
+
+describe("EpicStarterRoles", function () {
+  // Fixtures
+  async function deployRolesFixture() {
+    const [owner, addr1, addr2] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    // Any deployed contract will do as a contract role member
+    const other = await EpicStarterTokenFactory.deploy(owner.address);
+
+    return { token, other, owner, addr1, addr2 };
+  }
+
+  describe("Audit", function () {
+    it("Should list every member of every role with its admin", async function () {
+      const { token, owner } = await loadFixture(deployRolesFixture);
+
+      const audit = await auditRoles(token);
+
+      expect(audit.tokenAddress).to.equal(await token.getAddress());
+      expect(audit.roles.map((role) => role.name)).to.deep.equal([...TOKEN_ROLES]);
+      for (const role of audit.roles) {
+        expect(role.admin).to.equal("DEFAULT_ADMIN_ROLE");
+        expect(role.members).to.deep.equal([{ address: owner.address, kind: "eoa" }]);
+      }
+    });
+
+    it("Should flag contract members and sort members by address", async function () {
+      const { token, other, owner, addr1, addr2 } = await loadFixture(deployRolesFixture);
+      const BURNER_ROLE = await token.BURNER_ROLE();
+      const otherAddress = await other.getAddress();
+
+      await token.connect(owner).grantRole(BURNER_ROLE, addr2.address);
+      await token.connect(owner).grantRole(BURNER_ROLE, otherAddress);
+      await token.connect(owner).grantRole(BURNER_ROLE, addr1.address);
+
+      const audit = await auditRoles(token);
+      const burners = audit.roles.find((role) => role.name === "BURNER_ROLE");
+
+      const expected = [owner.address, addr1.address, addr2.address, otherAddress]
+        .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()));
+      expect(burners?.members.map((member) => member.address)).to.deep.equal(expected);
+      expect(burners?.members.find((member) => member.address === otherAddress)?.kind).to.equal("contract");
+      expect(burners?.members.filter((member) => member.kind === "eoa")).to.have.length(3);
+    });
+
+    it("Should write JSON that diffs cleanly between audits", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployRolesFixture);
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "roles-"));
+
+      try {
+        const before = path.join(dir, "before.json");
+        const after = path.join(dir, "after.json");
+
+        saveRoleAudit(before, await auditRoles(token));
+        await token.connect(owner).grantRole(await token.PAUSER_ROLE(), addr1.address);
+        saveRoleAudit(after, await auditRoles(token));
+
+        const [beforeAudit, afterAudit] = [before, after].map((file) => JSON.parse(fs.readFileSync(file, "utf8")));
+        expect(afterAudit.roles[1].members).to.have.length(beforeAudit.roles[1].members.length + 1);
+        expect(afterAudit.roles[0]).to.deep.equal(beforeAudit.roles[0]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Policy", function () {
+    const approve = async () => true;
+
+    it("Should plan grants first and admin revokes last", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployRolesFixture);
+
+      const changes = await planRoleChanges(token, {
+        DEFAULT_ADMIN_ROLE: [addr1.address],
+        PAUSER_ROLE: [owner.address, addr2.address],
+        BURNER_ROLE: [],
+      });
+
+      expect(changes).to.deep.equal([
+        { action: "grant", role: "DEFAULT_ADMIN_ROLE", account: addr1.address },
+        { action: "grant", role: "PAUSER_ROLE", account: addr2.address },
+        { action: "revoke", role: "BURNER_ROLE", account: owner.address },
+        { action: "revoke", role: "DEFAULT_ADMIN_ROLE", account: owner.address },
+      ]);
+    });
+
+    it("Should apply a plan until no drift is left", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployRolesFixture);
+      const policy = {
+        DEFAULT_ADMIN_ROLE: [addr1.address],
+        PAUSER_ROLE: [addr1.address, addr2.address],
+        EMERGENCY_ROLE: [owner.address],
+      };
+
+      const applied = await applyRolePlan(token, owner, await planRoleChanges(token, policy), approve);
+
+      expect(applied).to.have.length(5);
+      expect(await planRoleChanges(token, policy)).to.be.empty;
+      expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.false;
+      // BURNER_ROLE is not in the policy and is left alone
+      expect(await token.hasRole(await token.BURNER_ROLE(), owner.address)).to.be.true;
+    });
+
+    it("Should skip declined changes and report them as drift", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployRolesFixture);
+      const policy = { PAUSER_ROLE: [addr1.address] };
+      const asked: RoleChange[] = [];
+
+      const applied = await applyRolePlan(token, owner, await planRoleChanges(token, policy), async (change) => {
+        asked.push(change);
+        return change.action === "grant";
+      });
+
+      expect(asked).to.have.length(2);
+      expect(applied).to.deep.equal([{ action: "grant", role: "PAUSER_ROLE", account: addr1.address }]);
+      expect(await planRoleChanges(token, policy)).to.deep.equal([
+        { action: "revoke", role: "PAUSER_ROLE", account: owner.address },
+      ]);
+    });
+
+    it("Should refuse a signer that cannot administer the roles", async function () {
+      const { token, addr1 } = await loadFixture(deployRolesFixture);
+
+      const changes = await planRoleChanges(token, { PAUSER_ROLE: [addr1.address] });
+
+      await expect(applyRolePlan(token, addr1, changes, approve)).to.be.rejectedWith("cannot administer PAUSER_ROLE");
+    });
+
+    it("Should validate policy entries", async function () {
+      const { addr1 } = await loadFixture(deployRolesFixture);
+
+      expect(parseRolePolicy({ PAUSER_ROLE: [addr1.address.toLowerCase()] }, "test")).to.deep.equal({
+        PAUSER_ROLE: [addr1.address],
+      });
+      expect(() => parseRolePolicy({ MINTER_ROLE: [] }, "test")).to.throw("unknown role MINTER_ROLE");
+      expect(() => parseRolePolicy({ PAUSER_ROLE: ["0x1234"] }, "test")).to.throw("invalid address 0x1234");
+      expect(() => parseRolePolicy({ PAUSER_ROLE: [addr1.address, addr1.address] }, "test")).to.throw("listed twice");
+      expect(() => parseRolePolicy({ DEFAULT_ADMIN_ROLE: [] }, "test")).to.throw("cannot be empty");
+      expect(() => loadRolePolicy("roles.policy.json", "nowhere")).to.throw("no policy for network nowhere");
+    });
+  });
+});
@@ -0,0 +1,424 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { reconcilePresale } from "../scripts/presale-reconcile";
+
+describe("EpicStarterSaleEscrow", function () {
+  // Constants
+  const PRICE = ethers.parseEther("0.0001"); // 0.0001 BNB per EPCS
+  const HARD_CAP = ethers.parseEther("10");
+  const SOFT_CAP = ethers.parseEther("3");
+  const MAX_CONTRIBUTION = ethers.parseEther("2");
+  const PRESALE_SUPPLY = ethers.parseEther("1000000");
+  const MAX_TGE_DELAY = 180 * 24 * 60 * 60;
+
+  enum EscrowStatus {
+    Active,
+    Succeeded,
+    Failed,
+  }
+
+  // Fixtures
+  async function deployEscrowFixture() {
+    const [owner, buyer1, buyer2, buyer3, treasury] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+
+    const PresaleFactory = await ethers.getContractFactory("EpicStarterPresale");
+    const presale = await PresaleFactory.deploy(await token.getAddress(), owner.address);
+
+    const start = (await time.latest()) + 60;
+    const end = start + 7 * 24 * 60 * 60;
+
+    const EscrowFactory = await ethers.getContractFactory("EpicStarterSaleEscrow");
+    const escrow = await EscrowFactory.deploy(
+      await token.getAddress(),
+      await presale.getAddress(),
+      SOFT_CAP,
+      end,
+      owner.address,
+    );
+
+    await presale.connect(owner).setEscrow(await escrow.getAddress());
+    await token.connect(owner).transfer(await presale.getAddress(), PRESALE_SUPPLY);
+
+    await presale.connect(owner).addRound(PRICE, HARD_CAP, 0, MAX_CONTRIBUTION, start, end);
+    await presale.connect(owner).openRound(0);
+    await time.increaseTo(start);
+
+    return { token, presale, escrow, owner, buyer1, buyer2, buyer3, treasury, end };
+  }
+
+  async function succeededSaleFixture() {
+    const fixture = await loadFixture(deployEscrowFixture);
+    const { presale, escrow, owner, buyer1, buyer2 } = fixture;
+
+    await presale.connect(buyer1).buy({ value: ethers.parseEther("2") });
+    await presale.connect(buyer2).buy({ value: ethers.parseEther("1.5") });
+    await presale.connect(owner).closeRound(0);
+    await escrow.connect(owner).finalize();
+
+    const tgeTime = (await time.latest()) + 24 * 60 * 60;
+    await escrow.connect(owner).setTGETime(tgeTime);
+
+    return { ...fixture, tgeTime };
+  }
+
+  async function failedSaleFixture() {
+    const fixture = await loadFixture(deployEscrowFixture);
+    const { presale, escrow, owner, buyer1, buyer2, end } = fixture;
+
+    await presale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+    await presale.connect(buyer2).buy({ value: ethers.parseEther("0.5") });
+    await presale.connect(owner).closeRound(0);
+    await time.increaseTo(end);
+    await escrow.connect(owner).finalize();
+
+    return fixture;
+  }
+
+  describe("Deployment", function () {
+    it("Should deploy with correct parameters", async function () {
+      const { token, presale, escrow, owner, end } = await loadFixture(deployEscrowFixture);
+
+      const info = await escrow.getEscrowInfo();
+      expect(info.tokenAddress).to.equal(await token.getAddress());
+      expect(info.saleAddress).to.equal(await presale.getAddress());
+      expect(info.softCap).to.equal(SOFT_CAP);
+      expect(info.saleEnd).to.equal(end);
+      expect(info.tgeTime).to.equal(end + MAX_TGE_DELAY);
+      expect(await escrow.tgeTime()).to.equal(end + MAX_TGE_DELAY);
+      expect(await escrow.status()).to.equal(EscrowStatus.Active);
+      expect(await escrow.owner()).to.equal(owner.address);
+      expect(await escrow.hasRole(await escrow.EMERGENCY_ROLE(), owner.address)).to.be.true;
+      expect(await presale.escrow()).to.equal(await escrow.getAddress());
+    });
+
+    it("Should revert if deployed with invalid parameters", async function () {
+      const { token, presale, owner, end } = await loadFixture(deployEscrowFixture);
+      const EscrowFactory = await ethers.getContractFactory("EpicStarterSaleEscrow");
+      const tokenAddress = await token.getAddress();
+      const presaleAddress = await presale.getAddress();
+
+      await expect(
+        EscrowFactory.deploy(ethers.ZeroAddress, presaleAddress, SOFT_CAP, end, owner.address),
+      ).to.be.revertedWithCustomError(EscrowFactory, "EscrowInvalidAddress");
+      await expect(
+        EscrowFactory.deploy(tokenAddress, ethers.ZeroAddress, SOFT_CAP, end, owner.address),
+      ).to.be.revertedWithCustomError(EscrowFactory, "EscrowInvalidAddress");
+      await expect(
+        EscrowFactory.deploy(tokenAddress, presaleAddress, 0, end, owner.address),
+      ).to.be.revertedWithCustomError(EscrowFactory, "EscrowInvalidAmount");
+      await expect(
+        EscrowFactory.deploy(tokenAddress, presaleAddress, SOFT_CAP, await time.latest(), owner.address),
+      ).to.be.revertedWithCustomError(EscrowFactory, "EscrowInvalidTime");
+    });
+  });
+
+  describe("Deposits", function () {
+    it("Should escrow BNB and tokens for presale purchases", async function () {
+      const { token, presale, escrow, buyer1 } = await loadFixture(deployEscrowFixture);
+
+      const value = ethers.parseEther("1");
+      const expectedTokens = ethers.parseEther("10000");
+
+      await expect(presale.connect(buyer1).buy({ value }))
+        .to.emit(escrow, "Deposited")
+        .withArgs(buyer1.address, value, expectedTokens);
+
+      expect(await token.balanceOf(buyer1.address)).to.equal(0);
+      expect(await token.balanceOf(await escrow.getAddress())).to.equal(expectedTokens);
+      expect(await ethers.provider.getBalance(await escrow.getAddress())).to.equal(value);
+      expect(await ethers.provider.getBalance(await presale.getAddress())).to.equal(0);
+      expect(await escrow.contributionOf(buyer1.address)).to.equal(value);
+      expect(await escrow.allocationOf(buyer1.address)).to.equal(expectedTokens);
+    });
+
+    it("Should only accept deposits from the sale", async function () {
+      const { escrow, buyer1 } = await loadFixture(deployEscrowFixture);
+
+      await expect(
+        escrow.connect(buyer1).deposit(buyer1.address, 1, { value: 1 }),
+      ).to.be.revertedWithCustomError(escrow, "EscrowUnauthorizedSale");
+    });
+
+    it("Should lock the presale escrow after the first sale", async function () {
+      const { presale, owner, buyer1 } = await loadFixture(deployEscrowFixture);
+
+      await presale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+
+      await expect(
+        presale.connect(owner).setEscrow(ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(presale, "PresaleEscrowLocked");
+    });
+
+    it("Should reject deposits after the sale end", async function () {
+      const { token, presale, owner, buyer1 } = await loadFixture(deployEscrowFixture);
+
+      const saleEnd = (await time.latest()) + 60;
+      const EscrowFactory = await ethers.getContractFactory("EpicStarterSaleEscrow");
+      const escrow = await EscrowFactory.deploy(
+        await token.getAddress(),
+        await presale.getAddress(),
+        SOFT_CAP,
+        saleEnd,
+        owner.address,
+      );
+      await presale.connect(owner).setEscrow(await escrow.getAddress());
+      await time.increaseTo(saleEnd);
+
+      await expect(
+        presale.connect(buyer1).buy({ value: ethers.parseEther("1") }),
+      ).to.be.revertedWithCustomError(escrow, "EscrowSaleEnded");
+    });
+  });
+
+  describe("Finalization", function () {
+    it("Should not finalize while a round is open", async function () {
+      const { escrow, owner } = await loadFixture(deployEscrowFixture);
+
+      await expect(escrow.connect(owner).finalize()).to.be.revertedWithCustomError(escrow, "EscrowSaleActive");
+    });
+
+    it("Should succeed when the soft cap is reached", async function () {
+      const { escrow } = await loadFixture(succeededSaleFixture);
+
+      expect(await escrow.status()).to.equal(EscrowStatus.Succeeded);
+    });
+
+    it("Should fail when the soft cap is missed", async function () {
+      const { escrow } = await loadFixture(failedSaleFixture);
+
+      expect(await escrow.status()).to.equal(EscrowStatus.Failed);
+    });
+
+    it("Should only allow owner to finalize before the sale end", async function () {
+      const { presale, escrow, owner, buyer1 } = await loadFixture(deployEscrowFixture);
+
+      await presale.connect(owner).closeRound(0);
+
+      await expect(
+        escrow.connect(buyer1).finalize(),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("Should not fail a sale before the sale end, even between rounds", async function () {
+      const { presale, escrow, owner, buyer1 } = await loadFixture(deployEscrowFixture);
+
+      await presale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+      await presale.connect(owner).closeRound(0);
+
+      await expect(escrow.connect(owner).finalize()).to.be.revertedWithCustomError(escrow, "EscrowSaleActive");
+    });
+
+    it("Should let anyone finalize after the sale end so refunds open without the owner", async function () {
+      const { presale, escrow, buyer1, buyer3, end } = await loadFixture(deployEscrowFixture);
+
+      const value = ethers.parseEther("1");
+      await presale.connect(buyer1).buy({ value });
+      await time.increaseTo(end);
+
+      await expect(escrow.connect(buyer3).finalize())
+        .to.emit(escrow, "Finalized")
+        .withArgs(EscrowStatus.Failed, value);
+      await expect(escrow.connect(buyer1).refund()).to.changeEtherBalances([escrow, buyer1], [-value, value]);
+    });
+  });
+
+  describe("Claims", function () {
+    it("Should release tokens only after TGE", async function () {
+      const { token, escrow, buyer1, tgeTime } = await loadFixture(succeededSaleFixture);
+
+      await expect(escrow.connect(buyer1).claim()).to.be.revertedWithCustomError(escrow, "EscrowTGENotReached");
+
+      await time.increaseTo(tgeTime);
+
+      const allocation = await escrow.allocationOf(buyer1.address);
+      await expect(escrow.connect(buyer1).claim())
+        .to.emit(escrow, "Claimed")
+        .withArgs(buyer1.address, allocation);
+
+      expect(await token.balanceOf(buyer1.address)).to.equal(allocation);
+      await expect(escrow.connect(buyer1).claim()).to.be.revertedWithCustomError(escrow, "EscrowNothingToClaim");
+    });
+
+    it("Should only bring TGE forward, and not once it has passed", async function () {
+      const { escrow, owner, tgeTime } = await loadFixture(succeededSaleFixture);
+
+      await expect(
+        escrow.connect(owner).setTGETime(tgeTime + 60),
+      ).to.be.revertedWithCustomError(escrow, "EscrowInvalidTime");
+
+      await escrow.connect(owner).setTGETime(tgeTime - 60);
+      await time.increaseTo(tgeTime - 60);
+
+      await expect(
+        escrow.connect(owner).setTGETime(tgeTime - 30),
+      ).to.be.revertedWithCustomError(escrow, "EscrowTGEStarted");
+    });
+
+    it("Should open claims MAX_TGE_DELAY after the sale end when no TGE is set", async function () {
+      const { token, presale, escrow, buyer1, buyer3, end } = await loadFixture(deployEscrowFixture);
+
+      await presale.connect(buyer1).buy({ value: ethers.parseEther("2") });
+      await presale.connect(buyer3).buy({ value: ethers.parseEther("1") });
+      await time.increaseTo(end);
+      await escrow.connect(buyer3).finalize();
+
+      await expect(escrow.connect(buyer1).claim()).to.be.revertedWithCustomError(escrow, "EscrowTGENotReached");
+
+      await time.increaseTo(end + MAX_TGE_DELAY);
+      await escrow.connect(buyer1).claim();
+      expect(await token.balanceOf(buyer1.address)).to.equal(ethers.parseEther("20000"));
+    });
+
+    it("Should not refund a successful sale", async function () {
+      const { escrow, buyer1 } = await loadFixture(succeededSaleFixture);
+
+      await expect(escrow.connect(buyer1).refund()).to.be.revertedWithCustomError(escrow, "EscrowNotFailed");
+    });
+
+    it("Should withdraw proceeds of a successful sale", async function () {
+      const { escrow, owner, treasury } = await loadFixture(succeededSaleFixture);
+
+      const raised = ethers.parseEther("3.5");
+      await expect(
+        escrow.connect(owner).withdrawProceeds(treasury.address, raised),
+      ).to.changeEtherBalances([escrow, treasury], [-raised, raised]);
+    });
+  });
+
+  describe("Refunds", function () {
+    it("Should refund contributors of a failed sale", async function () {
+      const { escrow, buyer1 } = await loadFixture(failedSaleFixture);
+
+      const value = ethers.parseEther("1");
+      const allocation = await escrow.allocationOf(buyer1.address);
+
+      await expect(escrow.connect(buyer1).refund())
+        .to.emit(escrow, "Refunded")
+        .withArgs(buyer1.address, value, allocation);
+
+      expect(await escrow.contributionOf(buyer1.address)).to.equal(0);
+      expect(await escrow.allocationOf(buyer1.address)).to.equal(0);
+      await expect(escrow.connect(buyer1).refund()).to.be.revertedWithCustomError(escrow, "EscrowNothingToRefund");
+    });
+
+    it("Should not allow claims or proceeds withdrawal for a failed sale", async function () {
+      const { escrow, owner, buyer1 } = await loadFixture(failedSaleFixture);
+
+      await expect(escrow.connect(buyer1).claim()).to.be.revertedWithCustomError(escrow, "EscrowNotSucceeded");
+      await expect(
+        escrow.connect(owner).withdrawProceeds(owner.address, 1),
+      ).to.be.revertedWithCustomError(escrow, "EscrowNotSucceeded");
+    });
+
+    it("Should release escrowed tokens of a failed sale", async function () {
+      const { token, escrow, owner } = await loadFixture(failedSaleFixture);
+
+      const escrowed = await token.balanceOf(await escrow.getAddress());
+      await expect(escrow.connect(owner).releaseUnsoldTokens(owner.address))
+        .to.emit(escrow, "UnsoldTokensReleased")
+        .withArgs(owner.address, escrowed);
+    });
+  });
+
+  describe("Emergency Functions", function () {
+    it("Should only recover EPCS not owed to contributors", async function () {
+      const { token, escrow, owner } = await loadFixture(succeededSaleFixture);
+
+      const escrowAddress = await escrow.getAddress();
+      const surplus = ethers.parseEther("500");
+      await token.connect(owner).transfer(escrowAddress, surplus);
+
+      await expect(
+        escrow.connect(owner).emergencyWithdraw(await token.getAddress(), owner.address, surplus + 1n),
+      ).to.be.revertedWithCustomError(escrow, "EscrowInvalidAmount");
+
+      await expect(escrow.connect(owner).emergencyWithdraw(await token.getAddress(), owner.address, surplus))
+        .to.emit(escrow, "EmergencyWithdraw")
+        .withArgs(await token.getAddress(), owner.address, surplus);
+    });
+
+    it("Should not recover BNB owed to contributors", async function () {
+      const { escrow, owner } = await loadFixture(failedSaleFixture);
+
+      await expect(
+        escrow.connect(owner).emergencyWithdrawBNB(owner.address, 1),
+      ).to.be.revertedWithCustomError(escrow, "EscrowInvalidAmount");
+    });
+
+    it("Should only allow EMERGENCY_ROLE to recover funds", async function () {
+      const { token, escrow, buyer1 } = await loadFixture(succeededSaleFixture);
+
+      await expect(
+        escrow.connect(buyer1).emergencyWithdraw(await token.getAddress(), buyer1.address, 1),
+      ).to.be.revertedWith(
+        `AccessControl: account ${buyer1.address.toLowerCase()} is missing role ${await escrow.EMERGENCY_ROLE()}`,
+      );
+    });
+  });
+
+  describe("Reconciliation", function () {
+    it("Should balance a successful sale after claims and unsold withdrawal", async function () {
+      const { token, presale, escrow, owner, buyer1, tgeTime } = await loadFixture(succeededSaleFixture);
+
+      await time.increaseTo(tgeTime);
+      await escrow.connect(buyer1).claim();
+      await presale.connect(owner).withdrawUnsoldTokens(owner.address, ethers.parseEther("100000"));
+
+      const report = await reconcilePresale(token, presale);
+
+      expect(report.fundedIn).to.equal(PRESALE_SUPPLY);
+      expect(report.claims).to.equal(ethers.parseEther("20000"));
+      expect(report.owed).to.equal(ethers.parseEther("15000"));
+      expect(report.claims + report.owed + report.unsold).to.equal(report.fundedIn);
+      expect(report.balanced).to.be.true;
+    });
+
+    it("Should reconcile a block range against the balances at its edges", async function () {
+      const { token, presale, escrow, owner, buyer1, buyer2, tgeTime } = await loadFixture(succeededSaleFixture);
+
+      await time.increaseTo(tgeTime);
+      const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+      await escrow.connect(buyer1).claim();
+      await presale.connect(owner).withdrawUnsoldTokens(owner.address, ethers.parseEther("100000"));
+      const toBlock = await ethers.provider.getBlockNumber();
+      await escrow.connect(buyer2).claim();
+
+      const report = await reconcilePresale(token, presale, { fromBlock, toBlock });
+
+      expect(report.fundedIn).to.equal(0);
+      expect(report.claims).to.equal(ethers.parseEther("20000"));
+      expect(report.owed).to.equal(-ethers.parseEther("20000"));
+      expect(report.unsold).to.equal(0);
+      expect(report.balanced).to.be.true;
+    });
+
+    it("Should balance a failed sale with refunds", async function () {
+      const { token, presale, escrow, buyer1 } = await loadFixture(failedSaleFixture);
+
+      await escrow.connect(buyer1).refund();
+
+      const report = await reconcilePresale(token, presale);
+
+      expect(report.claims).to.equal(0);
+      expect(report.unsold).to.equal(PRESALE_SUPPLY);
+      expect(report.contributors).to.equal(2);
+      expect(report.balanced).to.be.true;
+    });
+
+    it("Should flag EPCS that did not come from the token owner", async function () {
+      const { token, presale, owner, buyer3 } = await loadFixture(succeededSaleFixture);
+
+      await token.connect(owner).transfer(buyer3.address, ethers.parseEther("10"));
+      await token.connect(buyer3).transfer(await presale.getAddress(), ethers.parseEther("10"));
+
+      const report = await reconcilePresale(token, presale);
+
+      expect(report.balanced).to.be.false;
+      expect(report.checks[0].ok).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  exportSwapClaims,
+  fetchSwapBurns,
+  loadSwapClaim,
+  recoverSwapClaimSigner,
+  signSwapClaim,
+  validateSwapBurns,
+} from "../scripts/swap-claims";
+
+describe("EpicStarterSwapClaims", function () {
+  const DESTINATIONS = [
+    "XkP4Ytq8fHj3MZrFDN8QX5MWbpvFXQDAY9",
+    "XmK2H6sGqYp7uvT9fDL3cN8bWzRjE5aAo1",
+  ];
+
+  // Fixtures
+  async function deploySwapFixture() {
+    const [owner, addr1, addr2, operator] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("1000"));
+    await token.connect(owner).transfer(addr2.address, ethers.parseEther("1000"));
+
+    const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+    await token.connect(addr1).burnForSwap(ethers.parseEther("10"), DESTINATIONS[0]);
+    await token.connect(addr2).burnForSwap(ethers.parseEther("20"), DESTINATIONS[1]);
+    await token.connect(addr1).burnForSwap(ethers.parseEther("30"), "not-an-epicchain-address");
+
+    const tokenAddress = await token.getAddress();
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const burns = await fetchSwapBurns(token, fromBlock, await ethers.provider.getBlockNumber());
+
+    return { token, tokenAddress, chainId, addr1, addr2, operator, burns };
+  }
+
+  async function withTempDir(run: (dir: string) => Promise<void>) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "swap-claims-"));
+    try {
+      await run(dir);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  describe("Validation", function () {
+    it("Should read every burn in nonce order and reject malformed destinations", async function () {
+      const { addr1, addr2, burns } = await loadFixture(deploySwapFixture);
+
+      expect(burns.map((burn) => burn.nonce)).to.deep.equal([0n, 1n, 2n]);
+      expect(burns[1]).to.include({ burner: addr2.address, amount: ethers.parseEther("20") });
+
+      const { accepted, issues } = validateSwapBurns(burns);
+      expect(accepted.map((burn) => burn.burner)).to.deep.equal([addr1.address, addr2.address]);
+      expect(issues).to.have.length(1);
+      expect(issues[0]).to.include({ kind: "malformed", nonce: 2n });
+    });
+
+    it("Should reject duplicate nonces and report gaps", async function () {
+      const { burns } = await loadFixture(deploySwapFixture);
+
+      const forged = { ...burns[0], transactionHash: ethers.ZeroHash };
+      const { accepted, issues } = validateSwapBurns([burns[0], forged, burns[0], burns[2]], ".+");
+
+      expect(accepted.map((burn) => burn.nonce)).to.deep.equal([2n]);
+      expect(issues.map((issue) => [issue.kind, issue.nonce])).to.deep.equal([
+        ["duplicate", 0n],
+        ["gap", 2n],
+      ]);
+    });
+  });
+
+  describe("Claims", function () {
+    it("Should write one signed claim per nonce that recovers to the operator", async function () {
+      const { tokenAddress, chainId, operator, burns } = await loadFixture(deploySwapFixture);
+
+      await withTempDir(async (dir) => {
+        const { accepted } = validateSwapBurns(burns);
+        const claims = await Promise.all(
+          accepted.map((burn) => signSwapClaim(burn, chainId, tokenAddress, operator)),
+        );
+        const result = exportSwapClaims(dir, claims);
+
+        expect(result.written.map((filepath) => path.basename(filepath))).to.deep.equal(["0.json", "1.json"]);
+        const claim = loadSwapClaim(path.join(dir, "1.json"));
+        expect(claim).to.include({ nonce: "1", destination: DESTINATIONS[1] });
+        expect(claim.amount).to.equal(ethers.parseEther("20").toString());
+        expect(recoverSwapClaimSigner(claim)).to.equal(operator.address);
+
+        // Tampering with a field no longer matches the signed digest
+        expect(recoverSwapClaimSigner({ ...claim, destination: DESTINATIONS[0] })).to.be.null;
+      });
+    });
+
+    it("Should keep identical claims and flag conflicting ones on re-export", async function () {
+      const { tokenAddress, chainId, addr1, operator, burns } = await loadFixture(deploySwapFixture);
+
+      await withTempDir(async (dir) => {
+        const first = await signSwapClaim(burns[0], chainId, tokenAddress, operator);
+        exportSwapClaims(dir, [first]);
+
+        const edited = { ...burns[0], burner: addr1.address, amount: 1n };
+        const other = await signSwapClaim(edited, chainId, tokenAddress, operator);
+        const again = exportSwapClaims(dir, [first]);
+        const conflicting = exportSwapClaims(dir, [other]);
+
+        expect(again.unchanged).to.have.length(1);
+        expect(conflicting.conflicts).to.deep.equal([path.join(dir, "0.json")]);
+        expect(loadSwapClaim(path.join(dir, "0.json")).digest).to.equal(first.digest);
+      });
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  cancelOperation,
+  decodeCall,
+  encodeCall,
+  executeOperation,
+  fetchOperations,
+  getCallTargets,
+  scheduleHandoff,
+  scheduleOperation,
+} from "../scripts/timelock";
+
+describe("EpicStarterTimelock", function () {
+  const DAY = 24 * 60 * 60;
+  const DELAY = 2 * DAY;
+
+  // Fixtures
+  async function deployTimelockFixture() {
+    const [owner, addr1, guardian, outsider] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+    await token.connect(owner).transfer(addr1.address, ethers.parseEther("1000"));
+
+    const TimelockFactory = await ethers.getContractFactory("EpicStarterTimelock");
+    const timelock = await TimelockFactory.deploy(DELAY, [owner.address], [owner.address], guardian.address);
+
+    const tokenAddress = await token.getAddress();
+    const timelockAddress = await timelock.getAddress();
+    const targets = await getCallTargets(token, timelock);
+    const fromBlock = await ethers.provider.getBlockNumber();
+
+    return { token, timelock, tokenAddress, timelockAddress, targets, fromBlock, owner, addr1, guardian, outsider };
+  }
+
+  async function deployHandedOverFixture() {
+    const fixture = await loadFixture(deployTimelockFixture);
+    const { token, timelock, tokenAddress, timelockAddress, owner } = fixture;
+
+    await token.connect(owner).transferOwnership(timelockAddress);
+    const data = token.interface.encodeFunctionData("acceptOwnership");
+    await scheduleOperation(timelock, owner, tokenAddress, data);
+    await time.increase(DELAY);
+    await timelock.connect(owner).execute(tokenAddress, 0, data, ethers.ZeroHash, ethers.ZeroHash);
+
+    return fixture;
+  }
+
+  async function latestOperations(fixture: Awaited<ReturnType<typeof deployTimelockFixture>>) {
+    const { timelock, targets, fromBlock } = fixture;
+    return fetchOperations(timelock, targets, fromBlock, await ethers.provider.getBlockNumber());
+  }
+
+  describe("Deployment", function () {
+    it("Should reject a delay below the minimum and a zero guardian", async function () {
+      const { timelock, owner, guardian } = await loadFixture(deployTimelockFixture);
+      const TimelockFactory = await ethers.getContractFactory("EpicStarterTimelock");
+
+      await expect(TimelockFactory.deploy(DAY - 1, [owner.address], [owner.address], guardian.address))
+        .to.be.revertedWithCustomError(timelock, "TimelockDelayTooShort")
+        .withArgs(DAY - 1, DAY);
+      await expect(TimelockFactory.deploy(DELAY, [owner.address], [owner.address], ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(timelock, "TimelockInvalidAddress");
+
+      expect(await timelock.getMinDelay()).to.equal(DELAY);
+      expect(await timelock.isGuardian(guardian.address)).to.be.true;
+      expect(await timelock.isGuardian(owner.address)).to.be.false;
+    });
+  });
+
+  describe("Handoff", function () {
+    it("Should move ownership and the admin roles to the timelock only after the delay", async function () {
+      const fixture = await loadFixture(deployTimelockFixture);
+      const { token, timelock, tokenAddress, timelockAddress, owner } = fixture;
+
+      await token.connect(owner).transferOwnership(timelockAddress);
+      const data = token.interface.encodeFunctionData("acceptOwnership");
+      const id = await scheduleOperation(timelock, owner, tokenAddress, data);
+
+      await time.increase(DELAY - 10);
+      await expect(executeOperation(timelock, owner, await latestOperations(fixture), id))
+        .to.be.rejectedWith(`Operation ${id} is pending`);
+      await expect(timelock.connect(owner).execute(tokenAddress, 0, data, ethers.ZeroHash, ethers.ZeroHash))
+        .to.be.revertedWith("TimelockController: operation is not ready");
+
+      await time.increase(10);
+      await executeOperation(timelock, owner, await latestOperations(fixture), id);
+
+      expect(await token.owner()).to.equal(timelockAddress);
+      expect(await token.hasRole(ethers.ZeroHash, timelockAddress)).to.be.true;
+      expect(await token.hasRole(await token.BURNER_ROLE(), timelockAddress)).to.be.true;
+      expect(await token.hasRole(ethers.ZeroHash, owner.address)).to.be.false;
+    });
+
+    it("Should leave the pauser and emergency roles with the pauser", async function () {
+      const fixture = await loadFixture(deployTimelockFixture);
+      const { token, timelock, timelockAddress, owner, guardian } = fixture;
+      const instantRoles = [await token.PAUSER_ROLE(), await token.EMERGENCY_ROLE()];
+
+      const ids = await scheduleHandoff(token, timelock, owner, guardian.address);
+      expect(ids).to.have.length(5);
+      for (const role of instantRoles) {
+        expect(await token.hasRole(role, guardian.address)).to.be.true;
+      }
+
+      await time.increase(DELAY);
+      for (const id of ids) {
+        await executeOperation(timelock, owner, await latestOperations(fixture), id);
+      }
+
+      expect(await token.owner()).to.equal(timelockAddress);
+      expect(await token.hasRole(ethers.ZeroHash, timelockAddress)).to.be.true;
+      expect(await token.hasRole(await token.BURNER_ROLE(), timelockAddress)).to.be.true;
+      for (const role of instantRoles) {
+        expect(await token.hasRole(role, timelockAddress)).to.be.false;
+        expect(await token.hasRole(role, guardian.address)).to.be.true;
+        expect(await token.hasRole(role, owner.address)).to.be.false;
+      }
+      await token.connect(guardian).pause();
+    });
+
+    it("Should give the instant roles back to an owner that keeps them", async function () {
+      const fixture = await loadFixture(deployTimelockFixture);
+      const { token, timelock, timelockAddress, owner } = fixture;
+
+      const ids = await scheduleHandoff(token, timelock, owner, owner.address);
+
+      await time.increase(DELAY);
+      const [accept, ...rest] = ids;
+      await executeOperation(timelock, owner, await latestOperations(fixture), accept);
+      await expect(timelock.connect(owner).execute(
+        token.getAddress(),
+        0,
+        token.interface.encodeFunctionData("revokeRole", [await token.PAUSER_ROLE(), timelockAddress]),
+        ids[1],
+        ethers.ZeroHash,
+      )).to.be.revertedWith("TimelockController: missing dependency");
+
+      for (const id of rest) {
+        await executeOperation(timelock, owner, await latestOperations(fixture), id);
+      }
+
+      expect(await token.hasRole(await token.PAUSER_ROLE(), owner.address)).to.be.true;
+      expect(await token.hasRole(await token.EMERGENCY_ROLE(), owner.address)).to.be.true;
+      expect(await token.hasRole(await token.PAUSER_ROLE(), timelockAddress)).to.be.false;
+      expect(await token.hasRole(ethers.ZeroHash, owner.address)).to.be.false;
+    });
+  });
+
+  describe("Operations", function () {
+    it("Should list pending operations with decoded calldata and execute them once ready", async function () {
+      const fixture = await loadFixture(deployHandedOverFixture);
+      const { token, timelock, tokenAddress, targets, owner, addr1, outsider } = fixture;
+
+      // Admin calls are no longer available outside the timelock
+      await expect(token.connect(owner).emergencyBurn(addr1.address, 1)).to.be.reverted;
+
+      const burn = encodeCall(token.interface, "emergencyBurn", [addr1.address, ethers.parseEther("100").toString()]);
+      const grant = encodeCall(token.interface, "grantRole", ["BURNER_ROLE", outsider.address]);
+      const burnId = await scheduleOperation(timelock, owner, tokenAddress, burn);
+      const grantId = await scheduleOperation(timelock, owner, tokenAddress, grant);
+
+      let operations = (await latestOperations(fixture)).filter((operation) => operation.state !== "done");
+      expect(operations.map((operation) => [operation.id, operation.state])).to.deep.equal([
+        [burnId, "pending"],
+        [grantId, "pending"],
+      ]);
+      expect(operations[0].call).to.equal(
+        `token.emergencyBurn(account=${addr1.address}, amount=${ethers.parseEther("100")})`,
+      );
+      expect(operations[1].call).to.equal(`token.grantRole(role=BURNER_ROLE, account=${outsider.address})`);
+      const scheduledAt = (await ethers.provider.getBlock(operations[0].blockNumber))?.timestamp ?? 0;
+      expect(operations[0].readyAt).to.equal(scheduledAt + DELAY);
+
+      await time.increase(DELAY);
+      operations = await latestOperations(fixture);
+      await executeOperation(timelock, owner, operations, burnId);
+      await executeOperation(timelock, owner, operations, grantId);
+
+      expect(await token.balanceOf(addr1.address)).to.equal(ethers.parseEther("900"));
+      expect(await token.hasRole(await token.BURNER_ROLE(), outsider.address)).to.be.true;
+      expect(decodeCall(outsider.address, burn, targets)).to.equal(`${outsider.address}:${burn.slice(0, 10)}`);
+    });
+
+    it("Should let the guardian cancel but not schedule or execute", async function () {
+      const fixture = await loadFixture(deployHandedOverFixture);
+      const { token, timelock, tokenAddress, owner, addr1, guardian } = fixture;
+
+      const withdraw = encodeCall(token.interface, "emergencyWithdraw", [tokenAddress, addr1.address, "1"]);
+      await expect(scheduleOperation(timelock, guardian, tokenAddress, withdraw)).to.be.reverted;
+
+      const id = await scheduleOperation(timelock, owner, tokenAddress, withdraw);
+      await cancelOperation(timelock, guardian, id);
+
+      await time.increase(DELAY);
+      const operations = await latestOperations(fixture);
+      expect(operations.find((operation) => operation.id === id)?.state).to.equal("cancelled");
+      await expect(executeOperation(timelock, owner, operations, id)).to.be.rejectedWith("is cancelled");
+      await expect(timelock.connect(guardian).execute(tokenAddress, 0, withdraw, ethers.ZeroHash, ethers.ZeroHash))
+        .to.be.reverted;
+    });
+
+    it("Should keep the delay floor when the delay is lowered through the timelock", async function () {
+      const fixture = await loadFixture(deployHandedOverFixture);
+      const { timelock, timelockAddress, owner } = fixture;
+
+      const data = encodeCall(timelock.interface, "updateDelay", ["60"]);
+      const id = await scheduleOperation(timelock, owner, timelockAddress, data);
+      expect((await latestOperations(fixture)).find((operation) => operation.id === id)?.call)
+        .to.equal("timelock.updateDelay(newDelay=60)");
+
+      await time.increase(DELAY);
+      await executeOperation(timelock, owner, await latestOperations(fixture), id);
+
+      expect(await timelock.getMinDelay()).to.equal(await timelock.MINIMUM_DELAY());
+      await expect(scheduleOperation(timelock, owner, timelockAddress, data, { delay: 60n, salt: ethers.id("again") }))
+        .to.be.revertedWith("TimelockController: insufficient delay");
+    });
+  });
+});
@@ -2,7 +2,15 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { EpicStarterToken } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
-import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { signPermit } from "../utils/permit";
+import {
+  acceptOwnership,
+  getAdminReport,
+  proposeOwnership,
+  renounceOwnership,
+  verifyOwnershipHandoff,
+} from "../scripts/ownership";
 
 describe("EpicStarterToken", function () {
   // Constants
@@ -55,11 +63,13 @@ describe("EpicStarterToken", function () {
       const PAUSER_ROLE = await token.PAUSER_ROLE();
       const BURNER_ROLE = await token.BURNER_ROLE();
       const EMERGENCY_ROLE = await token.EMERGENCY_ROLE();
+      const FREEZER_ROLE = await token.FREEZER_ROLE();
 
       expect(await token.hasRole(DEFAULT_ADMIN_ROLE, owner.address)).to.be.true;
       expect(await token.hasRole(PAUSER_ROLE, owner.address)).to.be.true;
       expect(await token.hasRole(BURNER_ROLE, owner.address)).to.be.true;
       expect(await token.hasRole(EMERGENCY_ROLE, owner.address)).to.be.true;
+      expect(await token.hasRole(FREEZER_ROLE, owner.address)).to.be.true;
     });
 
     it("Should initialize correctly", async function () {
@@ -222,6 +232,241 @@ describe("EpicStarterToken", function () {
     });
   });
 
+  describe("Permit", function () {
+    it("Should use the EpicStarter EIP-712 domain", async function () {
+      const { token } = await loadFixture(deployEpicStarterTokenFixture);
+
+      const domain = await token.eip712Domain();
+      expect(domain.name).to.equal(TOKEN_NAME);
+      expect(domain.version).to.equal("1");
+      expect(domain.verifyingContract).to.equal(await token.getAddress());
+    });
+
+    it("Should burnFrom after a permit without an approve transaction", async function () {
+      const { token, addr1, addr2 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      const amount = ethers.parseEther("250");
+      const deadline = (await time.latest()) + 3600;
+      const permit = await signPermit(addr1, token, addr2.address, amount, deadline);
+
+      // The spender submits both calls; addr1 only signs
+      await expect(
+        token.connect(addr2).permit(addr1.address, addr2.address, amount, deadline, permit.v, permit.r, permit.s),
+      ).to.emit(token, "Approval").withArgs(addr1.address, addr2.address, amount);
+
+      await expect(token.connect(addr2).burnFrom(addr1.address, amount))
+        .to.emit(token, "TokensBurned")
+        .withArgs(addr1.address, amount);
+
+      expect(await token.balanceOf(addr1.address)).to.equal(ethers.parseEther("750"));
+      expect(await token.allowance(addr1.address, addr2.address)).to.equal(0);
+      expect(await token.nonces(addr1.address)).to.equal(1);
+    });
+
+    it("Should reject replayed permits", async function () {
+      const { token, addr1, addr2 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      const amount = ethers.parseEther("100");
+      const deadline = (await time.latest()) + 3600;
+      const permit = await signPermit(addr1, token, addr2.address, amount, deadline);
+
+      await token.permit(addr1.address, addr2.address, amount, deadline, permit.v, permit.r, permit.s);
+
+      await expect(
+        token.permit(addr1.address, addr2.address, amount, deadline, permit.v, permit.r, permit.s),
+      ).to.be.revertedWith("ERC20Permit: invalid signature");
+    });
+
+    it("Should reject expired permits", async function () {
+      const { token, addr1, addr2 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      const amount = ethers.parseEther("100");
+      const deadline = (await time.latest()) + 60;
+      const permit = await signPermit(addr1, token, addr2.address, amount, deadline);
+
+      await time.increaseTo(deadline + 1);
+
+      await expect(
+        token.permit(addr1.address, addr2.address, amount, deadline, permit.v, permit.r, permit.s),
+      ).to.be.revertedWith("ERC20Permit: expired deadline");
+    });
+
+    it("Should reject permits signed by someone else", async function () {
+      const { token, addr1, addr2, addr3 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      const amount = ethers.parseEther("100");
+      const deadline = (await time.latest()) + 3600;
+      const permit = await signPermit(addr3, token, addr2.address, amount, deadline);
+
+      await expect(
+        token.permit(addr1.address, addr2.address, amount, deadline, permit.v, permit.r, permit.s),
+      ).to.be.revertedWith("ERC20Permit: invalid signature");
+    });
+  });
+
+  describe("Burn For Swap", function () {
+    const DESTINATION = "XkP4Ytq8fHj3MZrFDN8QX5MWbpvFXQDAY9";
+
+    it("Should burn with a destination and increasing swap nonces", async function () {
+      const { token, addr1, addr2 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      await expect(token.connect(addr1).burnForSwap(ethers.parseEther("100"), DESTINATION))
+        .to.emit(token, "TokensBurnedForSwap")
+        .withArgs(0, addr1.address, ethers.parseEther("100"), DESTINATION);
+      await expect(token.connect(addr2).burnForSwap(ethers.parseEther("5"), DESTINATION))
+        .to.emit(token, "TokensBurnedForSwap")
+        .withArgs(1, addr2.address, ethers.parseEther("5"), DESTINATION);
+
+      expect(await token.swapNonce()).to.equal(2);
+      expect(await token.balanceOf(addr1.address)).to.equal(ethers.parseEther("900"));
+      expect(await token.totalBurned()).to.equal(ethers.parseEther("105"));
+      expect(await token.totalSupply()).to.equal(TOTAL_SUPPLY - ethers.parseEther("105"));
+    });
+
+    it("Should reject empty or oversized destinations", async function () {
+      const { token, addr1 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      await expect(
+        token.connect(addr1).burnForSwap(1, ""),
+      ).to.be.revertedWithCustomError(token, "TokenInvalidDestination");
+      await expect(
+        token.connect(addr1).burnForSwap(1, "X".repeat(129)),
+      ).to.be.revertedWithCustomError(token, "TokenInvalidDestination");
+    });
+
+    it("Should reject zero amounts and amounts above the balance", async function () {
+      const { token, addr1 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      await expect(
+        token.connect(addr1).burnForSwap(0, DESTINATION),
+      ).to.be.revertedWithCustomError(token, "TokenInvalidAmount");
+      await expect(
+        token.connect(addr1).burnForSwap(ethers.parseEther("1001"), DESTINATION),
+      ).to.be.revertedWithCustomError(token, "BurnExceedsBalance");
+      expect(await token.swapNonce()).to.equal(0);
+    });
+  });
+
+  describe("Admin Burn Quotas", function () {
+    const DAY = 24 * 60 * 60;
+
+    async function deployBurnerFixture() {
+      const { token, owner, addr1, addr2, addr3 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      // addr3 acts as the service account burning on behalf of swaps
+      await token.connect(owner).grantRole(await token.BURNER_ROLE(), addr3.address);
+      await token.connect(owner).setBurnQuota(addr3.address, ethers.parseEther("500"));
+
+      return { token, owner, addr1, addr2, addr3 };
+    }
+
+    it("Should only let BURNER_ROLE accounts burn from others", async function () {
+      const { token, owner, addr1, addr2, addr3 } = await loadFixture(deployBurnerFixture);
+      const BURNER_ROLE = await token.BURNER_ROLE();
+
+      await expect(token.connect(addr2).emergencyBurn(addr1.address, 1))
+        .to.be.revertedWith(`AccessControl: account ${addr2.address.toLowerCase()} is missing role ${BURNER_ROLE}`);
+
+      // Ownership alone no longer allows admin burns
+      await token.connect(owner).renounceRole(BURNER_ROLE, owner.address);
+      await expect(token.connect(owner).batchBurn([addr1.address], [1])).to.be.reverted;
+
+      await expect(token.connect(addr3).emergencyBurn(addr1.address, ethers.parseEther("100")))
+        .to.emit(token, "AdminBurn")
+        .withArgs(addr3.address, addr1.address, ethers.parseEther("100"));
+      expect(await token.balanceOf(addr1.address)).to.equal(ethers.parseEther("900"));
+    });
+
+    it("Should block burners without a quota", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployBurnerFixture);
+
+      await token.connect(owner).grantRole(await token.BURNER_ROLE(), addr2.address);
+
+      await expect(token.connect(addr2).emergencyBurn(addr1.address, 1))
+        .to.be.revertedWithCustomError(token, "TokenBurnQuotaExceeded")
+        .withArgs(addr2.address, 0);
+    });
+
+    it("Should charge every burn of a batch and reject burns past the quota", async function () {
+      const { token, addr1, addr2, addr3 } = await loadFixture(deployBurnerFixture);
+
+      await expect(token.connect(addr3).batchBurn([addr1.address, addr2.address], [
+        ethers.parseEther("200"),
+        ethers.parseEther("250"),
+      ]))
+        .to.emit(token, "AdminBurn").withArgs(addr3.address, addr1.address, ethers.parseEther("200"))
+        .and.to.emit(token, "AdminBurn").withArgs(addr3.address, addr2.address, ethers.parseEther("250"));
+
+      const [quota, used, remaining] = await token.burnQuotaOf(addr3.address);
+      expect([quota, used, remaining]).to.deep.equal([
+        ethers.parseEther("500"),
+        ethers.parseEther("450"),
+        ethers.parseEther("50"),
+      ]);
+
+      await expect(token.connect(addr3).emergencyBurn(addr1.address, ethers.parseEther("51")))
+        .to.be.revertedWithCustomError(token, "TokenBurnQuotaExceeded")
+        .withArgs(addr3.address, ethers.parseEther("50"));
+      // One entry over the quota reverts the whole batch
+      await expect(token.connect(addr3).batchBurn([addr1.address, addr2.address], [
+        ethers.parseEther("50"),
+        1,
+      ])).to.be.revertedWithCustomError(token, "TokenBurnQuotaExceeded");
+
+      await token.connect(addr3).emergencyBurn(addr1.address, ethers.parseEther("50"));
+      expect((await token.burnQuotaOf(addr3.address)).remaining).to.equal(0);
+      expect(await token.totalBurned()).to.equal(ethers.parseEther("500"));
+    });
+
+    it("Should reset the quota when the next period starts", async function () {
+      const { token, owner, addr1, addr3 } = await loadFixture(deployBurnerFixture);
+
+      await token.connect(addr3).emergencyBurn(addr1.address, ethers.parseEther("500"));
+      await expect(token.connect(addr3).emergencyBurn(addr1.address, 1))
+        .to.be.revertedWithCustomError(token, "TokenBurnQuotaExceeded");
+
+      const { resetsAt } = await token.burnQuotaOf(addr3.address);
+      expect(resetsAt % BigInt(DAY)).to.equal(0);
+      await time.increaseTo(resetsAt);
+
+      expect((await token.burnQuotaOf(addr3.address)).used).to.equal(0);
+      await token.connect(addr3).emergencyBurn(addr1.address, ethers.parseEther("300"));
+      expect((await token.burnQuotaOf(addr3.address)).remaining).to.equal(ethers.parseEther("200"));
+
+      // A shorter period starts a fresh one right away
+      await expect(token.connect(owner).setBurnQuotaPeriod(60 * 60))
+        .to.emit(token, "BurnQuotaPeriodSet")
+        .withArgs(60 * 60);
+      await time.increase(60 * 60);
+      expect((await token.burnQuotaOf(addr3.address)).remaining).to.equal(ethers.parseEther("500"));
+    });
+
+    it("Should let only the admin configure quotas", async function () {
+      const { token, owner, addr3 } = await loadFixture(deployBurnerFixture);
+
+      await expect(token.connect(addr3).setBurnQuota(addr3.address, ethers.MaxUint256)).to.be.reverted;
+      await expect(token.connect(addr3).setBurnQuotaPeriod(1)).to.be.reverted;
+      await expect(token.connect(owner).setBurnQuotaPeriod(0))
+        .to.be.revertedWithCustomError(token, "TokenInvalidPeriod");
+      await expect(token.connect(owner).setBurnQuota(addr3.address, 0))
+        .to.emit(token, "BurnQuotaSet")
+        .withArgs(addr3.address, 0);
+
+      expect(await token.burnQuotaPeriod()).to.equal(DAY);
+      expect((await token.burnQuotaOf(owner.address)).quota).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should move the owner's quota with BURNER_ROLE on ownership transfer", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployBurnerFixture);
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await token.connect(addr1).acceptOwnership();
+
+      expect((await token.burnQuotaOf(addr1.address)).quota).to.equal(ethers.MaxUint256);
+      expect((await token.burnQuotaOf(owner.address)).quota).to.equal(0);
+    });
+  });
+
   describe("Pausable Functionality", function () {
     it("Should pause and unpause by owner", async function () {
       const { token, owner } = await loadFixture(deployEpicStarterTokenFixture);
@@ -279,6 +524,65 @@ describe("EpicStarterToken", function () {
       expect(await token.paused()).to.be.true;
       expect(await token.isEmergencyPaused()).to.be.true;
     });
+
+    it("Should let allowlisted accounts send while paused", async function () {
+      const { token, owner, addr1, addr2, addr3 } = await loadFixture(deployAndDistributeTokensFixture);
+      const amount = ethers.parseEther("100");
+
+      await expect(token.connect(owner).setPauseAllowlist(addr1.address, true))
+        .to.emit(token, "PauseAllowlistUpdated")
+        .withArgs(addr1.address, true);
+      await token.connect(owner).pause();
+
+      await token.connect(addr1).transfer(addr3.address, amount);
+      await token.connect(addr1).batchTransfer([addr2.address, addr3.address], [amount, amount]);
+      expect(await token.balanceOf(addr3.address)).to.equal(amount * 2n);
+
+      await expect(token.connect(addr2).transfer(addr3.address, amount))
+        .to.be.revertedWithCustomError(token, "TokenPaused");
+
+      await token.connect(owner).setPauseAllowlist(addr1.address, false);
+      await expect(token.connect(addr1).transfer(addr3.address, amount))
+        .to.be.revertedWithCustomError(token, "TokenPaused");
+    });
+
+    it("Should keep transfers to an allowlisted account paused for other holders", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployAndDistributeTokensFixture);
+      const amount = ethers.parseEther("100");
+
+      await token.connect(owner).setPauseAllowlist(addr1.address, true);
+      await token.connect(owner).pause();
+
+      await expect(token.connect(addr2).transfer(addr1.address, amount))
+        .to.be.revertedWithCustomError(token, "TokenPaused");
+      await token.connect(addr2).approve(addr1.address, amount);
+      await expect(token.connect(addr1).transferFrom(addr2.address, addr1.address, amount))
+        .to.be.revertedWithCustomError(token, "TokenPaused");
+    });
+
+    it("Should reflect the pause, the allowlist and the transfer scope in canTransfer", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      await token.connect(owner).setPauseAllowlist(addr1.address, true);
+      expect(await token.isPauseAllowlisted(addr1.address)).to.be.true;
+      expect(await token.canTransfer(addr2.address)).to.be.true;
+
+      await token.connect(owner).pause();
+      expect(await token.canTransfer(addr1.address)).to.be.true;
+      expect(await token.canTransfer(addr2.address)).to.be.false;
+
+      await token.connect(owner).setScopePaused(0, true);
+      expect(await token.canTransfer(addr1.address)).to.be.false;
+    });
+
+    it("Should only let the admin manage the pause allowlist", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await expect(token.connect(addr1).setPauseAllowlist(addr1.address, true)).to.be.reverted;
+      await expect(token.connect(owner).setPauseAllowlist(ethers.ZeroAddress, true))
+        .to.be.revertedWithCustomError(token, "TokenInvalidAddress");
+      expect(await token.isPauseAllowlisted(addr1.address)).to.be.false;
+    });
   });
 
   describe("Access Control", function () {
@@ -296,10 +600,25 @@ describe("EpicStarterToken", function () {
       expect(await token.hasRole(PAUSER_ROLE, addr1.address)).to.be.false;
     });
 
+    it("Should enumerate role members", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      const PAUSER_ROLE = await token.PAUSER_ROLE();
+      await token.connect(owner).grantRole(PAUSER_ROLE, addr1.address);
+      await token.connect(owner).grantRole(PAUSER_ROLE, addr2.address);
+      await token.connect(owner).revokeRole(PAUSER_ROLE, owner.address);
+
+      expect(await token.getRoleMemberCount(PAUSER_ROLE)).to.equal(2);
+      expect([await token.getRoleMember(PAUSER_ROLE, 0), await token.getRoleMember(PAUSER_ROLE, 1)])
+        .to.have.members([addr1.address, addr2.address]);
+      expect(await token.getRoleMemberCount(await token.BURNER_ROLE())).to.equal(1);
+    });
+
     it("Should transfer ownership correctly", async function () {
       const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
 
-      await expect(token.connect(owner).transferOwnership(addr1.address))
+      await token.connect(owner).transferOwnership(addr1.address);
+      await expect(token.connect(addr1).acceptOwnership())
         .to.emit(token, "OwnershipTransferred")
         .withArgs(owner.address, addr1.address);
 
@@ -320,6 +639,242 @@ describe("EpicStarterToken", function () {
     });
   });
 
+  describe("Ownership Transfer", function () {
+    async function expectAdminRoles(token: EpicStarterToken, account: string, held: boolean) {
+      for (const role of [
+        await token.DEFAULT_ADMIN_ROLE(),
+        await token.PAUSER_ROLE(),
+        await token.BURNER_ROLE(),
+        await token.EMERGENCY_ROLE(),
+        await token.FREEZER_ROLE(),
+      ]) {
+        expect(await token.hasRole(role, account)).to.equal(held);
+      }
+    }
+
+    it("Should only record the proposal until it is accepted", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await expect(token.connect(owner).transferOwnership(addr1.address))
+        .to.emit(token, "OwnershipTransferStarted")
+        .withArgs(owner.address, addr1.address);
+
+      expect(await token.owner()).to.equal(owner.address);
+      expect(await token.pendingOwner()).to.equal(addr1.address);
+      await expectAdminRoles(token, owner.address, true);
+      await expectAdminRoles(token, addr1.address, false);
+    });
+
+    it("Should move ownership and all five roles on acceptance", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await token.connect(addr1).acceptOwnership();
+
+      expect(await token.owner()).to.equal(addr1.address);
+      expect(await token.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expectAdminRoles(token, addr1.address, true);
+      await expectAdminRoles(token, owner.address, false);
+
+      // The old owner has no say any more, the new one can hand over again
+      await expect(
+        token.connect(owner).transferOwnership(owner.address),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await token.connect(addr1).transferOwnership(owner.address);
+      expect(await token.pendingOwner()).to.equal(owner.address);
+    });
+
+    it("Should reject acceptance from anyone but the pending owner", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await expect(token.connect(addr1).acceptOwnership()).to.be.revertedWithCustomError(token, "TokenNotPendingOwner");
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await expect(token.connect(addr2).acceptOwnership()).to.be.revertedWithCustomError(token, "TokenNotPendingOwner");
+      await expect(token.connect(owner).acceptOwnership()).to.be.revertedWithCustomError(token, "TokenNotPendingOwner");
+    });
+
+    it("Should reject invalid proposals", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await expect(
+        token.connect(owner).transferOwnership(owner.address),
+      ).to.be.revertedWithCustomError(token, "TokenInvalidAddress");
+      await expect(
+        token.connect(addr1).transferOwnership(addr2.address),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+
+    it("Should cancel a pending transfer", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await expect(token.connect(owner).cancelOwnershipTransfer())
+        .to.be.revertedWithCustomError(token, "TokenNoPendingOwner");
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await expect(
+        token.connect(addr1).cancelOwnershipTransfer(),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(token.connect(owner).cancelOwnershipTransfer())
+        .to.emit(token, "OwnershipTransferCancelled")
+        .withArgs(owner.address, addr1.address);
+
+      expect(await token.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(token.connect(addr1).acceptOwnership()).to.be.revertedWithCustomError(token, "TokenNotPendingOwner");
+      await expectAdminRoles(token, owner.address, true);
+    });
+
+    it("Should let a new proposal replace the pending one", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await token.connect(owner).transferOwnership(addr2.address);
+
+      await expect(token.connect(addr1).acceptOwnership()).to.be.revertedWithCustomError(token, "TokenNotPendingOwner");
+      await token.connect(addr2).acceptOwnership();
+
+      expect(await token.owner()).to.equal(addr2.address);
+      await expectAdminRoles(token, addr2.address, true);
+      await expectAdminRoles(token, addr1.address, false);
+    });
+
+    it("Should settle roles changed while the transfer is pending", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await token.connect(owner).grantRole(await token.PAUSER_ROLE(), addr1.address);
+      await token.connect(owner).grantRole(await token.PAUSER_ROLE(), addr2.address);
+      await token.connect(owner).renounceRole(await token.BURNER_ROLE(), owner.address);
+
+      await token.connect(addr1).acceptOwnership();
+
+      await expectAdminRoles(token, addr1.address, true);
+      await expectAdminRoles(token, owner.address, false);
+      // Roles of other accounts are not part of the handoff
+      expect(await token.hasRole(await token.PAUSER_ROLE(), addr2.address)).to.be.true;
+    });
+
+    it("Should drop the pending transfer when ownership is renounced", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await token.connect(owner).transferOwnership(addr1.address);
+      await token.connect(owner).renounceOwnership();
+
+      expect(await token.pendingOwner()).to.equal(ethers.ZeroAddress);
+      await expect(token.connect(addr1).acceptOwnership()).to.be.revertedWithCustomError(token, "TokenNotPendingOwner");
+    });
+
+    it("Should drive and verify the handoff from the ownership script", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await expect(proposeOwnership(token, addr1, addr2.address)).to.be.rejectedWith("is not the token owner");
+      await proposeOwnership(token, owner, addr1.address);
+      expect(await verifyOwnershipHandoff(token, addr1.address, owner.address)).to.include(
+        `Transfer to ${addr1.address} is still pending`,
+      );
+
+      await expect(acceptOwnership(token, addr2)).to.be.rejectedWith("is not the pending owner");
+      await acceptOwnership(token, addr1);
+      expect(await verifyOwnershipHandoff(token, addr1.address, owner.address)).to.be.empty;
+    });
+  });
+
+  describe("Renounce Ownership", function () {
+    it("Should renounce ownership together with every owner role", async function () {
+      const { token, owner } = await loadFixture(deployEpicStarterTokenFixture);
+
+      await expect(token.connect(owner).renounceOwnership())
+        .to.emit(token, "OwnershipRenounced")
+        .withArgs(owner.address, []);
+
+      expect(await token.owner()).to.equal(ethers.ZeroAddress);
+      for (const role of [
+        await token.DEFAULT_ADMIN_ROLE(),
+        await token.PAUSER_ROLE(),
+        await token.BURNER_ROLE(),
+        await token.EMERGENCY_ROLE(),
+        await token.FREEZER_ROLE(),
+      ]) {
+        expect(await token.hasRole(role, owner.address)).to.be.false;
+      }
+      await expect(token.connect(owner).pause()).to.be.reverted;
+    });
+
+    it("Should keep only the retained roles and state them in the event", async function () {
+      const { token, owner } = await loadFixture(deployEpicStarterTokenFixture);
+      const PAUSER_ROLE = await token.PAUSER_ROLE();
+      const EMERGENCY_ROLE = await token.EMERGENCY_ROLE();
+
+      await expect(token.connect(owner).renounceOwnershipRetainingRoles([EMERGENCY_ROLE, PAUSER_ROLE]))
+        .to.emit(token, "OwnershipRenounced")
+        .withArgs(owner.address, [PAUSER_ROLE, EMERGENCY_ROLE]);
+
+      expect(await token.owner()).to.equal(ethers.ZeroAddress);
+      expect(await token.hasRole(PAUSER_ROLE, owner.address)).to.be.true;
+      expect(await token.hasRole(EMERGENCY_ROLE, owner.address)).to.be.true;
+      expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.false;
+      expect(await token.hasRole(await token.BURNER_ROLE(), owner.address)).to.be.false;
+
+      await token.connect(owner).pause();
+      expect(await token.paused()).to.be.true;
+    });
+
+    it("Should only report retained roles the owner still held", async function () {
+      const { token, owner } = await loadFixture(deployEpicStarterTokenFixture);
+      const PAUSER_ROLE = await token.PAUSER_ROLE();
+
+      await token.connect(owner).renounceRole(PAUSER_ROLE, owner.address);
+
+      await expect(token.connect(owner).renounceOwnershipRetainingRoles([PAUSER_ROLE]))
+        .to.emit(token, "OwnershipRenounced")
+        .withArgs(owner.address, []);
+    });
+
+    it("Should reject unknown roles and callers other than the owner", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
+      const unknownRole = ethers.id("MINTER_ROLE");
+
+      await expect(token.connect(owner).renounceOwnershipRetainingRoles([unknownRole]))
+        .to.be.revertedWithCustomError(token, "TokenInvalidRole")
+        .withArgs(unknownRole);
+      await expect(token.connect(addr1).renounceOwnership()).to.be.revertedWith("Ownable: caller is not the owner");
+      expect(await token.owner()).to.equal(owner.address);
+    });
+
+    it("Should report whether the token is admin-less", async function () {
+      const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
+      const BURNER_ROLE = await token.BURNER_ROLE();
+
+      await token.connect(owner).grantRole(BURNER_ROLE, addr1.address);
+      await token.connect(owner).setGuardians([addr1.address], 1);
+      expect(await renounceOwnership(token, owner, ["PAUSER_ROLE"])).to.deep.equal(["PAUSER_ROLE"]);
+
+      let report = await getAdminReport(token);
+      expect(report.adminLess).to.be.false;
+      expect(report.owner).to.equal(ethers.ZeroAddress);
+      expect(report.roleMembers.PAUSER_ROLE).to.deep.equal([owner.address]);
+      expect(report.roleMembers.BURNER_ROLE).to.deep.equal([addr1.address]);
+      expect(report.roleMembers.DEFAULT_ADMIN_ROLE).to.be.empty;
+      expect(report.roleMembers.FREEZER_ROLE).to.be.empty;
+      expect(report.guardians).to.deep.equal([addr1.address]);
+
+      await token.connect(owner).renounceRole(await token.PAUSER_ROLE(), owner.address);
+      await token.connect(addr1).renounceRole(BURNER_ROLE, addr1.address);
+
+      report = await getAdminReport(token);
+      expect(report.adminLess).to.be.false;
+
+      // Renouncing without PAUSER_ROLE also clears the guardians
+      await loadFixture(deployEpicStarterTokenFixture);
+      await token.connect(owner).setGuardians([addr1.address], 1);
+      await renounceOwnership(token, owner);
+
+      report = await getAdminReport(token);
+      expect(report.guardians).to.be.empty;
+      expect(report.adminLess).to.be.true;
+    });
+  });
+
   describe("Emergency Functions", function () {
     it("Should perform emergency withdraw of ERC20 tokens", async function () {
       const { token, owner, addr1 } = await loadFixture(deployEpicStarterTokenFixture);
@@ -414,6 +969,137 @@ describe("EpicStarterToken", function () {
     });
   });
 
+  describe("Holder Tracking", function () {
+    // Deterministic PRNG so a failing sequence can be replayed from its seed
+    function createRandom(seed: number) {
+      let state = seed >>> 0;
+      return (max: number): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return (((t ^ (t >>> 14)) >>> 0) % max);
+      };
+    }
+
+    function countHolders(balances: Map<string, bigint>): number {
+      return [...balances.values()].filter((balance) => balance > 0n).length;
+    }
+
+    it("Should count the owner as the only holder after deployment", async function () {
+      const { token } = await loadFixture(deployEpicStarterTokenFixture);
+
+      expect(await token.holderCount()).to.equal(1);
+      expect((await token.getContractStatus()).totalHolders).to.equal(1);
+    });
+
+    it("Should count holders across transfers and burns", async function () {
+      const { token, owner, addr1, addr2 } = await loadFixture(deployAndDistributeTokensFixture);
+
+      expect(await token.holderCount()).to.equal(3);
+
+      // Self-transfers and zero-amount transfers do not change the count
+      await token.connect(addr1).transfer(addr1.address, ethers.parseEther("1000"));
+      await token.connect(addr1).transfer(addr2.address, 0);
+      expect(await token.holderCount()).to.equal(3);
+
+      await token.connect(addr1).transfer(addr2.address, ethers.parseEther("1000"));
+      expect(await token.holderCount()).to.equal(2);
+
+      await token.connect(addr2).burn(ethers.parseEther("3000"));
+      expect(await token.holderCount()).to.equal(1);
+
+      await token.connect(owner).batchTransfer([addr1.address, addr2.address], [ethers.parseEther("1"), 0]);
+      expect(await token.holderCount()).to.equal(2);
+
+      await token.connect(owner).batchBurn([addr1.address], [ethers.parseEther("1")]);
+      expect(await token.holderCount()).to.equal(1);
+    });
+
+    for (const seed of [1, 42, 2024]) {
+      it(`Should match a balance model over random operations (seed ${seed})`, async function () {
+        const { token, owner } = await loadFixture(deployEpicStarterTokenFixture);
+        const signers = (await ethers.getSigners()).slice(0, 6);
+        const random = createRandom(seed);
+
+        const balances = new Map<string, bigint>(signers.map((signer) => [signer.address, 0n]));
+        balances.set(owner.address, TOTAL_SUPPLY);
+        const balanceOf = (address: string): bigint => balances.get(address) ?? 0n;
+
+        // Full balances, zero and over-balance amounts are favoured to hit the holder boundaries
+        const pickAmount = (balance: bigint): bigint => {
+          switch (random(5)) {
+            case 0: return balance;
+            case 1: return 0n;
+            case 2: return balance + 1n;
+            default: return balance > 0n ? BigInt(random(1000)) * balance / 1000n : 0n;
+          }
+        };
+
+        for (let step = 0; step < 40; step++) {
+          const holders = signers.filter((signer) => balanceOf(signer.address) > 0n);
+          if (holders.length === 0) break;
+
+          const sender = holders[random(holders.length)];
+          const senderBalance = balanceOf(sender.address);
+
+          switch (random(4)) {
+            case 0: {
+              const recipient = signers[random(signers.length)];
+              const amount = pickAmount(senderBalance);
+              if (amount > senderBalance) break;
+
+              await token.connect(sender).transfer(recipient.address, amount);
+              balances.set(sender.address, balanceOf(sender.address) - amount);
+              balances.set(recipient.address, balanceOf(recipient.address) + amount);
+              break;
+            }
+            case 1: {
+              const amount = pickAmount(senderBalance);
+              if (amount === 0n || amount > senderBalance) break;
+
+              await token.connect(sender).burn(amount);
+              balances.set(sender.address, senderBalance - amount);
+              break;
+            }
+            case 2: {
+              const recipients = [0, 1, 2].map(() => signers[random(signers.length)]);
+              const amounts = recipients.map(() => BigInt(random(4)) * senderBalance / 4n);
+              if (amounts.reduce((sum, amount) => sum + amount, 0n) > senderBalance) break;
+
+              await token.connect(sender).batchTransfer(recipients.map((recipient) => recipient.address), amounts);
+              recipients.forEach((recipient, index) => {
+                balances.set(sender.address, balanceOf(sender.address) - amounts[index]);
+                balances.set(recipient.address, balanceOf(recipient.address) + amounts[index]);
+              });
+              break;
+            }
+            default: {
+              // batchBurn silently skips entries above the current balance
+              const accounts = [0, 1].map(() => signers[random(signers.length)]);
+              const amounts = accounts.map((account) => pickAmount(balanceOf(account.address)));
+
+              await token.connect(owner).batchBurn(accounts.map((account) => account.address), amounts);
+              accounts.forEach((account, index) => {
+                const balance = balanceOf(account.address);
+                if (amounts[index] > 0n && amounts[index] <= balance) {
+                  balances.set(account.address, balance - amounts[index]);
+                }
+              });
+            }
+          }
+
+          expect(await token.holderCount()).to.equal(countHolders(balances), `step ${step}`);
+        }
+
+        for (const signer of signers) {
+          expect(await token.balanceOf(signer.address)).to.equal(balances.get(signer.address));
+        }
+        expect((await token.getContractStatus()).totalHolders).to.equal(countHolders(balances));
+      });
+    }
+  });
+
   describe("View Functions", function () {
     it("Should return correct token info", async function () {
       const { token, owner } = await loadFixture(deployEpicStarterTokenFixture);
@@ -443,12 +1129,12 @@ describe("EpicStarterToken", function () {
     it("Should check pause operations correctly", async function () {
       const { token } = await loadFixture(deployEpicStarterTokenFixture);
 
-      const operations = [0, 1, 2]; // transfer, mint, burn
+      const operations = [0, 1, 3]; // transfer, transferFrom, burn
       const results = await token.checkBatchOperations(operations);
 
       expect(results[0]).to.be.true; // transfer allowed when not paused
-      expect(results[1]).to.be.true; // mint always allowed
-      expect(results[2]).to.be.true; // burn always allowed
+      expect(results[1]).to.be.true; // transferFrom allowed when not paused
+      expect(results[2]).to.be.true; // burn allowed unless its scope is paused
     });
 
     it("Should check if address can transfer", async function () {
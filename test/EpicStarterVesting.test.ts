@@ -0,0 +1,244 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { createSchedules, parseAllocation } from "../scripts/vesting";
+
+describe("EpicStarterVesting", function () {
+  // Constants
+  const MONTH = 30 * 24 * 60 * 60;
+  const AMOUNT = ethers.parseEther("1200000");
+  const FUNDING = ethers.parseEther("5000000");
+
+  enum ScheduleKind {
+    Linear,
+    MonthlyTable,
+  }
+
+  // Fixtures
+  async function deployVestingFixture() {
+    const [owner, team, advisor, investor] = await ethers.getSigners();
+
+    const EpicStarterTokenFactory = await ethers.getContractFactory("EpicStarterToken");
+    const token = await EpicStarterTokenFactory.deploy(owner.address);
+
+    const VestingFactory = await ethers.getContractFactory("EpicStarterVesting");
+    const vesting = await VestingFactory.deploy(await token.getAddress(), owner.address);
+
+    return { token, vesting, owner, team, advisor, investor };
+  }
+
+  async function fundedVestingFixture() {
+    const fixture = await loadFixture(deployVestingFixture);
+    const { token, vesting, owner } = fixture;
+
+    await token.connect(owner).transfer(await vesting.getAddress(), FUNDING);
+    const start = (await time.latest()) + 60;
+
+    return { ...fixture, start };
+  }
+
+  describe("Deployment", function () {
+    it("Should deploy with correct parameters", async function () {
+      const { token, vesting, owner } = await loadFixture(deployVestingFixture);
+
+      expect(await vesting.token()).to.equal(await token.getAddress());
+      expect(await vesting.owner()).to.equal(owner.address);
+      expect(await vesting.scheduleCount()).to.equal(0);
+    });
+
+    it("Should revert if deployed with zero addresses", async function () {
+      const { token, owner } = await loadFixture(deployVestingFixture);
+      const VestingFactory = await ethers.getContractFactory("EpicStarterVesting");
+
+      await expect(
+        VestingFactory.deploy(ethers.ZeroAddress, owner.address),
+      ).to.be.revertedWithCustomError(VestingFactory, "VestingInvalidAddress");
+      await expect(
+        VestingFactory.deploy(await token.getAddress(), ethers.ZeroAddress),
+      ).to.be.revertedWithCustomError(VestingFactory, "VestingInvalidAddress");
+    });
+  });
+
+  describe("Schedule Creation", function () {
+    it("Should create a linear schedule", async function () {
+      const { vesting, owner, team, start } = await loadFixture(fundedVestingFixture);
+
+      await expect(
+        vesting.connect(owner).createLinearSchedule(team.address, AMOUNT, start, 6 * MONTH, 24 * MONTH, true),
+      ).to.emit(vesting, "ScheduleCreated").withArgs(0, team.address, ScheduleKind.Linear, AMOUNT, true);
+
+      const schedule = await vesting.getSchedule(0);
+      expect(schedule.beneficiary).to.equal(team.address);
+      expect(schedule.cliff).to.equal(6 * MONTH);
+      expect(schedule.duration).to.equal(24 * MONTH);
+      expect(await vesting.schedulesOf(team.address)).to.deep.equal([0n]);
+      expect(await vesting.totalAllocated()).to.equal(AMOUNT);
+      expect(await vesting.unallocatedBalance()).to.equal(FUNDING - AMOUNT);
+    });
+
+    it("Should not allocate more than the unallocated balance", async function () {
+      const { vesting, owner, team, start } = await loadFixture(fundedVestingFixture);
+
+      await vesting.connect(owner).createLinearSchedule(team.address, FUNDING, start, 0, MONTH, false);
+
+      await expect(
+        vesting.connect(owner).createLinearSchedule(team.address, 1, start, 0, MONTH, false),
+      ).to.be.revertedWithCustomError(vesting, "VestingInsufficientTokens");
+    });
+
+    it("Should reject invalid schedules", async function () {
+      const { vesting, owner, team, start } = await loadFixture(fundedVestingFixture);
+
+      await expect(
+        vesting.connect(owner).createLinearSchedule(team.address, AMOUNT, start, 2 * MONTH, MONTH, false),
+      ).to.be.revertedWithCustomError(vesting, "VestingInvalidSchedule");
+      await expect(
+        vesting.connect(owner).createTableSchedule(team.address, AMOUNT, start, [5000, 4000], false),
+      ).to.be.revertedWithCustomError(vesting, "VestingInvalidUnlockTable");
+      await expect(
+        vesting.connect(owner).createLinearSchedule(ethers.ZeroAddress, AMOUNT, start, 0, MONTH, false),
+      ).to.be.revertedWithCustomError(vesting, "VestingInvalidAddress");
+    });
+
+    it("Should only allow owner to create schedules", async function () {
+      const { vesting, team, start } = await loadFixture(fundedVestingFixture);
+
+      await expect(
+        vesting.connect(team).createLinearSchedule(team.address, AMOUNT, start, 0, MONTH, false),
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("Linear Release", function () {
+    it("Should release nothing before the cliff and linearly after it", async function () {
+      const { token, vesting, owner, team, start } = await loadFixture(fundedVestingFixture);
+
+      await vesting.connect(owner).createLinearSchedule(team.address, AMOUNT, start, 6 * MONTH, 24 * MONTH, false);
+
+      await time.increaseTo(start + 6 * MONTH - 2);
+      expect(await vesting.releasableAmount(0)).to.equal(0);
+      await expect(vesting.connect(team).release(0)).to.be.revertedWithCustomError(vesting, "VestingNothingToRelease");
+
+      expect(await vesting.vestedAmount(0, start + 12 * MONTH)).to.equal(AMOUNT / 2n);
+
+      await time.setNextBlockTimestamp(start + 12 * MONTH);
+      await expect(vesting.connect(team).release(0))
+        .to.emit(vesting, "TokensReleased")
+        .withArgs(0, team.address, AMOUNT / 2n);
+
+      await time.increaseTo(start + 30 * MONTH);
+      await vesting.connect(team).release(0);
+
+      expect(await token.balanceOf(team.address)).to.equal(AMOUNT);
+      expect((await vesting.getSchedule(0)).released).to.equal(AMOUNT);
+      expect(await vesting.totalAllocated()).to.equal(0);
+    });
+  });
+
+  describe("Monthly Table Release", function () {
+    it("Should unlock table entries month by month", async function () {
+      const { token, vesting, owner, investor, start } = await loadFixture(fundedVestingFixture);
+
+      // 25% at start, nothing in month 1, 25% in month 2, 50% in month 3
+      await vesting.connect(owner).createTableSchedule(investor.address, AMOUNT, start, [2500, 0, 2500, 5000], false);
+
+      expect((await vesting.getSchedule(0)).duration).to.equal(3 * MONTH);
+      expect(await vesting.getUnlockTable(0)).to.deep.equal([2500n, 0n, 2500n, 5000n]);
+
+      expect(await vesting.vestedAmount(0, start - 1)).to.equal(0);
+      expect(await vesting.vestedAmount(0, start)).to.equal(AMOUNT / 4n);
+      expect(await vesting.vestedAmount(0, start + 2 * MONTH - 1)).to.equal(AMOUNT / 4n);
+      expect(await vesting.vestedAmount(0, start + 2 * MONTH)).to.equal(AMOUNT / 2n);
+      expect(await vesting.vestedAmount(0, start + 3 * MONTH)).to.equal(AMOUNT);
+
+      await time.increaseTo(start + 2 * MONTH);
+      await vesting.connect(investor).release(0);
+      expect(await token.balanceOf(investor.address)).to.equal(AMOUNT / 2n);
+    });
+  });
+
+  describe("Revocation", function () {
+    it("Should release vested tokens and free unvested tokens on revoke", async function () {
+      const { token, vesting, owner, advisor, start } = await loadFixture(fundedVestingFixture);
+
+      await vesting.connect(owner).createLinearSchedule(advisor.address, AMOUNT, start, 0, 12 * MONTH, true);
+      await time.increaseTo(start + 3 * MONTH);
+
+      const vested = await vesting.vestedAmount(0, (await time.latest()) + 1);
+
+      await expect(vesting.connect(owner).revoke(0))
+        .to.emit(vesting, "ScheduleRevoked")
+        .withArgs(0, advisor.address, vested, AMOUNT - vested);
+
+      expect(await token.balanceOf(advisor.address)).to.equal(vested);
+      expect(await vesting.releasableAmount(0)).to.equal(0);
+      expect(await vesting.totalAllocated()).to.equal(0);
+      expect(await vesting.unallocatedBalance()).to.equal(FUNDING - vested);
+
+      await expect(vesting.connect(owner).revoke(0)).to.be.revertedWithCustomError(vesting, "VestingAlreadyRevoked");
+
+      await expect(vesting.connect(owner).withdrawUnallocated(owner.address, FUNDING - vested))
+        .to.emit(vesting, "UnallocatedWithdrawn")
+        .withArgs(owner.address, FUNDING - vested);
+    });
+
+    it("Should not revoke irrevocable schedules", async function () {
+      const { vesting, owner, team, start } = await loadFixture(fundedVestingFixture);
+
+      await vesting.connect(owner).createLinearSchedule(team.address, AMOUNT, start, 0, 12 * MONTH, false);
+
+      await expect(vesting.connect(owner).revoke(0)).to.be.revertedWithCustomError(vesting, "VestingNotRevocable");
+    });
+
+    it("Should not withdraw allocated tokens", async function () {
+      const { vesting, owner, team, start } = await loadFixture(fundedVestingFixture);
+
+      await vesting.connect(owner).createLinearSchedule(team.address, AMOUNT, start, 0, 12 * MONTH, false);
+
+      await expect(
+        vesting.connect(owner).withdrawUnallocated(owner.address, FUNDING - AMOUNT + 1n),
+      ).to.be.revertedWithCustomError(vesting, "VestingInvalidAmount");
+    });
+  });
+
+  describe("Allocation Script", function () {
+    it("Should fund with batchTransfer and create schedules from allocations", async function () {
+      const { token, vesting, owner, team, investor } = await loadFixture(deployVestingFixture);
+
+      const start = (await time.latest()) + 60;
+      const allocations = [
+        { beneficiary: team.address, amount: "1000", type: "linear", start, cliffMonths: 1, durationMonths: 2 },
+        { beneficiary: investor.address, amount: "500", type: "table", start, unlockTableBps: [5000, 5000] },
+      ].map(parseAllocation);
+
+      const scheduleIds = await createSchedules(token, vesting, allocations);
+
+      expect(scheduleIds).to.deep.equal([0n, 1n]);
+      const vestingAddress = await vesting.getAddress();
+      const [funding, ...others] = await token.queryFilter(token.filters.Transfer(owner.address, vestingAddress));
+      const fundCall = token.interface.parseTransaction(await funding.getTransaction());
+      expect(others).to.be.empty;
+      expect(fundCall?.name).to.equal("batchTransfer");
+      expect(fundCall?.args.toArray()).to.deep.equal([
+        [vestingAddress],
+        [ethers.parseEther("1500")],
+      ]);
+      expect(await token.balanceOf(vestingAddress)).to.equal(ethers.parseEther("1500"));
+      expect(await vesting.unallocatedBalance()).to.equal(0);
+      expect((await vesting.getSchedule(0)).cliff).to.equal(MONTH);
+      expect((await vesting.getSchedule(1)).kind).to.equal(ScheduleKind.MonthlyTable);
+    });
+
+    it("Should reject malformed allocations", async function () {
+      const { team } = await loadFixture(deployVestingFixture);
+
+      expect(() => parseAllocation({ beneficiary: "0x1234", amount: "1", type: "linear", start: 1 }, 0))
+        .to.throw("invalid beneficiary");
+      const table = { beneficiary: team.address, amount: "1", type: "table", start: 1, unlockTableBps: [9000] };
+      expect(() => parseAllocation(table, 0)).to.throw("sums to 9000");
+      expect(() => parseAllocation({ beneficiary: team.address, amount: "1", type: "cliff", start: 1 }, 0))
+        .to.throw("unknown type");
+      expect(() => parseAllocation("0x1234", 3)).to.throw("Allocation #3: expected an object");
+    });
+  });
+});
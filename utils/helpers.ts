@@ -1,5 +1,6 @@
 import { ethers } from "hardhat";
-import { BigNumberish } from "ethers";
+import { BigNumberish, EventFragment, Interface, Log, Result } from "ethers";
+import { buildMerkleTree, getMerkleProof, getMerkleRoot, hashLeaf } from "./merkle";
 
 /**
  * Utility functions for EpicStarter Token project
@@ -48,6 +49,34 @@ export function calculatePercentage(amount: BigNumberish, totalSupply: BigNumber
   return Number((amountBN * 10000n) / totalSupplyBN) / 100;
 }
 
+/**
+ * Convert a percentage to basis points, the precision calculatePercentage works with
+ * @param percentage - Percentage (0-100, at most two decimals)
+ * @returns Basis points (0-10000)
+ */
+export function percentageToBasisPoints(percentage: number): number {
+  const basisPoints = Math.round(percentage * 100);
+
+  if (!Number.isFinite(percentage) || basisPoints < 0 || basisPoints > 10000) {
+    throw new Error(`Invalid percentage ${percentage}`);
+  }
+  if (Math.abs(percentage * 100 - basisPoints) > 1e-9) {
+    throw new Error(`Percentage ${percentage} has more than two decimals`);
+  }
+
+  return basisPoints;
+}
+
+/**
+ * Convert a percentage of total supply to a token amount, the inverse of calculatePercentage
+ * @param percentage - Percentage (0-100, at most two decimals)
+ * @param totalSupply - Total supply (default: 100M)
+ * @returns Token amount in wei
+ */
+export function percentageToTokenAmount(percentage: number, totalSupply: BigNumberish = TOTAL_SUPPLY): bigint {
+  return (BigInt(totalSupply.toString()) * BigInt(percentageToBasisPoints(percentage))) / 10000n;
+}
+
 /**
  * Generate random addresses for testing
  * @param count - Number of addresses to generate
@@ -153,6 +182,20 @@ export const TIME_UNITS = {
   YEAR: 365 * 24 * 60 * 60,
 };
 
+/**
+ * Format a duration as days, hours, minutes and seconds
+ * @param seconds - Duration in seconds
+ * @returns Formatted duration, e.g. "2d 3h 0m 5s"
+ */
+export function formatDuration(seconds: number): string {
+  const days = Math.floor(seconds / TIME_UNITS.DAY);
+  const hours = Math.floor((seconds % TIME_UNITS.DAY) / TIME_UNITS.HOUR);
+  const minutes = Math.floor((seconds % TIME_UNITS.HOUR) / TIME_UNITS.MINUTE);
+  const parts = [`${hours}h`, `${minutes}m`, `${seconds % TIME_UNITS.MINUTE}s`];
+
+  return (days > 0 ? [`${days}d`, ...parts] : parts).join(" ");
+}
+
 /**
  * Sleep for specified milliseconds (for testing)
  * @param ms - Milliseconds to sleep
@@ -292,6 +335,23 @@ export function calculateBurnRate(totalBurned: BigNumberish, totalSupply: BigNum
   return Number((burnedBN * 10000n) / totalBN) / 100;
 }
 
+/**
+ * Describe the transfer fee configuration reported by getTokenInfo
+ * @param feeBps - Fee in basis points of each transfer
+ * @param feeBurnBps - Burned share of the fee in basis points
+ * @param treasury - Receiver of the unburned share
+ * @returns Readable fee configuration
+ */
+export function formatFeeConfig(feeBps: BigNumberish, feeBurnBps: BigNumberish, treasury: string): string {
+  const fee = Number(feeBps);
+  const burnShare = Number(feeBurnBps);
+
+  if (fee === 0) return "none";
+
+  const split = burnShare === 10000 ? "all burned" : `${burnShare / 100}% burned, rest to ${treasury}`;
+  return `${fee / 100}% (${split})`;
+}
+
 /**
  * Validate token amount
  * @param amount - Amount to validate
@@ -316,24 +376,85 @@ export function isValidTokenAmount(amount: BigNumberish, maxAmount?: BigNumberis
 }
 
 /**
- * Create merkle tree data (simplified for demonstration)
+ * Create merkle tree data
  * @param addresses - Array of addresses
  * @param amounts - Array of amounts
- * @returns Merkle tree data structure
+ * @returns Leaves, root and per-leaf proofs (see utils/merkle.ts)
  */
 export function createMerkleData(addresses: string[], amounts: bigint[]) {
   if (addresses.length !== amounts.length) {
     throw new Error("Addresses and amounts arrays must have same length");
   }
 
-  const leaves = addresses.map((address, index) => {
-    return ethers.solidityPackedKeccak256(
-      ["address", "uint256"],
-      [address, amounts[index]]
-    );
+  const leaves = addresses.map((address, index) => hashLeaf(address, amounts[index]));
+  const layers = buildMerkleTree(leaves);
+  const proofs = leaves.map((_, index) => getMerkleProof(layers, index));
+
+  return { leaves, addresses, amounts, root: getMerkleRoot(layers), proofs };
+}
+
+/**
+ * Encode a short reason text as a bytes32 reason code (hex codes are kept as they are)
+ * @param reason - Reason text of at most 31 bytes, or a 32-byte hex code
+ * @returns bytes32 reason code, zero for an empty reason
+ */
+export function encodeReasonCode(reason: string): string {
+  if (reason === "") return ethers.ZeroHash;
+  if (ethers.isHexString(reason, 32)) return reason;
+
+  return ethers.encodeBytes32String(reason);
+}
+
+/**
+ * Decode a bytes32 reason code; codes that are not short strings are returned as hex
+ * @param reason - bytes32 reason code
+ * @returns Reason text, empty for the zero code
+ */
+export function decodeReasonCode(reason: string): string {
+  if (reason === ethers.ZeroHash) return "";
+
+  try {
+    return ethers.decodeBytes32String(reason);
+  } catch {
+    return reason;
+  }
+}
+
+/**
+ * Allocation row read from a CSV file
+ */
+export interface AllocationRow {
+  line: number;
+  address: string;
+  amount: bigint;
+}
+
+/**
+ * Parse "address,amount" CSV content (amounts in EPCS, optional header, # comments)
+ * @param content - CSV file content
+ * @returns Allocation rows
+ */
+export function parseAllocationCsv(content: string): AllocationRow[] {
+  const rows: AllocationRow[] = [];
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (line === "" || line.startsWith("#")) return;
+
+    const [address, amount] = line.split(",").map((cell) => cell.trim());
+    if (index === 0 && address.toLowerCase() === "address") return;
+
+    if (!isValidAddress(address)) {
+      throw new Error(`Line ${index + 1}: invalid address ${address}`);
+    }
+    if (!amount || !/^\d+(\.\d+)?$/.test(amount)) {
+      throw new Error(`Line ${index + 1}: invalid amount ${amount}`);
+    }
+
+    rows.push({ line: index + 1, address: ethers.getAddress(address), amount: parseTokenAmount(amount) });
   });
 
-  return { leaves, addresses, amounts };
+  return rows;
 }
 
 /**
@@ -353,6 +474,73 @@ export function generateTestData(count: number = 10) {
   };
 }
 
+/**
+ * Parsed command line arguments for operator scripts
+ */
+export interface ScriptArgs {
+  command?: string;
+  positional: string[];
+  options: { [key: string]: string | boolean };
+}
+
+/**
+ * Parse script arguments of the form `<command> [positional...] [--key value] [--flag]`
+ * `hardhat run` does not forward arguments, so SCRIPT_ARGS takes precedence when set
+ * @param argv - Raw arguments (default: SCRIPT_ARGS or the arguments after the script path)
+ * @returns Parsed arguments
+ */
+export function parseScriptArgs(argv?: string[]): ScriptArgs {
+  let raw = argv;
+
+  if (!raw) {
+    if (process.env.SCRIPT_ARGS) {
+      raw = process.env.SCRIPT_ARGS.split(/\s+/).filter((arg) => arg.length > 0);
+    } else {
+      const scriptIndex = process.argv.findIndex((arg, index) => index > 0 && /\.(ts|js)$/.test(arg));
+      raw = scriptIndex >= 0 ? process.argv.slice(scriptIndex + 1) : process.argv.slice(2);
+    }
+  }
+
+  const positional: string[] = [];
+  const options: { [key: string]: string | boolean } = {};
+
+  for (let i = 0; i < raw.length; i++) {
+    const arg = raw[i];
+
+    if (arg.startsWith("--")) {
+      const key = arg.slice(2);
+      const next = raw[i + 1];
+
+      if (next !== undefined && !next.startsWith("--")) {
+        options[key] = next;
+        i++;
+      } else {
+        options[key] = true;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { command: positional.shift(), positional, options };
+}
+
+/**
+ * Read a string option from parsed script arguments
+ * @param args - Parsed script arguments
+ * @param key - Option name
+ * @param fallback - Value used when the option is missing
+ * @returns Option value
+ */
+export function getStringOption(args: ScriptArgs, key: string, fallback?: string): string {
+  const value = args.options[key];
+
+  if (typeof value === "string") return value;
+  if (fallback !== undefined) return fallback;
+
+  throw new Error(`Missing required option --${key}`);
+}
+
 /**
  * Contract interaction helpers
  */
@@ -405,31 +593,73 @@ export class ContractHelpers {
   }
 }
 
+/**
+ * Log decoded against a contract interface, with the raw log kept for its position
+ */
+export interface DecodedEvent {
+  name: string;
+  args: Result;
+  fragment: EventFragment;
+  log: Log;
+}
+
 /**
  * Event filtering helpers
  */
 export class EventHelpers {
+  /**
+   * Decode logs against a contract interface
+   * @param logs - Raw logs (from a receipt or provider.getLogs)
+   * @param contractInterface - Interface of the emitting contract
+   * @param eventName - Event name to filter
+   * @param address - Only decode logs emitted by this address
+   * @returns Decoded events; logs the interface does not know are skipped
+   */
+  static decodeLogs(
+    logs: ReadonlyArray<Log>,
+    contractInterface: Interface,
+    eventName?: string,
+    address?: string,
+  ): DecodedEvent[] {
+    const events: DecodedEvent[] = [];
+
+    for (const log of logs) {
+      if (address && log.address.toLowerCase() !== address.toLowerCase()) continue;
+
+      const parsed = contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed || (eventName && parsed.name !== eventName)) continue;
+
+      events.push({ name: parsed.name, args: parsed.args, fragment: parsed.fragment, log });
+    }
+
+    return events;
+  }
+
   /**
    * Get events from transaction receipt
    * @param receipt - Transaction receipt
+   * @param contractInterface - Interface of the emitting contract
    * @param eventName - Event name to filter
-   * @returns Array of events
+   * @param address - Only decode logs emitted by this address
+   * @returns Array of decoded events
    */
-  static getEventsFromReceipt(receipt: any, eventName?: string) {
-    if (!receipt.logs) return [];
-
-    return receipt.logs.filter((log: any) => {
-      if (!eventName) return true;
-      return log.topics && log.topics[0] && log.fragment?.name === eventName;
-    });
+  static getEventsFromReceipt(
+    receipt: { logs: ReadonlyArray<Log> } | null,
+    contractInterface: Interface,
+    eventName?: string,
+    address?: string,
+  ): DecodedEvent[] {
+    if (!receipt?.logs) return [];
+
+    return EventHelpers.decodeLogs(receipt.logs, contractInterface, eventName, address);
   }
 
   /**
    * Parse event arguments
-   * @param event - Event object
-   * @returns Parsed arguments
+   * @param event - Decoded event
+   * @returns Arguments by position and by name
    */
-  static parseEventArgs(event: any) {
+  static parseEventArgs(event: Pick<DecodedEvent, "args" | "fragment">) {
     if (!event.args) return {};
 
     const parsed: any = {};
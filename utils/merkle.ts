@@ -0,0 +1,210 @@
+import { ethers } from "ethers";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Merkle tree utilities for EpicStarter airdrops
+ *
+ * Leaves are keccak256(abi.encodePacked(address account, uint256 amount)) and pairs are
+ * hashed in sorted order, matching OpenZeppelin's MerkleProof used by EpicStarterMerkleDistributor.
+ * An odd node at the end of a layer is carried up unchanged.
+ */
+
+export interface MerkleClaim {
+  index: number;
+  amount: bigint;
+  proof: string[];
+}
+
+export interface MerkleDistribution {
+  merkleRoot: string;
+  total: bigint;
+  claims: Record<string, MerkleClaim>;
+}
+
+/**
+ * Hash an airdrop leaf
+ * @param account - Claiming address
+ * @param amount - Claimable amount in wei
+ * @returns Leaf hash
+ */
+export function hashLeaf(account: string, amount: bigint): string {
+  return ethers.solidityPackedKeccak256(["address", "uint256"], [account, amount]);
+}
+
+/**
+ * Hash two nodes in sorted order
+ * @param a - First node
+ * @param b - Second node
+ * @returns Parent node hash
+ */
+export function hashPair(a: string, b: string): string {
+  const [left, right] = BigInt(a) <= BigInt(b) ? [a, b] : [b, a];
+  return ethers.keccak256(ethers.concat([left, right]));
+}
+
+/**
+ * Build all layers of a sorted-pair Merkle tree
+ * @param leaves - Leaf hashes
+ * @returns Layers from leaves (index 0) to root (last index)
+ */
+export function buildMerkleTree(leaves: string[]): string[][] {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  const layers: string[][] = [leaves];
+
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: string[] = [];
+
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+
+    layers.push(next);
+  }
+
+  return layers;
+}
+
+/**
+ * Get the root of a tree built by buildMerkleTree
+ * @param layers - Tree layers
+ * @returns Merkle root
+ */
+export function getMerkleRoot(layers: string[][]): string {
+  return layers[layers.length - 1][0];
+}
+
+/**
+ * Get the proof for a leaf
+ * @param layers - Tree layers
+ * @param index - Leaf index
+ * @returns Sibling hashes from leaf to root
+ */
+export function getMerkleProof(layers: string[][], index: number): string[] {
+  if (index < 0 || index >= layers[0].length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const proof: string[] = [];
+  let position = index;
+
+  for (let level = 0; level < layers.length - 1; level++) {
+    const layer = layers[level];
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+
+    position = Math.floor(position / 2);
+  }
+
+  return proof;
+}
+
+/**
+ * Verify a proof against a root
+ * @param leaf - Leaf hash
+ * @param proof - Sibling hashes from leaf to root
+ * @param root - Expected Merkle root
+ * @returns True if the proof is valid
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+/**
+ * Verify the claim of an account in a distribution
+ * @param distribution - Merkle distribution
+ * @param account - Claiming address
+ * @returns True if the account has a claim with a valid proof
+ */
+export function verifyClaim(distribution: MerkleDistribution, account: string): boolean {
+  const claim = distribution.claims[ethers.getAddress(account)];
+  if (!claim) return false;
+
+  return verifyMerkleProof(hashLeaf(account, claim.amount), claim.proof, distribution.merkleRoot);
+}
+
+/**
+ * Build a distribution with a proof for every address
+ * @param addresses - Claiming addresses (must be unique)
+ * @param amounts - Claimable amounts in wei
+ * @returns Merkle distribution
+ */
+export function createMerkleDistribution(addresses: string[], amounts: bigint[]): MerkleDistribution {
+  if (addresses.length !== amounts.length) {
+    throw new Error("Addresses and amounts arrays must have same length");
+  }
+
+  const accounts = addresses.map((address) => ethers.getAddress(address));
+  const seen = new Set<string>();
+
+  accounts.forEach((account, index) => {
+    if (seen.has(account)) {
+      throw new Error(`Duplicate address in distribution: ${account}`);
+    }
+    if (amounts[index] <= 0n) {
+      throw new Error(`Amount for ${account} must be positive`);
+    }
+    seen.add(account);
+  });
+
+  const layers = buildMerkleTree(accounts.map((account, index) => hashLeaf(account, amounts[index])));
+  const claims: Record<string, MerkleClaim> = {};
+
+  accounts.forEach((account, index) => {
+    claims[account] = { index, amount: amounts[index], proof: getMerkleProof(layers, index) };
+  });
+
+  return {
+    merkleRoot: getMerkleRoot(layers),
+    total: amounts.reduce((sum, amount) => sum + amount, 0n),
+    claims,
+  };
+}
+
+/**
+ * Write a distribution to JSON (amounts as decimal strings)
+ * @param filepath - Output file
+ * @param distribution - Merkle distribution
+ */
+export function saveMerkleDistribution(filepath: string, distribution: MerkleDistribution): void {
+  const claims: Record<string, { index: number; amount: string; proof: string[] }> = {};
+
+  for (const [account, claim] of Object.entries(distribution.claims)) {
+    claims[account] = { index: claim.index, amount: claim.amount.toString(), proof: claim.proof };
+  }
+
+  fs.mkdirSync(path.dirname(filepath), { recursive: true });
+  fs.writeFileSync(filepath, JSON.stringify({
+    merkleRoot: distribution.merkleRoot,
+    total: distribution.total.toString(),
+    claims,
+  }, null, 2));
+}
+
+/**
+ * Load a distribution written by saveMerkleDistribution
+ * @param filepath - Input file
+ * @returns Merkle distribution
+ */
+export function loadMerkleDistribution(filepath: string): MerkleDistribution {
+  if (!fs.existsSync(filepath)) {
+    throw new Error(`Distribution file not found: ${filepath}`);
+  }
+
+  const data = JSON.parse(fs.readFileSync(filepath, "utf8"));
+  const claims: Record<string, MerkleClaim> = {};
+
+  for (const [account, claim] of Object.entries<{ index: number; amount: string; proof: string[] }>(data.claims)) {
+    claims[ethers.getAddress(account)] = { index: claim.index, amount: BigInt(claim.amount), proof: claim.proof };
+  }
+
+  return { merkleRoot: data.merkleRoot, total: BigInt(data.total), claims };
+}
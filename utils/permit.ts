@@ -0,0 +1,117 @@
+import { BigNumberish, Signature, Signer, TypedDataDomain, TypedDataField } from "ethers";
+
+/**
+ * EIP-2612 permit helpers for EpicStarter Token
+ *
+ * The token's EIP-712 domain is { name: "EpicStarter", version: "1", chainId, verifyingContract }.
+ */
+
+export const PERMIT_DOMAIN_VERSION = "1";
+
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Minimal token surface needed to build a permit (satisfied by the EpicStarterToken contract)
+ */
+export interface PermitToken {
+  getAddress(): Promise<string>;
+  name(): Promise<string>;
+  nonces(owner: string): Promise<bigint>;
+}
+
+export interface PermitMessage {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface PermitTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: PermitMessage;
+}
+
+export interface SignedPermit extends PermitMessage {
+  signature: string;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Build the EIP-712 typed data of a permit
+ * @param token - Token contract
+ * @param chainId - Chain id of the network the token lives on
+ * @param owner - Token owner granting the allowance
+ * @param spender - Address receiving the allowance
+ * @param value - Allowance amount in wei
+ * @param deadline - Unix timestamp after which the permit is invalid
+ * @param nonce - Owner nonce (default: read from the token)
+ * @returns Typed data ready for signTypedData
+ */
+export async function buildPermitTypedData(
+  token: PermitToken,
+  chainId: BigNumberish,
+  owner: string,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish,
+  nonce?: BigNumberish,
+): Promise<PermitTypedData> {
+  return {
+    domain: {
+      name: await token.name(),
+      version: PERMIT_DOMAIN_VERSION,
+      chainId,
+      verifyingContract: await token.getAddress(),
+    },
+    types: PERMIT_TYPES,
+    message: {
+      owner,
+      spender,
+      value: BigInt(value),
+      nonce: nonce === undefined ? await token.nonces(owner) : BigInt(nonce),
+      deadline: BigInt(deadline),
+    },
+  };
+}
+
+/**
+ * Sign a permit for a signer
+ * @param signer - Token owner signing the permit
+ * @param token - Token contract
+ * @param spender - Address receiving the allowance
+ * @param value - Allowance amount in wei
+ * @param deadline - Unix timestamp after which the permit is invalid
+ * @returns Permit fields plus the signature split into v, r and s
+ */
+export async function signPermit(
+  signer: Signer,
+  token: PermitToken,
+  spender: string,
+  value: BigNumberish,
+  deadline: BigNumberish,
+): Promise<SignedPermit> {
+  if (!signer.provider) {
+    throw new Error("Signer must be connected to a provider");
+  }
+
+  const owner = await signer.getAddress();
+  const { chainId } = await signer.provider.getNetwork();
+  const { domain, types, message } = await buildPermitTypedData(token, chainId, owner, spender, value, deadline);
+
+  const signature = await signer.signTypedData(domain, types, message);
+  const { v, r, s } = Signature.from(signature);
+
+  return { ...message, signature, v, r, s };
+}